@@ -12,13 +12,18 @@ import AdminDocumentsV2 from "@/pages/admin-documents-v2";
 import AdminRecentMinutes from "@/pages/admin-recent-minutes";
 import AdminUsageDashboard from "@/pages/admin-usage";
 import AdminChatAnalytics from "@/pages/admin-chat-analytics";
+import AdminPrompts from "@/pages/admin-prompts";
 import Chat from "@/pages/chat";
+import DocumentViewer from "@/pages/document-viewer";
+import SharedSession from "@/pages/shared-session";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={() => <Redirect to="/chat" />} />
       <Route path="/chat" component={Chat} />
+      <Route path="/documents/:versionId" component={DocumentViewer} />
+      <Route path="/shared/:token" component={SharedSession} />
       <Route path="/admin/login" component={AdminLogin} />
       <Route path="/admin/documents" component={AdminDocuments} />
       <Route path="/admin/bulk-upload" component={AdminBulkUpload} />
@@ -27,6 +32,7 @@ function Router() {
       <Route path="/admin/recent-minutes" component={AdminRecentMinutes} />
       <Route path="/admin/usage" component={AdminUsageDashboard} />
       <Route path="/admin/chat-analytics" component={AdminChatAnalytics} />
+      <Route path="/admin/prompts" component={AdminPrompts} />
       <Route component={NotFound} />
     </Switch>
   );
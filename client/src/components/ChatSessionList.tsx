@@ -0,0 +1,361 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, type InfiniteData } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, ArchiveRestore, Loader2, MessageCircle, MoreHorizontal, Pencil, Search, Trash2, X } from "lucide-react";
+import {
+  CHAT_SESSION_PAGE_SIZE,
+  SESSION_TITLE_MAX_CHARS,
+  type ChatSessionListItem,
+  type ChatSessionListResult,
+  type ChatSessionUpdateInput,
+} from "@shared/chatSessions";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Pages of the current actor's sessions. Keys start with "/api/chat/sessions"
+ * so the existing invalidations after sending a message refresh the list.
+ */
+export function useChatSessionPages(params: { search: string; archived: boolean }) {
+  const { search, archived } = params;
+  return useInfiniteQuery<ChatSessionListResult>({
+    queryKey: ["/api/chat/sessions", "list", search, archived],
+    initialPageParam: 1,
+    queryFn: async ({ pageParam }) => {
+      const query = new URLSearchParams({
+        page: String(pageParam),
+        pageSize: String(CHAT_SESSION_PAGE_SIZE),
+      });
+      if (search) query.set("q", search);
+      if (archived) query.set("archived", "true");
+      const res = await fetch(`/api/chat/sessions?${query.toString()}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error("Failed to fetch sessions");
+      }
+      return res.json();
+    },
+    getNextPageParam: (lastPage) =>
+      lastPage.page < lastPage.totalPages ? lastPage.page + 1 : undefined,
+  });
+}
+
+function SessionRow({
+  session,
+  isActive,
+  onSelect,
+  onRename,
+  onArchive,
+  onDelete,
+}: {
+  session: ChatSessionListItem;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onArchive: (archived: boolean) => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(session.title);
+
+  const submitRename = () => {
+    const title = draft.trim();
+    setIsEditing(false);
+    if (title && title !== session.title) {
+      onRename(title);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="p-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              submitRename();
+            } else if (e.key === "Escape") {
+              setDraft(session.title);
+              setIsEditing(false);
+            }
+          }}
+          onBlur={submitRename}
+          maxLength={SESSION_TITLE_MAX_CHARS}
+          className="h-8 text-sm"
+          autoFocus
+          data-testid={`input-rename-session-${session.id}`}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`group flex items-start gap-1 rounded-md hover-elevate active-elevate-2 transition-colors ${
+        isActive
+          ? "bg-sidebar-accent text-sidebar-accent-foreground"
+          : "text-sidebar-foreground"
+      }`}
+    >
+      <button
+        onClick={onSelect}
+        className="flex-1 min-w-0 text-left p-3 pr-0"
+        data-testid={`button-session-${session.id}`}
+      >
+        <div className="flex items-start gap-2">
+          <MessageCircle className="w-4 h-4 mt-1 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{session.title}</p>
+            {session.matchSnippet && (
+              <p className="text-xs text-muted-foreground line-clamp-2" data-testid={`text-session-snippet-${session.id}`}>
+                {session.matchSnippet}
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <p className="text-xs text-muted-foreground">
+                {new Date(session.updatedAt).toLocaleDateString()}
+              </p>
+              {session.archivedAt && (
+                <Badge variant="outline" className="text-[10px] px-1 py-0">Archived</Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 mt-2 mr-1 text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+            aria-label="Conversation actions"
+            data-testid={`button-session-menu-${session.id}`}
+          >
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onSelect={() => {
+              setDraft(session.title);
+              setIsEditing(true);
+            }}
+            data-testid={`menu-rename-session-${session.id}`}
+          >
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => onArchive(!session.archivedAt)}
+            data-testid={`menu-archive-session-${session.id}`}
+          >
+            {session.archivedAt ? (
+              <ArchiveRestore className="w-4 h-4 mr-2" />
+            ) : (
+              <Archive className="w-4 h-4 mr-2" />
+            )}
+            {session.archivedAt ? "Unarchive" : "Archive"}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={onDelete}
+            className="text-destructive focus:text-destructive"
+            data-testid={`menu-delete-session-${session.id}`}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+interface ChatSessionListProps {
+  activeSessionId: string | null;
+  onSessionSelect: (id: string) => void;
+  onSessionDeleted: (id: string) => void;
+}
+
+/**
+ * Sidebar conversation list: search over titles and messages, an archived
+ * view, per-session rename / archive / delete, and "Load more" paging.
+ */
+export function ChatSessionList({ activeSessionId, onSessionSelect, onSessionDeleted }: ChatSessionListProps) {
+  const { toast } = useToast();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<ChatSessionListItem | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useChatSessionPages({
+    search,
+    archived: showArchived,
+  });
+  const sessions = data?.pages.flatMap((page) => page.items) || [];
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: ChatSessionUpdateInput }) => {
+      await apiRequest("PATCH", `/api/chat/sessions/${id}`, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", "list"] });
+    },
+    onError: () => {
+      toast({ title: "Could not update conversation", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/chat/sessions/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      // Drop the row right away so the chat doesn't fall back to the deleted session
+      queryClient.setQueriesData<InfiniteData<ChatSessionListResult>>(
+        { queryKey: ["/api/chat/sessions", "list"] },
+        (data) => data && {
+          ...data,
+          pages: data.pages.map((page) => ({ ...page, items: page.items.filter((item) => item.id !== id) })),
+        }
+      );
+      onSessionDeleted(id);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", "list"] });
+    },
+    onError: () => {
+      toast({ title: "Could not delete conversation", variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <div className="p-3 pb-1 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-medium text-muted-foreground">
+            {search ? "Search results" : showArchived ? "Archived conversations" : "Conversations"}
+          </h3>
+          {!search && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs text-muted-foreground"
+              onClick={() => setShowArchived((prev) => !prev)}
+              data-testid="button-toggle-archived"
+            >
+              {showArchived ? "Back" : "Archived"}
+            </Button>
+          )}
+        </div>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search conversations"
+            className="h-8 pl-7 pr-7 text-sm"
+            data-testid="input-search-sessions"
+          />
+          {searchInput && (
+            <button
+              onClick={() => setSearchInput("")}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground"
+              aria-label="Clear search"
+              data-testid="button-clear-session-search"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="px-2 pb-2 space-y-1">
+          {isLoading ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">Loading...</p>
+          ) : sessions.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground" data-testid="text-no-sessions">
+              {search ? "No conversations match your search." : showArchived ? "No archived conversations." : "No conversations yet."}
+            </p>
+          ) : (
+            sessions.map((session) => (
+              <SessionRow
+                key={session.id}
+                session={session}
+                isActive={activeSessionId === session.id}
+                onSelect={() => onSessionSelect(session.id)}
+                onRename={(title) => updateMutation.mutate({ id: session.id, input: { title } })}
+                onArchive={(archived) => updateMutation.mutate({ id: session.id, input: { archived } })}
+                onDelete={() => setPendingDelete(session)}
+              />
+            ))
+          )}
+          {hasNextPage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs text-muted-foreground"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-more-sessions"
+            >
+              {isFetchingNextPage && <Loader2 className="w-3 h-3 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          )}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" will be removed from your conversations and any share links to it will stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-session">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deleteMutation.mutate(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-session"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
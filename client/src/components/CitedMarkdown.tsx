@@ -0,0 +1,100 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { FileText, ExternalLink } from "lucide-react";
+import type { SourceCitation } from "@shared/schema";
+
+interface CitedMarkdownProps {
+  content: string;
+  sources: SourceCitation[];
+}
+
+const CITE_HREF_PREFIX = "#cite-";
+
+/**
+ * Turn bare "[n]" markers that match a cited source into links the markdown
+ * renderer hands to our anchor component. Existing markdown links are left alone.
+ */
+function linkCitationMarkers(content: string, markers: Set<number>): string {
+  return content.replace(/\[(\d+)\](?!\()/g, (match, n: string) =>
+    markers.has(Number(n)) ? `[\\[${n}\\]](${CITE_HREF_PREFIX}${n})` : match
+  );
+}
+
+function CitationHoverCard({ source }: { source: SourceCitation }) {
+  const details = [source.town, source.board, source.meetingDate || source.year]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <button
+          type="button"
+          className="align-super text-[0.7em] font-medium text-primary hover:underline px-0.5"
+          data-testid={`citation-marker-${source.marker}`}
+        >
+          [{source.marker}]
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80" data-testid={`citation-card-${source.marker}`}>
+        <div className="flex items-start gap-2">
+          <FileText className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+          <div className="min-w-0 space-y-1">
+            <p className="text-sm font-medium leading-snug">{source.title}</p>
+            {details && (
+              <p className="text-xs text-muted-foreground">{details}</p>
+            )}
+          </div>
+        </div>
+        {source.snippet && (
+          <blockquote className="mt-3 border-l-2 border-border pl-3 text-xs text-muted-foreground leading-relaxed">
+            {source.snippet}
+          </blockquote>
+        )}
+        {source.url && (
+          <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-3 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            View document
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+/**
+ * Markdown renderer for assistant answers that shows numbered citation
+ * markers as hover cards with the quoted snippet.
+ */
+export function CitedMarkdown({ content, sources }: CitedMarkdownProps) {
+  const byMarker = new Map<number, SourceCitation>();
+  sources.forEach((source) => {
+    if (source.marker !== undefined) byMarker.set(source.marker, source);
+  });
+
+  const markers = new Set<number>();
+  byMarker.forEach((_source, marker) => markers.add(marker));
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        a: ({ node, href, children, ...props }) => {
+          if (href?.startsWith(CITE_HREF_PREFIX)) {
+            const source = byMarker.get(Number(href.slice(CITE_HREF_PREFIX.length)));
+            if (source) return <CitationHoverCard source={source} />;
+          }
+          return <a href={href} {...props}>{children}</a>;
+        },
+      }}
+    >
+      {markers.size > 0 ? linkCitationMarkers(content, markers) : content}
+    </ReactMarkdown>
+  );
+}
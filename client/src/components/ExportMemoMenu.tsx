@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2 } from "lucide-react";
+
+type MemoFormat = "md" | "docx" | "pdf";
+
+const FORMAT_LABELS: Record<MemoFormat, string> = {
+  pdf: "PDF",
+  docx: "Word (.docx)",
+  md: "Markdown",
+};
+
+interface ExportMemoMenuProps {
+  sessionId: string;
+  disabled?: boolean;
+}
+
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  const match = header?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+/**
+ * Downloads the conversation as a cited memo for pasting into board packets.
+ */
+export function ExportMemoMenu({ sessionId, disabled }: ExportMemoMenuProps) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<MemoFormat | null>(null);
+
+  const download = async (format: MemoFormat) => {
+    setPending(format);
+    try {
+      const res = await fetch(`/api/chat/sessions/${sessionId}/export?format=${format}`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: "Export failed" }));
+        throw new Error(error.message || "Export failed");
+      }
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filenameFromDisposition(res.headers.get("Content-Disposition"), `conversation.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Could not export conversation",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || !!pending} data-testid="button-export-memo">
+          {pending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as memo</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(FORMAT_LABELS) as MemoFormat[]).map((format) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => download(format)}
+            data-testid={`menu-export-${format}`}
+          >
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
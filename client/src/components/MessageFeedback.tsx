@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ThumbsUp, ThumbsDown, Loader2 } from "lucide-react";
+import type { MessageFeedback as MessageFeedbackRecord } from "@shared/schema";
+import {
+  FEEDBACK_COMMENT_MAX_CHARS,
+  FEEDBACK_REASON_LABELS,
+  type FeedbackRating,
+  type FeedbackReasonCode,
+  type MessageFeedbackInput,
+} from "@shared/chatFeedback";
+
+interface MessageFeedbackProps {
+  messageId: string;
+  sessionId: string;
+  feedback?: MessageFeedbackRecord;
+}
+
+const REASON_CODES = Object.keys(FEEDBACK_REASON_LABELS) as FeedbackReasonCode[];
+
+export function MessageFeedback({ messageId, sessionId, feedback }: MessageFeedbackProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReasonCode[]>(
+    (feedback?.reasons as FeedbackReasonCode[] | undefined) || []
+  );
+  const [comment, setComment] = useState(feedback?.comment || "");
+
+  const rating = feedback?.rating as FeedbackRating | undefined;
+
+  const submitMutation = useMutation({
+    mutationFn: async (input: MessageFeedbackInput) => {
+      const res = await apiRequest("POST", `/api/chat/messages/${messageId}/feedback`, input);
+      return res.json();
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", sessionId, "feedback"] });
+      toast({ title: "Thanks for the feedback" });
+    },
+    onError: () => {
+      toast({ title: "Could not save feedback", variant: "destructive" });
+    },
+  });
+
+  const toggleReason = (code: FeedbackReasonCode) => {
+    setReasons((prev) => (prev.includes(code) ? prev.filter((r) => r !== code) : [...prev, code]));
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-7 w-7 ${rating === "up" ? "text-primary" : "text-muted-foreground"}`}
+        onClick={() => submitMutation.mutate({ rating: "up" })}
+        disabled={submitMutation.isPending}
+        aria-pressed={rating === "up"}
+        aria-label="Helpful answer"
+        data-testid={`button-feedback-up-${messageId}`}
+      >
+        <ThumbsUp className="w-3.5 h-3.5" />
+      </Button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-7 w-7 ${rating === "down" ? "text-destructive" : "text-muted-foreground"}`}
+            aria-pressed={rating === "down"}
+            aria-label="Report a problem with this answer"
+            data-testid={`button-feedback-down-${messageId}`}
+          >
+            <ThumbsDown className="w-3.5 h-3.5" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72" align="start">
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitMutation.mutate({ rating: "down", reasons, comment: comment.trim() || undefined });
+            }}
+          >
+            <p className="text-sm font-medium">What was wrong?</p>
+            <div className="space-y-2">
+              {REASON_CODES.map((code) => (
+                <div key={code} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`feedback-${messageId}-${code}`}
+                    checked={reasons.includes(code)}
+                    onCheckedChange={() => toggleReason(code)}
+                    data-testid={`checkbox-feedback-${code}`}
+                  />
+                  <Label htmlFor={`feedback-${messageId}-${code}`} className="text-sm font-normal">
+                    {FEEDBACK_REASON_LABELS[code]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Anything else we should know? (optional)"
+              maxLength={FEEDBACK_COMMENT_MAX_CHARS}
+              className="min-h-[72px] text-sm"
+              data-testid="input-feedback-comment"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              className="w-full"
+              disabled={submitMutation.isPending}
+              data-testid="button-feedback-submit"
+            >
+              {submitMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send feedback
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Info, AlertTriangle, AlertCircle } from "lucide-react";
+import { Info, AlertTriangle, AlertCircle, ShieldCheck, Shield, ShieldAlert } from "lucide-react";
 import type { ChatNotice, NoticeSeverity } from "@shared/chatNotices";
+import {
+  RECORD_STRENGTH_LABELS,
+  RECORD_STRENGTH_DESCRIPTIONS,
+  type AnswerRecordStrength,
+  type RecordStrengthLevel,
+} from "@shared/recordStrength";
 
 interface MessageNoticesProps {
   notices: ChatNotice[];
+  /** Shown first, as a strong / partial / thin record indicator */
+  recordStrength?: AnswerRecordStrength;
 }
 
 function getSeverityIcon(severity: NoticeSeverity = "info") {
@@ -91,14 +99,90 @@ function NoticeBadge({ notice }: { notice: ChatNotice }) {
   );
 }
 
-export function MessageNotices({ notices }: MessageNoticesProps) {
-  if (!notices || notices.length === 0) return null;
+function getRecordStrengthIcon(level: RecordStrengthLevel) {
+  switch (level) {
+    case "strong":
+      return <ShieldCheck className="w-3 h-3" />;
+    case "partial":
+      return <Shield className="w-3 h-3" />;
+    default:
+      return <ShieldAlert className="w-3 h-3" />;
+  }
+}
+
+function RecordStrengthDetails({ recordStrength }: { recordStrength: AnswerRecordStrength }) {
+  return (
+    <div className="flex flex-col gap-1">
+      <p>{RECORD_STRENGTH_DESCRIPTIONS[recordStrength.level]}</p>
+      <ul className="list-disc list-inside text-xs text-muted-foreground">
+        {recordStrength.reasons.map((reason) => (
+          <li key={reason}>{reason}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function RecordStrengthBadge({ recordStrength }: { recordStrength: AnswerRecordStrength }) {
+  const { level } = recordStrength;
+  const badge = (
+    <Badge
+      variant={level === "thin" ? "secondary" : "outline"}
+      className="flex items-center gap-1 text-xs"
+      data-testid={`record-strength-${level}`}
+    >
+      {getRecordStrengthIcon(level)}
+      <span>{RECORD_STRENGTH_LABELS[level]}</span>
+    </Badge>
+  );
+
+  return (
+    <>
+      <div className="hidden md:block">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <button
+              type="button"
+              className="appearance-none bg-transparent border-none p-0 m-0 cursor-help"
+              data-testid="record-strength-trigger-desktop"
+            >
+              {badge}
+            </button>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs text-sm">
+            <RecordStrengthDetails recordStrength={recordStrength} />
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="md:hidden">
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="appearance-none bg-transparent border-none p-0 m-0 cursor-pointer"
+              data-testid="record-strength-trigger-mobile"
+            >
+              {badge}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="max-w-xs text-sm">
+            <RecordStrengthDetails recordStrength={recordStrength} />
+          </PopoverContent>
+        </Popover>
+      </div>
+    </>
+  );
+}
+
+export function MessageNotices({ notices, recordStrength }: MessageNoticesProps) {
+  if ((!notices || notices.length === 0) && !recordStrength) return null;
 
   return (
     <div 
       className="flex flex-wrap gap-2 mt-1"
       data-testid="message-notices"
     >
+      {recordStrength && <RecordStrengthBadge recordStrength={recordStrength} />}
       {notices.map((notice, idx) => (
         <NoticeBadge key={`${notice.code}-${idx}`} notice={notice} />
       ))}
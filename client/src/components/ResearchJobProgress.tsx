@@ -0,0 +1,85 @@
+import { Bot, AlertCircle, BookOpenCheck, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { RESEARCH_STAGE_LABELS, type ResearchProgress } from "@shared/deepResearch";
+import type { ResearchJobSummary } from "@shared/schema";
+
+interface ResearchJobProgressProps {
+  job: ResearchJobSummary;
+}
+
+// Rough share of the run each stage accounts for; searching fills in as
+// information needs are covered
+function progressPercent(progress: ResearchProgress | null): number {
+  if (!progress) return 0;
+  switch (progress.stage) {
+    case "planning":
+      return 5;
+    case "searching":
+      return progress.infoNeedsTotal > 0
+        ? 10 + Math.round((progress.infoNeedsSearched / progress.infoNeedsTotal) * 50)
+        : 10;
+    case "gap_filling":
+      return 70;
+    case "writing":
+      return 85;
+  }
+}
+
+function progressDetail(progress: ResearchProgress): string {
+  const parts: string[] = [];
+  if (progress.infoNeedsTotal > 0) {
+    parts.push(`${progress.infoNeedsSearched} of ${progress.infoNeedsTotal} questions searched`);
+  }
+  if (progress.gapRound > 0) {
+    parts.push(`gap-filling round ${progress.gapRound}`);
+  }
+  parts.push(`${progress.sourcesFound} ${progress.sourcesFound === 1 ? "source" : "sources"} found`);
+  return parts.join(" · ");
+}
+
+/**
+ * Placeholder shown in the conversation while a deep research memo is being
+ * prepared, or when preparing it failed.
+ */
+export function ResearchJobProgress({ job }: ResearchJobProgressProps) {
+  const failed = job.status === "failed";
+  const progress = job.progress;
+
+  return (
+    <div className="flex gap-4 justify-start" data-testid={`research-job-${job.id}`}>
+      <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+        <Bot className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex flex-col gap-2 w-full max-w-md rounded-lg px-4 py-3 bg-card border border-card-border">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <BookOpenCheck className="w-4 h-4 text-primary" />
+          Research memo
+        </div>
+        {failed ? (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground" data-testid="text-research-failed">
+            <AlertCircle className="w-3.5 h-3.5" />
+            We couldn't finish this research. Try asking again later.
+          </p>
+        ) : (
+          <>
+            <p className="flex items-center gap-2 text-xs text-foreground" data-testid="text-research-stage">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              {job.status === "queued" || !progress
+                ? "Waiting to start"
+                : RESEARCH_STAGE_LABELS[progress.stage]}
+            </p>
+            <Progress value={progressPercent(progress)} className="h-2" />
+            {progress && (
+              <p className="text-xs text-muted-foreground" data-testid="text-research-detail">
+                {progressDetail(progress)}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              This can take several minutes. We'll let you know when the memo is ready.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
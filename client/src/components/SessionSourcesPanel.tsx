@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, BookOpen, Check, Pencil, Pin, PinOff, Trash2, X } from "lucide-react";
+import {
+  MAX_PINNED_SESSION_SOURCES,
+  SESSION_SOURCE_TITLE_MAX_CHARS,
+  type SessionSourceSummary,
+  type UpdateSessionSourceInput,
+} from "@shared/sessionSources";
+
+interface SessionSourcesPanelProps {
+  sessionId: string;
+}
+
+const SOURCE_TYPE_LABELS: Record<SessionSourceSummary["type"], string> = {
+  article: "Article",
+  minutes: "Minutes",
+  document: "Document",
+  paste: "Pasted text",
+};
+
+function sourceTitle(source: SessionSourceSummary): string {
+  return source.title || SOURCE_TYPE_LABELS[source.type];
+}
+
+function SourceItem({
+  sessionId,
+  source,
+  pinLimitReached,
+}: {
+  sessionId: string;
+  source: SessionSourceSummary;
+  pinLimitReached: boolean;
+}) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(sourceTitle(source));
+
+  const sourcesKey = ["/api/chat/sessions", sessionId, "sources"];
+  const sourceUrl = `/api/chat/sessions/${sessionId}/sources/${source.id}`;
+
+  const updateMutation = useMutation({
+    mutationFn: async (input: UpdateSessionSourceInput) => {
+      await apiRequest("PATCH", sourceUrl, input);
+    },
+    onSuccess: () => {
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: sourcesKey });
+    },
+    onError: () => {
+      toast({ title: "Could not update source", variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", sourceUrl);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sourcesKey });
+    },
+    onError: () => {
+      toast({ title: "Could not remove source", variant: "destructive" });
+    },
+  });
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `${sourceUrl}/propose`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sourcesKey });
+      toast({
+        title: "Proposed for the archive",
+        description: "An administrator will review it before it becomes searchable.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Could not propose source", variant: "destructive" });
+    },
+  });
+
+  const saveTitle = () => {
+    const title = draftTitle.trim();
+    if (!title || title === sourceTitle(source)) {
+      setEditing(false);
+      return;
+    }
+    updateMutation.mutate({ title });
+  };
+
+  return (
+    <li className="rounded-md border p-3 space-y-2" data-testid={`session-source-${source.id}`}>
+      <div className="flex items-start gap-2">
+        {editing ? (
+          <div className="flex flex-1 items-center gap-1">
+            <Input
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") saveTitle();
+                if (e.key === "Escape") setEditing(false);
+              }}
+              maxLength={SESSION_SOURCE_TITLE_MAX_CHARS}
+              className="h-8 text-sm"
+              autoFocus
+              data-testid={`input-source-title-${source.id}`}
+            />
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={saveTitle} aria-label="Save name">
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(false)} aria-label="Cancel">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate" data-testid={`text-source-title-${source.id}`}>
+              {sourceTitle(source)}
+            </p>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="secondary" className="text-xs">
+                {SOURCE_TYPE_LABELS[source.type]}
+              </Badge>
+              <span data-testid={`text-source-chars-${source.id}`}>
+                {source.charCount.toLocaleString()} characters
+              </span>
+            </div>
+          </div>
+        )}
+        {!editing && (
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => {
+                setDraftTitle(sourceTitle(source));
+                setEditing(true);
+              }}
+              aria-label="Rename"
+              data-testid={`button-rename-source-${source.id}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => updateMutation.mutate({ pinned: !source.pinned })}
+              disabled={updateMutation.isPending || (!source.pinned && pinLimitReached)}
+              title={!source.pinned && pinLimitReached ? `Up to ${MAX_PINNED_SESSION_SOURCES} sources can be pinned` : undefined}
+              aria-label={source.pinned ? "Unpin" : "Pin"}
+              data-testid={`button-pin-source-${source.id}`}
+            >
+              {source.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+              aria-label="Remove"
+              data-testid={`button-remove-source-${source.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-wrap">{source.preview}</p>
+
+      <div className="flex items-center justify-between gap-2">
+        {source.pinned ? (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Pin className="w-3 h-3" />
+            Pinned
+          </span>
+        ) : (
+          <span />
+        )}
+        {source.proposedJobId ? (
+          <span className="text-xs text-muted-foreground" data-testid={`text-source-proposed-${source.id}`}>
+            Proposed for review
+          </span>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => proposeMutation.mutate()}
+            disabled={proposeMutation.isPending}
+            data-testid={`button-propose-source-${source.id}`}
+          >
+            <Archive className="w-4 h-4 mr-1" />
+            Propose for archive
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The pasted articles and minutes the assistant keeps as context for this
+ * session. Pinned sources are kept when newer text is pasted; removed ones
+ * stop informing answers.
+ */
+export function SessionSourcesPanel({ sessionId }: SessionSourcesPanelProps) {
+  const { data: sources, isLoading } = useQuery<SessionSourceSummary[]>({
+    queryKey: ["/api/chat/sessions", sessionId, "sources"],
+  });
+  const pinLimitReached = (sources || []).filter((s) => s.pinned).length >= MAX_PINNED_SESSION_SOURCES;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-session-sources">
+          <BookOpen className="w-4 h-4 mr-1" />
+          Sources
+          {sources && sources.length > 0 && (
+            <Badge variant="secondary" className="ml-1 px-1.5">
+              {sources.length}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Session sources</SheetTitle>
+          <SheetDescription>
+            Long text you paste, like news articles or meeting minutes, is kept here and used when answering
+            later questions in this conversation.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="mt-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !sources || sources.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-session-sources">
+              No pasted sources in this conversation.
+            </p>
+          ) : (
+            <ul className="space-y-3" data-testid="list-session-sources">
+              {sources.map((source) => (
+                <SourceItem
+                  key={source.id}
+                  sessionId={sessionId}
+                  source={source}
+                  pinLimitReached={pinLimitReached}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
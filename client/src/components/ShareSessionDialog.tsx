@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Copy, Loader2, Share2, Trash2 } from "lucide-react";
+import type { CreateSessionShareInput, SessionShareLink } from "@shared/sessionShares";
+
+interface ShareSessionDialogProps {
+  sessionId: string;
+  disabled?: boolean;
+}
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+/**
+ * Publishes the conversation as it is now as a read-only link, and lists the
+ * session's live links so they can be copied or revoked.
+ */
+export function ShareSessionDialog({ sessionId, disabled }: ShareSessionDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [includeAttachmentText, setIncludeAttachmentText] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const sharesKey = ["/api/chat/sessions", sessionId, "shares"];
+
+  const { data: shares, isLoading } = useQuery<SessionShareLink[]>({
+    queryKey: sharesKey,
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateSessionShareInput) => {
+      const res = await apiRequest("POST", `/api/chat/sessions/${sessionId}/shares`, input);
+      return res.json() as Promise<SessionShareLink>;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      copyLink(share);
+    },
+    onError: () => {
+      toast({ title: "Could not create share link", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: string) => {
+      await apiRequest("DELETE", `/api/chat/shares/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      toast({ title: "Link revoked", description: "Anyone opening it will no longer see the conversation." });
+    },
+    onError: () => {
+      toast({ title: "Could not revoke link", variant: "destructive" });
+    },
+  });
+
+  const copyLink = async (share: SessionShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      setCopiedId(share.id);
+      toast({ title: "Link copied", description: "Anyone with the link can read this conversation." });
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      toast({
+        title: "Failed to copy",
+        description: "Please select and copy the link manually",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} data-testid="button-share-session">
+          <Share2 className="w-4 h-4 mr-1" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share conversation</DialogTitle>
+          <DialogDescription>
+            Creates a read-only link to the conversation as it is now, with its sources and notices.
+            Messages you send later are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`share-${sessionId}-attachments`}
+              checked={includeAttachmentText}
+              onCheckedChange={(checked) => setIncludeAttachmentText(checked === true)}
+              data-testid="checkbox-share-attachment-text"
+            />
+            <Label htmlFor={`share-${sessionId}-attachments`} className="text-sm font-normal">
+              Include text extracted from attached files
+            </Label>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate({ includeAttachmentText })}
+            disabled={createMutation.isPending}
+            data-testid="button-create-share"
+          >
+            {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Active links</p>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !shares || shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This conversation has not been shared.</p>
+          ) : (
+            shares.map((share) => (
+              <div key={share.id} className="flex items-center gap-2" data-testid={`share-link-${share.id}`}>
+                <Input readOnly value={shareUrl(share.token)} className="text-xs h-8" />
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {share.viewCount} {share.viewCount === 1 ? "view" : "views"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => copyLink(share)}
+                  aria-label="Copy link"
+                  data-testid={`button-copy-share-${share.id}`}
+                >
+                  {copiedId === share.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => revokeMutation.mutate(share.id)}
+                  disabled={revokeMutation.isPending}
+                  aria-label="Revoke link"
+                  data-testid={`button-revoke-share-${share.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
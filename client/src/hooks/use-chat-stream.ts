@@ -0,0 +1,183 @@
+import { useState, useCallback } from "react";
+import type { ChatBranchRequest, ChatV2Response } from "@shared/schema";
+import type {
+  ChatStreamEvent,
+  ChatStreamStage,
+  ChatStreamStageStatus,
+} from "@shared/chatStream";
+
+export interface ChatStreamOcrProgress {
+  filename: string;
+  page: number;
+  pageCount: number;
+}
+
+export interface ChatStreamProgress {
+  stages: Partial<Record<ChatStreamStage, ChatStreamStageStatus>>;
+  text: string;
+  started: boolean;
+  /** Latest page read while an attachment is OCR'd */
+  ocr?: ChatStreamOcrProgress;
+  /** Place in line while the server is busy; cleared once work starts */
+  queuePosition?: number;
+}
+
+const EMPTY_PROGRESS: ChatStreamProgress = { stages: {}, text: "", started: false };
+
+/**
+ * Parse complete SSE frames out of the buffer, returning the events and the
+ * unconsumed remainder.
+ */
+function parseFrames(buffer: string): { events: ChatStreamEvent[]; rest: string } {
+  const frames = buffer.split("\n\n");
+  const rest = frames.pop() ?? "";
+  const events: ChatStreamEvent[] = [];
+
+  for (const frame of frames) {
+    const data = frame
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) continue;
+    try {
+      events.push(JSON.parse(data) as ChatStreamEvent);
+    } catch {
+      // Ignore malformed frames; the final "done" event carries the full response
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * React hook for sending a chat message over the streaming endpoint.
+ *
+ * Stage transitions and answer tokens are exposed through `progress` while the
+ * request is in flight. The returned promise resolves with the same
+ * ChatV2Response the non-streaming endpoint returns. Pass `branch` to edit or
+ * regenerate an earlier turn instead of continuing the conversation.
+ * `streamUpload` sends files the same way, reporting OCR page progress for
+ * scanned attachments. While the server is at capacity, `progress.queuePosition`
+ * holds the request's place in line.
+ *
+ * @example
+ * ```tsx
+ * const { progress, streamMessage, reset } = useChatStream();
+ *
+ * const response = await streamMessage(sessionId, "When does the planning board meet?");
+ * reset();
+ * ```
+ */
+export function useChatStream() {
+  const [progress, setProgress] = useState<ChatStreamProgress>(EMPTY_PROGRESS);
+
+  const applyEvent = useCallback((event: ChatStreamEvent) => {
+    setProgress((prev) => {
+      switch (event.type) {
+        case "queue":
+          return { ...prev, started: true, queuePosition: event.position };
+        case "stage":
+          return {
+            ...prev,
+            started: true,
+            queuePosition: undefined,
+            stages: { ...prev.stages, [event.stage]: event.status },
+          };
+        case "token":
+          return { ...prev, started: true, text: prev.text + event.text };
+        case "ocr":
+          return {
+            ...prev,
+            started: true,
+            ocr: { filename: event.filename, page: event.page, pageCount: event.pageCount },
+          };
+        default:
+          return prev;
+      }
+    });
+  }, []);
+
+  const readStream = useCallback(
+    async (res: Response): Promise<ChatV2Response> => {
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: res.statusText }));
+        throw new Error(`${res.status}: ${error.message || "Request failed"}`);
+      }
+
+      if (!res.body) {
+        throw new Error("Streaming is not supported by this browser");
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseFrames(buffer);
+        buffer = rest;
+
+        for (const event of events) {
+          if (event.type === "done") {
+            reader.cancel().catch(() => {});
+            return event.response;
+          }
+          if (event.type === "error") {
+            reader.cancel().catch(() => {});
+            throw new Error(event.message);
+          }
+          applyEvent(event);
+        }
+      }
+
+      throw new Error("The connection closed before the answer was ready");
+    },
+    [applyEvent]
+  );
+
+  const streamMessage = useCallback(
+    async (sessionId: string, content: string, branch?: ChatBranchRequest): Promise<ChatV2Response> => {
+      setProgress(EMPTY_PROGRESS);
+
+      const res = await fetch(`/api/chat/v2/sessions/${sessionId}/messages/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ content, branch }),
+        credentials: "include",
+      });
+
+      return readStream(res);
+    },
+    [readStream]
+  );
+
+  const streamUpload = useCallback(
+    async (sessionId: string, content: string, files: File[]): Promise<ChatV2Response> => {
+      setProgress(EMPTY_PROGRESS);
+
+      const formData = new FormData();
+      formData.append("content", content);
+      for (const file of files) {
+        formData.append("files", file);
+      }
+
+      const res = await fetch(`/api/chat/v2/sessions/${sessionId}/messages/upload/stream`, {
+        method: "POST",
+        headers: { Accept: "text/event-stream" },
+        body: formData,
+        credentials: "include",
+      });
+
+      return readStream(res);
+    },
+    [readStream]
+  );
+
+  const reset = useCallback(() => setProgress(EMPTY_PROGRESS), []);
+
+  return { progress, streamMessage, streamUpload, reset };
+}
@@ -0,0 +1,66 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ToastAction } from "@/components/ui/toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ResearchJobSummary } from "@shared/schema";
+
+interface ResearchNotificationOptions {
+  enabled: boolean;
+  onOpenSession: (sessionId: string) => void;
+}
+
+function showBrowserNotification(job: ResearchJobSummary, onClick: () => void) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  const notification = new Notification(
+    job.status === "completed" ? "Your research memo is ready" : "Research could not be finished",
+    { body: job.question, tag: `research-${job.id}` }
+  );
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+}
+
+/**
+ * Tell the user when a deep research memo finishes, in any conversation.
+ * Shows a toast, plus a browser notification when the tab is in the
+ * background, then marks the jobs as notified.
+ */
+export function useResearchNotifications({ enabled, onOpenSession }: ResearchNotificationOptions) {
+  const { toast } = useToast();
+
+  const { data: finished } = useQuery<ResearchJobSummary[]>({
+    queryKey: ["/api/chat/research-jobs/notifications"],
+    enabled,
+    refetchInterval: 30000,
+  });
+
+  useEffect(() => {
+    if (!finished || finished.length === 0) return;
+
+    for (const job of finished) {
+      const open = () => onOpenSession(job.sessionId);
+      const completed = job.status === "completed";
+      toast({
+        title: completed ? "Research memo ready" : "Research could not be finished",
+        description: job.question,
+        variant: completed ? "default" : "destructive",
+        action: (
+          <ToastAction altText="Open conversation" onClick={open}>
+            Open
+          </ToastAction>
+        ),
+      });
+      if (document.hidden) {
+        showBrowserNotification(job, open);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", job.sessionId] });
+    }
+
+    apiRequest("POST", "/api/chat/research-jobs/notifications/ack", { ids: finished.map((j) => j.id) })
+      .then(() => queryClient.setQueryData(["/api/chat/research-jobs/notifications"], []))
+      .catch((error) => console.error("Failed to acknowledge research notifications:", error));
+  }, [finished, toast, onOpenSession]);
+}
@@ -55,7 +55,15 @@ import {
   ChevronLeft,
   ChevronRight,
   Loader2,
+  ThumbsUp,
+  ThumbsDown,
+  ShieldAlert,
 } from "lucide-react";
+import {
+  FEEDBACK_REASON_LABELS,
+  type FeedbackReasonCode,
+  type MessageFeedbackQueueResult,
+} from "@shared/chatFeedback";
 
 interface ChatAnalyticsListItem {
   sessionId: string;
@@ -67,6 +75,7 @@ interface ChatAnalyticsListItem {
   messageCount: number;
   totalCost: number;
   costPerMessage: number;
+  thinRecordAnswers: number;
   isAnalyzed: boolean;
   summary: string | null;
   critique: string | null;
@@ -129,6 +138,8 @@ function ScoreBadge({ score, label }: { score: number | null; label: string }) {
   );
 }
 
+const REASON_CODES = Object.keys(FEEDBACK_REASON_LABELS) as FeedbackReasonCode[];
+
 function formatDate(dateStr: string): string {
   try {
     return new Date(dateStr).toLocaleDateString("en-US", {
@@ -160,10 +171,15 @@ export default function AdminChatAnalytics() {
   const [search, setSearch] = useState("");
   const [searchInput, setSearchInput] = useState("");
   const [filterAnalyzed, setFilterAnalyzed] = useState<string>("all");
+  const [filterRecord, setFilterRecord] = useState<string>("all");
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const [selectedSessions, setSelectedSessions] = useState<Set<string>>(new Set());
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [feedbackPage, setFeedbackPage] = useState(1);
+  const [feedbackRating, setFeedbackRating] = useState<string>("down");
+  const [feedbackReason, setFeedbackReason] = useState<string>("all");
+  const [feedbackReviewed, setFeedbackReviewed] = useState<string>("false");
 
   const fetchWithAuth = useCallback(async (url: string, options: RequestInit = {}) => {
     const currentToken = localStorage.getItem("adminToken");
@@ -197,9 +213,12 @@ export default function AdminChatAnalytics() {
   if (filterAnalyzed !== "all") {
     queryParams.set("filterAnalyzed", filterAnalyzed);
   }
+  if (filterRecord === "thin") {
+    queryParams.set("filterThinRecord", "true");
+  }
 
   const { data, isLoading, refetch } = useQuery<ChatAnalyticsListResult>({
-    queryKey: ["/api/admin/chat-analytics", page, pageSize, sortField, sortOrder, search, filterAnalyzed],
+    queryKey: ["/api/admin/chat-analytics", page, pageSize, sortField, sortOrder, search, filterAnalyzed, filterRecord],
     queryFn: () => fetchWithAuth(`/api/admin/chat-analytics?${queryParams.toString()}`),
     enabled: !!token,
   });
@@ -210,6 +229,36 @@ export default function AdminChatAnalytics() {
     enabled: !!selectedSessionId && !!token,
   });
 
+  const feedbackParams = new URLSearchParams({
+    page: feedbackPage.toString(),
+    pageSize: "10",
+  });
+  if (feedbackRating !== "all") feedbackParams.set("rating", feedbackRating);
+  if (feedbackReason !== "all") feedbackParams.set("reason", feedbackReason);
+  if (feedbackReviewed !== "all") feedbackParams.set("reviewed", feedbackReviewed);
+
+  const { data: feedbackData, isLoading: feedbackLoading } = useQuery<MessageFeedbackQueueResult>({
+    queryKey: ["/api/admin/chat-analytics/feedback", feedbackPage, feedbackRating, feedbackReason, feedbackReviewed],
+    queryFn: () => fetchWithAuth(`/api/admin/chat-analytics/feedback?${feedbackParams.toString()}`),
+    enabled: !!token,
+  });
+
+  const reviewFeedbackMutation = useMutation({
+    mutationFn: async ({ feedbackId, reviewed }: { feedbackId: string; reviewed: boolean }) => {
+      return fetchWithAuth(`/api/admin/chat-analytics/feedback/${feedbackId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewed }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/chat-analytics/feedback"] });
+    },
+    onError: () => {
+      toast({ title: "Could not update feedback", variant: "destructive" });
+    },
+  });
+
   const analyzeMutation = useMutation({
     mutationFn: async (sessionId: string) => {
       return fetchWithAuth(`/api/admin/chat-analytics/${sessionId}/analyze`, {
@@ -289,6 +338,8 @@ export default function AdminChatAnalytics() {
   };
 
   const items = data?.items || [];
+  const feedbackItems = feedbackData?.items || [];
+  const feedbackTotalPages = feedbackData?.totalPages || 1;
   const total = data?.total || 0;
   const totalPages = data?.totalPages || 1;
 
@@ -331,6 +382,12 @@ export default function AdminChatAnalytics() {
                 Usage Dashboard
               </Button>
             </Link>
+            <Link href="/admin/prompts">
+              <Button variant="outline" size="sm" data-testid="button-prompts">
+                <FileText className="h-4 w-4 mr-2" />
+                Prompts
+              </Button>
+            </Link>
           </div>
         </div>
 
@@ -364,6 +421,15 @@ export default function AdminChatAnalytics() {
                     <SelectItem value="false">Not Analyzed</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select value={filterRecord} onValueChange={(v) => { setFilterRecord(v); setPage(1); }}>
+                  <SelectTrigger className="w-44" data-testid="select-filter-record">
+                    <SelectValue placeholder="Record strength" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Answers</SelectItem>
+                    <SelectItem value="thin">Thin Record Answers</SelectItem>
+                  </SelectContent>
+                </Select>
                 <Button
                   variant="outline"
                   size="sm"
@@ -531,7 +597,20 @@ export default function AdminChatAnalytics() {
                               )}
                             </TableCell>
                             <TableCell className="text-sm">
-                              {item.messageCount}
+                              <div className="flex items-center gap-2">
+                                {item.messageCount}
+                                {item.thinRecordAnswers > 0 && (
+                                  <Badge
+                                    variant="outline"
+                                    className="gap-1 text-xs"
+                                    title="Answers with a thin record"
+                                    data-testid={`badge-thin-record-${item.sessionId}`}
+                                  >
+                                    <ShieldAlert className="h-3 w-3" />
+                                    {item.thinRecordAnswers}
+                                  </Badge>
+                                )}
+                              </div>
                             </TableCell>
                             <TableCell className="text-sm">
                               {formatCost(item.totalCost)}
@@ -646,6 +725,173 @@ export default function AdminChatAnalytics() {
             </div>
           </CardContent>
         </Card>
+        <Card className="mb-6">
+          <CardHeader className="pb-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">Answer Feedback</CardTitle>
+                <CardDescription>
+                  Thumbs up/down from users, alongside the critic scores for the same session
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={feedbackRating} onValueChange={(v) => { setFeedbackRating(v); setFeedbackPage(1); }}>
+                  <SelectTrigger className="w-36" data-testid="select-feedback-rating">
+                    <SelectValue placeholder="Rating" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Ratings</SelectItem>
+                    <SelectItem value="down">Thumbs Down</SelectItem>
+                    <SelectItem value="up">Thumbs Up</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={feedbackReason} onValueChange={(v) => { setFeedbackReason(v); setFeedbackPage(1); }}>
+                  <SelectTrigger className="w-44" data-testid="select-feedback-reason">
+                    <SelectValue placeholder="Reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Reasons</SelectItem>
+                    {REASON_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>{FEEDBACK_REASON_LABELS[code]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={feedbackReviewed} onValueChange={(v) => { setFeedbackReviewed(v); setFeedbackPage(1); }}>
+                  <SelectTrigger className="w-36" data-testid="select-feedback-reviewed">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="false">Needs Review</SelectItem>
+                    <SelectItem value="true">Reviewed</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {feedbackLoading ? (
+              <div className="space-y-4">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : feedbackItems.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p className="text-sm">No feedback matches these filters</p>
+              </div>
+            ) : (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="w-12">Rating</TableHead>
+                      <TableHead>Chat / Answer</TableHead>
+                      <TableHead>Reasons</TableHead>
+                      <TableHead>Doc Score</TableHead>
+                      <TableHead>Answer Score</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {feedbackItems.map((fb) => (
+                      <TableRow key={fb.id} data-testid={`row-feedback-${fb.id}`}>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {formatDate(fb.createdAt)}
+                        </TableCell>
+                        <TableCell>
+                          {fb.rating === "up" ? (
+                            <ThumbsUp className="h-4 w-4 text-primary" />
+                          ) : (
+                            <ThumbsDown className="h-4 w-4 text-destructive" />
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-md">
+                          <p className="font-medium text-sm truncate">{fb.sessionTitle}</p>
+                          <p className="text-xs text-muted-foreground line-clamp-2">{fb.answerExcerpt}</p>
+                          {fb.comment && (
+                            <p className="text-sm mt-1 italic">"{fb.comment}"</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {fb.reasons.map((reason) => (
+                              <Badge key={reason} variant="outline" className="text-xs">
+                                {FEEDBACK_REASON_LABELS[reason] || reason}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <ScoreBadge score={fb.documentQualityScore} label="Doc" />
+                        </TableCell>
+                        <TableCell>
+                          <ScoreBadge score={fb.answerQualityScore} label="Answer" />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openDetails(fb.sessionId)}
+                              data-testid={`button-view-feedback-${fb.id}`}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => reviewFeedbackMutation.mutate({ feedbackId: fb.id, reviewed: !fb.reviewedAt })}
+                              disabled={reviewFeedbackMutation.isPending}
+                              title={fb.reviewedAt ? "Mark as needing review" : "Mark as reviewed"}
+                              data-testid={`button-review-feedback-${fb.id}`}
+                            >
+                              {fb.reviewedAt ? (
+                                <XCircle className="h-4 w-4" />
+                              ) : (
+                                <CheckCircle2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-4">
+              <div className="text-sm text-muted-foreground">
+                {feedbackData?.total || 0} feedback entries
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFeedbackPage(Math.max(1, feedbackPage - 1))}
+                  disabled={feedbackPage <= 1}
+                  data-testid="button-feedback-prev-page"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm">
+                  Page {feedbackPage} of {feedbackTotalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFeedbackPage(Math.min(feedbackTotalPages, feedbackPage + 1))}
+                  disabled={feedbackPage >= feedbackTotalPages}
+                  data-testid="button-feedback-next-page"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       <Dialog open={detailsDialogOpen} onOpenChange={setDetailsDialogOpen}>
@@ -165,6 +165,15 @@ function JobDetailsPopover({ job }: { job: IngestionJobWithBlob }) {
               {getDuplicateWarningDisplay(job.duplicateWarning)}
             </div>
           )}
+
+          {job.statusNote && (
+            <div>
+              <h4 className="font-medium mb-1">Note</h4>
+              <p className="text-sm text-muted-foreground" data-testid={`text-status-note-${job.id}`}>
+                {job.statusNote}
+              </p>
+            </div>
+          )}
           
           {job.fileBlob.previewText && (
             <div>
@@ -0,0 +1,405 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Eye, Save, FileText } from "lucide-react";
+import type { PromptTemplate } from "@shared/schema";
+import type { PromptKey, PromptKeySummary, PromptPreviewResult } from "@shared/promptTemplates";
+
+function formatDate(dateStr: string | Date) {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function WeightEditor({
+  version,
+  totalWeight,
+  onSave,
+  saving,
+}: {
+  version: PromptTemplate;
+  totalWeight: number;
+  onSave: (trafficWeight: number) => void;
+  saving: boolean;
+}) {
+  const [draft, setDraft] = useState(String(version.trafficWeight));
+
+  useEffect(() => {
+    setDraft(String(version.trafficWeight));
+  }, [version.trafficWeight]);
+
+  const parsed = parseInt(draft, 10);
+  const changed = !isNaN(parsed) && parsed !== version.trafficWeight;
+  const share = totalWeight > 0 ? Math.round((version.trafficWeight / totalWeight) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min={0}
+        max={100}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className="h-8 w-20"
+        data-testid={`input-weight-${version.id}`}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!changed || saving}
+        onClick={() => onSave(parsed)}
+        data-testid={`button-save-weight-${version.id}`}
+      >
+        Save
+      </Button>
+      {version.trafficWeight > 0 && (
+        <Badge variant="secondary" data-testid={`badge-share-${version.id}`}>
+          {share}% of sessions
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+export default function AdminPrompts() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = localStorage.getItem("adminToken");
+
+  const [selectedKey, setSelectedKey] = useState<PromptKey>("synthesis");
+  const [draftTemplate, setDraftTemplate] = useState("");
+  const [draftNotes, setDraftNotes] = useState("");
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [preview, setPreview] = useState<PromptPreviewResult | null>(null);
+
+  const fetchWithAuth = useCallback(async (url: string, options: RequestInit = {}) => {
+    const currentToken = localStorage.getItem("adminToken");
+    if (!currentToken) {
+      setLocation("/admin/login");
+      throw new Error("No auth token");
+    }
+    const res = await fetch(url, {
+      ...options,
+      headers: {
+        ...options.headers,
+        Authorization: `Bearer ${currentToken}`,
+      },
+    });
+    if (res.status === 401) {
+      localStorage.removeItem("adminToken");
+      setLocation("/admin/login");
+      throw new Error("Session expired");
+    }
+    if (!res.ok) throw new Error("Request failed");
+    return res.json();
+  }, [setLocation]);
+
+  const { data: prompts, isLoading } = useQuery<PromptKeySummary[]>({
+    queryKey: ["/api/admin/prompts"],
+    queryFn: () => fetchWithAuth("/api/admin/prompts"),
+    enabled: !!token,
+  });
+
+  const selected = prompts?.find((p) => p.key === selectedKey);
+  const totalWeight = selected?.versions.reduce((sum, v) => sum + v.trafficWeight, 0) ?? 0;
+
+  const startFrom = (version: number, template: string) => {
+    setBaseVersion(version);
+    setDraftTemplate(template);
+    setDraftNotes("");
+    setPreview(null);
+  };
+
+  // Start the editor from the newest version (or the built-in text) when
+  // the page loads or another prompt is picked, not on every refetch
+  const promptsLoaded = !!prompts;
+  useEffect(() => {
+    if (!selected) return;
+    const latest = selected.versions[0];
+    if (latest) {
+      startFrom(latest.version, latest.template);
+    } else {
+      startFrom(0, selected.builtinTemplate);
+    }
+  }, [selectedKey, promptsLoaded]);
+
+  const weightMutation = useMutation({
+    mutationFn: async ({ id, trafficWeight }: { id: string; trafficWeight: number }) => {
+      return fetchWithAuth(`/api/admin/prompts/versions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ trafficWeight }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompts"] });
+    },
+    onError: () => {
+      toast({ title: "Could not update traffic weight", variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (): Promise<PromptPreviewResult> => {
+      return fetchWithAuth("/api/admin/prompts/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: selectedKey, template: draftTemplate }),
+      });
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: () => {
+      toast({ title: "Could not render preview", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<PromptTemplate> => {
+      return fetchWithAuth(`/api/admin/prompts/${selectedKey}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ template: draftTemplate, notes: draftNotes }),
+      });
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompts"] });
+      setBaseVersion(created.version);
+      setDraftNotes("");
+      toast({
+        title: `Saved version ${created.version}`,
+        description: "Give it a traffic weight to start serving it.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Could not save prompt version", variant: "destructive" });
+    },
+  });
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-96">
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground mb-4">Admin authentication required</p>
+            <Link href="/admin/login">
+              <Button data-testid="button-login">Go to Login</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/admin/documents">
+              <Button variant="ghost" size="icon" data-testid="button-back">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-semibold">Prompt Templates</h1>
+              <p className="text-sm text-muted-foreground">
+                Edit prompt versions and split sessions between them
+              </p>
+            </div>
+          </div>
+          <Select value={selectedKey} onValueChange={(v) => setSelectedKey(v as PromptKey)}>
+            <SelectTrigger className="w-72" data-testid="select-prompt-key">
+              <SelectValue placeholder="Prompt" />
+            </SelectTrigger>
+            <SelectContent>
+              {(prompts ?? []).map((p) => (
+                <SelectItem key={p.key} value={p.key}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !selected ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Versions</CardTitle>
+                <CardDescription>
+                  Sessions are assigned a live version in proportion to its weight and keep it for the whole
+                  conversation. With no live versions, the built-in prompt is used.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Traffic weight</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.versions.map((version) => (
+                      <TableRow key={version.id} data-testid={`row-prompt-version-${version.version}`}>
+                        <TableCell className="font-medium">v{version.version}</TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                          {version.notes || "—"}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatDate(version.createdAt)}
+                          {version.createdBy && (
+                            <span className="block text-xs text-muted-foreground">{version.createdBy}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <WeightEditor
+                            version={version}
+                            totalWeight={totalWeight}
+                            saving={weightMutation.isPending}
+                            onSave={(trafficWeight) => weightMutation.mutate({ id: version.id, trafficWeight })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => startFrom(version.version, version.template)}
+                            data-testid={`button-edit-version-${version.version}`}
+                          >
+                            <FileText className="h-4 w-4 mr-1" />
+                            Edit as new
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow data-testid="row-prompt-version-0">
+                      <TableCell className="font-medium">v0</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">Built-in prompt</TableCell>
+                      <TableCell />
+                      <TableCell>
+                        {totalWeight === 0 && <Badge variant="secondary">Serving all sessions</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => startFrom(0, selected.builtinTemplate)}
+                          data-testid="button-edit-version-0"
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          Edit as new
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Editor</CardTitle>
+                  <CardDescription>
+                    {baseVersion !== null ? `Starting from v${baseVersion}. ` : ""}
+                    Saving creates a new version with no traffic.
+                    {selected.variables.length > 0 && (
+                      <span className="block mt-1">
+                        Placeholders:{" "}
+                        {selected.variables.map((name) => (
+                          <code key={name} className="mr-1 text-xs">{`{{${name}}}`}</code>
+                        ))}
+                      </span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Textarea
+                    value={draftTemplate}
+                    onChange={(e) => setDraftTemplate(e.target.value)}
+                    className="min-h-[420px] font-mono text-xs"
+                    data-testid="textarea-prompt-template"
+                  />
+                  <Input
+                    placeholder="What changed in this version?"
+                    value={draftNotes}
+                    onChange={(e) => setDraftNotes(e.target.value)}
+                    data-testid="input-prompt-notes"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => previewMutation.mutate()}
+                      disabled={previewMutation.isPending}
+                      data-testid="button-preview-prompt"
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      Preview
+                    </Button>
+                    <Button
+                      onClick={() => saveMutation.mutate()}
+                      disabled={!draftTemplate.trim() || saveMutation.isPending}
+                      data-testid="button-save-prompt"
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save as new version
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                  <CardDescription>The draft rendered with sample values</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {preview ? (
+                    <>
+                      {preview.unknownVariables.length > 0 && (
+                        <p className="text-sm text-destructive" data-testid="text-unknown-variables">
+                          Not filled in by this prompt: {preview.unknownVariables.map((n) => `{{${n}}}`).join(", ")}
+                        </p>
+                      )}
+                      {preview.unusedVariables.length > 0 && (
+                        <p className="text-sm text-muted-foreground" data-testid="text-unused-variables">
+                          Not used by this draft: {preview.unusedVariables.map((n) => `{{${n}}}`).join(", ")}
+                        </p>
+                      )}
+                      <pre
+                        className="max-h-[460px] overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs"
+                        data-testid="text-prompt-preview"
+                      >
+                        {preview.text}
+                      </pre>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Preview the draft to see the rendered prompt.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
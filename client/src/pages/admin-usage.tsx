@@ -18,7 +18,10 @@ import {
   FileText,
   Target,
   Shield,
-  Zap
+  Zap,
+  Database,
+  FlaskConical,
+  Timer
 } from "lucide-react";
 
 interface OverviewMetrics {
@@ -77,6 +80,56 @@ interface CostMetrics {
   costPerUsefulSession: number;
 }
 
+interface AnswerCacheMetrics {
+  lookups: number;
+  hits: number;
+  hitRate: number;
+  hitsPerDay: { date: string; lookups: number; hits: number }[];
+  topCachedQuestions: { question: string; town: string | null; hits: number }[];
+}
+
+interface PipelineVariantMetrics {
+  variant: string;
+  answers: number;
+  cachedAnswers: number;
+  actors: number;
+  avgLatencyMs: number;
+  p50LatencyMs: number;
+  p90LatencyMs: number;
+  costPerAnswer: number;
+  feedbackUp: number;
+  feedbackDown: number;
+  analyzedSessions: number;
+  avgDocumentQualityScore: number | null;
+  avgAnswerQualityScore: number | null;
+}
+
+interface PipelineExperimentMetrics {
+  experiment: string;
+  allocation: Record<string, number>;
+  variants: PipelineVariantMetrics[];
+}
+
+interface PriorityClassQueueMetrics {
+  priorityClass: string;
+  requests: number;
+  queued: number;
+  avgWaitMs: number;
+  p90WaitMs: number;
+  maxWaitMs: number;
+  rejected: number;
+  timedOut: number;
+}
+
+interface PipelineQueueMetrics {
+  current: {
+    active: number;
+    maxConcurrent: number;
+    queued: Record<string, number>;
+  };
+  classes: PriorityClassQueueMetrics[];
+}
+
 interface AlertItem {
   type: "no_doc_rate" | "daily_cost" | "scope_mismatch";
   message: string;
@@ -552,6 +605,212 @@ function CostSection({ data }: { data: CostMetrics | undefined }) {
   );
 }
 
+function AnswerCacheSection({ data }: { data: AnswerCacheMetrics | undefined }) {
+  if (!data) return <LoadingSkeleton />;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <MetricCard 
+          title="Cache Hit Rate" 
+          value={`${data.hitRate.toFixed(1)}%`} 
+          subtitle={`${data.hits} of ${data.lookups} standalone questions`}
+          icon={Database} 
+        />
+        <MetricCard 
+          title="Answers Served from Cache" 
+          value={data.hits} 
+          subtitle="No LLM calls billed"
+          icon={Zap} 
+        />
+      </div>
+
+      {data.hitsPerDay.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Daily Hit Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col gap-2">
+              <div className="flex items-end gap-1 h-20">
+                {data.hitsPerDay.map((day, i) => {
+                  const rate = day.lookups > 0 ? (day.hits / day.lookups) * 100 : 0;
+                  return (
+                    <div 
+                      key={i} 
+                      className="flex-1 flex flex-col items-center"
+                    >
+                      <div 
+                        className="w-full bg-primary rounded-t"
+                        style={{ height: `${Math.max(rate, 4)}%` }}
+                        title={`${day.date}: ${day.hits}/${day.lookups} (${rate.toFixed(1)}%)`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex gap-1">
+                {data.hitsPerDay.map((day, i) => {
+                  const dateStr = day.date.split('-').slice(1).join('/');
+                  return (
+                    <div key={i} className="flex-1 text-center">
+                      <span className="text-xs text-muted-foreground">{dateStr}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {data.topCachedQuestions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Most Reused Answers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {data.topCachedQuestions.map((entry, i) => (
+                <div key={i} className="flex items-center justify-between gap-2">
+                  <span className="text-sm truncate max-w-[400px]">
+                    {entry.question}
+                    {entry.town && <span className="text-muted-foreground"> · {entry.town}</span>}
+                  </span>
+                  <Badge variant="secondary">{entry.hits}</Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+const PIPELINE_VARIANT_LABELS: Record<string, string> = {
+  v3: "V3 pipeline",
+  unified: "Unified pipeline",
+};
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function ExperimentRow({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium">{value}</span>
+    </div>
+  );
+}
+
+function PipelineExperimentSection({ data }: { data: PipelineExperimentMetrics | undefined }) {
+  if (!data) return <LoadingSkeleton />;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {data.variants.map((v) => {
+        const rated = v.feedbackUp + v.feedbackDown;
+        return (
+          <Card key={v.variant} data-testid={`card-variant-${v.variant}`}>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {PIPELINE_VARIANT_LABELS[v.variant] || v.variant}
+              </CardTitle>
+              <Badge variant="secondary">{data.allocation[v.variant] ?? 0}% of actors</Badge>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <ExperimentRow label="Answers" value={`${v.answers} (+${v.cachedAnswers} cached)`} />
+              <ExperimentRow label="Actors" value={v.actors} />
+              <ExperimentRow
+                label="Latency (avg / p50 / p90)"
+                value={`${formatSeconds(v.avgLatencyMs)} / ${formatSeconds(v.p50LatencyMs)} / ${formatSeconds(v.p90LatencyMs)}`}
+              />
+              <ExperimentRow label="Cost per answer" value={`$${v.costPerAnswer.toFixed(4)}`} />
+              <ExperimentRow
+                label="Positive feedback"
+                value={rated > 0 ? `${((v.feedbackUp / rated) * 100).toFixed(0)}% of ${rated}` : "—"}
+              />
+              <ExperimentRow
+                label="Analytics scores (docs / answer)"
+                value={
+                  v.analyzedSessions > 0
+                    ? `${v.avgDocumentQualityScore?.toFixed(1) ?? "—"} / ${v.avgAnswerQualityScore?.toFixed(1) ?? "—"} (${v.analyzedSessions} sessions)`
+                    : "—"
+                }
+              />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+const PRIORITY_CLASS_LABELS: Record<string, string> = {
+  municipal_staff: "Municipal staff",
+  paying: "Paying",
+  free: "Free",
+  anonymous: "Anonymous",
+  background: "Background jobs",
+};
+
+function PipelineQueueSection({ data }: { data: PipelineQueueMetrics | undefined }) {
+  if (!data) return <LoadingSkeleton />;
+
+  const waiting = Object.values(data.current.queued).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <MetricCard
+          title="Pipelines Running"
+          value={`${data.current.active} / ${data.current.maxConcurrent}`}
+          subtitle="Right now, on this server"
+          icon={Zap}
+        />
+        <MetricCard
+          title="Waiting for a Slot"
+          value={waiting}
+          subtitle="Right now, all classes"
+          icon={Timer}
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {data.classes.map((c) => (
+          <Card key={c.priorityClass} data-testid={`card-queue-${c.priorityClass}`}>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {PRIORITY_CLASS_LABELS[c.priorityClass] || c.priorityClass}
+              </CardTitle>
+              <Badge variant="secondary">{data.current.queued[c.priorityClass] ?? 0} waiting</Badge>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <ExperimentRow label="Requests" value={c.requests} />
+              <ExperimentRow
+                label="Had to wait"
+                value={c.requests > 0 ? `${((c.queued / c.requests) * 100).toFixed(0)}%` : "—"}
+              />
+              <ExperimentRow
+                label="Wait (avg / p90 / max)"
+                value={
+                  c.queued > 0
+                    ? `${formatSeconds(c.avgWaitMs)} / ${formatSeconds(c.p90WaitMs)} / ${formatSeconds(c.maxWaitMs)}`
+                    : "—"
+                }
+              />
+              <ExperimentRow label="Turned away (full / timed out)" value={`${c.rejected} / ${c.timedOut}`} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function AlertsSection({ data }: { data: AlertItem[] | undefined }) {
   if (!data) return <LoadingSkeleton />;
 
@@ -653,6 +912,24 @@ export default function AdminUsageDashboard() {
     enabled: !!token,
   });
 
+  const answerCacheQuery = useQuery<AnswerCacheMetrics>({
+    queryKey: [`/api/admin/usage/answer-cache`, days],
+    queryFn: () => fetchWithAuth(`/api/admin/usage/answer-cache?days=${days}`),
+    enabled: !!token,
+  });
+
+  const experimentQuery = useQuery<PipelineExperimentMetrics>({
+    queryKey: [`/api/admin/usage/experiments`, days],
+    queryFn: () => fetchWithAuth(`/api/admin/usage/experiments?days=${days}`),
+    enabled: !!token,
+  });
+
+  const queueQuery = useQuery<PipelineQueueMetrics>({
+    queryKey: [`/api/admin/usage/queue`, days],
+    queryFn: () => fetchWithAuth(`/api/admin/usage/queue?days=${days}`),
+    enabled: !!token,
+  });
+
   const alertsQuery = useQuery<AlertItem[]>({
     queryKey: [`/api/admin/usage/alerts`],
     queryFn: () => fetchWithAuth(`/api/admin/usage/alerts`),
@@ -780,6 +1057,36 @@ export default function AdminUsageDashboard() {
             </h2>
             <CostSection data={costQuery.data} />
           </section>
+
+          <Separator />
+
+          <section>
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Answer Cache
+            </h2>
+            <AnswerCacheSection data={answerCacheQuery.data} />
+          </section>
+
+          <Separator />
+
+          <section>
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Pipeline Experiment
+            </h2>
+            <PipelineExperimentSection data={experimentQuery.data} />
+          </section>
+
+          <Separator />
+
+          <section>
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Pipeline Queue
+            </h2>
+            <PipelineQueueSection data={queueQuery.data} />
+          </section>
         </div>
       </div>
     </div>
@@ -7,7 +7,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { apiRequest } from "@/lib/queryClient";
-import { MessageCircle, Plus, Send, Loader2, User, Bot, Menu, FileText, ExternalLink, Sparkles, ChevronDown, Link2, Paperclip, X, AlertCircle } from "lucide-react";
+import { MessageCircle, Plus, Send, Loader2, User, Bot, Menu, FileText, ExternalLink, Sparkles, ChevronDown, ChevronLeft, ChevronRight, Link2, Paperclip, X, AlertCircle, Check, Pencil, RefreshCw, Clock, BookOpenCheck } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { UserStatusBar } from "@/components/user-status-bar";
@@ -15,20 +15,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Separator } from "@/components/ui/separator";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { ChatSession, ChatMessage, MinutesUpdateItem } from "@shared/schema";
+import type { ChatSession, BranchedChatMessage, ChatBranchRequest, MinutesUpdateItem, SourceCitation, QueuedQuestionSummary, ResearchJobSummary, MessageFeedback as MessageFeedbackRecord } from "@shared/schema";
 import type { ChatNotice } from "@shared/chatNotices";
+import type { ClarificationPrompt } from "@shared/chatClarification";
+import type { AnswerRecordStrength } from "@shared/recordStrength";
+import type { AuthorityEntry } from "@shared/deepResearch";
+import { CHAT_STREAM_STAGE_LABELS, type ChatStreamStage } from "@shared/chatStream";
 import { MessageNotices } from "@/components/MessageNotices";
+import { ResearchJobProgress } from "@/components/ResearchJobProgress";
+import { CitedMarkdown } from "@/components/CitedMarkdown";
+import { MessageFeedback } from "@/components/MessageFeedback";
+import { ExportMemoMenu } from "@/components/ExportMemoMenu";
+import { ShareSessionDialog } from "@/components/ShareSessionDialog";
+import { SessionSourcesPanel } from "@/components/SessionSourcesPanel";
+import { ChatSessionList, useChatSessionPages } from "@/components/ChatSessionList";
 import { useToast } from "@/hooks/use-toast";
+import { useChatStream, type ChatStreamProgress } from "@/hooks/use-chat-stream";
+import { useResearchNotifications } from "@/hooks/use-research-notifications";
 
 // V2 response types
-interface SourceCitation {
-  id: string;
-  title: string;
-  town?: string;
-  year?: string;
-  category?: string;
-  url?: string;
-}
 
 interface V2Metadata {
   v2: true;
@@ -42,10 +47,22 @@ interface V2Metadata {
       riskOfMisleading: number;
     };
     limitationsNote?: string;
+    recordStrength?: AnswerRecordStrength;
   };
   sources: SourceCitation[];
   suggestedFollowUps: string[];
   notices?: ChatNotice[];
+  clarification?: ClarificationPrompt;
+  // High-demand reply the user can queue for an answer later
+  queueable?: boolean;
+  // Deep research memo delivered by a background job
+  research?: {
+    jobId: string;
+    infoNeeds: string[];
+    openGaps: string[];
+    authorities: AuthorityEntry[];
+    passes: number;
+  };
   // Coverage data
   coverageScore?: number;
   missingFacets?: string[];
@@ -172,15 +189,15 @@ function RecentMinutesUpdates({
 }
 
 function ChatSidebar({ 
-  sessions, 
   activeSessionId, 
   onSessionSelect, 
+  onSessionDeleted,
   onNewChat,
   onInsertPrompt
 }: { 
-  sessions?: ChatSession[]; 
   activeSessionId: string | null;
   onSessionSelect: (id: string) => void;
+  onSessionDeleted: (id: string) => void;
   onNewChat: () => void;
   onInsertPrompt: (prompt: string) => void;
 }) {
@@ -278,49 +295,94 @@ function ChatSidebar({
       <Separator />
 
       {/* Sessions list */}
-      <div className="p-3 pb-1">
-        <h3 className="text-xs font-medium text-muted-foreground mb-2">
-          Conversations
-        </h3>
-      </div>
-      <ScrollArea className="flex-1">
-        <div className="px-2 pb-2 space-y-1">
-          {sessions?.map((session) => (
-            <button
-              key={session.id}
-              onClick={() => onSessionSelect(session.id)}
-              className={`w-full text-left p-3 rounded-md hover-elevate active-elevate-2 transition-colors ${
-                activeSessionId === session.id
-                  ? "bg-sidebar-accent text-sidebar-accent-foreground"
-                  : "text-sidebar-foreground"
-              }`}
-              data-testid={`button-session-${session.id}`}
-            >
-              <div className="flex items-start gap-2">
-                <MessageCircle className="w-4 h-4 mt-1 flex-shrink-0" />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">{session.title}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {new Date(session.updatedAt).toLocaleDateString()}
-                  </p>
-                </div>
-              </div>
-            </button>
-          ))}
-        </div>
-      </ScrollArea>
+      <ChatSessionList
+        activeSessionId={activeSessionId}
+        onSessionSelect={onSessionSelect}
+        onSessionDeleted={onSessionDeleted}
+      />
+    </div>
+  );
+}
+
+function BranchSwitcher({
+  message,
+  disabled,
+  onSwitch,
+}: {
+  message: BranchedChatMessage;
+  disabled?: boolean;
+  onSwitch: (messageId: string) => void;
+}) {
+  const { siblingIds } = message;
+  const index = siblingIds.indexOf(message.id);
+  if (siblingIds.length < 2 || index < 0) return null;
+
+  return (
+    <div className="flex items-center text-xs text-muted-foreground" data-testid={`branch-switcher-${message.id}`}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        aria-label="Previous version"
+        data-testid={`button-branch-prev-${message.id}`}
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </Button>
+      <span className="tabular-nums">{index + 1}/{siblingIds.length}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        aria-label="Next version"
+        data-testid={`button-branch-next-${message.id}`}
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </Button>
     </div>
   );
 }
 
 function MessageBubble({ 
   message, 
-  onFollowUpClick 
+  feedback,
+  canBranch,
+  actionsDisabled,
+  onFollowUpClick,
+  onClarificationReply,
+  onEdit,
+  onRegenerate,
+  onSwitchBranch,
+  queued,
+  onQueue,
 }: { 
-  message: ChatMessage;
+  message: BranchedChatMessage;
+  feedback?: MessageFeedbackRecord;
+  canBranch?: boolean;
+  actionsDisabled?: boolean;
   onFollowUpClick?: (question: string) => void;
+  onClarificationReply?: (reply: string) => void;
+  onEdit?: (content: string) => void;
+  onRegenerate?: () => void;
+  onSwitchBranch?: (messageId: string) => void;
+  queued?: QueuedQuestionSummary;
+  onQueue?: () => void;
 }) {
   const isUser = message.role === "user";
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    if (!content || !onEdit) return;
+    setIsEditing(false);
+    if (content !== message.content) {
+      onEdit(content);
+    }
+  };
   
   // Parse v2 metadata from citations field
   let v2Data: V2Metadata | null = null;
@@ -342,6 +404,10 @@ function MessageBubble({
   const sources = v2Data?.sources || [];
   const suggestedFollowUps = v2Data?.suggestedFollowUps || [];
   const notices = v2Data?.notices || [];
+  const recordStrength = v2Data?.answerMeta?.recordStrength;
+  const clarification = v2Data?.clarification;
+  const queueable = !isUser && !!v2Data?.queueable;
+  const research = isUser ? undefined : v2Data?.research;
   const showCoverageDisclaimer = v2Data?.showCoverageDisclaimer || false;
   const missingFacets = v2Data?.missingFacets || [];
 
@@ -361,19 +427,88 @@ function MessageBubble({
           }`}
           data-testid={`message-${message.id}`}
         >
-          {isUser ? (
+          {research && (
+            <p className="flex items-center gap-1.5 text-xs font-medium text-primary mb-2" data-testid={`badge-research-${message.id}`}>
+              <BookOpenCheck className="w-3.5 h-3.5" />
+              Research memo · {research.infoNeeds.length} {research.infoNeeds.length === 1 ? "question" : "questions"} researched in {research.passes} {research.passes === 1 ? "pass" : "passes"}
+            </p>
+          )}
+          {isUser && isEditing ? (
+            <div className="flex flex-col gap-2 min-w-[280px] sm:min-w-[420px]">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  }
+                }}
+                className="min-h-[80px] bg-background text-foreground"
+                autoFocus
+                data-testid={`input-edit-${message.id}`}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    setDraft(message.content);
+                    setIsEditing(false);
+                  }}
+                  data-testid={`button-edit-cancel-${message.id}`}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={submitEdit}
+                  disabled={!draft.trim()}
+                  data-testid={`button-edit-send-${message.id}`}
+                >
+                  Send
+                </Button>
+              </div>
+            </div>
+          ) : isUser ? (
             <p className="text-base whitespace-pre-wrap">{message.content}</p>
           ) : (
             <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0 prose-headings:my-3 prose-headings:font-semibold prose-table:w-full prose-table:border-collapse prose-th:border prose-th:border-border prose-th:bg-muted prose-th:px-3 prose-th:py-2 prose-th:text-left prose-th:font-semibold prose-td:border prose-td:border-border prose-td:px-3 prose-td:py-2">
-              <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+              <CitedMarkdown content={message.content} sources={sources} />
             </div>
           )}
         </div>
         
         
         {/* V2 Notices (scope, disclaimers, system messages) */}
-        {!isUser && notices.length > 0 && (
-          <MessageNotices notices={notices} />
+        {!isUser && (notices.length > 0 || recordStrength) && (
+          <MessageNotices notices={notices} recordStrength={recordStrength} />
+        )}
+        
+        {/* Offer to answer a high-demand question once capacity returns */}
+        {queueable && (queued?.status === "queued" || queued?.status === "answering") && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground px-1" data-testid={`text-queued-${message.id}`}>
+            <Clock className="w-3.5 h-3.5" />
+            Queued. The answer will appear in this conversation when capacity returns.
+          </p>
+        )}
+        {queueable && queued?.status === "failed" && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground px-1" data-testid={`text-queue-failed-${message.id}`}>
+            <AlertCircle className="w-3.5 h-3.5" />
+            We couldn't answer this question from the queue. Try regenerating it.
+          </p>
+        )}
+        {queueable && !queued && onQueue && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onQueue}
+            data-testid={`button-queue-${message.id}`}
+          >
+            <Clock className="w-4 h-4 mr-1.5" />
+            Answer when available
+          </Button>
         )}
         
         {/* Coverage disclaimer - "What we couldn't confirm" */}
@@ -395,6 +530,24 @@ function MessageBubble({
           </div>
         )}
         
+        {/* Clarification quick replies (only while it is the latest turn) */}
+        {!isUser && clarification && onClarificationReply && (
+          <div className="flex flex-wrap gap-2 mt-1" data-testid="clarification-options">
+            {clarification.options.map((option, idx) => (
+              <Button
+                key={option.label}
+                variant="outline"
+                size="sm"
+                onClick={() => onClarificationReply(option.label)}
+                className="rounded-full"
+                data-testid={`button-clarification-${idx}`}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+        
         {/* Suggested follow-up questions */}
         {suggestedFollowUps.length > 0 && onFollowUpClick && (
           <div className="flex flex-wrap gap-2 mt-1">
@@ -411,9 +564,51 @@ function MessageBubble({
           </div>
         )}
         
-        <p className="text-xs text-muted-foreground px-1">
-          {new Date(message.createdAt).toLocaleTimeString()}
-        </p>
+        <div className="flex items-center gap-2 px-1">
+          {onSwitchBranch && (
+            <BranchSwitcher message={message} disabled={actionsDisabled} onSwitch={onSwitchBranch} />
+          )}
+          <p className="text-xs text-muted-foreground">
+            {new Date(message.createdAt).toLocaleTimeString()}
+          </p>
+          {canBranch && isUser && onEdit && !isEditing && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground"
+              onClick={() => {
+                setDraft(message.content);
+                setIsEditing(true);
+              }}
+              disabled={actionsDisabled}
+              aria-label="Edit question"
+              data-testid={`button-edit-${message.id}`}
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {canBranch && !isUser && onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground"
+              onClick={onRegenerate}
+              disabled={actionsDisabled}
+              aria-label="Regenerate answer"
+              data-testid={`button-regenerate-${message.id}`}
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {!isUser && (
+            <MessageFeedback
+              key={feedback?.updatedAt ? String(feedback.updatedAt) : "none"}
+              messageId={message.id}
+              sessionId={message.sessionId}
+              feedback={feedback}
+            />
+          )}
+        </div>
       </div>
       {isUser && (
         <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
@@ -517,18 +712,95 @@ function TypingIndicator({ hasFile, messageContent }: TypingIndicatorProps) {
   );
 }
 
+const STREAM_STAGE_ORDER: ChatStreamStage[] = ["attachments", "plan", "retrieval", "synthesis", "audit", "followups"];
+
+const ATTACHMENT_EXTENSIONS = [".pdf", ".docx", ".txt", ".png", ".jpg", ".jpeg", ".tif", ".tiff"];
+
+const ATTACHMENT_MIME_TYPES = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "text/plain",
+  "image/png",
+  "image/jpeg",
+  "image/tiff",
+];
+
+const MAX_ATTACHMENTS = 5;
+
+function formatOcrProgress(ocr: NonNullable<ChatStreamProgress["ocr"]>): string {
+  if (ocr.page === 0) return `Reading scanned text in ${ocr.filename}`;
+  return `Reading scanned text in ${ocr.filename} (page ${ocr.page} of ${ocr.pageCount})`;
+}
+
+function StreamingAnswer({ progress }: { progress: ChatStreamProgress }) {
+  const visibleStages = STREAM_STAGE_ORDER.filter((stage) => progress.stages[stage]);
+
+  return (
+    <div className="flex gap-4 justify-start">
+      <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+        <Bot className="w-4 h-4 text-primary" />
+      </div>
+      <div className="flex flex-col gap-2 max-w-3xl items-start">
+        {progress.text && (
+          <div
+            className="rounded-lg px-4 py-3 bg-card border border-card-border"
+            data-testid="message-streaming"
+          >
+            <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0 prose-headings:my-3 prose-headings:font-semibold">
+              {/* Lane labels are renumbered server-side once the answer is final */}
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{progress.text.replace(/\s?\[[LS]\d+\]/g, "")}</ReactMarkdown>
+            </div>
+          </div>
+        )}
+        {progress.queuePosition !== undefined && (
+          <p className="flex items-center gap-2 text-xs text-foreground px-1" data-testid="text-queue-position">
+            <Clock className="w-3 h-3" />
+            {progress.queuePosition === 1
+              ? "Lots of questions right now. Yours is next in line."
+              : `Lots of questions right now. Yours is number ${progress.queuePosition} in line.`}
+          </p>
+        )}
+        <ul className="flex flex-col gap-1 px-1" data-testid="list-stream-stages">
+          {visibleStages.map((stage) => {
+            const done = progress.stages[stage] === "completed";
+            return (
+              <li
+                key={stage}
+                className={`flex items-center gap-2 text-xs ${done ? "text-muted-foreground" : "text-foreground"}`}
+                data-testid={`stream-stage-${stage}`}
+              >
+                {done ? (
+                  <Check className="w-3 h-3" />
+                ) : (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                )}
+                {stage === "attachments" && !done && progress.ocr
+                  ? formatOcrProgress(progress.ocr)
+                  : CHAT_STREAM_STAGE_LABELS[stage]}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
 export default function Chat() {
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState("");
   const [pendingMessage, setPendingMessage] = useState<string | null>(null);
   const [sharedLinkQuestion, setSharedLinkQuestion] = useState<string | null>(null);
   const [isProcessingSharedLink, setIsProcessingSharedLink] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [pendingBranch, setPendingBranch] = useState<ChatBranchRequest | null>(null);
+  const [deepResearch, setDeepResearch] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const sharedLinkProcessedRef = useRef(false);
   const { toast } = useToast();
+  const { progress: streamProgress, streamMessage, streamUpload, reset: resetStream } = useChatStream();
 
   // Detect ?q= URL parameter for shareable links
   useEffect(() => {
@@ -551,15 +823,110 @@ export default function Chat() {
     }
   }, []);
 
-  const { data: sessions } = useQuery<ChatSession[]>({
-    queryKey: ["/api/chat/sessions"],
-  });
+  const { data: sessionPages } = useChatSessionPages({ search: "", archived: false });
+  const sessions = sessionPages?.pages[0]?.items;
 
-  const { data: messages, isLoading: messagesLoading } = useQuery<ChatMessage[]>({
+  const { data: messages, isLoading: messagesLoading } = useQuery<BranchedChatMessage[]>({
     queryKey: ["/api/chat/sessions", activeSessionId],
     enabled: !!activeSessionId,
   });
 
+  const { data: messageFeedback } = useQuery<MessageFeedbackRecord[]>({
+    queryKey: ["/api/chat/sessions", activeSessionId, "feedback"],
+    enabled: !!activeSessionId,
+  });
+
+  const { data: queuedQuestions } = useQuery<QueuedQuestionSummary[]>({
+    queryKey: ["/api/chat/sessions", activeSessionId, "queued-questions"],
+    enabled: !!activeSessionId,
+    // Poll only while something is waiting to be answered
+    refetchInterval: (query) =>
+      query.state.data?.some((q) => q.status === "queued" || q.status === "answering") ? 30000 : false,
+  });
+
+  // Show a queued answer as soon as it is delivered
+  const pendingQueuedIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!queuedQuestions) return;
+    const delivered = queuedQuestions.some(
+      (q) => q.status === "delivered" && pendingQueuedIds.current.has(q.id)
+    );
+    pendingQueuedIds.current = new Set(
+      queuedQuestions.filter((q) => q.status === "queued" || q.status === "answering").map((q) => q.id)
+    );
+    if (delivered) {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", activeSessionId], exact: true });
+    }
+  }, [queuedQuestions, activeSessionId]);
+
+  const { data: chatFeatures } = useQuery<{ deepAnswerEnabled: boolean; deepResearchAvailable: boolean }>({
+    queryKey: ["/api/chat/config"],
+  });
+  const deepResearchAvailable = !!chatFeatures?.deepResearchAvailable;
+  useResearchNotifications({ enabled: deepResearchAvailable, onOpenSession: setActiveSessionId });
+
+  const { data: researchJobs } = useQuery<ResearchJobSummary[]>({
+    queryKey: ["/api/chat/sessions", activeSessionId, "research-jobs"],
+    enabled: !!activeSessionId && deepResearchAvailable,
+    // Poll while a memo is being prepared so its progress stays current
+    refetchInterval: (query) =>
+      query.state.data?.some((j) => j.status === "queued" || j.status === "running") ? 5000 : false,
+  });
+  const researchInProgress = !!researchJobs?.some((j) => j.status === "queued" || j.status === "running");
+
+  // Show a research memo as soon as it is delivered
+  const pendingResearchIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!researchJobs) return;
+    const finished = researchJobs.some(
+      (j) => (j.status === "completed" || j.status === "failed") && pendingResearchIds.current.has(j.id)
+    );
+    pendingResearchIds.current = new Set(
+      researchJobs.filter((j) => j.status === "queued" || j.status === "running").map((j) => j.id)
+    );
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", activeSessionId], exact: true });
+    }
+  }, [researchJobs, activeSessionId]);
+
+  const researchMutation = useMutation({
+    mutationFn: async (content: string): Promise<ResearchJobSummary> => {
+      const res = await apiRequest("POST", `/api/chat/sessions/${activeSessionId}/research`, { content });
+      return res.json();
+    },
+    onSuccess: () => {
+      setPendingMessage(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", activeSessionId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions"] });
+      toast({ title: "Research started", description: "The memo will appear in this conversation when it is ready." });
+      if (typeof Notification !== "undefined" && Notification.permission === "default") {
+        Notification.requestPermission().catch(() => undefined);
+      }
+    },
+    onError: (error) => {
+      setPendingMessage(null);
+      toast({
+        title: "Could not start research",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const queueQuestionMutation = useMutation({
+    mutationFn: async (messageId: string): Promise<QueuedQuestionSummary> => {
+      const res = await apiRequest("POST", `/api/chat/sessions/${activeSessionId}/messages/${messageId}/queue`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", activeSessionId, "queued-questions"] });
+      toast({ title: "Question queued", description: "The answer will appear here when capacity returns." });
+    },
+    onError: () => {
+      toast({ title: "Could not queue the question", variant: "destructive" });
+    },
+  });
+
   const createSessionMutation = useMutation({
     mutationFn: async (): Promise<ChatSession> => {
       const res = await apiRequest("POST", "/api/chat/sessions", { title: "New conversation" });
@@ -621,29 +988,14 @@ export default function Chat() {
   }, [sharedLinkQuestion, isProcessingSharedLink, sendToSession, toast]);
 
   const sendMessageMutation = useMutation({
-    mutationFn: async ({ content, file }: { content: string; file: File | null }) => {
+    mutationFn: async ({ content, files, branch }: { content: string; files: File[]; branch?: ChatBranchRequest }) => {
       if (!activeSessionId) {
         throw new Error("No active chat session. Please start a new chat first.");
       }
       
-      if (file) {
-        const formData = new FormData();
-        formData.append("content", content);
-        formData.append("file", file);
-        
+      if (files.length > 0) {
         try {
-          const response = await fetch(`/api/chat/v2/sessions/${activeSessionId}/messages/upload`, {
-            method: "POST",
-            body: formData,
-            credentials: "include",
-          });
-          
-          if (!response.ok) {
-            const error = await response.json().catch(() => ({ message: "Upload failed" }));
-            throw new Error(error.message || "Upload failed");
-          }
-          
-          return response;
+          return await streamUpload(activeSessionId, content, files);
         } catch (error) {
           if (error instanceof TypeError && error.message === "Failed to fetch") {
             throw new Error("Network error - the request may have timed out. Please try again with a smaller file.");
@@ -651,20 +1003,22 @@ export default function Chat() {
           throw error;
         }
       } else {
-        return await apiRequest("POST", `/api/chat/v2/sessions/${activeSessionId}/messages`, { 
-          content 
-        });
+        return await streamMessage(activeSessionId, content, branch);
       }
     },
-    onSuccess: () => {
+    onSuccess: (_data, { branch }) => {
       setPendingMessage(null);
-      setSelectedFile(null);
+      setPendingBranch(null);
+      if (!branch) setSelectedFiles([]);
+      resetStream();
       queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions", activeSessionId] });
       queryClient.invalidateQueries({ queryKey: ["/api/chat/sessions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/auth/usage"] });
     },
     onError: (error) => {
       setPendingMessage(null);
+      setPendingBranch(null);
+      resetStream();
       toast({
         title: "Failed to send message",
         description: error instanceof Error ? error.message : "An error occurred",
@@ -673,50 +1027,87 @@ export default function Chat() {
     },
   });
 
+  const switchBranchMutation = useMutation({
+    mutationFn: async (messageId: string): Promise<BranchedChatMessage[]> => {
+      const res = await apiRequest("POST", `/api/chat/sessions/${activeSessionId}/branch`, { messageId });
+      return res.json();
+    },
+    onSuccess: (branchMessages) => {
+      queryClient.setQueryData(["/api/chat/sessions", activeSessionId], branchMessages);
+    },
+    onError: () => {
+      toast({ title: "Could not switch versions", variant: "destructive" });
+    },
+  });
+
+  const handleRegenerate = (message: BranchedChatMessage) => {
+    const branch: ChatBranchRequest = { mode: "regenerate", messageId: message.id };
+    setPendingBranch(branch);
+    sendMessageMutation.mutate({ content: "", files: [], branch });
+  };
+
+  const handleEditMessage = (message: BranchedChatMessage, content: string) => {
+    const branch: ChatBranchRequest = { mode: "edit", messageId: message.id };
+    setPendingBranch(branch);
+    setPendingMessage(content);
+    sendMessageMutation.mutate({ content, files: [], branch });
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const allowedTypes = [
-        "application/pdf",
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-        "text/plain",
-      ];
-      const allowedExtensions = [".pdf", ".docx", ".txt"];
+    const files = Array.from(e.target.files ?? []);
+    // Reset so the same file can be picked again after removing it
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const accepted: File[] = [];
+    for (const file of files) {
       const ext = file.name.toLowerCase().slice(file.name.lastIndexOf("."));
-      
-      if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(ext)) {
+      if (!ATTACHMENT_MIME_TYPES.includes(file.type) && !ATTACHMENT_EXTENSIONS.includes(ext)) {
         toast({
           title: "Invalid file type",
-          description: "Only PDF, DOCX, and TXT files are supported.",
+          description: `${file.name}: only PDF, DOCX, TXT, PNG, JPG and TIFF files are supported.`,
           variant: "destructive",
         });
-        return;
+        continue;
       }
-      
+
       if (file.size > 25 * 1024 * 1024) {
         toast({
           title: "File too large",
-          description: "Maximum file size is 25MB.",
+          description: `${file.name}: maximum file size is 25MB.`,
           variant: "destructive",
         });
-        return;
+        continue;
       }
-      
-      setSelectedFile(file);
+
+      accepted.push(file);
     }
-  };
 
-  const handleRemoveFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+    const combined = [...selectedFiles, ...accepted];
+    if (combined.length > MAX_ATTACHMENTS) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files per message.`,
+        variant: "destructive",
+      });
     }
+    setSelectedFiles(combined.slice(0, MAX_ATTACHMENTS));
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setSelectedFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
   const handleFollowUpClick = (question: string) => {
     setInputValue(question);
   };
 
+  const handleClarificationReply = (reply: string) => {
+    if (!activeSessionId || sendMessageMutation.isPending) return;
+    setPendingMessage(reply);
+    sendMessageMutation.mutate({ content: reply, files: [] });
+  };
+
   useEffect(() => {
     if (sessions && sessions.length > 0 && !activeSessionId) {
       setActiveSessionId(sessions[0].id);
@@ -725,7 +1116,22 @@ export default function Chat() {
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, sendMessageMutation.isPending]);
+  }, [messages, sendMessageMutation.isPending, streamProgress]);
+
+  // While an edit or regenerate is in flight, hide the turns it replaces
+  const branchPointIndex = pendingBranch && messages
+    ? messages.findIndex((m) => m.id === pendingBranch.messageId)
+    : -1;
+  const visibleMessages = branchPointIndex >= 0 ? messages?.slice(0, branchPointIndex) : messages;
+  const branchActionsDisabled = sendMessageMutation.isPending || switchBranchMutation.isPending || researchInProgress;
+  const composerBusy = sendMessageMutation.isPending || researchMutation.isPending || researchInProgress;
+  const useDeepResearch = deepResearch && deepResearchAvailable;
+
+  // Research still waiting on an answer to the last question shown
+  const lastVisibleMessage = visibleMessages?.[visibleMessages.length - 1];
+  const openResearchJob = researchJobs?.find(
+    (j) => j.status !== "completed" && j.questionMessageId === lastVisibleMessage?.id
+  );
 
   const handleNewChat = () => {
     createSessionMutation.mutate();
@@ -733,14 +1139,21 @@ export default function Chat() {
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!inputValue.trim() && !selectedFile) || !activeSessionId) return;
+    if ((!inputValue.trim() && selectedFiles.length === 0) || !activeSessionId) return;
 
     const messageContent = inputValue.trim();
-    const displayMessage = selectedFile 
-      ? `${messageContent}\n\n[Attached: ${selectedFile.name}]`
+    if (useDeepResearch) {
+      if (!messageContent) return;
+      setPendingMessage(messageContent);
+      researchMutation.mutate(messageContent);
+      setInputValue("");
+      return;
+    }
+    const displayMessage = selectedFiles.length > 0
+      ? `${messageContent}\n\n[Attached: ${selectedFiles.map((f) => f.name).join(", ")}]`
       : messageContent;
     setPendingMessage(displayMessage);
-    sendMessageMutation.mutate({ content: messageContent, file: selectedFile });
+    sendMessageMutation.mutate({ content: messageContent, files: selectedFiles });
     setInputValue("");
   };
 
@@ -755,11 +1168,17 @@ export default function Chat() {
     setInputValue(prompt);
   };
 
+  const handleSessionDeleted = (sessionId: string) => {
+    if (sessionId === activeSessionId) {
+      setActiveSessionId(null);
+    }
+  };
+
   const sidebarContent = (
     <ChatSidebar
-      sessions={sessions}
       activeSessionId={activeSessionId}
       onSessionSelect={setActiveSessionId}
+      onSessionDeleted={handleSessionDeleted}
       onNewChat={handleNewChat}
       onInsertPrompt={handleInsertPrompt}
     />
@@ -789,7 +1208,22 @@ export default function Chat() {
               <p className="text-xs text-muted-foreground">Ask questions about your municipal documents</p>
             </div>
           </div>
-          <UserStatusBar />
+          <div className="flex items-center gap-2">
+            {activeSessionId && (
+              <>
+                <SessionSourcesPanel sessionId={activeSessionId} />
+                <ShareSessionDialog
+                  sessionId={activeSessionId}
+                  disabled={!messages?.some((m) => m.role === "assistant")}
+                />
+                <ExportMemoMenu
+                  sessionId={activeSessionId}
+                  disabled={!messages?.some((m) => m.role === "assistant")}
+                />
+              </>
+            )}
+            <UserStatusBar />
+          </div>
         </header>
 
         <ScrollArea className="flex-1 p-4">
@@ -828,13 +1262,30 @@ export default function Chat() {
               </div>
             ) : (
               <>
-                {messages?.map((message) => (
-                  <MessageBubble 
-                    key={message.id} 
-                    message={message} 
-                    onFollowUpClick={handleFollowUpClick}
-                  />
-                ))}
+                {visibleMessages?.map((message, idx) => {
+                  // Questions with attachments can't be replayed without the file
+                  const question = message.role === "user" ? message : visibleMessages[idx - 1];
+                  return (
+                    <MessageBubble 
+                      key={message.id} 
+                      message={message} 
+                      feedback={messageFeedback?.find((f) => f.messageId === message.id)}
+                      canBranch={question?.role === "user" && !question.attachmentFilename}
+                      actionsDisabled={branchActionsDisabled}
+                      onFollowUpClick={handleFollowUpClick}
+                      onClarificationReply={
+                        idx === visibleMessages.length - 1 && !composerBusy
+                          ? handleClarificationReply
+                          : undefined
+                      }
+                      onEdit={(content) => handleEditMessage(message, content)}
+                      onRegenerate={() => handleRegenerate(message)}
+                      onSwitchBranch={(messageId) => switchBranchMutation.mutate(messageId)}
+                      queued={queuedQuestions?.find((q) => q.placeholderMessageId === message.id)}
+                      onQueue={queueQuestionMutation.isPending ? undefined : () => queueQuestionMutation.mutate(message.id)}
+                    />
+                  );
+                })}
                 {pendingMessage && (
                   <div className="flex gap-4 justify-end">
                     <div className="flex flex-col gap-2 max-w-3xl items-end">
@@ -851,11 +1302,16 @@ export default function Chat() {
                   </div>
                 )}
                 {sendMessageMutation.isPending && (
-                  <TypingIndicator 
-                    hasFile={!!selectedFile} 
-                    messageContent={pendingMessage || inputValue} 
-                  />
+                  streamProgress.started ? (
+                    <StreamingAnswer progress={streamProgress} />
+                  ) : (
+                    <TypingIndicator 
+                      hasFile={selectedFiles.length > 0} 
+                      messageContent={pendingMessage || inputValue} 
+                    />
+                  )
                 )}
+                {openResearchJob && !pendingMessage && <ResearchJobProgress job={openResearchJob} />}
                 <div ref={messagesEndRef} />
               </>
             )}
@@ -864,32 +1320,40 @@ export default function Chat() {
 
         <div className="border-t bg-card p-4">
           <form onSubmit={handleSendMessage} className="max-w-4xl mx-auto">
-            {selectedFile && (
-              <div className="mb-2 flex items-center gap-2 bg-muted/50 rounded-md px-3 py-2">
-                <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-                <span className="text-sm truncate flex-1" data-testid="text-attached-file">
-                  {selectedFile.name}
-                </span>
-                <span className="text-xs text-muted-foreground">
-                  ({(selectedFile.size / 1024).toFixed(1)} KB)
-                </span>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={handleRemoveFile}
-                  data-testid="button-remove-file"
-                >
-                  <X className="w-4 h-4" />
-                </Button>
-              </div>
+            {selectedFiles.length > 0 && (
+              <ul className="mb-2 flex flex-col gap-1" data-testid="list-attached-files">
+                {selectedFiles.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center gap-2 bg-muted/50 rounded-md px-3 py-2"
+                  >
+                    <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    <span className="text-sm truncate flex-1" data-testid={`text-attached-file-${index}`}>
+                      {file.name}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      ({(file.size / 1024).toFixed(1)} KB)
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handleRemoveFile(index)}
+                      data-testid={`button-remove-file-${index}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
             )}
             <div className="flex gap-2">
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,.docx,.txt"
+                accept={ATTACHMENT_EXTENSIONS.join(",")}
+                multiple
                 onChange={handleFileSelect}
                 className="hidden"
                 data-testid="input-file"
@@ -900,7 +1364,7 @@ export default function Chat() {
                 size="icon"
                 className="h-[60px] w-[60px] flex-shrink-0"
                 onClick={() => fileInputRef.current?.click()}
-                disabled={!activeSessionId || sendMessageMutation.isPending}
+                disabled={!activeSessionId || composerBusy || useDeepResearch || selectedFiles.length >= MAX_ATTACHMENTS}
                 data-testid="button-attach-file"
               >
                 <Paperclip className="w-5 h-5" />
@@ -909,28 +1373,58 @@ export default function Chat() {
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={selectedFile ? "Ask a question about this document..." : "Ask about your municipal documents..."}
+                placeholder={
+                  researchInProgress
+                    ? "A research memo is being prepared..."
+                    : useDeepResearch
+                      ? "Ask a question to research in depth..."
+                      : selectedFiles.length > 0 ? "Ask a question about the attached documents..." : "Ask about your municipal documents..."
+                }
                 className="min-h-[60px] resize-none"
-                disabled={!activeSessionId || sendMessageMutation.isPending}
+                disabled={!activeSessionId || composerBusy}
                 data-testid="input-message"
               />
               <Button
                 type="submit"
                 size="icon"
-                disabled={!activeSessionId || (!inputValue.trim() && !selectedFile) || sendMessageMutation.isPending}
+                disabled={!activeSessionId || (!inputValue.trim() && selectedFiles.length === 0) || composerBusy}
                 className="h-[60px] w-[60px]"
                 data-testid="button-send"
               >
-                {sendMessageMutation.isPending ? (
+                {sendMessageMutation.isPending || researchMutation.isPending ? (
                   <Loader2 className="w-5 h-5 animate-spin" />
                 ) : (
                   <Send className="w-5 h-5" />
                 )}
               </Button>
             </div>
-            <p className="text-xs text-muted-foreground mt-2">
-              Press Enter to send, Shift+Enter for new line
-            </p>
+            <div className="flex items-center justify-between gap-2 mt-2">
+              <p className="text-xs text-muted-foreground">
+                Press Enter to send, Shift+Enter for new line
+              </p>
+              {deepResearchAvailable && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      type="button"
+                      variant={useDeepResearch ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setDeepResearch((on) => !on)}
+                      disabled={selectedFiles.length > 0}
+                      aria-pressed={useDeepResearch}
+                      data-testid="button-toggle-deep-research"
+                    >
+                      <BookOpenCheck className="w-3.5 h-3.5 mr-1.5" />
+                      Deep research {useDeepResearch ? "on" : "off"}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    Research the question across several searches and get a memo with a table of authorities. Takes a few minutes.
+                  </TooltipContent>
+                </Tooltip>
+              )}
+            </div>
           </form>
         </div>
       </div>
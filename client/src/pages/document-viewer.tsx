@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, FileText, ScanText } from "lucide-react";
+
+interface DocumentViewerData {
+  id: string;
+  documentId: string;
+  title: string;
+  town: string | null;
+  board: string | null;
+  category: string | null;
+  year: string | null;
+  meetingDate: string | null;
+  isCurrent: boolean;
+  originalFilename: string;
+  mimeType: string;
+  fileUrl: string;
+  textSource: "ocr" | "extracted" | "none";
+  pages: string[];
+  highlight: { page: number; exact: boolean } | null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whitespace- and punctuation-tolerant pattern for the opening words of the
+ * cited snippet, so line breaks in the extracted text don't defeat the match.
+ */
+function buildHighlightPattern(snippet: string): RegExp | null {
+  const words = snippet
+    .replace(/…$/, "")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, 12);
+  if (words.length < 3) return null;
+  return new RegExp(words.map(escapeRegExp).join("[^A-Za-z0-9]+"), "i");
+}
+
+function HighlightedText({ text, pattern }: { text: string; pattern: RegExp | null }) {
+  const markRef = useRef<HTMLElement>(null);
+  const match = pattern ? pattern.exec(text) : null;
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [text, match?.index]);
+
+  if (!match) {
+    return <>{text}</>;
+  }
+
+  const start = match.index;
+  const end = start + match[0].length;
+  return (
+    <>
+      {text.slice(0, start)}
+      <mark ref={markRef} className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm px-0.5" data-testid="text-highlight">
+        {text.slice(start, end)}
+      </mark>
+      {text.slice(end)}
+    </>
+  );
+}
+
+export default function DocumentViewer() {
+  const { versionId } = useParams<{ versionId: string }>();
+  const searchParams = new URLSearchParams(window.location.search);
+  const snippet = searchParams.get("q") || "";
+  const requestedPage = parseInt(searchParams.get("page") || "", 10);
+
+  const { data, isLoading, error } = useQuery<DocumentViewerData>({
+    queryKey: ["/api/documents/versions", versionId, snippet],
+    queryFn: async () => {
+      const query = snippet ? `?q=${encodeURIComponent(snippet)}` : "";
+      const res = await fetch(`/api/documents/versions/${versionId}${query}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(res.status === 404 ? "This document is not available." : "Failed to load document");
+      }
+      return res.json();
+    },
+  });
+
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    if (!data) return;
+    const initial = Number.isFinite(requestedPage) && requestedPage > 0
+      ? requestedPage
+      : data.highlight?.page || 1;
+    setPage(Math.min(Math.max(initial, 1), Math.max(data.pages.length, 1)));
+  }, [data, requestedPage]);
+
+  const highlightPattern = useMemo(() => buildHighlightPattern(snippet), [snippet]);
+
+  const isPdf = data?.mimeType === "application/pdf";
+  const pageCount = data?.pages.length || 0;
+  const pageText = data?.pages[page - 1] || "";
+
+  const details = data
+    ? [data.town, data.board, data.meetingDate ? new Date(data.meetingDate).toLocaleDateString() : data.year]
+        .filter(Boolean)
+        .join(" · ")
+    : "";
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="border-b bg-card px-4 py-3 flex items-center gap-3">
+        <Link href="/chat">
+          <Button variant="ghost" size="icon" data-testid="button-back">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+        </Link>
+        <div className="min-w-0 flex-1">
+          {isLoading ? (
+            <Skeleton className="h-5 w-64" />
+          ) : (
+            <>
+              <h1 className="text-base font-semibold truncate" data-testid="text-document-title">
+                {data?.title || "Document"}
+              </h1>
+              {details && <p className="text-xs text-muted-foreground truncate">{details}</p>}
+            </>
+          )}
+        </div>
+        {data && !data.isCurrent && (
+          <Badge variant="secondary" data-testid="badge-superseded">Superseded version</Badge>
+        )}
+        {data && (
+          <a href={data.fileUrl} download={data.originalFilename}>
+            <Button variant="outline" size="sm" data-testid="button-download">
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </a>
+        )}
+      </header>
+
+      {error ? (
+        <div className="flex-1 flex items-center justify-center p-6">
+          <p className="text-sm text-muted-foreground" data-testid="text-document-error">
+            {error instanceof Error ? error.message : "Failed to load document"}
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 min-h-0">
+          <div className="border-r min-h-0 hidden lg:block">
+            {isLoading || !data ? (
+              <Skeleton className="w-full h-full" />
+            ) : isPdf ? (
+              <iframe
+                key={page}
+                src={`${data.fileUrl}#page=${page}`}
+                title={data.title}
+                className="w-full h-full"
+                data-testid="frame-document"
+              />
+            ) : (
+              <div className="h-full flex flex-col items-center justify-center gap-3 text-muted-foreground">
+                <FileText className="w-10 h-10" />
+                <p className="text-sm">Preview is not available for this file type.</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col min-h-0">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <ScanText className="w-4 h-4" />
+                {data?.textSource === "ocr" ? "OCR text" : data?.textSource === "extracted" ? "Extracted text" : "No text available"}
+                {data?.highlight && !data.highlight.exact && (
+                  <span data-testid="text-approximate-match">· closest matching page</span>
+                )}
+              </div>
+              {pageCount > 1 && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                    disabled={page <= 1}
+                    data-testid="button-prev-page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-xs tabular-nums" data-testid="text-page">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPage((p) => Math.min(p + 1, pageCount))}
+                    disabled={page >= pageCount}
+                    data-testid="button-next-page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            <ScrollArea className="flex-1">
+              {isLoading ? (
+                <div className="p-4 space-y-2">
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-5/6" />
+                  <Skeleton className="h-4 w-4/6" />
+                </div>
+              ) : (
+                <pre className="p-4 text-sm whitespace-pre-wrap font-sans leading-relaxed" data-testid="text-document-page">
+                  <HighlightedText text={pageText} pattern={highlightPattern} />
+                </pre>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
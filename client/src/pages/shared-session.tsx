@@ -0,0 +1,171 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertCircle, Bot, ChevronDown, MessageCircle, Paperclip, User } from "lucide-react";
+import { MessageNotices } from "@/components/MessageNotices";
+import { CitedMarkdown } from "@/components/CitedMarkdown";
+import type { SharedSessionMessage, SharedSessionSnapshot } from "@shared/sessionShares";
+
+function SharedAttachment({ message }: { message: SharedSessionMessage }) {
+  if (!message.attachmentFilename) return null;
+
+  if (!message.attachmentExtractedText) {
+    return (
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Paperclip className="w-3 h-3" />
+        {message.attachmentFilename}
+      </div>
+    );
+  }
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <Paperclip className="w-3 h-3" />
+        {message.attachmentFilename}
+        <ChevronDown className="w-3 h-3" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="mt-2 max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap font-sans">
+          {message.attachmentExtractedText}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function SharedMessage({ message }: { message: SharedSessionMessage }) {
+  const isUser = message.role === "user";
+
+  return (
+    <div className={`flex gap-4 ${isUser ? "justify-end" : "justify-start"}`}>
+      {!isUser && (
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+          <Bot className="w-4 h-4 text-primary" />
+        </div>
+      )}
+      <div className={`flex flex-col gap-2 max-w-3xl ${isUser ? "items-end" : "items-start"}`}>
+        <div
+          className={`rounded-lg px-4 py-3 ${
+            isUser
+              ? "bg-primary text-primary-foreground"
+              : "bg-card border border-card-border"
+          }`}
+          data-testid={`shared-message-${message.id}`}
+        >
+          {isUser ? (
+            <p className="text-base whitespace-pre-wrap">{message.content}</p>
+          ) : (
+            <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0 prose-headings:my-3 prose-headings:font-semibold prose-table:w-full prose-table:border-collapse prose-th:border prose-th:border-border prose-th:bg-muted prose-th:px-3 prose-th:py-2 prose-th:text-left prose-th:font-semibold prose-td:border prose-td:border-border prose-td:px-3 prose-td:py-2">
+              <CitedMarkdown content={message.content} sources={message.sources} />
+            </div>
+          )}
+        </div>
+
+        {isUser && <SharedAttachment message={message} />}
+
+        {!isUser && message.notices.length > 0 && (
+          <MessageNotices notices={message.notices} />
+        )}
+
+        {!isUser && message.missingFacets.length > 0 && (
+          <div className="mt-2 p-3 rounded-md bg-muted/50 border border-border" data-testid="coverage-disclaimer">
+            <div className="flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-muted-foreground mb-1">
+                  What we couldn't fully confirm
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-0.5 list-disc list-inside">
+                  {message.missingFacets.map((facet, idx) => (
+                    <li key={idx} className="leading-relaxed">{facet}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground px-1">
+          {new Date(message.createdAt).toLocaleString()}
+        </p>
+      </div>
+      {isUser && (
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+          <User className="w-4 h-4 text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SharedSession() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data, isLoading, error } = useQuery<SharedSessionSnapshot>({
+    queryKey: ["/api/shared", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/shared/${token}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(
+          res.status === 404
+            ? "This shared conversation is no longer available."
+            : "Failed to load shared conversation"
+        );
+      }
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b bg-card px-4 py-3 flex items-center gap-3">
+        <div className="min-w-0 flex-1">
+          {isLoading ? (
+            <Skeleton className="h-5 w-64" />
+          ) : (
+            <>
+              <h1 className="text-base font-semibold truncate" data-testid="text-shared-title">
+                {data?.title || "Shared conversation"}
+              </h1>
+              {data && (
+                <p className="text-xs text-muted-foreground truncate">
+                  {[data.town, `Shared ${new Date(data.sharedAt).toLocaleDateString()}`].filter(Boolean).join(" · ")}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+        <Badge variant="secondary" data-testid="badge-read-only">Read-only</Badge>
+        <Link href="/chat">
+          <Button variant="outline" size="sm" data-testid="button-ask-own">
+            <MessageCircle className="w-4 h-4 mr-2" />
+            Ask your own question
+          </Button>
+        </Link>
+      </header>
+
+      {error ? (
+        <div className="flex-1 flex items-center justify-center p-6">
+          <p className="text-sm text-muted-foreground" data-testid="text-shared-error">
+            {error instanceof Error ? error.message : "Failed to load shared conversation"}
+          </p>
+        </div>
+      ) : (
+        <main className="flex-1 w-full max-w-4xl mx-auto px-4 py-6 space-y-6">
+          {isLoading || !data ? (
+            <div className="space-y-4">
+              <Skeleton className="h-16 w-2/3 ml-auto" />
+              <Skeleton className="h-40 w-full" />
+            </div>
+          ) : (
+            data.messages.map((message) => <SharedMessage key={message.id} message={message} />)
+          )}
+        </main>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+-- Message Feedback Table
+-- End-user thumbs up/down with reason codes on assistant answers
+
+CREATE TABLE IF NOT EXISTS "message_feedback" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "message_id" varchar NOT NULL REFERENCES "chat_messages"("id") ON DELETE CASCADE,
+  "session_id" varchar NOT NULL REFERENCES "chat_sessions"("id") ON DELETE CASCADE,
+  "actor_type" text NOT NULL,
+  "user_id" varchar REFERENCES "users"("id"),
+  "anon_id" varchar REFERENCES "anonymous_users"("id"),
+  "rating" text NOT NULL,
+  "reasons" text[] DEFAULT '{}'::text[] NOT NULL,
+  "comment" text,
+  "reviewed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Lookups by message/session and the unreviewed admin queue
+CREATE INDEX IF NOT EXISTS "message_feedback_message_idx" ON "message_feedback" ("message_id");
+CREATE INDEX IF NOT EXISTS "message_feedback_session_idx" ON "message_feedback" ("session_id");
+CREATE INDEX IF NOT EXISTS "message_feedback_queue_idx" ON "message_feedback" ("reviewed_at", "created_at");
+
+-- One row per actor per message: signed-in users by user id, anonymous
+-- visitors by anon id. Keep only the latest row of any existing duplicates.
+DELETE FROM "message_feedback" f
+USING "message_feedback" newer
+WHERE f."message_id" = newer."message_id"
+  AND f."id" <> newer."id"
+  AND (
+    (f."user_id" IS NOT NULL AND f."user_id" = newer."user_id")
+    OR (f."user_id" IS NULL AND newer."user_id" IS NULL AND f."anon_id" = newer."anon_id")
+  )
+  AND (f."updated_at", f."id") < (newer."updated_at", newer."id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "message_feedback_user_unique"
+  ON "message_feedback" ("message_id", "user_id") WHERE "user_id" IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "message_feedback_anon_unique"
+  ON "message_feedback" ("message_id", "anon_id") WHERE "user_id" IS NULL;
@@ -0,0 +1,28 @@
+-- Branching Chat History
+-- Regenerate / edit-and-resend create sibling messages linked by parent pointer
+
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "parent_id" varchar REFERENCES "chat_messages"("id") ON DELETE CASCADE;
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "situation_context" jsonb;
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "active_message_id" varchar;
+
+-- Existing conversations are linear: each message's parent is the one before it
+UPDATE "chat_messages" AS m
+SET "parent_id" = ordered."prev_id"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "session_id" ORDER BY "created_at", "id") AS "prev_id"
+  FROM "chat_messages"
+) AS ordered
+WHERE m."id" = ordered."id" AND m."parent_id" IS NULL AND ordered."prev_id" IS NOT NULL;
+
+-- The newest message of each existing session is its active leaf
+UPDATE "chat_sessions" AS s
+SET "active_message_id" = latest."id"
+FROM (
+  SELECT DISTINCT ON ("session_id") "session_id", "id"
+  FROM "chat_messages"
+  ORDER BY "session_id", "created_at" DESC, "id" DESC
+) AS latest
+WHERE s."id" = latest."session_id" AND s."active_message_id" IS NULL;
+
+-- Child lookups when walking and switching branches
+CREATE INDEX IF NOT EXISTS "chat_messages_parent_idx" ON "chat_messages" ("parent_id");
@@ -0,0 +1,20 @@
+-- Local Retrieval Index
+-- Page-aware text chunks ranked with Postgres full-text search when RETRIEVAL_PROVIDER=local
+
+CREATE TABLE IF NOT EXISTS "document_chunks" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "document_version_id" varchar NOT NULL REFERENCES "document_versions"("id") ON DELETE CASCADE,
+  "chunk_index" integer NOT NULL,
+  "page_number" integer,
+  "content" text NOT NULL,
+  "town" text NOT NULL,
+  "board" text,
+  "category" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "document_chunks_version_idx" ON "document_chunks" ("document_version_id");
+CREATE INDEX IF NOT EXISTS "document_chunks_town_idx" ON "document_chunks" ("town");
+
+-- Must match the expression used in searchDocumentChunks
+CREATE INDEX IF NOT EXISTS "document_chunks_content_fts_idx" ON "document_chunks" USING GIN (to_tsvector('english', "content"));
@@ -0,0 +1,24 @@
+-- Answer Cache
+-- Cached answers to standalone questions, keyed on question, town and corpus version
+
+CREATE TABLE IF NOT EXISTS "corpus_versions" (
+  "scope" text PRIMARY KEY,
+  "version" integer DEFAULT 0 NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "answer_cache" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "cache_key" text NOT NULL UNIQUE,
+  "normalized_question" text NOT NULL,
+  "question" text NOT NULL,
+  "town" text,
+  "corpus_version" text NOT NULL,
+  "answer_text" text NOT NULL,
+  "response_data" text NOT NULL,
+  "hit_count" integer DEFAULT 0 NOT NULL,
+  "last_hit_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "answer_cache_created_at_idx" ON "answer_cache" ("created_at");
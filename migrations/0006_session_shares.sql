@@ -0,0 +1,20 @@
+-- Session Shares
+-- Read-only, revocable snapshots of a chat session published under an unguessable token
+
+CREATE TABLE IF NOT EXISTS "session_shares" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "token" text NOT NULL UNIQUE,
+  "session_id" varchar NOT NULL REFERENCES "chat_sessions"("id") ON DELETE CASCADE,
+  "actor_type" text NOT NULL,
+  "user_id" varchar REFERENCES "users"("id"),
+  "anon_id" varchar REFERENCES "anonymous_users"("id"),
+  "title" text NOT NULL,
+  "town" text,
+  "snapshot" text NOT NULL,
+  "includes_attachment_text" boolean DEFAULT false NOT NULL,
+  "view_count" integer DEFAULT 0 NOT NULL,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "session_shares_session_id_idx" ON "session_shares" ("session_id");
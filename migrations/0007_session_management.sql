@@ -0,0 +1,9 @@
+-- Session Management
+-- User renames, archive and soft delete for chat sessions
+
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "title_edited_at" timestamp;
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "archived_at" timestamp;
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "chat_sessions_user_id_updated_at_idx" ON "chat_sessions" ("user_id", "updated_at");
+CREATE INDEX IF NOT EXISTS "chat_sessions_anon_id_updated_at_idx" ON "chat_sessions" ("anon_id", "updated_at");
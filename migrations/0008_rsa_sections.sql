@@ -0,0 +1,19 @@
+-- RSA Sections
+-- Canonical NH statute text keyed by chapter and section, for direct lookup of cited RSAs
+
+CREATE TABLE IF NOT EXISTS "rsa_sections" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "title" text NOT NULL,
+  "title_name" text,
+  "chapter" text NOT NULL,
+  "chapter_name" text,
+  "section" text NOT NULL,
+  "citation" text NOT NULL UNIQUE,
+  "heading" text,
+  "body" text NOT NULL,
+  "source_url" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "rsa_sections_chapter_idx" ON "rsa_sections" ("chapter");
@@ -0,0 +1,15 @@
+-- Prompt Templates
+-- Versioned prompt text for the planner, synthesizer, follow-ups and chat analytics, with per-version traffic weights
+
+CREATE TABLE IF NOT EXISTS "prompt_templates" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "key" text NOT NULL,
+  "version" integer NOT NULL,
+  "template" text NOT NULL,
+  "notes" text,
+  "traffic_weight" integer DEFAULT 0 NOT NULL,
+  "created_by" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "prompt_templates_key_version_unique" UNIQUE("key", "version")
+);
@@ -0,0 +1,21 @@
+-- Queued Questions
+-- Chat questions that hit the Gemini quota, answered by a worker and delivered into the session once capacity returns
+
+CREATE TABLE IF NOT EXISTS "queued_questions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "session_id" varchar NOT NULL REFERENCES "chat_sessions"("id") ON DELETE CASCADE,
+  "placeholder_message_id" varchar NOT NULL UNIQUE REFERENCES "chat_messages"("id") ON DELETE CASCADE,
+  "actor_type" text NOT NULL,
+  "user_id" varchar REFERENCES "users"("id"),
+  "anon_id" varchar REFERENCES "anonymous_users"("id"),
+  "status" text DEFAULT 'queued' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "last_error" text,
+  "answer_message_id" varchar,
+  "started_at" timestamp,
+  "delivered_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "queued_questions_status_idx" ON "queued_questions" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "queued_questions_session_idx" ON "queued_questions" ("session_id");
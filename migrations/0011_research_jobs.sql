@@ -0,0 +1,27 @@
+-- Research Jobs
+-- Deep research questions answered in the background with a memo delivered into the session
+
+CREATE TABLE IF NOT EXISTS "research_jobs" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  "session_id" varchar NOT NULL REFERENCES "chat_sessions"("id") ON DELETE CASCADE,
+  "question_message_id" varchar NOT NULL UNIQUE REFERENCES "chat_messages"("id") ON DELETE CASCADE,
+  "user_id" varchar NOT NULL REFERENCES "users"("id"),
+  "question" text NOT NULL,
+  "status" text DEFAULT 'queued' NOT NULL,
+  "progress" jsonb,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "last_error" text,
+  "memo_message_id" varchar,
+  "notified_at" timestamp,
+  "started_at" timestamp,
+  "completed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "research_jobs_status_idx" ON "research_jobs" ("status", "created_at");
+CREATE INDEX IF NOT EXISTS "research_jobs_session_idx" ON "research_jobs" ("session_id");
+CREATE INDEX IF NOT EXISTS "research_jobs_user_idx" ON "research_jobs" ("user_id", "status");
+
+-- At most one memo in progress per conversation
+CREATE UNIQUE INDEX IF NOT EXISTS "research_jobs_active_session_unique"
+  ON "research_jobs" ("session_id") WHERE "status" IN ('queued', 'running');
@@ -0,0 +1,47 @@
+#!/usr/bin/env npx tsx
+/**
+ * CLI script to import RSA statute text into the rsa_sections table
+ * Usage: npx tsx scripts/import-rsa.ts [--title=VI] [--title-name="Public Officers and Employees"] file.txt [file.htm ...]
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { importRsaText, statuteHtmlToText, type RsaImportOptions } from "../server/services/rsaCorpus.js";
+
+const args = process.argv.slice(2);
+const options: RsaImportOptions = {};
+const files: string[] = [];
+
+for (const arg of args) {
+  if (arg.startsWith("--title=")) options.title = arg.split("=")[1];
+  else if (arg.startsWith("--title-name=")) options.titleName = arg.split("=")[1];
+  else files.push(arg);
+}
+
+if (files.length === 0) {
+  console.error("Usage: npx tsx scripts/import-rsa.ts [--title=VI] [--title-name=...] file.txt [file.htm ...]");
+  process.exit(1);
+}
+
+async function main() {
+  let failed = 0;
+  for (const file of files) {
+    try {
+      const raw = await fs.readFile(file, "utf-8");
+      const isHtml = [".htm", ".html"].includes(path.extname(file).toLowerCase());
+      const result = await importRsaText(isHtml ? statuteHtmlToText(raw) : raw, options);
+      console.log(`${file}: ${result.sectionCount} sections (RSA ${result.chapters.join(", ")})`);
+    } catch (error) {
+      failed++;
+      console.error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return failed;
+}
+
+main()
+  .then(failed => process.exit(failed > 0 ? 1 : 0))
+  .catch(err => {
+    console.error("Fatal error:", err);
+    process.exit(1);
+  });
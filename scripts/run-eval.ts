@@ -0,0 +1,101 @@
+import * as fs from "fs";
+import * as path from "path";
+import { runGoldenEval } from "../server/eval/runner";
+import { diffEvalRuns, formatDiffReport, formatRunSummary } from "../server/eval/report";
+import { listGoldenSetVersions } from "../server/eval/goldenSet";
+import type { EvalRun, FixtureMode } from "../server/eval/types";
+
+// Ensure env vars are loaded
+import * as dotenv from "dotenv";
+dotenv.config({ path: "OPENCouncil/.env" });
+
+// Usage:
+//   tsx scripts/run-eval.ts run --set v1 --mode replay [--fixtures eval-fixtures] [--out run.json] [--label name] [--only id1,id2]
+//   tsx scripts/run-eval.ts diff base.json head.json
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function runCommand(args: string[]) {
+  const setVersion = getFlag(args, "set") || "v1";
+  const mode = (getFlag(args, "mode") || "replay") as FixtureMode;
+  const fixturesDir = path.resolve(getFlag(args, "fixtures") || "eval-fixtures");
+  const outFile = getFlag(args, "out");
+  const only = getFlag(args, "only");
+
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`Unknown mode "${mode}" (expected record or replay)`);
+  }
+  if (!listGoldenSetVersions().includes(setVersion)) {
+    throw new Error(`Unknown golden set "${setVersion}" (available: ${listGoldenSetVersions().join(", ")})`);
+  }
+
+  console.log(`[Eval] Set ${setVersion}, mode ${mode}, fixtures ${fixturesDir}`);
+
+  const run = await runGoldenEval({
+    setVersion,
+    mode,
+    fixturesDir,
+    label: getFlag(args, "label"),
+    questionIds: only ? only.split(",").map((id) => id.trim()) : undefined,
+    onQuestionComplete: (result, index, total) => {
+      const status = result.unrecorded ? "UNRECORDED" : result.error ? "ERROR" : result.passed ? "PASS" : "FAIL";
+      console.log(`[Eval] ${index + 1}/${total} ${result.id}: ${status} (${result.durationMs}ms)`);
+    },
+  });
+
+  console.log("");
+  console.log(formatRunSummary(run));
+
+  if (outFile) {
+    fs.writeFileSync(outFile, JSON.stringify(run, null, 2));
+    console.log(`\n[Eval] Wrote ${outFile}`);
+  }
+
+  if (run.summary.unrecorded > 0) {
+    console.log(
+      `\n[Eval] ${run.summary.unrecorded} of ${run.summary.total} questions have no fixtures in ${fixturesDir}. ` +
+        `Record them first with --mode record (needs live API keys).`
+    );
+  }
+
+  return run.summary.failed + run.summary.errored + run.summary.unrecorded === 0;
+}
+
+function diffCommand(args: string[]) {
+  const [baseFile, headFile] = args;
+  if (!baseFile || !headFile) {
+    throw new Error("diff needs two run files: diff <base.json> <head.json>");
+  }
+
+  const base = JSON.parse(fs.readFileSync(baseFile, "utf-8")) as EvalRun;
+  const head = JSON.parse(fs.readFileSync(headFile, "utf-8")) as EvalRun;
+  const diff = diffEvalRuns(base, head);
+
+  console.log(formatDiffReport(diff));
+  return !diff.questions.some((q) => q.change === "regressed");
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    let ok: boolean;
+    if (command === "run") {
+      ok = await runCommand(args);
+    } else if (command === "diff") {
+      ok = diffCommand(args);
+    } else {
+      console.error("Usage: tsx scripts/run-eval.ts run|diff ...");
+      process.exit(2);
+    }
+    process.exit(ok ? 0 : 1);
+  } catch (err) {
+    console.error("Eval error:", err);
+    process.exit(2);
+  }
+}
+
+main();
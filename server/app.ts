@@ -13,6 +13,8 @@ import { registerRoutes } from "./routes";
 import { ensureAdminExists } from "./init-admin";
 import { attachAnonymousIdentity, attachUserIdentity, authRouter } from "./auth";
 import { startOcrWorker } from "./workers/ocrWorker";
+import { startQueuedQuestionWorker } from "./workers/queuedQuestionWorker";
+import { startResearchWorker } from "./workers/researchWorker";
 import { generalApiLimiter } from "./middleware/rateLimiter";
 import { logInfo, logError, getLogger } from "./utils/logger";
 
@@ -96,6 +98,12 @@ export default async function runApp(
   // Start the OCR background worker
   startOcrWorker();
 
+  // Start delivering questions queued during Gemini high demand
+  startQueuedQuestionWorker();
+
+  // Start running deep research jobs in the background
+  startResearchWorker();
+
   // importantly run the final setup after setting up all the other routes so
   // the catch-all route doesn't interfere with the other routes
   await setup(app, server);
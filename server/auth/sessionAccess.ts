@@ -0,0 +1,20 @@
+import type { ActorIdentifier, ChatSession } from "@shared/schema";
+import type { ActorContext } from "./types";
+
+export function toActorIdentifier(actor: ActorContext): ActorIdentifier {
+  return {
+    type: actor.actorType === "user" ? "user" : "anon",
+    userId: actor.userId,
+    anonId: actor.anonId,
+  };
+}
+
+/**
+ * A session belongs to its signed-in user, or to the anonymous visitor who
+ * started it. Deleted sessions belong to no one.
+ */
+export function ownsSession(actor: ActorContext, session: ChatSession): boolean {
+  if (session.deletedAt) return false;
+  if (actor.userId && session.userId === actor.userId) return true;
+  return !!actor.anonId && session.anonId === actor.anonId;
+}
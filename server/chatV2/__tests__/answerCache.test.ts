@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { normalizeQuestion } from "../answerCache";
+
+describe("normalizeQuestion", () => {
+  it("folds wording that does not change the question", () => {
+    expect(normalizeQuestion("Hi, can you tell me when's the transfer station open? Thanks"))
+      .toBe(normalizeQuestion("when is the transfer station open"));
+    expect(normalizeQuestion("What are the dump permits")).toBe(normalizeQuestion("what are the dump permit"));
+  });
+
+  it("keeps tense and auxiliary words", () => {
+    expect(normalizeQuestion("when is the budget hearing")).toBe("when is budget hearing");
+    expect(normalizeQuestion("when was the budget hearing")).not.toBe(normalizeQuestion("when is the budget hearing"));
+    expect(normalizeQuestion("did the board approve the plan")).not.toBe(normalizeQuestion("does the board approve the plan"));
+    expect(normalizeQuestion("who were the selectmen")).not.toBe(normalizeQuestion("who are the selectmen"));
+  });
+
+  it("keeps negation and word order", () => {
+    expect(normalizeQuestion("why can't I burn brush")).toBe("why can not burn brush");
+    expect(normalizeQuestion("is a permit needed for a shed"))
+      .not.toBe(normalizeQuestion("is a shed needed for a permit"));
+  });
+});
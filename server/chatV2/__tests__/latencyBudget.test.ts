@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { createLatencyBudget, runWithinBudget, withLatencyNotice } from "../latencyBudget";
+import { NOTICE_CODES } from "@shared/chatNotices";
+import { chatConfigV3 } from "../chatConfigV3";
+
+const delay = <T>(ms: number, value: T) => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe("runWithinBudget", () => {
+  it("returns work that finishes in time", async () => {
+    expect(await runWithinBudget(delay(5, "plan"), 200)).toEqual({ completed: true, value: "plan" });
+  });
+
+  it("gives up on work past its budget", async () => {
+    expect(await runWithinBudget(delay(200, "plan"), 5)).toEqual({ completed: false });
+  });
+
+  it("ignores a late failure", async () => {
+    const failing = delay(20, null).then(() => {
+      throw new Error("late");
+    });
+    expect(await runWithinBudget(failing, 5)).toEqual({ completed: false });
+    await delay(30, null);
+  });
+});
+
+describe("createLatencyBudget", () => {
+  it("caps stage budgets by the time left before the deadline", () => {
+    const startedAt = Date.now() - (chatConfigV3.PIPELINE_DEADLINE_MS - 1000);
+    const budget = createLatencyBudget(undefined, { startedAt });
+    expect(budget.stageBudgetMs("synthesis")).toBeLessThanOrEqual(1000);
+    expect(budget.stageBudgetMs("synthesis")).toBeLessThan(chatConfigV3.SYNTHESIS_BUDGET_MS);
+  });
+
+  it("leaves stages unbounded when disabled", () => {
+    const budget = createLatencyBudget(undefined, { startedAt: 0, enabled: false });
+    expect(budget.stageBudgetMs("planner")).toBe(Infinity);
+  });
+});
+
+describe("withLatencyNotice", () => {
+  it("adds one notice listing every fallback", () => {
+    const budget = createLatencyBudget();
+    expect(withLatencyNotice([], budget)).toEqual([]);
+
+    budget.recordFallback("heuristic_plan", "planner");
+    const first = withLatencyNotice([], budget);
+    budget.recordFallback("followups_dropped", "followups");
+    const notices = withLatencyNotice(first, budget);
+
+    expect(notices).toHaveLength(1);
+    expect(notices[0].code).toBe(NOTICE_CODES.DEGRADED_ANSWER);
+    expect(notices[0].message).toContain("simpler search plan");
+    expect(notices[0].message).toContain("follow-up questions");
+  });
+});
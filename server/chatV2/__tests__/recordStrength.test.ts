@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { describeRecordStrength } from "../recordStrength";
+import type { RecordStrength } from "../types";
+
+const baseRecord: RecordStrength = {
+  tier: "A",
+  localCount: 3,
+  stateCount: 4,
+  situationAlignment: 0.6,
+  legalTopicCoverage: 0.8,
+  authoritativeStatePresent: true,
+  distinctStateDocs: 2,
+};
+
+describe("describeRecordStrength", () => {
+  it("maps synthesis tiers to record levels", () => {
+    expect(describeRecordStrength(baseRecord).level).toBe("strong");
+    expect(describeRecordStrength({ ...baseRecord, tier: "B" }).level).toBe("partial");
+    expect(describeRecordStrength({ ...baseRecord, tier: "C" }).level).toBe("thin");
+  });
+
+  it("explains what the record contains", () => {
+    expect(describeRecordStrength(baseRecord)).toMatchObject({
+      distinctStateDocs: 2,
+      localFacts: 3,
+      reasons: [
+        "2 state documents",
+        "3 passages from local documents",
+        "Includes RSA or other authoritative state sources",
+      ],
+    });
+  });
+
+  it("notes missing sources and loose situation matches", () => {
+    const result = describeRecordStrength({
+      ...baseRecord,
+      tier: "C",
+      localCount: 0,
+      stateCount: 1,
+      distinctStateDocs: undefined,
+      authoritativeStatePresent: false,
+      situationAlignment: 0.1,
+    });
+    expect(result.reasons).toEqual([
+      "1 state document",
+      "No local records found",
+      "No statute or authoritative state source found",
+      "Sources only loosely match the situation discussed",
+    ]);
+  });
+});
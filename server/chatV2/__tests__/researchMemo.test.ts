@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { parseEvidenceGaps, renderTableOfAuthorities } from "../researchMemo";
+import type { AuthorityEntry } from "@shared/deepResearch";
+
+describe("parseEvidenceGaps", () => {
+  const infoNeeds = ["Notice requirements for public hearings", "Who can call a special town meeting"];
+
+  it("keeps gaps for known information needs", () => {
+    const gaps = parseEvidenceGaps(
+      JSON.stringify({
+        gaps: [
+          { infoNeed: "notice requirements for public hearings", query: "RSA 675:7 notice publication days" },
+          { infoNeed: "Something the plan never asked", query: "unrelated" },
+        ],
+      }),
+      infoNeeds
+    );
+    expect(gaps).toEqual([
+      { infoNeed: "Notice requirements for public hearings", query: "RSA 675:7 notice publication days" },
+    ]);
+  });
+
+  it("keeps one gap per information need and drops empty queries", () => {
+    const gaps = parseEvidenceGaps(
+      JSON.stringify({
+        gaps: [
+          { infoNeed: infoNeeds[1], query: "" },
+          { infoNeed: infoNeeds[1], query: "RSA 39:3 petition special meeting" },
+          { infoNeed: infoNeeds[1], query: "special town meeting warrant" },
+        ],
+      }),
+      infoNeeds
+    );
+    expect(gaps).toEqual([{ infoNeed: infoNeeds[1], query: "RSA 39:3 petition special meeting" }]);
+  });
+
+  it("returns no gaps for malformed responses", () => {
+    expect(parseEvidenceGaps("not json", infoNeeds)).toEqual([]);
+    expect(parseEvidenceGaps(JSON.stringify({ gaps: "none" }), infoNeeds)).toEqual([]);
+  });
+});
+
+describe("renderTableOfAuthorities", () => {
+  it("is empty when nothing is cited", () => {
+    expect(renderTableOfAuthorities([])).toBe("");
+  });
+
+  it("renders one table per kind with minutes by date", () => {
+    const entries: AuthorityEntry[] = [
+      { kind: "statute", citation: "RSA 91-A:2", markers: [1, 3] },
+      { kind: "minutes", citation: "Select Board Minutes", date: "2024-03-12", board: "Select Board", markers: [2] },
+      { kind: "minutes", citation: "Planning Board | Minutes", board: "Planning Board", url: "/documents/abc", markers: [] },
+    ];
+    const markdown = renderTableOfAuthorities(entries);
+
+    expect(markdown).toContain("## Table of authorities");
+    expect(markdown).toContain("### Statutes (RSA)");
+    expect(markdown).toContain("| RSA 91-A:2 | [1], [3] |");
+    expect(markdown).toContain("| 2024-03-12 | Select Board | Select Board Minutes | [2] |");
+    expect(markdown).toContain("| Undated | Planning Board | [Planning Board \\| Minutes](/documents/abc) | Not in cited excerpts |");
+    expect(markdown).not.toContain("### Ordinances and local rules");
+  });
+});
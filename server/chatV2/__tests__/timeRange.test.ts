@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { resolveTimeExpression, resolveTimeHints, isWithinDateRange } from "../timeRange";
+
+// Sunday, June 15 2025
+const now = new Date(2025, 5, 15);
+
+function resolved(text: string) {
+  const range = resolveTimeExpression(text, now);
+  return range && { start: range.start.toDateString(), end: range.end.toDateString(), label: range.label };
+}
+
+describe("resolveTimeExpression", () => {
+  it("resolves relative periods", () => {
+    expect(resolved("last month")).toEqual({ start: "Thu May 01 2025", end: "Sun Jun 01 2025", label: "last month" });
+    expect(resolved("past 2 weeks")?.start).toBe("Sun Jun 01 2025");
+    expect(resolved("last year")?.label).toBe("2024");
+  });
+
+  it("resolves explicit dates and month-year pairs", () => {
+    expect(resolved("March 3, 2024")?.label).toBe("march 3, 2024");
+    expect(resolved("minutes from Sept 2023")?.label).toBe("September 2023");
+    expect(resolved("between 2019 and 2021")?.label).toBe("2019–2021");
+    expect(resolved("since 2022")?.label).toBe("since 2022");
+  });
+
+  it("resolves a bare month after a preposition to its latest occurrence", () => {
+    expect(resolved("what did the select board decide in March")?.label).toBe("March 2025");
+    expect(resolved("during September")?.label).toBe("September 2024");
+    expect(resolved("in May")?.label).toBe("May 2025");
+  });
+
+  it("resolves a hint that is only a month name", () => {
+    expect(resolved("March")?.label).toBe("March 2025");
+  });
+
+  it("ignores month names used as ordinary words or names", () => {
+    expect(resolved("may I build a shed without a permit")).toBeNull();
+    expect(resolved("who is June Smith on the planning board")).toBeNull();
+    expect(resolved("can the town march in the parade")).toBeNull();
+    expect(resolved("what does mar mean in the zoning table")).toBeNull();
+  });
+
+  it("resolves a bare year", () => {
+    expect(resolved("the 2023 budget")?.label).toBe("2023");
+    expect(resolved("what was adopted in 2019")?.label).toBe("2019");
+  });
+
+  it("does not read ordinance, article or section numbers as years", () => {
+    expect(resolved("what does Ordinance 2019 say about signs")).toBeNull();
+    expect(resolved("explain warrant article 2001")).toBeNull();
+    expect(resolved("section 1999 of the zoning code")).toBeNull();
+    expect(resolved("ordinance no. 2020-4")).toBeNull();
+    expect(resolved("§ 2010 setbacks")).toBeNull();
+  });
+
+  it("ignores implausible years", () => {
+    expect(resolved("in 1850")).toBeNull();
+    expect(resolved("2031")).toBeNull();
+  });
+
+  it("returns null for recency words without a period", () => {
+    expect(resolved("recently")).toBeNull();
+  });
+});
+
+describe("resolveTimeHints", () => {
+  it("covers every hint", () => {
+    const range = resolveTimeHints(["March 2024", "June 2024"], "ignored", now);
+    expect(range?.start.toDateString()).toBe("Fri Mar 01 2024");
+    expect(range?.end.toDateString()).toBe("Mon Jul 01 2024");
+  });
+
+  it("falls back to the question only when no hint resolves", () => {
+    expect(resolveTimeHints([], "what did they decide last month", now)?.label).toBe("last month");
+    expect(resolveTimeHints([], "may I keep chickens under ordinance 2018", now)).toBeNull();
+  });
+});
+
+describe("isWithinDateRange", () => {
+  const range = { start: new Date(2024, 0, 1), end: new Date(2025, 0, 1), label: "2024" };
+
+  it("checks the meeting date, then the year, and keeps undated documents", () => {
+    expect(isWithinDateRange({ meetingDate: new Date(2024, 4, 2), year: null }, range)).toBe(true);
+    expect(isWithinDateRange({ meetingDate: new Date(2023, 11, 31), year: null }, range)).toBe(false);
+    expect(isWithinDateRange({ meetingDate: null, year: "2024" }, range)).toBe(true);
+    expect(isWithinDateRange({ meetingDate: null, year: "2022" }, range)).toBe(false);
+    expect(isWithinDateRange({ meetingDate: null, year: null }, range)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { hasComparisonIntent, resolveComparisonTowns } from "../townComparison";
+
+const knownTowns = ["Conway", "Ossipee", "Madison", "Tamworth"];
+
+function resolve(question: string, explicitTowns?: string[]) {
+  return resolveComparisonTowns({ question, knownTowns, explicitTowns });
+}
+
+describe("hasComparisonIntent", () => {
+  it("recognizes comparison wording", () => {
+    expect(hasComparisonIntent("Compare short-term rental rules")).toBe(true);
+    expect(hasComparisonIntent("Conway vs. Ossipee tax rates")).toBe(true);
+    expect(hasComparisonIntent("what is the difference between the two budgets")).toBe(true);
+    expect(hasComparisonIntent("do both towns require a permit?")).toBe(true);
+  });
+
+  it("treats known towns listed together as a comparison", () => {
+    expect(hasComparisonIntent("how do Conway and Ossipee handle short-term rentals?", knownTowns)).toBe(true);
+    expect(hasComparisonIntent("what are Conway and Ossipee's tax rates", knownTowns)).toBe(true);
+    expect(hasComparisonIntent("dog rules in Conway, Madison or Tamworth", knownTowns)).toBe(true);
+  });
+
+  it("ignores questions that only mention places", () => {
+    expect(hasComparisonIntent("when does the Conway Road culvert get replaced in Ossipee", knownTowns)).toBe(false);
+    expect(hasComparisonIntent("I moved from Madison to Conway", knownTowns)).toBe(false);
+    expect(hasComparisonIntent("who is on the planning board")).toBe(false);
+  });
+});
+
+describe("resolveComparisonTowns", () => {
+  it("compares towns named in a comparison question, in order of mention", () => {
+    expect(resolve("how do Conway and Ossipee handle short-term rentals?")).toEqual(["Conway", "Ossipee"]);
+    expect(resolve("compare how Ossipee and Conway handle short-term rentals")).toEqual(["Ossipee", "Conway"]);
+    expect(resolve("Madison vs Tamworth transfer station hours")).toEqual(["Madison", "Tamworth"]);
+  });
+
+  it("treats two towns named apart as an ordinary question", () => {
+    expect(resolve("when does the Conway Road culvert get replaced in Ossipee")).toBeNull();
+    expect(resolve("I moved from Madison to Conway, how do I register my car")).toBeNull();
+  });
+
+  it("needs at least two distinct towns", () => {
+    expect(resolve("compare Conway's 2023 and 2024 budgets")).toBeNull();
+    expect(resolve("compare conway and Conway")).toBeNull();
+  });
+
+  it("uses an explicit list without comparison wording and keeps unknown names", () => {
+    expect(resolve("short-term rental rules", ["ossipee", " Freedom "])).toEqual(["Ossipee", "Freedom"]);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Answer cache for standalone questions.
+ *
+ * Residents ask the same things over and over ("when is the transfer station
+ * open"). A question that does not lean on earlier turns is answered once per
+ * town and corpus version: the key is the normalized question, the town(s) and
+ * the corpus version of those towns plus "statewide", so indexing or
+ * superseding any relevant document makes older entries unreachable. The
+ * session's prompt versions are part of the key too, so sessions in a prompt
+ * experiment only see answers written with their own prompts.
+ */
+
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { logDebug, logWarn } from "../utils/logger";
+import { chatConfigV3 } from "./chatConfigV3";
+import { getAssignedPromptVersions } from "../llm/promptRegistry";
+import { resolveTimeExpression, detectRecencyPreference } from "./timeRange";
+import type { ActorContext } from "../auth/types";
+import type { ChatNotice } from "@shared/chatNotices";
+import type { PromptKey, PromptVersionRecord } from "@shared/promptTemplates";
+import type { FinalAnswerMeta, PipelineLogContext, SourceCitation } from "./types";
+
+const STATEWIDE_SCOPE = "statewide";
+
+/** Prompts the v3 pipeline writes an answer with */
+const ANSWER_PROMPT_KEYS: PromptKey[] = ["planner", "synthesis", "followups"];
+
+const FILLER_PREFIX = /^(?:(?:hi|hello|hey|ok(?:ay)?|so|quick question)\s+)*(?:(?:can|could|would) you (?:please )?(?:tell me|explain|let me know)|(?:i (?:want|would like|need) to know)|do you know|please tell me|tell me)?\s*/;
+
+const FILLER_SUFFIX = /\s*(?:please|thanks|thank you)+\s*$/;
+
+// Auxiliaries (is/was, do/did, ...) are kept: "when is the hearing" and
+// "when was the hearing" are different questions
+const STOPWORDS = new Set([
+  "a", "an", "the", "to", "of", "for", "in", "on", "at", "by",
+  "i", "me", "my", "we", "our", "us", "you", "your", "it", "its",
+  "there", "this", "that", "any", "some", "please", "just",
+]);
+
+const CONTRACTIONS: [RegExp, string][] = [
+  [/\bwhat's\b/g, "what is"],
+  [/\bwhen's\b/g, "when is"],
+  [/\bwhere's\b/g, "where is"],
+  [/\bhow's\b/g, "how is"],
+  [/\bwho's\b/g, "who is"],
+  [/\bcan't\b/g, "can not"],
+  [/\bwon't\b/g, "will not"],
+  [/n't\b/g, " not"],
+  [/'re\b/g, " are"],
+  [/'ll\b/g, " will"],
+  [/'ve\b/g, " have"],
+  [/'m\b/g, " am"],
+  [/'d\b/g, " would"],
+];
+
+/**
+ * Wording-insensitive form of a question: lowercased, contractions expanded,
+ * greetings / politeness / stopwords dropped and simple plurals folded, so
+ * "When's the transfer station open?" and "when is the transfer station
+ * open" share an entry. Word order, tense and negation are kept.
+ */
+export function normalizeQuestion(question: string): string {
+  let text = question.toLowerCase().replace(/[‘’]/g, "'");
+  CONTRACTIONS.forEach(([pattern, replacement]) => {
+    text = text.replace(pattern, replacement);
+  });
+  text = text
+    .replace(/[^a-z0-9'\s-]/g, " ")
+    .replace(/'/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(FILLER_PREFIX, "")
+    .replace(FILLER_SUFFIX, "");
+
+  return text
+    .split(" ")
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+/**
+ * Whether the answer depends only on the question and the corpus. Follow-ups
+ * that build on the conversation's situation, questions about pasted
+ * material, and time-relative questions ("last month", "latest") are always
+ * answered fresh.
+ */
+export function isCacheableQuestion(options: {
+  question: string;
+  dependsOnSituation: boolean;
+  hasSessionSources: boolean;
+}): boolean {
+  const { question, dependsOnSituation, hasSessionSources } = options;
+  if (dependsOnSituation || hasSessionSources) return false;
+  if (resolveTimeExpression(question) || detectRecencyPreference(question)) return false;
+  return normalizeQuestion(question).length > 0;
+}
+
+export interface CachedAnswerData {
+  answerMeta: FinalAnswerMeta;
+  sources: SourceCitation[];
+  suggestedFollowUps: string[];
+  notices: ChatNotice[];
+  /** Prompt versions the answer was written with */
+  promptVersions?: PromptVersionRecord;
+}
+
+export interface CachedAnswer extends CachedAnswerData {
+  answerText: string;
+  cachedAt: Date;
+}
+
+/**
+ * Result of a lookup. The key is kept so a miss can be stored under the
+ * corpus version it was answered against.
+ */
+export interface AnswerCacheLookup {
+  cacheKey: string;
+  normalizedQuestion: string;
+  town: string | null;
+  corpusVersion: string;
+  cached: CachedAnswer | null;
+}
+
+/**
+ * Scopes are lowercased: File Search sync jobs name towns by their S3 prefix
+ * ("conway") while documents use the display name ("Conway").
+ */
+function corpusScope(town: string | null | undefined): string {
+  return (town || STATEWIDE_SCOPE).trim().toLowerCase();
+}
+
+function formatCorpusVersion(versions: Record<string, number>): string {
+  return Object.keys(versions)
+    .sort()
+    .map((scope) => `${scope}:${versions[scope]}`)
+    .join(",");
+}
+
+function formatPromptVersions(versions: PromptVersionRecord): string {
+  return (Object.keys(versions) as (keyof PromptVersionRecord)[])
+    .sort()
+    .map((key) => `${key}:${versions[key]}`)
+    .join(",");
+}
+
+/**
+ * Look up a cached answer for the question in the given towns. With
+ * `skipRead` (regenerate) only the key is computed so the fresh answer
+ * replaces the cached one. Returns null when the cache is unavailable.
+ */
+export async function lookupCachedAnswer(options: {
+  question: string;
+  towns: string[];
+  /** Session asking; decides its prompt versions */
+  sessionId: string;
+  skipRead?: boolean;
+  logContext?: PipelineLogContext;
+}): Promise<AnswerCacheLookup | null> {
+  const { question, sessionId, skipRead, logContext } = options;
+  const towns = options.towns.filter((t) => t && corpusScope(t) !== STATEWIDE_SCOPE).sort();
+
+  try {
+    const normalizedQuestion = normalizeQuestion(question);
+    const promptVersions = await getAssignedPromptVersions(ANSWER_PROMPT_KEYS, sessionId);
+    const versions = await storage.getCorpusVersions([...towns.map(corpusScope), STATEWIDE_SCOPE]);
+    const corpusVersion = formatCorpusVersion(versions);
+    const town = towns.length > 0 ? towns.join(", ") : null;
+    const cacheKey = createHash("sha256")
+      .update(JSON.stringify([normalizedQuestion, towns.map(corpusScope), corpusVersion, formatPromptVersions(promptVersions)]))
+      .digest("hex");
+
+    let cached: CachedAnswer | null = null;
+    if (!skipRead) {
+      const notBefore = new Date(Date.now() - chatConfigV3.ANSWER_CACHE_TTL_HOURS * 60 * 60 * 1000);
+      const entry = await storage.getAnswerCacheEntry(cacheKey, notBefore);
+      if (entry) {
+        const data = JSON.parse(entry.responseData) as CachedAnswerData;
+        cached = { ...data, answerText: entry.answerText, cachedAt: entry.createdAt };
+        await storage.recordAnswerCacheHit(entry.id);
+      }
+    }
+
+    logDebug("answer_cache_lookup", {
+      ...logContext,
+      stage: "answer_cache",
+      normalizedQuestion,
+      town,
+      corpusVersion,
+      hit: !!cached,
+      skipRead: !!skipRead,
+    });
+
+    return { cacheKey, normalizedQuestion, town, corpusVersion, cached };
+  } catch (error) {
+    logWarn("answer_cache_lookup_failed", {
+      ...logContext,
+      stage: "answer_cache",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+export async function storeCachedAnswer(
+  lookup: AnswerCacheLookup,
+  question: string,
+  answerText: string,
+  data: CachedAnswerData,
+  logContext?: PipelineLogContext
+): Promise<void> {
+  try {
+    await storage.upsertAnswerCacheEntry({
+      cacheKey: lookup.cacheKey,
+      normalizedQuestion: lookup.normalizedQuestion,
+      question,
+      town: lookup.town,
+      corpusVersion: lookup.corpusVersion,
+      answerText,
+      responseData: JSON.stringify(data),
+    });
+  } catch (error) {
+    logWarn("answer_cache_store_failed", {
+      ...logContext,
+      stage: "answer_cache",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * One "answer_cache_lookup" event per cacheable question; the usage
+ * dashboard derives hit rates from these.
+ */
+export async function recordAnswerCacheEvent(
+  actor: ActorContext | undefined,
+  sessionId: string,
+  lookup: AnswerCacheLookup,
+  pipelineVariant?: string
+): Promise<void> {
+  if (!actor) return;
+  try {
+    await storage.createEvent({
+      actorType: actor.actorType,
+      userId: actor.actorType === "user" ? actor.userId : undefined,
+      anonId: actor.anonId,
+      eventType: "answer_cache_lookup",
+      sessionId,
+      town: lookup.town,
+      metadata: {
+        hit: !!lookup.cached,
+        normalizedQuestion: lookup.normalizedQuestion,
+        corpusVersion: lookup.corpusVersion,
+        pipelineVariant,
+      },
+    });
+  } catch (error) {
+    logWarn("answer_cache_event_failed", {
+      sessionId,
+      stage: "answer_cache",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Invalidate cached answers for a document's town. Statewide documents
+ * invalidate every town, since all answers draw on the state lane.
+ */
+export async function bumpCorpusVersionForTown(town: string | null | undefined): Promise<void> {
+  try {
+    await storage.bumpCorpusVersion(corpusScope(town));
+  } catch (error) {
+    logWarn("corpus_version_bump_failed", {
+      town,
+      stage: "answer_cache",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Text extraction for files attached in chat.
+ *
+ * Documents go through the same preview extraction as admin uploads. A PDF
+ * that shouldQueueOcr would send to the background OCR queue is OCR'd inline
+ * instead, up to the configured page cap, since the user is waiting on the
+ * answer. Images are always OCR'd. Page progress is reported so the client
+ * can show it while a scan is read.
+ */
+
+import * as path from "path";
+import { extractPreviewText, getMimeType } from "../services/fileProcessing";
+import { getOcrConfig, shouldQueueOcr } from "../config/ocr";
+import { performOcrOnPdf, performOcrOnImage, getPdfPageCount } from "../workers/ocrWorkerUtils";
+import { logDebug, logInfo, logWarn } from "../utils/logger";
+import { chatConfig } from "./chatConfig";
+import type { PipelineLogContext } from "./types";
+
+export const CHAT_ATTACHMENT_EXTENSIONS = [".pdf", ".docx", ".txt", ".png", ".jpg", ".jpeg", ".tif", ".tiff"];
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".tif", ".tiff"];
+
+const EXTRACTION_TEXT_MAX_CHARS = 30000;
+
+export interface ChatAttachment {
+  filename: string;
+  mimeType: string;
+  extractedText: string;
+  /** Set when the text was read by inline OCR */
+  ocr?: {
+    pagesRead: number;
+    /** Pages in the file, when known */
+    pageCount: number | null;
+  };
+}
+
+export interface ExtractAttachmentOptions {
+  /** Called as OCR starts (page 0) and after each page */
+  onOcrProgress?: (page: number, pageCount: number) => void;
+  logContext?: PipelineLogContext;
+}
+
+function isOcrAvailable(): boolean {
+  const config = getOcrConfig();
+  return config.enabled && config.provider !== "none";
+}
+
+async function ocrImage(
+  filePath: string,
+  filename: string,
+  options: ExtractAttachmentOptions
+): Promise<ChatAttachment> {
+  const mimeType = getMimeType(filename);
+
+  if (!isOcrAvailable()) {
+    return {
+      filename,
+      mimeType,
+      extractedText: "(Image uploaded but text recognition is turned off, so its contents could not be read)",
+    };
+  }
+
+  options.onOcrProgress?.(0, 1);
+  const text = await performOcrOnImage(filePath);
+  options.onOcrProgress?.(1, 1);
+
+  return {
+    filename,
+    mimeType,
+    extractedText: text.trim()
+      ? text.slice(0, EXTRACTION_TEXT_MAX_CHARS)
+      : "(Image uploaded but no text was found in it)",
+    ocr: { pagesRead: 1, pageCount: 1 },
+  };
+}
+
+/**
+ * OCR the first pages of a scanned PDF. Returns null when OCR produced less
+ * text than the extraction it would replace.
+ */
+async function ocrPdf(
+  filePath: string,
+  filename: string,
+  extractedText: string,
+  options: ExtractAttachmentOptions
+): Promise<ChatAttachment | null> {
+  const { chatMaxPages } = getOcrConfig();
+  const pageCount = await getPdfPageCount(filePath);
+  const pagesToRead = pageCount ? Math.min(pageCount, chatMaxPages) : chatMaxPages;
+
+  options.onOcrProgress?.(0, pagesToRead);
+  let pagesRead = 0;
+  const ocrText = await performOcrOnPdf(filePath, {
+    maxPages: chatMaxPages,
+    onPage: (page, total) => {
+      pagesRead = page;
+      options.onOcrProgress?.(page, total);
+    },
+  });
+
+  if (ocrText.trim().length <= extractedText.trim().length) {
+    return null;
+  }
+
+  const truncated = pageCount !== null && pageCount > pagesRead;
+  const note = truncated
+    ? `\n\n(Only the first ${pagesRead} of ${pageCount} scanned pages were read.)`
+    : "";
+
+  return {
+    filename,
+    mimeType: getMimeType(filename),
+    extractedText: ocrText.slice(0, EXTRACTION_TEXT_MAX_CHARS - note.length) + note,
+    ocr: { pagesRead, pageCount },
+  };
+}
+
+/**
+ * Extract the text of one attached file. Failures are folded into a
+ * placeholder text so the message still goes through.
+ */
+export async function extractChatAttachment(
+  filePath: string,
+  filename: string,
+  options: ExtractAttachmentOptions = {}
+): Promise<ChatAttachment> {
+  const { logContext } = options;
+  const ext = path.extname(filename).toLowerCase();
+  const mimeType = getMimeType(filename);
+
+  if (IMAGE_EXTENSIONS.includes(ext)) {
+    try {
+      const attachment = await ocrImage(filePath, filename, options);
+      logDebug("chat_attachment_image_ocr", {
+        ...logContext,
+        stage: "file_extraction",
+        filename,
+        extractedLength: attachment.extractedText.length,
+      });
+      return attachment;
+    } catch (error) {
+      logWarn("chat_attachment_ocr_failed", {
+        ...logContext,
+        stage: "file_extraction",
+        filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { filename, mimeType, extractedText: "(Image uploaded but its text could not be read)" };
+    }
+  }
+
+  const extractedText = await extractPreviewText(filePath, filename, EXTRACTION_TEXT_MAX_CHARS);
+
+  const ocrDecision = shouldQueueOcr(extractedText, mimeType);
+  if (ocrDecision.queue && isOcrAvailable()) {
+    logInfo("chat_attachment_ocr_started", {
+      ...logContext,
+      stage: "file_extraction",
+      filename,
+      reason: ocrDecision.reason,
+    });
+    try {
+      const ocrAttachment = await ocrPdf(filePath, filename, extractedText, options);
+      if (ocrAttachment) {
+        logInfo("chat_attachment_ocr_complete", {
+          ...logContext,
+          stage: "file_extraction",
+          filename,
+          pagesRead: ocrAttachment.ocr?.pagesRead,
+          pageCount: ocrAttachment.ocr?.pageCount,
+          extractedLength: ocrAttachment.extractedText.length,
+        });
+        return ocrAttachment;
+      }
+    } catch (error) {
+      logWarn("chat_attachment_ocr_failed", {
+        ...logContext,
+        stage: "file_extraction",
+        filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!extractedText.trim()) {
+    logWarn("chat_file_extraction_empty", {
+      ...logContext,
+      stage: "file_extraction",
+      filename,
+    });
+    return {
+      filename,
+      mimeType,
+      extractedText: "(File uploaded but text could not be extracted - file may contain images or be password protected)",
+    };
+  }
+
+  logDebug("chat_file_extracted", {
+    ...logContext,
+    stage: "file_extraction",
+    filename,
+    extractedLength: extractedText.length,
+  });
+  return { filename, mimeType, extractedText };
+}
+
+/**
+ * Values for the message's attachment columns. Several files are stored as
+ * one comma-separated filename list and one text with a header per file.
+ */
+export function combineAttachments(attachments: ChatAttachment[]): {
+  filename: string;
+  mimeType: string;
+  extractedText: string;
+} {
+  if (attachments.length === 1) {
+    const [only] = attachments;
+    return { filename: only.filename, mimeType: only.mimeType, extractedText: only.extractedText };
+  }
+
+  return {
+    filename: attachments.map((a) => a.filename).join(", "),
+    mimeType: Array.from(new Set(attachments.map((a) => a.mimeType))).join(", "),
+    extractedText: attachments
+      .map((a) => `=== ${a.filename} ===\n${a.extractedText}`)
+      .join("\n\n"),
+  };
+}
+
+/**
+ * The question sent to the pipeline, with each attachment's text appended.
+ * The character budget is split evenly across the files.
+ */
+export function buildQuestionWithAttachments(question: string, attachments: ChatAttachment[]): string {
+  if (attachments.length === 0) return question;
+
+  const perFileChars = Math.floor(chatConfig.ATTACHMENT_CONTEXT_MAX_CHARS / attachments.length);
+  const intro = question || (attachments.length === 1 ? "Please analyze this document." : "Please analyze these documents.");
+  const documents = attachments
+    .map((a) => `---\nATTACHED DOCUMENT (${a.filename}):\n${a.extractedText.slice(0, perFileChars)}`)
+    .join("\n\n");
+
+  return `${intro}\n\n${documents}`;
+}
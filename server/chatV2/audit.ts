@@ -2,21 +2,26 @@
  * V3 Audit Module - Post-generation guardrails
  * 
  * Responsibilities:
- * 1. Detect uncited RSA references
+ * 1. Detect uncited RSA references, and cited sections that do not exist or
+ *    were never supplied (checked against the statute corpus)
  * 2. Detect absolute legal language without support
  * 3. Detect off-topic drift
  * 4. Validate answer format (word count, headings, bullets, citations)
- * 5. Trigger repair regeneration (max 1 pass)
+ * 5. Detect citation markers that point to chunks never retrieved
+ * 6. Trigger repair regeneration (max 1 pass)
  */
 
 import { logDebug } from "../utils/logger";
 import { containsForbiddenProsePatterns } from "./answerPolicy";
+import { findUnknownCitationLabels } from "./citationMarkers";
+import { parseRsaReferences } from "../services/rsaCorpus";
 import type { 
   AuditResult, 
   AuditViolation, 
   LabeledChunk,
   IssueMap,
-  PipelineLogContext 
+  PipelineLogContext,
+  RsaEvidence
 } from "./types";
 import type { SituationContext } from "@shared/schema";
 
@@ -90,6 +95,7 @@ import { getProsePolicy } from "./answerPolicy";
 
 export interface AuditOptions {
   answerText: string;
+  localChunks?: LabeledChunk[];
   stateChunks: LabeledChunk[];
   citationsUsed: string[];
   issueMap: IssueMap;
@@ -98,6 +104,8 @@ export interface AuditOptions {
   stateChunkCount?: number;
   renderStyle?: RenderStyle;
   answerType?: AnswerType;
+  /** Corpus lookup of the RSA sections the answer cites (see rsaLookup.ts) */
+  rsaEvidence?: RsaEvidence | null;
 }
 
 
@@ -493,6 +501,7 @@ const PROCEDURE_CLAIMS = [
 export function auditAnswer(options: AuditOptions): AuditResult {
   const { 
     answerText, 
+    localChunks,
     stateChunks, 
     citationsUsed, 
     issueMap, 
@@ -500,7 +509,8 @@ export function auditAnswer(options: AuditOptions): AuditResult {
     logContext, 
     stateChunkCount,
     renderStyle = "PROSE",
-    answerType = "QUICK_PROCESS"
+    answerType = "QUICK_PROCESS",
+    rsaEvidence
   } = options;
   const violations: AuditViolation[] = [];
 
@@ -517,15 +527,24 @@ export function auditAnswer(options: AuditOptions): AuditResult {
     violations.push(...formatValidation.violations);
   }
 
-  const rsaViolations = checkUncitedRSA(answerText, stateChunks, citationsUsed);
+  const rsaViolations = checkUncitedRSA(answerText, stateChunks, citationsUsed, rsaEvidence);
   violations.push(...rsaViolations);
 
+  if (rsaEvidence) {
+    violations.push(...checkRsaAgainstCorpus(answerText, stateChunks, rsaEvidence));
+  }
+
   const absoluteViolations = checkAbsoluteLegalClaims(answerText);
   violations.push(...absoluteViolations);
 
   const procedureViolations = checkUncitedProcedures(answerText, stateChunks, citationsUsed);
   violations.push(...procedureViolations);
 
+  if (localChunks) {
+    const citationViolations = checkUnknownCitations(answerText, [...localChunks, ...stateChunks]);
+    violations.push(...citationViolations);
+  }
+
   if (situationContext) {
     const driftViolations = checkOffTopicDrift(answerText, issueMap, situationContext);
     violations.push(...driftViolations);
@@ -567,10 +586,22 @@ export function auditAnswer(options: AuditOptions): AuditResult {
   return result;
 }
 
+function checkUnknownCitations(
+  answerText: string,
+  chunks: LabeledChunk[]
+): AuditViolation[] {
+  return findUnknownCitationLabels(answerText, chunks).map(label => ({
+    type: 'unknown_citation' as const,
+    evidence: `Citation ${label} does not match any retrieved document`,
+    severity: 'error' as const,
+  }));
+}
+
 function checkUncitedRSA(
   answerText: string, 
   stateChunks: LabeledChunk[], 
-  citationsUsed: string[]
+  citationsUsed: string[],
+  rsaEvidence?: RsaEvidence | null
 ): AuditViolation[] {
   const violations: AuditViolation[] = [];
 
@@ -583,6 +614,12 @@ function checkUncitedRSA(
     const rsaNumber = match[1];
     const rsaReference = `RSA ${rsaNumber}`;
 
+    // Chapters in the statute corpus are checked by checkRsaAgainstCorpus
+    const parsedReference = parseRsaReferences(match[0])[0];
+    if (rsaEvidence && parsedReference && rsaEvidence.ingestedChapters.includes(parsedReference.chapter)) {
+      continue;
+    }
+
     const matchIndex = match.index || 0;
     const contextStart = Math.max(0, matchIndex - 20);
     const contextEnd = Math.min(answerText.length, matchIndex + rsaReference.length + 30);
@@ -605,6 +642,46 @@ function checkUncitedRSA(
   return violations;
 }
 
+/**
+ * Every section-level RSA citation in a chapter the corpus holds must exist,
+ * and its text must have been in the evidence: supplied from the corpus or
+ * quoted in a retrieved state document.
+ */
+function checkRsaAgainstCorpus(
+  answerText: string,
+  stateChunks: LabeledChunk[],
+  rsaEvidence: RsaEvidence
+): AuditViolation[] {
+  const violations: AuditViolation[] = [];
+  const stateChunkText = stateChunks.map(c => c.content).join(' ').toLowerCase();
+
+  for (const reference of parseRsaReferences(answerText)) {
+    const citation = reference.citation;
+    if (!citation || !rsaEvidence.ingestedChapters.includes(reference.chapter)) continue;
+
+    if (!rsaEvidence.existingCitations.includes(citation)) {
+      violations.push({
+        type: 'unknown_rsa',
+        evidence: `RSA ${citation} is not a section of RSA ${reference.chapter}`,
+        severity: 'error',
+      });
+      continue;
+    }
+
+    const supplied = rsaEvidence.suppliedCitations.includes(citation) ||
+      stateChunkText.includes(citation.toLowerCase());
+    if (!supplied) {
+      violations.push({
+        type: 'unsupplied_rsa',
+        evidence: `RSA ${citation} is cited but its text was not among the provided documents`,
+        severity: 'error',
+      });
+    }
+  }
+
+  return violations;
+}
+
 function checkForbiddenProsePatterns(answerText: string): AuditViolation[] {
   const violations: AuditViolation[] = [];
   const forbiddenPatterns = containsForbiddenProsePatterns(answerText);
@@ -709,17 +786,28 @@ function buildRepairHint(violations: AuditViolation[]): string {
   const hints: string[] = [];
 
   const hasUncitedRSA = violations.some(v => v.type === 'uncited_rsa');
+  const hasUnknownRSA = violations.some(v => v.type === 'unknown_rsa');
+  const hasUnsuppliedRSA = violations.some(v => v.type === 'unsupplied_rsa');
   const hasUncitedProcedure = violations.some(v => v.type === 'uncited_procedure');
   const hasAbsoluteClaim = violations.some(v => v.type === 'absolute_legal_claim');
   const hasOffTopic = violations.some(v => v.type === 'off_topic_drift');
   const hasFormatViolation = violations.some(v => v.type === 'format_violation');
   const hasMissingStateCitation = violations.some(v => v.type === 'missing_state_citation');
   const hasLlmTail = violations.some(v => v.type === 'llm_tail');
+  const hasUnknownCitation = violations.some(v => v.type === 'unknown_citation');
 
   if (hasUncitedRSA) {
     hints.push('Remove specific RSA section numbers that are not in the provided state documents, or speak generally about NH law.');
   }
 
+  if (hasUnknownRSA) {
+    hints.push('Remove RSA section numbers that do not exist; cite only sections shown in the state documents.');
+  }
+
+  if (hasUnsuppliedRSA) {
+    hints.push('Cite RSA sections only from the provided state documents, using their [Sx] labels. The text of sections you cited has been added.');
+  }
+
   if (hasUncitedProcedure) {
     hints.push('Remove specific procedure/process claims that are not supported by cited sources.');
   }
@@ -744,6 +832,10 @@ function buildRepairHint(violations: AuditViolation[]): string {
     hints.push('Remove "next steps", "consult counsel", "you may wish to", and similar phrases.');
   }
 
+  if (hasUnknownCitation) {
+    hints.push('Only cite [Lx] and [Sx] labels that appear in the provided documents.');
+  }
+
   return hints.join(' ');
 }
 
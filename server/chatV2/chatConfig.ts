@@ -197,6 +197,33 @@ export const chatConfig = {
   COVERAGE_THRESHOLD_STANDARD: 0.7,
   COVERAGE_THRESHOLD_DEEP: 0.85,
 
+  // =====================================================
+  // DEEP RESEARCH SETTINGS
+  // =====================================================
+
+  /**
+   * Information needs from the research plan that get their own retrieval
+   * passes. Further needs are dropped.
+   */
+  DEEP_RESEARCH_MAX_INFO_NEEDS: 6,
+
+  /**
+   * Gap-filling rounds after the first pass over every information need.
+   * Each round asks which needs the evidence still leaves open and searches
+   * again with the queries it suggests.
+   */
+  DEEP_RESEARCH_MAX_GAP_ROUNDS: 2,
+
+  /**
+   * Chunks kept per lane from each retrieval pass.
+   */
+  DEEP_RESEARCH_CHUNKS_PER_PASS: 6,
+
+  /**
+   * Cap on chunks per lane given to memo synthesis, in the order found.
+   */
+  DEEP_RESEARCH_MAX_CHUNKS_PER_LANE: 24,
+
   // =====================================================
   // SITUATION ANCHORING / TOPIC CONTINUITY SETTINGS
   // =====================================================
@@ -357,6 +384,21 @@ export const chatConfig = {
    * Messages with >= this many paragraphs are candidates for storage.
    */
   SESSION_SOURCE_MIN_PARAGRAPHS: 4,
+
+  // =====================================================
+  // CHAT ATTACHMENT SETTINGS
+  // =====================================================
+
+  /**
+   * Maximum number of files attached to a single message.
+   */
+  MAX_ATTACHMENTS_PER_MESSAGE: 5,
+
+  /**
+   * Characters of attachment text passed to the pipeline, shared across all
+   * files attached to the message.
+   */
+  ATTACHMENT_CONTEXT_MAX_CHARS: 20000,
 };
 
 /**
@@ -10,7 +10,9 @@ export const chatConfigV3 = {
 
   /**
    * Enable the v3 pipeline (Plan → Retrieve → Synthesize → Audit)
-   * When false, falls back to the unified v2 pipeline
+   * When false, falls back to the unified v2 pipeline for everyone; when
+   * true, PIPELINE_V3_PERCENT decides each actor's pipeline
+   * (see config/experiments.ts)
    */
   ENABLE_V3_PIPELINE: true,
 
@@ -86,6 +88,25 @@ export const chatConfigV3 = {
     'negligence',
   ],
 
+  // =====================================================
+  // TOWN COMPARISON SETTINGS
+  // =====================================================
+
+  /**
+   * Most towns a comparison question fans the local lane out to
+   */
+  MAX_COMPARISON_TOWNS: 4,
+
+  /**
+   * Local queries run per town in comparison mode (from the start of the plan)
+   */
+  COMPARISON_QUERIES_PER_TOWN: 2,
+
+  /**
+   * Minimum local chunks kept per town, regardless of the lane cap split
+   */
+  COMPARISON_MIN_CAP_PER_TOWN: 3,
+
   // =====================================================
   // SYNTHESIS V3 SETTINGS
   // =====================================================
@@ -157,4 +178,100 @@ export const chatConfigV3 = {
    * Minimum local fact chunks to always try to include
    */
   MIN_LOCAL_FACTS: 2,
+
+  // =====================================================
+  // ANSWER CACHE SETTINGS
+  // =====================================================
+
+  /**
+   * Serve repeat standalone questions from the answer cache
+   */
+  ENABLE_ANSWER_CACHE: true,
+
+  /**
+   * Cached answers older than this are regenerated even if no document
+   * changed (answers still mention "upcoming" meetings, deadlines, etc.)
+   */
+  ANSWER_CACHE_TTL_HOURS: 72,
+
+  // =====================================================
+  // RSA CORPUS SETTINGS
+  // =====================================================
+
+  /**
+   * Look up cited RSA sections in the statute corpus: exact text is added
+   * to synthesis and the audit checks cited sections exist
+   */
+  ENABLE_RSA_LOOKUP: true,
+
+  /**
+   * Maximum statute sections added to one synthesis call
+   */
+  MAX_RSA_SECTIONS: 4,
+
+  /**
+   * Statute text beyond this many characters is cut (long sections such as
+   * RSA 91-A:3 run to several pages)
+   */
+  RSA_SECTION_MAX_CHARS: 6000,
+
+  // =====================================================
+  // CLARIFICATION SETTINGS
+  // =====================================================
+
+  /**
+   * Ask which town, board or year a question means (with quick-reply
+   * options) instead of answering an ambiguous question directly
+   */
+  ENABLE_CLARIFICATION_TURNS: true,
+
+  /**
+   * Maximum quick-reply options offered in a clarification
+   */
+  CLARIFICATION_MAX_OPTIONS: 5,
+
+  // =====================================================
+  // LATENCY BUDGET SETTINGS
+  // =====================================================
+
+  /**
+   * Hold each stage to a time budget and fall back (heuristic plan, one
+   * lane, no repair, no follow-ups) rather than wait past it
+   */
+  ENABLE_LATENCY_BUDGETS: true,
+
+  /**
+   * Overall deadline for an answer, from the start of planning through
+   * follow-ups. Every stage budget is capped by the time left.
+   */
+  PIPELINE_DEADLINE_MS: 30000,
+
+  /**
+   * Planner LLM call; past it the heuristic plan is used
+   */
+  PLANNER_BUDGET_MS: 5000,
+
+  /**
+   * Each retrieval lane (local, state); a lane past it is dropped and the
+   * answer uses the other lane's results
+   */
+  RETRIEVAL_LANE_BUDGET_MS: 10000,
+
+  /**
+   * Time synthesis is expected to need. Synthesis is never cut short, but
+   * with less than this left before the deadline the degraded model writes
+   * the answer.
+   */
+  SYNTHESIS_BUDGET_MS: 12000,
+
+  /**
+   * Audit repair (a second synthesis); skipped when less than this is left,
+   * and the original answer kept if the repair runs past it
+   */
+  REPAIR_BUDGET_MS: 10000,
+
+  /**
+   * Follow-up suggestions; dropped when they run past it
+   */
+  FOLLOWUPS_BUDGET_MS: 4000,
 };
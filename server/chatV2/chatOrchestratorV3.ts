@@ -7,18 +7,25 @@
  * Stage 2: Retrieve - Multi-query retrieval with coverage guarantees
  * Stage 3: Synthesize - Structured answer with tier-based confidence
  * Stage 4: Audit - Post-generation checks and optional repair
+ * Stage 5: Cite - Number inline citation markers and tie them to chunks
  */
 
-import { logDebug, logInfo } from "../utils/logger";
-import { runPlannerV3 } from "./plannerV3";
+import { logDebug, logInfo, logWarn } from "../utils/logger";
+import { storage } from "../storage";
+import { runPlannerV3, runHeuristicPlannerV3 } from "./plannerV3";
 import { twoLaneRetrieveWithPlan, type V3RetrievalResult } from "./twoLaneRetrieve";
 import { synthesizeV3, computeRecordStrength } from "./synthesizerV3";
 import { auditAnswer, shouldAttemptRepair, selectBetterAnswer, normalizeAnswerFormat, type AnswerScore } from "./audit";
 import { chatConfigV3 } from "./chatConfigV3";
 import { getSessionSourceTextForContext } from "./sessionSourceDetector";
+import { numberCitationMarkers } from "./citationMarkers";
 import { computeQuestionSituationMatch } from "./situationExtractor";
+import { noMinutesInRangeNotice } from "./scopeUtils";
+import { getKnownTowns, ensureMissingTownNotes } from "./townComparison";
+import { createLatencyBudget, runWithinBudget, withLatencyNotice, type LatencyBudget } from "./latencyBudget";
 import type {
   IssueMap,
+  PlannerOutput,
   RecordStrength,
   V3PipelineResult,
   V3DebugInfo,
@@ -28,10 +35,17 @@ import type {
   LabeledChunk,
   AnswerType,
   RenderStyle,
+  DateRange,
 } from "./types";
 import type { SessionSource, SituationContext } from "@shared/schema";
+import type { ChatStreamEmitter } from "@shared/chatStream";
+import type { ChatNotice } from "@shared/chatNotices";
+import type { ClarificationConstraints } from "@shared/chatClarification";
 
 import { detectAnswerTypeFromQuestion } from "./router";
+import { applyClarificationConstraints } from "./clarification";
+import { lookupStatuteChunks, buildRsaEvidence, findUnsuppliedCitations } from "./rsaLookup";
+import { parseRsaCitations } from "../services/rsaCorpus";
 
 const LIST_TRIGGER_PATTERNS = [
   /\blist\b/i,
@@ -74,6 +88,26 @@ export interface V3OrchestratorOptions {
   situationContext?: SituationContext | null;
   sessionSources?: SessionSource[];
   logContext?: PipelineLogContext;
+  /**
+   * Explicit towns to compare (ChatV2Request.metadata.towns). Without it the
+   * planner still detects comparisons from towns named in the question.
+   */
+  comparisonTowns?: string[];
+  /**
+   * Board or year chosen in a clarification turn; narrows the planned
+   * retrieval. A chosen town arrives as townPreference.
+   */
+  clarificationConstraints?: ClarificationConstraints;
+  /**
+   * Optional progress sink for streaming clients. Receives stage transitions,
+   * retrieval counts and synthesis tokens as they are produced.
+   */
+  onEvent?: ChatStreamEmitter;
+  /**
+   * Deadline and fallbacks shared with the caller, which spends what is left
+   * on follow-ups. Created here when omitted.
+   */
+  latencyBudget?: LatencyBudget;
 }
 
 export async function runChatV3Pipeline(
@@ -86,9 +120,14 @@ export async function runChatV3Pipeline(
     situationContext,
     sessionSources,
     logContext,
+    onEvent,
+    comparisonTowns: explicitComparisonTowns,
+    clarificationConstraints,
   } = options;
 
   const startTime = Date.now();
+  const latencyBudget = options.latencyBudget ?? createLatencyBudget(logContext, { startedAt: startTime });
+  const emit: ChatStreamEmitter = (event) => onEvent?.(event);
 
   // =====================================================
   // STAGE 0: SITUATION RELEVANCE GATE
@@ -121,15 +160,32 @@ export async function runChatV3Pipeline(
   // =====================================================
   // STAGE 1: PLAN
   // =====================================================
-  const plannerResult = await runPlannerV3({
+  emit({ type: "stage", stage: "plan", status: "started" });
+
+  const plannerOptions = {
     userMessage,
     sessionSources,
     situationContext: effectiveSituationContext, // Only pass if relevant
     townHint: townPreference || undefined,
+    knownTowns: explicitComparisonTowns?.length ? [] : await getKnownTowns(),
+    comparisonTowns: explicitComparisonTowns,
     logContext,
-  });
+  };
+  const plannerOutcome = await runWithinBudget(runPlannerV3(plannerOptions), latencyBudget.stageBudgetMs("planner"));
+
+  let plannerResult: PlannerOutput;
+  if (plannerOutcome.completed) {
+    plannerResult = plannerOutcome.value;
+  } else {
+    latencyBudget.recordFallback("heuristic_plan", "planner");
+    plannerResult = runHeuristicPlannerV3(plannerOptions);
+  }
 
-  const { issueMap, retrievalPlan, validationWarnings } = plannerResult;
+  const { validationWarnings } = plannerResult;
+  const { issueMap, retrievalPlan } = clarificationConstraints
+    ? applyClarificationConstraints(plannerResult.issueMap, plannerResult.retrievalPlan, clarificationConstraints)
+    : plannerResult;
+  const comparisonTowns = retrievalPlan.comparisonTowns;
 
   logDebug("v3_plan_complete", {
     requestId: logContext?.requestId,
@@ -141,12 +197,26 @@ export async function runChatV3Pipeline(
     stateQueryCount: retrievalPlan.state.queries.length,
     legalSalience: issueMap.legalSalience,
     plannerConfidence: issueMap.plannerConfidence,
+    dateRange: retrievalPlan.dateRange?.label,
+    preferRecent: retrievalPlan.preferRecent,
+    comparisonTowns,
+    clarificationConstraints,
     validationWarnings,
   });
 
+  emit({
+    type: "plan",
+    localQueryCount: retrievalPlan.local.queries.length,
+    stateQueryCount: retrievalPlan.state.queries.length,
+    legalSalience: issueMap.legalSalience,
+  });
+  emit({ type: "stage", stage: "plan", status: "completed" });
+
   // =====================================================
   // STAGE 2: RETRIEVE
   // =====================================================
+  emit({ type: "stage", stage: "retrieval", status: "started" });
+
   const retrievalResult = await twoLaneRetrieveWithPlan(
     retrievalPlan,
     issueMap,
@@ -154,8 +224,15 @@ export async function runChatV3Pipeline(
       townPreference,
       situationContext: effectiveSituationContext, // Only pass if relevant
       logContext,
+      laneBudgetMs: latencyBudget.stageBudgetMs("localLane"),
     }
   );
+  for (const lane of retrievalResult.droppedLanes) {
+    latencyBudget.recordFallback(
+      lane === "local" ? "local_lane_dropped" : "state_lane_dropped",
+      lane === "local" ? "localLane" : "stateLane"
+    );
+  }
 
   logDebug("v3_retrieve_complete", {
     requestId: logContext?.requestId,
@@ -169,6 +246,33 @@ export async function runChatV3Pipeline(
     earlyExitTriggered: retrievalResult.debug.earlyExitTriggered,
   });
 
+  emit({
+    type: "retrieval",
+    localCount: retrievalResult.localCount,
+    stateCount: retrievalResult.stateCount,
+    earlyExit: retrievalResult.debug.earlyExitTriggered,
+  });
+  emit({ type: "stage", stage: "retrieval", status: "completed" });
+
+  // Sections the question cites by number are supplied verbatim from the
+  // statute corpus rather than left to search
+  const questionStatuteChunks = await lookupStatuteChunks(
+    parseRsaCitations(userMessage),
+    retrievalResult.stateChunks.length,
+    logContext
+  );
+  const stateChunks = [...retrievalResult.stateChunks, ...questionStatuteChunks];
+
+  const notices: ChatNotice[] = [];
+  const dateRange = retrievalPlan.dateRange;
+  const answerTowns = comparisonTowns || (townPreference ? [townPreference] : []);
+  if (dateRange && answerTowns.length > 0) {
+    const minutesNotices = await Promise.all(answerTowns.map((town) => checkMinutesInRange(town, dateRange, logContext)));
+    minutesNotices.forEach((notice) => {
+      if (notice) notices.push(notice);
+    });
+  }
+
   // =====================================================
   // STAGE 3: SYNTHESIZE
   // =====================================================
@@ -178,7 +282,7 @@ export async function runChatV3Pipeline(
 
   const recordStrength = computeRecordStrength(
     retrievalResult.localChunks,
-    retrievalResult.stateChunks,
+    stateChunks,
     issueMap,
     retrievalResult.situationAlignment
   );
@@ -195,46 +299,74 @@ export async function runChatV3Pipeline(
     legalSalience: issueMap.legalSalience,
   });
 
+  // Synthesis is never cut short; when its budget no longer fits before the
+  // deadline the faster degraded model writes the answer instead
+  const degradedSynthesis = latencyBudget.stageBudgetMs("synthesis") < chatConfigV3.SYNTHESIS_BUDGET_MS;
+  if (degradedSynthesis) {
+    latencyBudget.recordFallback("degraded_synthesis", "synthesis");
+  }
+
+  emit({ type: "stage", stage: "synthesis", status: "started" });
+
   let synthesisResult = await synthesizeV3({
     userMessage,
     issueMap,
     sessionSourceText,
     localChunks: retrievalResult.localChunks,
-    stateChunks: retrievalResult.stateChunks,
+    stateChunks,
     recordStrength,
     history: historyForSynthesis,
     logContext,
     answerType,
     renderStyle,
+    comparisonTowns,
+    degraded: degradedSynthesis,
+    onToken: onEvent ? (text) => emit({ type: "token", text }) : undefined,
   });
 
+  emit({ type: "stage", stage: "synthesis", status: "completed" });
+
   let answerText = synthesisResult.answerText;
   let auditFlags: string[] = [];
   let repairRan = false;
   let selectedAnswerSource: 'original' | 'repair' | 'repair_normalized' | 'original_normalized' = 'original';
   let originalScore: AnswerScore | undefined;
   let repairScore: AnswerScore | undefined;
+  // State chunks the selected answer was written from; a repair may add statute text
+  let answerStateChunks = stateChunks;
 
   // =====================================================
   // STAGE 4: AUDIT + REPAIR
   // =====================================================
   if (chatConfigV3.ENABLE_AUDIT) {
-    const stateChunkCount = retrievalResult.stateChunks.length;
+    emit({ type: "stage", stage: "audit", status: "started" });
+
+    const stateChunkCount = stateChunks.length;
     
+    const rsaEvidence = await buildRsaEvidence(answerText, stateChunks, logContext);
+
     const auditResult = auditAnswer({
       answerText,
-      stateChunks: retrievalResult.stateChunks,
+      localChunks: retrievalResult.localChunks,
+      stateChunks,
       citationsUsed: synthesisResult.citationsUsed,
       issueMap,
       situationContext: effectiveSituationContext,
       logContext,
       renderStyle,
       answerType,
+      rsaEvidence,
     });
 
     auditFlags = auditResult.violations.map(v => `${v.type}:${v.severity}`);
 
-    if (shouldAttemptRepair(auditResult, false)) {
+    const wantsRepair = shouldAttemptRepair(auditResult, false);
+    const repairBudgetMs = latencyBudget.stageBudgetMs("repair");
+
+    if (wantsRepair && repairBudgetMs < chatConfigV3.REPAIR_BUDGET_MS) {
+      // Too little time left for a second synthesis; the original stands
+      latencyBudget.recordFallback("repair_skipped", "repair");
+    } else if (wantsRepair) {
       logDebug("v3_repair_triggered", {
         requestId: logContext?.requestId,
         sessionId: logContext?.sessionId,
@@ -243,117 +375,164 @@ export async function runChatV3Pipeline(
         repairHint: auditResult.repairHint,
       });
 
-      const repairSynthesisResult = await synthesizeV3({
-        userMessage,
-        issueMap,
-        sessionSourceText,
-        localChunks: retrievalResult.localChunks,
-        stateChunks: retrievalResult.stateChunks,
-        recordStrength,
-        history: historyForSynthesis,
-        logContext,
-        isRepairAttempt: true,
-        answerType,
-        renderStyle,
-      });
-
-      repairRan = true;
-
-      // Use the new scoring system to pick better answer
-      const selection = selectBetterAnswer(
-        synthesisResult.answerText,
-        repairSynthesisResult.answerText,
-        stateChunkCount
-      );
-      
-      originalScore = selection.originalScore;
-      repairScore = selection.repairScore;
-
-      if (selection.selectedSource === 'repair') {
-        answerText = repairSynthesisResult.answerText;
-        selectedAnswerSource = 'repair';
-        
-        // Re-audit the selected answer for flags
-        const repairAuditResult = auditAnswer({
-          answerText,
-          stateChunks: retrievalResult.stateChunks,
-          citationsUsed: repairSynthesisResult.citationsUsed,
+      const repairOutcome = await runWithinBudget((async () => {
+        // Sections the answer cited without their text being supplied are
+        // looked up so the repair can quote them
+        const citedStatuteChunks = await lookupStatuteChunks(
+          findUnsuppliedCitations(answerText, rsaEvidence),
+          stateChunks.length,
+          logContext
+        );
+        const repairStateChunks = [...stateChunks, ...citedStatuteChunks];
+
+        const repairSynthesisResult = await synthesizeV3({
+          userMessage,
           issueMap,
-          situationContext: effectiveSituationContext,
+          sessionSourceText,
+          localChunks: retrievalResult.localChunks,
+          stateChunks: repairStateChunks,
+          recordStrength,
+          history: historyForSynthesis,
           logContext,
-          renderStyle,
+          isRepairAttempt: true,
           answerType,
+          renderStyle,
+          comparisonTowns,
         });
-        auditFlags = repairAuditResult.violations.map(v => `${v.type}:${v.severity}`);
-        
-        logDebug("v3_repair_selected", {
-          requestId: logContext?.requestId,
-          sessionId: logContext?.sessionId,
-          stage: "v3_audit",
-          reason: "Repair scored higher or is more complete",
-          originalScore: selection.originalScore.score,
-          repairScore: selection.repairScore.score,
-          originalComplete: selection.originalScore.isComplete,
-          repairComplete: selection.repairScore.isComplete,
-        });
-      } else {
-        logDebug("v3_original_kept", {
-          requestId: logContext?.requestId,
-          sessionId: logContext?.sessionId,
-          stage: "v3_audit",
-          reason: "Original scored higher or repair not better",
-          originalScore: selection.originalScore.score,
-          repairScore: selection.repairScore.score,
-        });
-      }
 
-      // Apply normalization if answer has format violations
-      const currentAuditResult = auditAnswer({
-        answerText,
-        stateChunks: retrievalResult.stateChunks,
-        citationsUsed: synthesisResult.citationsUsed,
-        issueMap,
-        situationContext: effectiveSituationContext,
-        logContext,
-        renderStyle,
-        answerType,
-      });
+        return { repairStateChunks, repairSynthesisResult };
+      })(), repairBudgetMs);
 
-      if (currentAuditResult.violations.some(v => v.type === 'format_violation')) {
-        const normalizedAnswer = normalizeAnswerFormat(answerText);
+      if (!repairOutcome.completed) {
+        latencyBudget.recordFallback("repair_skipped", "repair");
+      } else {
+        const { repairStateChunks, repairSynthesisResult } = repairOutcome.value;
+        repairRan = true;
+
+        // Use the new scoring system to pick better answer
+        const selection = selectBetterAnswer(
+          synthesisResult.answerText,
+          repairSynthesisResult.answerText,
+          stateChunkCount
+        );
+      
+        originalScore = selection.originalScore;
+        repairScore = selection.repairScore;
+
+        if (selection.selectedSource === 'repair') {
+          answerText = repairSynthesisResult.answerText;
+          answerStateChunks = repairStateChunks;
+          selectedAnswerSource = 'repair';
+        
+          // Re-audit the selected answer for flags
+          const repairAuditResult = auditAnswer({
+            answerText,
+            localChunks: retrievalResult.localChunks,
+            stateChunks: answerStateChunks,
+            citationsUsed: repairSynthesisResult.citationsUsed,
+            issueMap,
+            situationContext: effectiveSituationContext,
+            logContext,
+            renderStyle,
+            answerType,
+            rsaEvidence: await buildRsaEvidence(answerText, answerStateChunks, logContext),
+          });
+          auditFlags = repairAuditResult.violations.map(v => `${v.type}:${v.severity}`);
         
-        // Check if normalization helped
-        const normalizedAudit = auditAnswer({
-          answerText: normalizedAnswer,
-          stateChunks: retrievalResult.stateChunks,
+          logDebug("v3_repair_selected", {
+            requestId: logContext?.requestId,
+            sessionId: logContext?.sessionId,
+            stage: "v3_audit",
+            reason: "Repair scored higher or is more complete",
+            originalScore: selection.originalScore.score,
+            repairScore: selection.repairScore.score,
+            originalComplete: selection.originalScore.isComplete,
+            repairComplete: selection.repairScore.isComplete,
+          });
+        } else {
+          logDebug("v3_original_kept", {
+            requestId: logContext?.requestId,
+            sessionId: logContext?.sessionId,
+            stage: "v3_audit",
+            reason: "Original scored higher or repair not better",
+            originalScore: selection.originalScore.score,
+            repairScore: selection.repairScore.score,
+          });
+        }
+
+        // Apply normalization if answer has format violations
+        const selectedRsaEvidence = await buildRsaEvidence(answerText, answerStateChunks, logContext);
+        const currentAuditResult = auditAnswer({
+          answerText,
+          localChunks: retrievalResult.localChunks,
+          stateChunks: answerStateChunks,
           citationsUsed: synthesisResult.citationsUsed,
           issueMap,
           situationContext: effectiveSituationContext,
           logContext,
           renderStyle,
           answerType,
+          rsaEvidence: selectedRsaEvidence,
         });
+
+        if (currentAuditResult.violations.some(v => v.type === 'format_violation')) {
+          const normalizedAnswer = normalizeAnswerFormat(answerText);
         
-        const normalizedFormatViolations = normalizedAudit.violations.filter(v => v.type === 'format_violation').length;
-        const currentFormatViolations = currentAuditResult.violations.filter(v => v.type === 'format_violation').length;
+          // Check if normalization helped
+          const normalizedAudit = auditAnswer({
+            answerText: normalizedAnswer,
+            localChunks: retrievalResult.localChunks,
+            stateChunks: answerStateChunks,
+            citationsUsed: synthesisResult.citationsUsed,
+            issueMap,
+            situationContext: effectiveSituationContext,
+            logContext,
+            renderStyle,
+            answerType,
+            rsaEvidence: selectedRsaEvidence,
+          });
         
-        if (normalizedFormatViolations < currentFormatViolations) {
-          answerText = normalizedAnswer;
-          selectedAnswerSource = selectedAnswerSource === 'repair' ? 'repair_normalized' : 'original_normalized';
-          auditFlags = normalizedAudit.violations.map(v => `${v.type}:${v.severity}`);
+          const normalizedFormatViolations = normalizedAudit.violations.filter(v => v.type === 'format_violation').length;
+          const currentFormatViolations = currentAuditResult.violations.filter(v => v.type === 'format_violation').length;
+        
+          if (normalizedFormatViolations < currentFormatViolations) {
+            answerText = normalizedAnswer;
+            selectedAnswerSource = selectedAnswerSource === 'repair' ? 'repair_normalized' : 'original_normalized';
+            auditFlags = normalizedAudit.violations.map(v => `${v.type}:${v.severity}`);
           
-          logDebug("v3_answer_normalized", {
-            requestId: logContext?.requestId,
-            sessionId: logContext?.sessionId,
-            stage: "v3_audit",
-            originalFormatViolations: currentFormatViolations,
-            normalizedFormatViolations,
-          });
+            logDebug("v3_answer_normalized", {
+              requestId: logContext?.requestId,
+              sessionId: logContext?.sessionId,
+              stage: "v3_audit",
+              originalFormatViolations: currentFormatViolations,
+              normalizedFormatViolations,
+            });
+          }
         }
       }
     }
+
+    emit({ type: "audit", flags: auditFlags, repairRan });
+    emit({ type: "stage", stage: "audit", status: "completed" });
+  }
+
+  if (comparisonTowns) {
+    const townsWithoutDocuments = comparisonTowns.filter(
+      (town) => !retrievalResult.localChunks.some((c) => c.town === town)
+    );
+    answerText = ensureMissingTownNotes(answerText, townsWithoutDocuments);
   }
 
+  // =====================================================
+  // STAGE 5: NUMBER CITATIONS
+  // =====================================================
+  // Lane labels ([L1], [S2]) become public markers ([1], [2]) tied to chunks
+  const numbered = numberCitationMarkers(answerText, [
+    ...retrievalResult.localChunks,
+    ...answerStateChunks,
+  ]);
+  answerText = numbered.answerText;
+
   // =====================================================
   // BUILD RESULT
   // =====================================================
@@ -399,6 +578,7 @@ export async function runChatV3Pipeline(
     } : undefined,
     finalAnswerCharLen: answerText.length,
     finalAnswerWordCount: answerText.split(/\s+/).filter(w => w.length > 0).length,
+    latencyFallbacks: [...latencyBudget.fallbacks],
   };
 
   logInfo("v3_pipeline_complete", {
@@ -409,8 +589,10 @@ export async function runChatV3Pipeline(
     tier: recordStrength.tier,
     localSelected: retrievalResult.localCount,
     stateSelected: retrievalResult.stateCount,
+    statuteSections: answerStateChunks.filter(c => c.rsaCitation).map(c => c.rsaCitation),
     auditFlagCount: auditFlags.length,
     repairRan,
+    latencyFallbacks: latencyBudget.fallbacks,
     durationMs,
   });
 
@@ -418,14 +600,48 @@ export async function runChatV3Pipeline(
     answerText,
     sourceDocumentNames: retrievalResult.allDocumentNames,
     docSourceType,
-    docSourceTown: townPreference || null,
+    docSourceTown: comparisonTowns ? comparisonTowns.join(", ") : townPreference || null,
     retrievedChunkCount: retrievalResult.localCount + retrievalResult.stateCount,
     recordStrength,
+    citedChunks: numbered.citedChunks,
+    notices: withLatencyNotice(notices, latencyBudget),
     debug: debugInfo,
     durationMs,
   };
 }
 
+/**
+ * Notice for a time-bounded question when the town has no minutes dated in
+ * the requested window. A failed lookup yields no notice rather than an error.
+ */
+async function checkMinutesInRange(
+  town: string,
+  dateRange: DateRange,
+  logContext?: PipelineLogContext
+): Promise<ChatNotice | null> {
+  try {
+    const count = await storage.countMinutesInRange({ town, dateRange });
+    if (count > 0) return null;
+
+    logDebug("v3_no_minutes_in_range", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "v3_retrieval",
+      town,
+      dateRange: dateRange.label,
+    });
+    return noMinutesInRangeNotice(town, dateRange.label);
+  } catch (error) {
+    logWarn("v3_minutes_range_check_failed", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "v3_retrieval",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
 function classifyDocSourceType(localCount: number, stateCount: number): DocSourceType {
   if (localCount === 0 && stateCount === 0) {
     return "none";
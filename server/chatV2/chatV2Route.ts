@@ -1,21 +1,44 @@
 import { randomUUID } from "crypto";
 import type { Express, Response, NextFunction } from "express";
-import type { IdentityRequest } from "../auth/types";
+import type { ActorContext, IdentityRequest } from "../auth/types";
 import { storage } from "../storage";
+import { ownsSession } from "../auth/sessionAccess";
 import { generateFollowups } from "./generateFollowups";
-import { mapFileSearchDocumentsToCitations } from "./sources";
+import { mapFileSearchDocumentsToCitations, mapAnswerSources } from "./sources";
 import { logInfo, logDebug, logError, logWarn, sanitizeUserContent } from "../utils/logger";
 import { GeminiQuotaExceededError, getQuotaExceededMessage } from "../utils/geminiErrors";
 import { resolveTownPreference, buildTrimmedHistoryForAnswer } from "./pipelineUtils";
+import { getActiveBranch, getBranchPath, getBranchSituationContext } from "./conversationBranches";
 import { runUnifiedChatPipeline } from "./unifiedPipeline";
 import { runChatV3Pipeline } from "./chatOrchestratorV3";
-import { extractSituationHeuristic } from "./situationExtractor";
+import { createLatencyBudget, runWithinBudget, withLatencyNotice, type LatencyBudget } from "./latencyBudget";
+import { highDemandNotice } from "./scopeUtils";
+import { describeRecordStrength } from "./recordStrength";
+import { extractSituationHeuristic, computeQuestionSituationMatch } from "./situationExtractor";
 import { detectDrift, shouldRegenerate } from "./driftDetector";
 import { detectSessionSource } from "./sessionSourceDetector";
+import { titleSessionFromFirstExchange } from "./sessionTitle";
+import { routeQuestion } from "./router";
+import { getKnownTowns } from "./townComparison";
+import {
+  mayNeedClarification,
+  buildClarificationPrompt,
+  getMessageClarification,
+  findClarificationResume,
+  clarifiedQuestion,
+  recordClarificationEvent,
+} from "./clarification";
 import { chatConfig } from "./chatConfig";
 import { chatConfigV3 } from "./chatConfigV3";
-import { chatMessageLimiter } from "../middleware/rateLimiter";
-import type { SituationContext, SessionSource } from "@shared/schema";
+import {
+  isCacheableQuestion,
+  lookupCachedAnswer,
+  storeCachedAnswer,
+  recordAnswerCacheEvent,
+  type AnswerCacheLookup,
+} from "./answerCache";
+import { chatMessageLimiter, chatAttachmentLimiter } from "../middleware/rateLimiter";
+import type { ChatMessage, QueuedQuestion, SituationContext, SessionSource } from "@shared/schema";
 import type {
   ChatV2Request,
   ChatV2Response,
@@ -25,741 +48,1322 @@ import type {
   SourceCitation,
   PipelineLogContext,
   DocSourceType,
+  CitedChunk,
 } from "./types";
 import type { ChatNotice } from "@shared/chatNotices";
+import type { AnswerRecordStrength } from "@shared/recordStrength";
+import { formatChatStreamEvent, type ChatStreamEmitter, type ChatStreamEvent } from "@shared/chatStream";
 import multer from "multer";
 import * as path from "path";
 import * as fs from "fs/promises";
-import { extractPreviewText, getMimeType } from "../services/fileProcessing";
+import { getMimeType } from "../services/fileProcessing";
+import { getPipelineAssignment, recordChatAnswerEvent } from "../services/experiments";
+import { hasReachedDailyLimit } from "../middleware/usageLimits";
+import {
+  pipelineExecutor,
+  getPriorityClass,
+  recordQueueWaitEvent,
+  withBackgroundSlot,
+  PipelineQueueError,
+  type PipelineSlot,
+} from "../services/pipelineExecutor";
+import {
+  CHAT_ATTACHMENT_EXTENSIONS,
+  extractChatAttachment,
+  combineAttachments,
+  buildQuestionWithAttachments,
+  type ChatAttachment,
+} from "./attachments";
 
 const chatUpload = multer({
   dest: "uploads/chat/",
-  limits: { fileSize: 25 * 1024 * 1024 },
+  limits: { fileSize: 25 * 1024 * 1024, files: chatConfig.MAX_ATTACHMENTS_PER_MESSAGE },
   fileFilter: (req, file, cb) => {
-    const allowed = ['.pdf', '.docx', '.txt'];
     const ext = path.extname(file.originalname).toLowerCase();
-    if (allowed.includes(ext)) {
+    if (CHAT_ATTACHMENT_EXTENSIONS.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only PDF, DOCX, and TXT files are allowed.'));
+      cb(new Error('Invalid file type. Only PDF, DOCX, TXT, PNG, JPG and TIFF files are allowed.'));
     }
   },
 });
 
+function handleChatUpload(req: IdentityRequest, res: Response, next: NextFunction) {
+  chatUpload.array("files", chatConfig.MAX_ATTACHMENTS_PER_MESSAGE)(req, res, (err: any) => {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(400).json({ message: "File too large. Maximum size is 25MB." });
+      }
+      if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+        return res.status(400).json({
+          message: `Too many files. Attach up to ${chatConfig.MAX_ATTACHMENTS_PER_MESSAGE} files per message.`,
+        });
+      }
+      if (err.message) {
+        return res.status(400).json({ message: err.message });
+      }
+      return res.status(400).json({ message: "File upload failed" });
+    }
+    next();
+  });
+}
+
+/**
+ * Reply over Server-Sent Events. Headers are deferred until the first event
+ * so validation failures can still be reported with a normal status code.
+ */
+function createStreamReply(res: Response): { reply: ChatV2Reply; send: ChatStreamEmitter } {
+  let streamOpen = false;
+
+  const send = (event: ChatStreamEvent) => {
+    if (!streamOpen) {
+      res.status(200);
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      res.flushHeaders();
+      streamOpen = true;
+    }
+    // The pipeline keeps running after a disconnect so the answer is still saved
+    if (res.writableEnded || res.destroyed) return;
+    res.write(formatChatStreamEvent(event));
+  };
+
+  const reply: ChatV2Reply = {
+    ok: (response) => {
+      send({ type: "done", response });
+      res.end();
+    },
+    fail: (status, message) => {
+      if (!streamOpen) {
+        res.status(status).json({ message });
+        return;
+      }
+      send({ type: "error", message });
+      res.end();
+    },
+  };
+
+  return { reply, send };
+}
+
+/**
+ * Run a request once the pipeline executor gives it a slot. Streaming clients
+ * are sent their queue position while they wait; a client that disconnects
+ * while queued gives up its place.
+ */
+async function withPipelineSlot(
+  req: IdentityRequest,
+  res: Response,
+  reply: ChatV2Reply,
+  onEvent: ChatStreamEmitter | undefined,
+  run: () => Promise<void>
+): Promise<void> {
+  const { sessionId } = req.params;
+  const priorityClass = getPriorityClass(req.actor);
+  const requestedAt = Date.now();
+  const abort = new AbortController();
+  const onClose = () => abort.abort();
+  res.on("close", onClose);
+
+  let slot: PipelineSlot;
+  try {
+    slot = await pipelineExecutor.acquire(priorityClass, {
+      signal: abort.signal,
+      onPosition: onEvent ? (position) => onEvent({ type: "queue", position }) : undefined,
+    });
+  } catch (error) {
+    if (!(error instanceof PipelineQueueError)) throw error;
+
+    await recordQueueWaitEvent({
+      actor: req.actor,
+      sessionId,
+      priorityClass,
+      outcome: error.reason,
+      waitMs: Date.now() - requestedAt,
+      queued: error.reason !== "full",
+    });
+    // Attachments are normally removed by the processing that won't run now
+    const uploadedFiles = (req.files as Express.Multer.File[] | undefined) ?? [];
+    await Promise.all(uploadedFiles.map((file) => fs.unlink(file.path).catch(() => {})));
+
+    if (error.reason === "aborted") return;
+    logWarn("chat_v2_queue_rejected", {
+      sessionId,
+      stage: "pipeline_queue",
+      priorityClass,
+      reason: error.reason,
+      queue: pipelineExecutor.snapshot().queued,
+    });
+    return reply.fail(503, "We're answering a lot of questions right now. Please try again in a minute.");
+  } finally {
+    res.off("close", onClose);
+  }
+
+  await recordQueueWaitEvent({
+    actor: req.actor,
+    sessionId,
+    priorityClass,
+    outcome: "admitted",
+    waitMs: slot.waitMs,
+    queued: slot.queued,
+  });
+
+  try {
+    await run();
+  } finally {
+    slot.release();
+  }
+}
+
 export function registerChatV2Routes(app: Express): void {
   app.post("/api/chat/v2/sessions/:sessionId/messages", chatMessageLimiter, async (req: IdentityRequest, res: Response) => {
-    const startTime = Date.now();
-    const requestId = randomUUID();
-    const { sessionId } = req.params;
+    const reply: ChatV2Reply = {
+      ok: (response) => res.json(response),
+      fail: (status, message) => res.status(status).json({ message }),
+    };
+    await withPipelineSlot(req, res, reply, undefined, () => processChatV2Message(chatV2Input(req), reply));
+  });
+
+  app.post("/api/chat/v2/sessions/:sessionId/messages/stream", chatMessageLimiter, async (req: IdentityRequest, res: Response) => {
+    const { reply, send } = createStreamReply(res);
+    await withPipelineSlot(req, res, reply, send, () => processChatV2Message(chatV2Input(req), reply, send));
+  });
+
+  app.post(
+    "/api/chat/v2/sessions/:sessionId/messages/upload",
+    chatMessageLimiter,
+    chatAttachmentLimiter,
+    handleChatUpload,
+    async (req: IdentityRequest, res: Response) => {
+      const reply: ChatV2Reply = {
+        ok: (response) => res.json(response),
+        fail: (status, message) => res.status(status).json({ message }),
+      };
+      await withPipelineSlot(req, res, reply, undefined, () => processChatV2Upload(req, reply));
+    }
+  );
+
+  // Same as /upload, with attachment OCR progress and pipeline stages streamed
+  app.post(
+    "/api/chat/v2/sessions/:sessionId/messages/upload/stream",
+    chatMessageLimiter,
+    chatAttachmentLimiter,
+    handleChatUpload,
+    async (req: IdentityRequest, res: Response) => {
+      const { reply, send } = createStreamReply(res);
+      await withPipelineSlot(req, res, reply, send, () => processChatV2Upload(req, reply, send));
+    }
+  );
+}
+
+async function processChatV2Upload(
+  req: IdentityRequest,
+  reply: ChatV2Reply,
+  onEvent?: ChatStreamEmitter
+): Promise<void> {
+  const startTime = Date.now();
+  const requestId = randomUUID();
+  const { sessionId } = req.params;
+  const uploadedFiles = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+  const logCtx: PipelineLogContext = { requestId, sessionId, actor: req.actor, promptVersions: {} };
 
-    const logCtx: PipelineLogContext = { requestId, sessionId, actor: req.actor };
+  const removeUploads = async () => {
+    await Promise.all(uploadedFiles.map((file) => fs.unlink(file.path).catch(() => {})));
+  };
 
+  try {
+    const content = req.body.content || "";
+    let metadata: { town?: string; board?: string } | undefined;
+    
     try {
-      const { content, metadata }: ChatV2Request = req.body;
+      if (req.body.metadata) {
+        metadata = JSON.parse(req.body.metadata);
+      }
+    } catch {
+      metadata = undefined;
+    }
+
+    logInfo("chat_v2_upload_request_received", {
+      ...logCtx,
+      stage: "entry",
+      userQuestion: sanitizeUserContent(content, 200),
+      fileCount: uploadedFiles.length,
+      filenames: uploadedFiles.map((file) => file.originalname),
+    });
+
+    if (!content.trim() && uploadedFiles.length === 0) {
+      return reply.fail(400, "Message content or file is required");
+    }
+
+    // Someone else's conversation reads as missing, as in the session routes
+    const session = await storage.getChatSessionById(sessionId);
+    if (!session || !req.actor || !ownsSession(req.actor, session)) {
+      await removeUploads();
+      return reply.fail(404, "Chat session not found");
+    }
+
+    const attachments: ChatAttachment[] = [];
+
+    if (uploadedFiles.length > 0) {
+      onEvent?.({ type: "stage", stage: "attachments", status: "started" });
+      try {
+        // One file at a time: inline OCR is CPU-heavy
+        for (const file of uploadedFiles) {
+          try {
+            attachments.push(
+              await extractChatAttachment(file.path, file.originalname, {
+                onOcrProgress: (page, pageCount) =>
+                  onEvent?.({ type: "ocr", filename: file.originalname, page, pageCount }),
+                logContext: logCtx,
+              })
+            );
+          } catch (extractionError) {
+            logError("chat_file_extraction_error", {
+              ...logCtx,
+              stage: "file_extraction",
+              filename: file.originalname,
+              error: extractionError instanceof Error ? extractionError.message : String(extractionError),
+            });
+            // Still proceed with the upload, but note the extraction failed
+            attachments.push({
+              filename: file.originalname,
+              mimeType: getMimeType(file.originalname),
+              extractedText: "(File uploaded but text extraction failed)",
+            });
+          }
+        }
+      } finally {
+        await removeUploads();
+      }
+      onEvent?.({ type: "stage", stage: "attachments", status: "completed" });
+    }
+
+    const allMessages = await storage.getMessagesBySessionId(sessionId);
+    const activeBranch = getActiveBranch(allMessages, session.activeMessageId);
+    const trimmedContent = content.trim();
+    const attachmentInfo = attachments.length > 0 ? combineAttachments(attachments) : undefined;
+
+    const displayContent = attachmentInfo
+      ? `${trimmedContent}\n\n[Attached: ${attachmentInfo.filename}]`
+      : trimmedContent;
+
+    const userMessage = await storage.createChatMessage({
+      sessionId,
+      parentId: activeBranch.length > 0 ? activeBranch[activeBranch.length - 1].id : null,
+      role: "user",
+      content: displayContent,
+      citations: null,
+      attachmentFilename: attachmentInfo?.filename || null,
+      attachmentMimeType: attachmentInfo?.mimeType || null,
+      attachmentExtractedText: attachmentInfo?.extractedText || null,
+    });
+
+    const chatHistory: ChatHistoryMessage[] = activeBranch
+      .map((m) => ({
+        role: m.role as "user" | "assistant",
+        content: m.content,
+      }));
+
+    const resolvedTown = await resolveTownPreference({
+      explicitTown: metadata?.town,
+      sessionId,
+      actor: req.actor,
+    });
+
+    // Build question with attachment context if present
+    const questionWithAttachment = buildQuestionWithAttachments(trimmedContent, attachments);
+
+    const trimmedHistory = buildTrimmedHistoryForAnswer(chatHistory);
+
+    // SIMPLIFIED PIPELINE: Two-lane retrieval + single synthesis
+    onEvent?.({ type: "stage", stage: "synthesis", status: "started" });
+    const pipelineResult = await runUnifiedChatPipeline({
+      question: questionWithAttachment,
+      sessionHistory: trimmedHistory,
+      townPreference: resolvedTown,
+      logContext: logCtx,
+    });
+    onEvent?.({ type: "stage", stage: "synthesis", status: "completed" });
+
+    const answerText = pipelineResult.answerText;
+    const sourceDocumentNames = pipelineResult.sourceDocumentNames;
+    const docSourceType = pipelineResult.docSourceType;
+    const docSourceTown = pipelineResult.docSourceTown;
+
+    // Generate follow-up suggestions
+    const suggestedFollowUps = await generateFollowups({
+      userQuestion: trimmedContent || "Analyze this document",
+      answerText,
+      townPreference: resolvedTown,
+      detectedDomains: [],
+      logContext: logCtx,
+    });
+
+    const sources = await mapFileSearchDocumentsToCitations(sourceDocumentNames);
+
+    const answerMeta: FinalAnswerMeta = {
+      complexity: "simple",
+      requiresClarification: false,
+      criticScore: { relevance: 1, completeness: 1, clarity: 1, riskOfMisleading: 0 },
+    };
+
+    const v2Metadata = {
+      v2: true,
+      answerMeta,
+      sources,
+      suggestedFollowUps,
+      notices: [] as ChatNotice[],
+      promptVersions: logCtx.promptVersions,
+    };
+
+    const assistantMessage = await storage.createChatMessage({
+      sessionId,
+      parentId: userMessage.id,
+      role: "assistant",
+      content: answerText,
+      citations: JSON.stringify(v2Metadata),
+    });
+
+    await titleSessionFromFirstExchange({
+      sessionId,
+      isFirstExchange: !chatHistory.some((m) => m.role === "user"),
+      question: trimmedContent || attachmentInfo?.filename || "Document Analysis",
+      answerText,
+      logContext: logCtx,
+    });
+
+    const response: ChatV2Response = {
+      message: {
+        id: assistantMessage.id,
+        sessionId,
+        role: "assistant",
+        content: answerText,
+        createdAt: assistantMessage.createdAt.toISOString(),
+      },
+      answerMeta,
+      sources,
+      suggestedFollowUps,
+    };
+
+    const duration = Date.now() - startTime;
+
+    logInfo("chat_v2_upload_response_ready", {
+      ...logCtx,
+      stage: "exit",
+      sourceCount: sources.length,
+      durationMs: duration,
+      attachmentCount: attachments.length,
+      ocrAttachmentCount: attachments.filter((a) => a.ocr).length,
+      docSourceType,
+      docSourceTown,
+    });
+
+    return reply.ok(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    await removeUploads();
+
+    logError("chat_v2_upload_error", {
+      ...logCtx,
+      stage: "error",
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: duration,
+    });
+
+    return reply.fail(500, error instanceof Error ? error.message : "Failed to process message with file");
+  }
+}
+
+/**
+ * How a processed message is handed back to the caller. The JSON and SSE
+ * routes share the same processing so both persist identical rows.
+ */
+interface ChatV2Reply {
+  ok(response: ChatV2Response): void;
+  fail(status: number, message: string): void;
+}
+
+/**
+ * A chat message to answer: who asked, in which session. Built from the HTTP
+ * request, or from a queued question's stored identity.
+ */
+interface ChatV2Input {
+  sessionId: string;
+  body: ChatV2Request;
+  actor: ActorContext | undefined;
+}
+
+function chatV2Input(req: IdentityRequest): ChatV2Input {
+  return { sessionId: req.params.sessionId, body: req.body, actor: req.actor };
+}
 
-      logInfo("chat_v2_request_received", {
+interface ChatV2ProcessOptions {
+  /**
+   * Answering a queued question in the background: failures go to the reply
+   * only, so the session doesn't collect an error message per retry
+   */
+  queued?: boolean;
+}
+
+async function processChatV2Message(
+  input: ChatV2Input,
+  reply: ChatV2Reply,
+  onEvent?: ChatStreamEmitter,
+  options: ChatV2ProcessOptions = {}
+): Promise<void> {
+  const startTime = Date.now();
+  const requestId = randomUUID();
+  const { sessionId, actor } = input;
+
+  const logCtx: PipelineLogContext = { requestId, sessionId, actor: actor, promptVersions: {} };
+
+  // Parent for any assistant message saved on the error paths
+  let answerParentId: string | null = null;
+
+  try {
+    const { content, metadata, branch } = input.body;
+
+    logInfo("chat_v2_request_received", {
+      ...logCtx,
+      stage: "entry",
+      userQuestion: sanitizeUserContent(content || "", 200),
+      userMetadata: metadata,
+      branchMode: branch?.mode,
+    });
+
+    if (branch?.mode !== "regenerate" && (!content || !content.trim())) {
+      logWarn("chat_v2_invalid_request", {
         ...logCtx,
-        stage: "entry",
-        userQuestion: sanitizeUserContent(content, 200),
-        userMetadata: metadata,
+        stage: "validation",
+        reason: "empty_content",
       });
+      return reply.fail(400, "Message content is required");
+    }
 
-      if (!content || !content.trim()) {
-        logWarn("chat_v2_invalid_request", {
-          ...logCtx,
-          stage: "validation",
-          reason: "empty_content",
-        });
-        return res.status(400).json({ message: "Message content is required" });
-      }
+    // Someone else's conversation reads as missing, so its history can't be
+    // forked or answered from
+    const session = await storage.getChatSessionById(sessionId);
+    if (!session || !actor || !ownsSession(actor, session)) {
+      logWarn("chat_v2_session_not_found", {
+        ...logCtx,
+        stage: "validation",
+      });
+      return reply.fail(404, "Chat session not found");
+    }
 
-      const session = await storage.getChatSessionById(sessionId);
-      if (!session) {
-        logWarn("chat_v2_session_not_found", {
-          ...logCtx,
-          stage: "validation",
-        });
-        return res.status(404).json({ message: "Chat session not found" });
+    // Which pipeline answers this actor's questions; fixed per actor so the
+    // experiment dashboard can compare the two
+    const pipelineAssignment = getPipelineAssignment(actor);
+    const useV3Pipeline = pipelineAssignment.variant === "v3";
+
+    const allMessages = await storage.getMessagesBySessionId(sessionId);
+
+    // A queued answer only takes over the conversation while the asker is
+    // still looking at its high-demand reply
+    const answerMessageOptions = options.queued && branch ? { activeOnlyIfAt: branch.messageId } : {};
+    const onActiveBranch = !answerMessageOptions.activeOnlyIfAt || session.activeMessageId === answerMessageOptions.activeOnlyIfAt;
+
+    // Work out where this turn attaches. New questions continue the active
+    // branch; an edit forks a sibling question and a regenerate re-answers the
+    // existing one, so both only see history up to the fork point.
+    let priorPath: ChatMessage[];
+    let regeneratedQuestion: ChatMessage | undefined;
+
+    if (branch) {
+      const target = allMessages.find((m) => m.id === branch.messageId);
+      const expectedRole = branch.mode === "regenerate" ? "assistant" : "user";
+      if (!target || target.role !== expectedRole) {
+        return reply.fail(404, "Message not found");
       }
 
-      const allMessages = await storage.getMessagesBySessionId(sessionId);
+      if (branch.mode === "regenerate") {
+        regeneratedQuestion = allMessages.find((m) => m.id === target.parentId && m.role === "user");
+        if (!regeneratedQuestion) {
+          return reply.fail(400, "This answer has no question to regenerate");
+        }
+      }
 
-      const recentDuplicateWindow = 120000;
-      const now = Date.now();
-      const trimmedContent = content.trim();
+      const forkedQuestion = regeneratedQuestion ?? target;
+      if (forkedQuestion.attachmentFilename) {
+        return reply.fail(400, "Questions with attachments can't be edited or regenerated. Attach the file again instead.");
+      }
+      priorPath = getBranchPath(allMessages, forkedQuestion.parentId);
+    } else {
+      priorPath = getActiveBranch(allMessages, session.activeMessageId);
+    }
 
-      const recentDuplicate = allMessages.find((m) => {
-        if (m.role !== "user") return false;
-        if (m.content !== trimmedContent) return false;
-        const messageAge = now - new Date(m.createdAt).getTime();
-        return messageAge < recentDuplicateWindow;
+    const recentDuplicateWindow = 120000;
+    const now = Date.now();
+    const trimmedContent = regeneratedQuestion ? regeneratedQuestion.content : content.trim();
+
+    // A reply picking an option offered by a clarification turn resumes the
+    // question asked before it, narrowed by that option
+    const clarificationResume = chatConfigV3.ENABLE_CLARIFICATION_TURNS
+      ? findClarificationResume(priorPath, trimmedContent)
+      : null;
+    const question = clarificationResume ? clarifiedQuestion(clarificationResume) : trimmedContent;
+
+    // Short option replies repeat across clarifications, so they are never duplicates
+    const recentDuplicate = branch || clarificationResume ? undefined : allMessages.find((m) => {
+      if (m.role !== "user") return false;
+      if (m.content !== trimmedContent) return false;
+      const messageAge = now - new Date(m.createdAt).getTime();
+      return messageAge < recentDuplicateWindow;
+    });
+
+    if (recentDuplicate) {
+      logDebug("chat_v2_duplicate_detected", {
+        ...logCtx,
+        stage: "dedup",
+        duplicateWindowMs: recentDuplicateWindow,
       });
 
-      if (recentDuplicate) {
-        logDebug("chat_v2_duplicate_detected", {
+      const messagesAfterDuplicate = allMessages.filter(
+        (m) => m.parentId === recentDuplicate.id && m.role === "assistant"
+      );
+
+      if (messagesAfterDuplicate.length > 0) {
+        const existingResponse = messagesAfterDuplicate[0];
+        logInfo("chat_v2_cached_response_returned", {
           ...logCtx,
           stage: "dedup",
-          duplicateWindowMs: recentDuplicateWindow,
         });
 
-        const messagesAfterDuplicate = allMessages.filter(
-          (m) => new Date(m.createdAt) > new Date(recentDuplicate.createdAt) && m.role === "assistant"
-        );
+        const cachedData = parseCachedV2Response(existingResponse.citations);
+        const response: ChatV2Response = {
+          message: {
+            id: existingResponse.id,
+            sessionId,
+            role: "assistant",
+            content: existingResponse.content,
+            createdAt: existingResponse.createdAt.toISOString(),
+          },
+          answerMeta: cachedData.answerMeta,
+          sources: cachedData.sources,
+          suggestedFollowUps: cachedData.suggestedFollowUps,
+        };
+        return reply.ok(response);
+      }
 
-        if (messagesAfterDuplicate.length > 0) {
-          const existingResponse = messagesAfterDuplicate[0];
-          logInfo("chat_v2_cached_response_returned", {
-            ...logCtx,
-            stage: "dedup",
-          });
+      logDebug("chat_v2_duplicate_waiting", {
+        ...logCtx,
+        stage: "dedup",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5000));
 
-          const cachedData = parseCachedV2Response(existingResponse.citations);
-          const response: ChatV2Response = {
-            message: {
-              id: existingResponse.id,
-              sessionId,
-              role: "assistant",
-              content: existingResponse.content,
-              createdAt: existingResponse.createdAt.toISOString(),
-            },
-            answerMeta: cachedData.answerMeta,
-            sources: cachedData.sources,
-            suggestedFollowUps: cachedData.suggestedFollowUps,
-          };
-          return res.json(response);
-        }
+      const refreshedMessages = await storage.getMessagesBySessionId(sessionId);
+      const laterResponses = refreshedMessages.filter(
+        (m) => m.parentId === recentDuplicate.id && m.role === "assistant"
+      );
 
-        logDebug("chat_v2_duplicate_waiting", {
+      if (laterResponses.length > 0) {
+        const existingResponse = laterResponses[0];
+        logInfo("chat_v2_cached_response_after_wait", {
           ...logCtx,
           stage: "dedup",
         });
-        await new Promise((resolve) => setTimeout(resolve, 5000));
-
-        const refreshedMessages = await storage.getMessagesBySessionId(sessionId);
-        const laterResponses = refreshedMessages.filter(
-          (m) => new Date(m.createdAt) > new Date(recentDuplicate.createdAt) && m.role === "assistant"
-        );
-
-        if (laterResponses.length > 0) {
-          const existingResponse = laterResponses[0];
-          logInfo("chat_v2_cached_response_after_wait", {
-            ...logCtx,
-            stage: "dedup",
-          });
 
-          const cachedData = parseCachedV2Response(existingResponse.citations);
-          const response: ChatV2Response = {
-            message: {
-              id: existingResponse.id,
-              sessionId,
-              role: "assistant",
-              content: existingResponse.content,
-              createdAt: existingResponse.createdAt.toISOString(),
-            },
-            answerMeta: cachedData.answerMeta,
-            sources: cachedData.sources,
-            suggestedFollowUps: cachedData.suggestedFollowUps,
-          };
-          return res.json(response);
-        }
+        const cachedData = parseCachedV2Response(existingResponse.citations);
+        const response: ChatV2Response = {
+          message: {
+            id: existingResponse.id,
+            sessionId,
+            role: "assistant",
+            content: existingResponse.content,
+            createdAt: existingResponse.createdAt.toISOString(),
+          },
+          answerMeta: cachedData.answerMeta,
+          sources: cachedData.sources,
+          suggestedFollowUps: cachedData.suggestedFollowUps,
+        };
+        return reply.ok(response);
       }
+    }
 
-      const userMessage = await storage.createChatMessage({
-        sessionId,
-        role: "user",
-        content: trimmedContent,
-        citations: null,
-      });
-
-      const chatHistory: ChatHistoryMessage[] = allMessages
-        .map((m) => ({
-          role: m.role as "user" | "assistant",
-          content: m.content,
-        }));
-
-      // Resolve town preference: explicit > session > actor > fallback (Ossipee)
-      const resolvedTown = await resolveTownPreference({
-        explicitTown: metadata?.town,
+    const userMessage = regeneratedQuestion ?? await storage.createChatMessage({
+      sessionId,
+      parentId: priorPath.length > 0 ? priorPath[priorPath.length - 1].id : null,
+      role: "user",
+      content: trimmedContent,
+      citations: null,
+    });
+    answerParentId = userMessage.id;
+
+    // The original question and the clarification are folded into `question`
+    const historyPath = clarificationResume ? priorPath.slice(0, -2) : priorPath;
+    const chatHistory: ChatHistoryMessage[] = historyPath
+      .map((m) => ({
+        role: m.role as "user" | "assistant",
+        content: m.content,
+      }));
+
+    // Resolve town preference: explicit > session > actor > fallback (Ossipee)
+    const resolvedTown = await resolveTownPreference({
+      explicitTown: clarificationResume?.option.constraints.town ?? metadata?.town,
+      sessionId,
+      actor: actor,
+    });
+
+    logDebug("chat_v2_pipeline_start", {
+      ...logCtx,
+      stage: "pipeline_start",
+      historyLength: chatHistory.length,
+      resolvedTown,
+      clarificationResumed: !!clarificationResume,
+      pipelineVariant: pipelineAssignment.variant,
+    });
+
+    if (clarificationResume) {
+      await recordClarificationEvent(
+        actor,
         sessionId,
-        actor: req.actor,
-      });
-
-      logDebug("chat_v2_pipeline_start", {
-        ...logCtx,
-        stage: "pipeline_start",
-        historyLength: chatHistory.length,
         resolvedTown,
-      });
+        "clarification_resolved",
+        clarificationResume.prompt,
+        clarificationResume.option
+      );
+    }
 
-      // SESSION SOURCE DETECTION: Detect and store long pastes (articles, minutes, etc.)
-      let sessionSources: SessionSource[] = [];
+    // SESSION SOURCE DETECTION: Detect and store long pastes (articles, minutes, etc.)
+    let sessionSources: SessionSource[] = [];
+    
+    if (chatConfig.ENABLE_SESSION_SOURCES) {
+      const sessionSourceResult = detectSessionSource(trimmedContent);
       
-      if (chatConfig.ENABLE_SESSION_SOURCES) {
-        const sessionSourceResult = detectSessionSource(trimmedContent);
-        
-        if (sessionSourceResult.isSessionSource && sessionSourceResult.source) {
-          await storage.addSessionSource(sessionId, sessionSourceResult.source);
-          
-          logDebug("session_source_detected", {
-            ...logCtx,
-            stage: "session_source_detection",
-            sourceId: sessionSourceResult.source.id,
-            sourceType: sessionSourceResult.source.type,
-            sourceTitle: sessionSourceResult.source.title,
-            textLength: sessionSourceResult.source.text.length,
-            reason: sessionSourceResult.reason,
-          });
-        }
+      if (sessionSourceResult.isSessionSource && sessionSourceResult.source) {
+        await storage.addSessionSource(sessionId, sessionSourceResult.source);
         
-        sessionSources = await storage.getSessionSources(sessionId);
+        logDebug("session_source_detected", {
+          ...logCtx,
+          stage: "session_source_detection",
+          sourceId: sessionSourceResult.source.id,
+          sourceType: sessionSourceResult.source.type,
+          sourceTitle: sessionSourceResult.source.title,
+          textLength: sessionSourceResult.source.text.length,
+          reason: sessionSourceResult.reason,
+        });
       }
-
-      // SITUATION ANCHORING: Extract and update situation context
-      let situationContext: SituationContext | null = null;
-      const hasUserArtifact = sessionSources.length > 0;
       
-      if (chatConfig.ENABLE_SITUATION_ANCHORING) {
-        const existingContext = await storage.getSessionSituationContext(sessionId);
-        
-        const extractionResult = extractSituationHeuristic(
-          trimmedContent,
-          existingContext,
-          hasUserArtifact
-        );
-        
-        if (extractionResult.shouldUpdate && extractionResult.newContext) {
-          situationContext = extractionResult.newContext;
-          await storage.setSessionSituationContext(sessionId, situationContext);
-          
-          logDebug("situation_context_updated", {
-            ...logCtx,
-            stage: "situation_extraction",
-            newTitle: situationContext.title,
-            entityCount: situationContext.entities.length,
-            confidence: extractionResult.confidence,
-            reason: extractionResult.reason,
-          });
-        } else if (existingContext) {
-          situationContext = existingContext;
-          
-          logDebug("situation_context_maintained", {
-            ...logCtx,
-            stage: "situation_extraction",
-            title: existingContext.title,
-            reason: extractionResult.reason,
-          });
-        }
-      }
+      sessionSources = await storage.getSessionSources(sessionId);
+    }
 
-      // Run pipeline: V3 (Plan → Retrieve → Synthesize → Audit) or V2 fallback
-      const trimmedHistory = buildTrimmedHistoryForAnswer(chatHistory);
+    // SITUATION ANCHORING: Extract and update situation context
+    let situationContext: SituationContext | null = null;
+    let dependsOnPriorSituation = false;
+    const hasUserArtifact = sessionSources.length > 0;
+    
+    if (chatConfig.ENABLE_SITUATION_ANCHORING) {
+      const sessionContext = await storage.getSessionSituationContext(sessionId);
+      const existingContext = getBranchSituationContext(priorPath, sessionContext);
+      dependsOnPriorSituation = computeQuestionSituationMatch(question, existingContext).useSituationContext;
       
-      let answerText: string;
-      let sourceDocumentNames: string[];
-      let docSourceType: DocSourceType;
-      let docSourceTown: string | null;
-      let retrievedChunkCount: number;
-      let pipelineDurationMs: number;
-
-      if (chatConfigV3.ENABLE_V3_PIPELINE) {
-        // V3 PIPELINE: Plan → Retrieve → Synthesize → Audit
-        const v3Result = await runChatV3Pipeline({
-          userMessage: trimmedContent,
-          sessionHistory: trimmedHistory,
-          townPreference: resolvedTown,
-          situationContext,
-          sessionSources,
-          logContext: logCtx,
-        });
-
-        answerText = v3Result.answerText;
-        sourceDocumentNames = v3Result.sourceDocumentNames;
-        docSourceType = v3Result.docSourceType;
-        docSourceTown = v3Result.docSourceTown;
-        retrievedChunkCount = v3Result.retrievedChunkCount;
-        pipelineDurationMs = v3Result.durationMs;
-
-        logDebug("v3_pipeline_used", {
+      const extractionResult = extractSituationHeuristic(
+        question,
+        existingContext,
+        hasUserArtifact
+      );
+      
+      if (extractionResult.shouldUpdate && extractionResult.newContext) {
+        situationContext = extractionResult.newContext;
+        
+        logDebug("situation_context_updated", {
           ...logCtx,
-          stage: "pipeline_selection",
-          tier: v3Result.recordStrength.tier,
-          localCount: v3Result.recordStrength.localCount,
-          stateCount: v3Result.recordStrength.stateCount,
-          auditFlagCount: v3Result.debug.auditFlags.length,
-          repairRan: v3Result.debug.repairRan,
+          stage: "situation_extraction",
+          newTitle: situationContext.title,
+          entityCount: situationContext.entities.length,
+          confidence: extractionResult.confidence,
+          reason: extractionResult.reason,
         });
-      } else {
-        // V2 FALLBACK: Two-lane retrieval + single synthesis
-        let pipelineResult = await runUnifiedChatPipeline({
-          question: trimmedContent,
-          sessionHistory: trimmedHistory,
-          townPreference: resolvedTown,
-          situationContext,
-          sessionSources,
-          logContext: logCtx,
+      } else if (existingContext) {
+        situationContext = existingContext;
+        
+        logDebug("situation_context_maintained", {
+          ...logCtx,
+          stage: "situation_extraction",
+          title: existingContext.title,
+          reason: extractionResult.reason,
         });
+      }
 
-        answerText = pipelineResult.answerText;
-        
-        // DRIFT DETECTION: Check for topic drift and regenerate if needed
-        if (chatConfig.ENABLE_DRIFT_DETECTION && situationContext) {
-          const driftResult = detectDrift(answerText, situationContext, logCtx);
-          
-          if (shouldRegenerate(driftResult) && chatConfig.MAX_DRIFT_REGENERATION_ATTEMPTS > 0) {
-            logDebug("drift_detected_regenerating", {
-              ...logCtx,
-              stage: "drift_detection",
-              driftedEntities: driftResult.driftedToEntities,
-              severity: driftResult.severity,
-            });
-            
-            // Regenerate with stricter instructions
-            const regeneratedResult = await runUnifiedChatPipeline({
-              question: `${driftResult.regenerationHint}\n\nOriginal question: ${trimmedContent}`,
-              sessionHistory: trimmedHistory,
-              townPreference: resolvedTown,
-              situationContext,
-              sessionSources,
-              logContext: logCtx,
-            });
-            
-            // Use regenerated answer if it's not worse
-            const newDriftResult = detectDrift(regeneratedResult.answerText, situationContext, logCtx);
-            if (!newDriftResult.hasDrift || newDriftResult.severity === "none") {
-              answerText = regeneratedResult.answerText;
-              pipelineResult = regeneratedResult;
-              
-              logDebug("drift_regeneration_successful", {
-                ...logCtx,
-                stage: "drift_detection",
-                originalDrift: driftResult.driftedToEntities,
-                newAnswerLength: answerText.length,
-              });
-            } else {
-              logDebug("drift_regeneration_still_drifted", {
-                ...logCtx,
-                stage: "drift_detection",
-                message: "Regenerated answer still has drift, using original",
-              });
-            }
-          }
-        }
-        sourceDocumentNames = pipelineResult.sourceDocumentNames;
-        docSourceType = pipelineResult.docSourceType;
-        docSourceTown = pipelineResult.docSourceTown;
-        retrievedChunkCount = pipelineResult.retrievedChunkCount;
-        pipelineDurationMs = pipelineResult.durationMs;
+      // Snapshot per turn so other branches can restore their own situation;
+      // the session-level copy follows whichever branch is active.
+      await storage.setMessageSituationContext(userMessage.id, situationContext);
+      if (situationContext && situationContext !== sessionContext && onActiveBranch) {
+        await storage.setSessionSituationContext(sessionId, situationContext);
       }
-      
-      // Generate follow-up suggestions
-      const suggestedFollowUps = await generateFollowups({
-        userQuestion: trimmedContent,
-        answerText,
-        townPreference: resolvedTown,
-        detectedDomains: [],
-        logContext: logCtx,
-      });
+    }
 
-      logDebug("pipeline_complete_with_followups", {
-        ...logCtx,
-        stage: chatConfigV3.ENABLE_V3_PIPELINE ? "v3_pipeline" : "unified_pipeline",
-        answerLength: answerText.length,
-        sourceCount: sourceDocumentNames.length,
-        followUpCount: suggestedFollowUps.length,
-        retrievedChunkCount,
-        durationMs: pipelineDurationMs,
+    // ANSWER CACHE: Standalone questions reuse an answer built from the same corpus
+    let answerCacheLookup: AnswerCacheLookup | null = null;
+
+    if (
+      useV3Pipeline &&
+      chatConfigV3.ENABLE_ANSWER_CACHE &&
+      !clarificationResume &&
+      isCacheableQuestion({
+        question: trimmedContent,
+        dependsOnSituation: dependsOnPriorSituation,
+        hasSessionSources: sessionSources.length > 0,
+      })
+    ) {
+      answerCacheLookup = await lookupCachedAnswer({
+        question: trimmedContent,
+        towns: metadata?.towns && metadata.towns.length > 0 ? metadata.towns : [resolvedTown],
+        sessionId,
+        skipRead: branch?.mode === "regenerate",
+        logContext: logCtx,
       });
+      if (answerCacheLookup && branch?.mode !== "regenerate") {
+        await recordAnswerCacheEvent(actor, sessionId, answerCacheLookup, pipelineAssignment.variant);
+      }
+    }
 
-      // Map sources to citations
-      const sources = await mapFileSearchDocumentsToCitations(sourceDocumentNames);
-
-      const answerMeta: FinalAnswerMeta = {
-        complexity: "simple",
-        requiresClarification: false,
-        criticScore: { relevance: 1, completeness: 1, clarity: 1, riskOfMisleading: 0 },
-      };
-
-      const v2Metadata = {
+    const cachedAnswer = answerCacheLookup?.cached;
+    if (cachedAnswer) {
+      const cachedMetadata = {
         v2: true,
-        answerMeta,
-        sources,
-        suggestedFollowUps,
-        notices: [] as ChatNotice[],
+        answerMeta: cachedAnswer.answerMeta,
+        sources: cachedAnswer.sources,
+        suggestedFollowUps: cachedAnswer.suggestedFollowUps,
+        notices: cachedAnswer.notices,
+        promptVersions: cachedAnswer.promptVersions,
+        answerCache: { cachedAt: cachedAnswer.cachedAt.toISOString() },
+        pipelineVariant: pipelineAssignment.variant,
       };
 
       const assistantMessage = await storage.createChatMessage({
         sessionId,
+        parentId: userMessage.id,
         role: "assistant",
-        content: answerText,
-        citations: JSON.stringify(v2Metadata),
+        content: cachedAnswer.answerText,
+        citations: JSON.stringify(cachedMetadata),
+      }, answerMessageOptions);
+
+      await recordChatAnswerEvent({
+        actor: actor,
+        sessionId,
+        town: resolvedTown,
+        assignment: pipelineAssignment,
+        requestId,
+        messageId: assistantMessage.id,
+        durationMs: Date.now() - startTime,
+        cached: true,
       });
 
-      if (chatHistory.filter((m) => m.role === "user").length === 0) {
-        const title = trimmedContent.slice(0, 60) + (trimmedContent.length > 60 ? "..." : "");
-        await storage.updateChatSession(sessionId, { title });
-      }
+      await titleSessionFromFirstExchange({
+        sessionId,
+        isFirstExchange: !chatHistory.some((m) => m.role === "user"),
+        question: trimmedContent,
+        answerText: cachedAnswer.answerText,
+        logContext: logCtx,
+      });
 
-      const response: ChatV2Response = {
+      logInfo("chat_v2_answer_cache_hit", {
+        ...logCtx,
+        stage: "exit",
+        cachedAt: cachedAnswer.cachedAt.toISOString(),
+        sourceCount: cachedAnswer.sources.length,
+        durationMs: Date.now() - startTime,
+      });
+
+      return reply.ok({
         message: {
           id: assistantMessage.id,
           sessionId,
           role: "assistant",
-          content: answerText,
+          content: cachedAnswer.answerText,
           createdAt: assistantMessage.createdAt.toISOString(),
         },
-        answerMeta,
-        sources,
-        suggestedFollowUps,
-      };
-
-      const duration = Date.now() - startTime;
-
-      logInfo("chat_v2_response_ready", {
-        ...logCtx,
-        stage: "exit",
-        sourceCount: sources.length,
-        suggestedFollowUpCount: suggestedFollowUps.length,
-        durationMs: duration,
-        answerLength: answerText.length,
-        docSourceType,
-        docSourceTown,
-        retrievedChunkCount,
+        answerMeta: cachedAnswer.answerMeta,
+        sources: cachedAnswer.sources,
+        suggestedFollowUps: cachedAnswer.suggestedFollowUps,
+        notices: cachedAnswer.notices,
       });
+    }
 
-      return res.json(response);
-    } catch (error) {
-      const duration = Date.now() - startTime;
-
-      if (error instanceof GeminiQuotaExceededError) {
-        logError("chat_v2_quota_exceeded", {
-          ...logCtx,
-          stage: "quota_error",
-          error: error.message,
-          durationMs: duration,
-        });
+    // CLARIFICATION: Ask which town, board or year an ambiguous question means
+    const lastPriorMessage = priorPath[priorPath.length - 1];
+    if (
+      useV3Pipeline &&
+      chatConfigV3.ENABLE_CLARIFICATION_TURNS &&
+      !clarificationResume &&
+      branch?.mode !== "regenerate" &&
+      !metadata?.towns?.length &&
+      sessionSources.length === 0 &&
+      !dependsOnPriorSituation &&
+      !(lastPriorMessage && getMessageClarification(lastPriorMessage))
+    ) {
+      const townHint = metadata?.town || session.townPreference || undefined;
+      const knownTowns = await getKnownTowns();
+
+      if (mayNeedClarification({ question, townSpecified: !!townHint, knownTowns })) {
+        const routerOutput = await routeQuestion(question, chatHistory, { town: townHint }, logCtx);
+        const clarification = buildClarificationPrompt(routerOutput, question, knownTowns);
+
+        if (clarification) {
+          const answerMeta: FinalAnswerMeta = {
+            complexity: routerOutput.complexity,
+            requiresClarification: true,
+            criticScore: { relevance: 1, completeness: 1, clarity: 1, riskOfMisleading: 0 },
+          };
 
-        try {
-          const quotaMessage = await storage.createChatMessage({
+          const assistantMessage = await storage.createChatMessage({
             sessionId,
+            parentId: userMessage.id,
             role: "assistant",
-            content: getQuotaExceededMessage(),
-            citations: null,
+            content: clarification.question,
+            citations: JSON.stringify({
+              v2: true,
+              answerMeta,
+              sources: [],
+              suggestedFollowUps: [],
+              notices: [],
+              clarification,
+              pipelineVariant: pipelineAssignment.variant,
+            }),
+          }, answerMessageOptions);
+
+          await recordClarificationEvent(actor, sessionId, resolvedTown, "clarification_requested", clarification);
+
+          logInfo("chat_v2_clarification_requested", {
+            ...logCtx,
+            stage: "exit",
+            dimension: clarification.dimension,
+            optionCount: clarification.options.length,
+            durationMs: Date.now() - startTime,
           });
 
-          const quotaResponse: ChatV2Response = {
+          return reply.ok({
             message: {
-              id: quotaMessage.id,
+              id: assistantMessage.id,
               sessionId,
               role: "assistant",
-              content: quotaMessage.content,
-              createdAt: quotaMessage.createdAt.toISOString(),
-            },
-            answerMeta: {
-              complexity: "simple",
-              requiresClarification: false,
-              criticScore: { relevance: 0, completeness: 0, clarity: 0, riskOfMisleading: 0.5 },
-              limitationsNote: "Quota limit reached.",
+              content: clarification.question,
+              createdAt: assistantMessage.createdAt.toISOString(),
             },
+            answerMeta,
             sources: [],
             suggestedFollowUps: [],
-          };
-
-          return res.json(quotaResponse);
-        } catch (saveError) {
-          return res.status(503).json({
-            message: getQuotaExceededMessage(),
+            clarification,
           });
         }
       }
+    }
 
-      logError("chat_v2_request_error", {
-        ...logCtx,
-        stage: "error",
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack?.slice(0, 500) : undefined,
-        durationMs: duration,
+    // Run pipeline: V3 (Plan → Retrieve → Synthesize → Audit) or V2 fallback
+    const trimmedHistory = buildTrimmedHistoryForAnswer(chatHistory);
+    
+    let answerText: string;
+    let sourceDocumentNames: string[];
+    let docSourceType: DocSourceType;
+    let docSourceTown: string | null;
+    let retrievedChunkCount: number;
+    let pipelineDurationMs: number;
+    let citedChunks: CitedChunk[] = [];
+    let pipelineNotices: ChatNotice[] = [];
+    let recordStrength: AnswerRecordStrength | undefined;
+    // Shared with the v3 pipeline; follow-ups get what is left of its deadline
+    let latencyBudget: LatencyBudget | undefined;
+
+    if (useV3Pipeline) {
+      // V3 PIPELINE: Plan → Retrieve → Synthesize → Audit
+      latencyBudget = createLatencyBudget(logCtx);
+      const v3Result = await runChatV3Pipeline({
+        userMessage: question,
+        sessionHistory: trimmedHistory,
+        townPreference: resolvedTown,
+        situationContext,
+        sessionSources,
+        logContext: logCtx,
+        comparisonTowns: metadata?.towns,
+        clarificationConstraints: clarificationResume?.option.constraints,
+        onEvent,
+        latencyBudget,
       });
 
-      try {
-        const errorMessage = await storage.createChatMessage({
-          sessionId,
-          role: "assistant",
-          content: "An error occurred while processing this question. Please try again or simplify your question.",
-          citations: null,
-        });
-
-        const errorResponse: ChatV2Response = {
-          message: {
-            id: errorMessage.id,
-            sessionId,
-            role: "assistant",
-            content: errorMessage.content,
-            createdAt: errorMessage.createdAt.toISOString(),
-          },
-          answerMeta: {
-            complexity: "simple",
-            requiresClarification: false,
-            criticScore: { relevance: 0, completeness: 0, clarity: 0, riskOfMisleading: 1 },
-            limitationsNote: "An error occurred during processing.",
-          },
-          sources: [],
-          suggestedFollowUps: [],
-        };
-
-        return res.json(errorResponse);
-      } catch (saveError) {
-        logError("chat_v2_save_error", {
-          ...logCtx,
-          stage: "error_save",
-          error: saveError instanceof Error ? saveError.message : String(saveError),
-        });
-        return res.status(500).json({
-          message: error instanceof Error ? error.message : "Failed to process message",
-        });
-      }
-    }
-  });
-
-  app.post(
-    "/api/chat/v2/sessions/:sessionId/messages/upload",
-    (req: IdentityRequest, res: Response, next: NextFunction) => {
-      chatUpload.single("file")(req, res, (err: any) => {
-        if (err) {
-          if (err.code === 'LIMIT_FILE_SIZE') {
-            return res.status(400).json({ message: "File too large. Maximum size is 25MB." });
-          }
-          if (err.message) {
-            return res.status(400).json({ message: err.message });
-          }
-          return res.status(400).json({ message: "File upload failed" });
-        }
-        next();
+      answerText = v3Result.answerText;
+      sourceDocumentNames = v3Result.sourceDocumentNames;
+      docSourceType = v3Result.docSourceType;
+      docSourceTown = v3Result.docSourceTown;
+      retrievedChunkCount = v3Result.retrievedChunkCount;
+      pipelineDurationMs = v3Result.durationMs;
+      citedChunks = v3Result.citedChunks;
+      pipelineNotices = v3Result.notices;
+      recordStrength = describeRecordStrength(v3Result.recordStrength);
+
+      logDebug("v3_pipeline_used", {
+        ...logCtx,
+        stage: "pipeline_selection",
+        tier: v3Result.recordStrength.tier,
+        localCount: v3Result.recordStrength.localCount,
+        stateCount: v3Result.recordStrength.stateCount,
+        auditFlagCount: v3Result.debug.auditFlags.length,
+        repairRan: v3Result.debug.repairRan,
       });
-    },
-    async (req: IdentityRequest, res: Response) => {
-      const startTime = Date.now();
-      const requestId = randomUUID();
-      const { sessionId } = req.params;
-      const uploadedFile = req.file;
+    } else {
+      // V2 FALLBACK: Two-lane retrieval + single synthesis
+      onEvent?.({ type: "stage", stage: "synthesis", status: "started" });
 
-      const logCtx: PipelineLogContext = { requestId, sessionId, actor: req.actor };
+      let pipelineResult = await runUnifiedChatPipeline({
+        question,
+        sessionHistory: trimmedHistory,
+        townPreference: resolvedTown,
+        situationContext,
+        sessionSources,
+        logContext: logCtx,
+      });
 
-      try {
-        const content = req.body.content || "";
-        let metadata: { town?: string; board?: string } | undefined;
+      answerText = pipelineResult.answerText;
+      
+      // DRIFT DETECTION: Check for topic drift and regenerate if needed
+      if (chatConfig.ENABLE_DRIFT_DETECTION && situationContext) {
+        const driftResult = detectDrift(answerText, situationContext, logCtx);
         
-        try {
-          if (req.body.metadata) {
-            metadata = JSON.parse(req.body.metadata);
-          }
-        } catch {
-          metadata = undefined;
-        }
-
-        logInfo("chat_v2_upload_request_received", {
-          ...logCtx,
-          stage: "entry",
-          userQuestion: sanitizeUserContent(content, 200),
-          hasFile: !!uploadedFile,
-          filename: uploadedFile?.originalname,
-        });
-
-        if (!content.trim() && !uploadedFile) {
-          return res.status(400).json({ message: "Message content or file is required" });
-        }
-
-        const session = await storage.getChatSessionById(sessionId);
-        if (!session) {
-          if (uploadedFile) {
-            await fs.unlink(uploadedFile.path).catch(() => {});
-          }
-          return res.status(404).json({ message: "Chat session not found" });
-        }
-
-        let attachmentInfo: {
-          filename: string;
-          mimeType: string;
-          extractedText: string;
-        } | undefined;
-
-        if (uploadedFile) {
-          try {
-            const extractedText = await extractPreviewText(
-              uploadedFile.path,
-              uploadedFile.originalname,
-              30000
-            );
-
-            attachmentInfo = {
-              filename: uploadedFile.originalname,
-              mimeType: getMimeType(uploadedFile.originalname),
-              extractedText: extractedText || "(File uploaded but text could not be extracted - file may contain images or be password protected)",
-            };
-
-            if (!extractedText || extractedText.trim().length === 0) {
-              logWarn("chat_file_extraction_empty", {
-                ...logCtx,
-                stage: "file_extraction",
-                filename: uploadedFile.originalname,
-              });
-            } else {
-              logDebug("chat_file_extracted", {
-                ...logCtx,
-                stage: "file_extraction",
-                filename: uploadedFile.originalname,
-                extractedLength: extractedText.length,
-              });
-            }
-          } catch (extractionError) {
-            logError("chat_file_extraction_error", {
+        if (shouldRegenerate(driftResult) && chatConfig.MAX_DRIFT_REGENERATION_ATTEMPTS > 0) {
+          logDebug("drift_detected_regenerating", {
+            ...logCtx,
+            stage: "drift_detection",
+            driftedEntities: driftResult.driftedToEntities,
+            severity: driftResult.severity,
+          });
+          
+          // Regenerate with stricter instructions
+          const regeneratedResult = await runUnifiedChatPipeline({
+            question: `${driftResult.regenerationHint}\n\nOriginal question: ${question}`,
+            sessionHistory: trimmedHistory,
+            townPreference: resolvedTown,
+            situationContext,
+            sessionSources,
+            logContext: logCtx,
+          });
+          
+          // Use regenerated answer if it's not worse
+          const newDriftResult = detectDrift(regeneratedResult.answerText, situationContext, logCtx);
+          if (!newDriftResult.hasDrift || newDriftResult.severity === "none") {
+            answerText = regeneratedResult.answerText;
+            pipelineResult = regeneratedResult;
+            
+            logDebug("drift_regeneration_successful", {
               ...logCtx,
-              stage: "file_extraction",
-              filename: uploadedFile.originalname,
-              error: extractionError instanceof Error ? extractionError.message : String(extractionError),
+              stage: "drift_detection",
+              originalDrift: driftResult.driftedToEntities,
+              newAnswerLength: answerText.length,
+            });
+          } else {
+            logDebug("drift_regeneration_still_drifted", {
+              ...logCtx,
+              stage: "drift_detection",
+              message: "Regenerated answer still has drift, using original",
             });
-            // Still proceed with the upload, but note the extraction failed
-            attachmentInfo = {
-              filename: uploadedFile.originalname,
-              mimeType: getMimeType(uploadedFile.originalname),
-              extractedText: "(File uploaded but text extraction failed)",
-            };
-          } finally {
-            await fs.unlink(uploadedFile.path).catch(() => {});
           }
         }
+      }
+      sourceDocumentNames = pipelineResult.sourceDocumentNames;
+      docSourceType = pipelineResult.docSourceType;
+      docSourceTown = pipelineResult.docSourceTown;
+      retrievedChunkCount = pipelineResult.retrievedChunkCount;
+      pipelineDurationMs = pipelineResult.durationMs;
+      recordStrength = pipelineResult.recordStrength;
+
+      onEvent?.({ type: "stage", stage: "synthesis", status: "completed" });
+    }
+    
+    // Generate follow-up suggestions
+    onEvent?.({ type: "stage", stage: "followups", status: "started" });
+
+    const followupsWork = generateFollowups({
+      userQuestion: question,
+      answerText,
+      townPreference: resolvedTown,
+      detectedDomains: [],
+      logContext: logCtx,
+    });
+
+    let suggestedFollowUps: string[];
+    if (latencyBudget) {
+      const followupsOutcome = await runWithinBudget(followupsWork, latencyBudget.stageBudgetMs("followups"));
+      if (followupsOutcome.completed) {
+        suggestedFollowUps = followupsOutcome.value;
+      } else {
+        latencyBudget.recordFallback("followups_dropped", "followups");
+        suggestedFollowUps = [];
+      }
+      pipelineNotices = withLatencyNotice(pipelineNotices, latencyBudget);
+    } else {
+      suggestedFollowUps = await followupsWork;
+    }
 
-        const allMessages = await storage.getMessagesBySessionId(sessionId);
-        const trimmedContent = content.trim();
-
-        const displayContent = attachmentInfo
-          ? `${trimmedContent}\n\n[Attached: ${attachmentInfo.filename}]`
-          : trimmedContent;
-
-        const userMessage = await storage.createChatMessage({
-          sessionId,
-          role: "user",
-          content: displayContent,
-          citations: null,
-          attachmentFilename: attachmentInfo?.filename || null,
-          attachmentMimeType: attachmentInfo?.mimeType || null,
-          attachmentExtractedText: attachmentInfo?.extractedText || null,
-        });
+    onEvent?.({ type: "followups", suggestedFollowUps });
+    onEvent?.({ type: "stage", stage: "followups", status: "completed" });
 
-        const chatHistory: ChatHistoryMessage[] = allMessages
-          .map((m) => ({
-            role: m.role as "user" | "assistant",
-            content: m.content,
-          }));
+    logDebug("pipeline_complete_with_followups", {
+      ...logCtx,
+      stage: useV3Pipeline ? "v3_pipeline" : "unified_pipeline",
+      answerLength: answerText.length,
+      sourceCount: sourceDocumentNames.length,
+      followUpCount: suggestedFollowUps.length,
+      retrievedChunkCount,
+      durationMs: pipelineDurationMs,
+    });
 
-        const resolvedTown = await resolveTownPreference({
-          explicitTown: metadata?.town,
-          sessionId,
-          actor: req.actor,
-        });
+    // Map sources to citations
+    const sources = await mapAnswerSources(citedChunks, sourceDocumentNames);
 
-        // Build question with attachment context if present
-        const questionWithAttachment = attachmentInfo
-          ? `${trimmedContent || "Please analyze this document."}\n\n---\nATTACHED DOCUMENT (${attachmentInfo.filename}):\n${attachmentInfo.extractedText.slice(0, 20000)}`
-          : trimmedContent;
+    onEvent?.({ type: "sources", sources });
 
-        const trimmedHistory = buildTrimmedHistoryForAnswer(chatHistory);
+    const answerMeta: FinalAnswerMeta = {
+      complexity: "simple",
+      requiresClarification: false,
+      criticScore: { relevance: 1, completeness: 1, clarity: 1, riskOfMisleading: 0 },
+      recordStrength,
+    };
+
+    const v2Metadata = {
+      v2: true,
+      answerMeta,
+      sources,
+      suggestedFollowUps,
+      notices: pipelineNotices,
+      promptVersions: logCtx.promptVersions,
+      pipelineVariant: pipelineAssignment.variant,
+    };
+
+    const assistantMessage = await storage.createChatMessage({
+      sessionId,
+      parentId: userMessage.id,
+      role: "assistant",
+      content: answerText,
+      citations: JSON.stringify(v2Metadata),
+    }, answerMessageOptions);
+
+    await titleSessionFromFirstExchange({
+      sessionId,
+      isFirstExchange: !chatHistory.some((m) => m.role === "user"),
+      question,
+      answerText,
+      logContext: logCtx,
+    });
+
+    // Answers shortened by latency fallbacks are not reused
+    if (answerCacheLookup && !latencyBudget?.fallbacks.length) {
+      await storeCachedAnswer(
+        answerCacheLookup,
+        question,
+        answerText,
+        { answerMeta, sources, suggestedFollowUps, notices: pipelineNotices, promptVersions: logCtx.promptVersions },
+        logCtx
+      );
+    }
 
-        // SIMPLIFIED PIPELINE: Two-lane retrieval + single synthesis
-        const pipelineResult = await runUnifiedChatPipeline({
-          question: questionWithAttachment,
-          sessionHistory: trimmedHistory,
-          townPreference: resolvedTown,
-          logContext: logCtx,
-        });
+    const response: ChatV2Response = {
+      message: {
+        id: assistantMessage.id,
+        sessionId,
+        role: "assistant",
+        content: answerText,
+        createdAt: assistantMessage.createdAt.toISOString(),
+      },
+      answerMeta,
+      sources,
+      suggestedFollowUps,
+      notices: pipelineNotices,
+    };
+
+    const duration = Date.now() - startTime;
+
+    await recordChatAnswerEvent({
+      actor: actor,
+      sessionId,
+      town: resolvedTown,
+      assignment: pipelineAssignment,
+      requestId,
+      messageId: assistantMessage.id,
+      durationMs: duration,
+    });
+
+    logInfo("chat_v2_response_ready", {
+      ...logCtx,
+      stage: "exit",
+      pipelineVariant: pipelineAssignment.variant,
+      latencyFallbacks: latencyBudget?.fallbacks,
+      sourceCount: sources.length,
+      suggestedFollowUpCount: suggestedFollowUps.length,
+      durationMs: duration,
+      answerLength: answerText.length,
+      docSourceType,
+      docSourceTown,
+      retrievedChunkCount,
+    });
+
+    return reply.ok(response);
+  } catch (error) {
+    const duration = Date.now() - startTime;
 
-        const answerText = pipelineResult.answerText;
-        const sourceDocumentNames = pipelineResult.sourceDocumentNames;
-        const docSourceType = pipelineResult.docSourceType;
-        const docSourceTown = pipelineResult.docSourceTown;
-
-        // Generate follow-up suggestions
-        const suggestedFollowUps = await generateFollowups({
-          userQuestion: trimmedContent || "Analyze this document",
-          answerText,
-          townPreference: resolvedTown,
-          detectedDomains: [],
-          logContext: logCtx,
-        });
+    if (error instanceof GeminiQuotaExceededError) {
+      logError("chat_v2_quota_exceeded", {
+        ...logCtx,
+        stage: "quota_error",
+        error: error.message,
+        durationMs: duration,
+      });
 
-        const sources = await mapFileSearchDocumentsToCitations(sourceDocumentNames);
+      // A queued question stays queued; the worker retries it later
+      if (options.queued) {
+        return reply.fail(503, getQuotaExceededMessage());
+      }
 
-        const answerMeta: FinalAnswerMeta = {
+      try {
+        const quotaAnswerMeta: FinalAnswerMeta = {
           complexity: "simple",
           requiresClarification: false,
-          criticScore: { relevance: 1, completeness: 1, clarity: 1, riskOfMisleading: 0 },
+          criticScore: { relevance: 0, completeness: 0, clarity: 0, riskOfMisleading: 0.5 },
+          limitationsNote: "Quota limit reached.",
         };
+        const quotaNotices = [highDemandNotice()];
+        // Queued answers are regenerated from the question, so it must be saved
+        const queueable = !!actor && !!answerParentId;
 
-        const v2Metadata = {
-          v2: true,
-          answerMeta,
-          sources,
-          suggestedFollowUps,
-          notices: [] as ChatNotice[],
-        };
-
-        const assistantMessage = await storage.createChatMessage({
+        const quotaMessage = await storage.createChatMessage({
           sessionId,
+          parentId: answerParentId,
           role: "assistant",
-          content: answerText,
-          citations: JSON.stringify(v2Metadata),
+          content: getQuotaExceededMessage(),
+          citations: JSON.stringify({
+            v2: true,
+            answerMeta: quotaAnswerMeta,
+            sources: [],
+            suggestedFollowUps: [],
+            notices: quotaNotices,
+            queueable,
+          }),
         });
 
-        if (chatHistory.filter((m) => m.role === "user").length === 0) {
-          const title = (trimmedContent || attachmentInfo?.filename || "Document Analysis").slice(0, 60);
-          await storage.updateChatSession(sessionId, { title });
-        }
-
-        const response: ChatV2Response = {
+        const quotaResponse: ChatV2Response = {
           message: {
-            id: assistantMessage.id,
+            id: quotaMessage.id,
             sessionId,
             role: "assistant",
-            content: answerText,
-            createdAt: assistantMessage.createdAt.toISOString(),
+            content: quotaMessage.content,
+            createdAt: quotaMessage.createdAt.toISOString(),
           },
-          answerMeta,
-          sources,
-          suggestedFollowUps,
+          answerMeta: quotaAnswerMeta,
+          sources: [],
+          suggestedFollowUps: [],
+          notices: quotaNotices,
+          queueable,
         };
 
-        const duration = Date.now() - startTime;
+        return reply.ok(quotaResponse);
+      } catch (saveError) {
+        return reply.fail(503, getQuotaExceededMessage());
+      }
+    }
 
-        logInfo("chat_v2_upload_response_ready", {
-          ...logCtx,
-          stage: "exit",
-          sourceCount: sources.length,
-          durationMs: duration,
-          hasAttachment: !!attachmentInfo,
-          docSourceType,
-          docSourceTown,
-        });
+    logError("chat_v2_request_error", {
+      ...logCtx,
+      stage: "error",
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack?.slice(0, 500) : undefined,
+      durationMs: duration,
+    });
 
-        return res.json(response);
-      } catch (error) {
-        const duration = Date.now() - startTime;
+    if (options.queued) {
+      return reply.fail(500, error instanceof Error ? error.message : "Failed to process message");
+    }
 
-        if (uploadedFile) {
-          await fs.unlink(uploadedFile.path).catch(() => {});
-        }
+    try {
+      const errorMessage = await storage.createChatMessage({
+        sessionId,
+        parentId: answerParentId,
+        role: "assistant",
+        content: "An error occurred while processing this question. Please try again or simplify your question.",
+        citations: null,
+      });
 
-        logError("chat_v2_upload_error", {
-          ...logCtx,
-          stage: "error",
-          error: error instanceof Error ? error.message : String(error),
-          durationMs: duration,
-        });
+      const errorResponse: ChatV2Response = {
+        message: {
+          id: errorMessage.id,
+          sessionId,
+          role: "assistant",
+          content: errorMessage.content,
+          createdAt: errorMessage.createdAt.toISOString(),
+        },
+        answerMeta: {
+          complexity: "simple",
+          requiresClarification: false,
+          criticScore: { relevance: 0, completeness: 0, clarity: 0, riskOfMisleading: 1 },
+          limitationsNote: "An error occurred during processing.",
+        },
+        sources: [],
+        suggestedFollowUps: [],
+      };
 
-        return res.status(500).json({
-          message: error instanceof Error ? error.message : "Failed to process message with file",
-        });
-      }
+      return reply.ok(errorResponse);
+    } catch (saveError) {
+      logError("chat_v2_save_error", {
+        ...logCtx,
+        stage: "error_save",
+        error: saveError instanceof Error ? saveError.message : String(saveError),
+      });
+      return reply.fail(500, error instanceof Error ? error.message : "Failed to process message");
     }
-  );
+  }
+}
+
+export type QueuedAnswerOutcome =
+  | { delivered: true; answerMessageId: string }
+  | { delivered: false; status: number; error: string };
+
+/**
+ * Answer a question queued during high demand by regenerating its
+ * high-demand reply, as the asker would from the chat. Runs in a background
+ * pipeline slot; a full or slow queue is reported like exhausted capacity so
+ * the worker tries again later. The asker's daily usage limit is checked
+ * again first: the request that queued the question cost nothing, and many
+ * can pile up during an outage.
+ */
+export async function answerQueuedQuestion(queued: QueuedQuestion): Promise<QueuedAnswerOutcome> {
+  const actor: ActorContext = {
+    actorType: queued.actorType === "user" ? "user" : "anon",
+    userId: queued.userId ?? undefined,
+    anonId: queued.anonId ?? undefined,
+    user: queued.userId ? await storage.getUserById(queued.userId) : undefined,
+  };
+  if (await hasReachedDailyLimit(actor)) {
+    return { delivered: false, status: 429, error: "Daily usage limit reached" };
+  }
+  const input: ChatV2Input = {
+    sessionId: queued.sessionId,
+    body: { content: "", branch: { mode: "regenerate", messageId: queued.placeholderMessageId } },
+    actor,
+  };
+
+  let outcome: QueuedAnswerOutcome = { delivered: false, status: 500, error: "No reply" };
+  try {
+    await withBackgroundSlot(actor, queued.sessionId, () =>
+      processChatV2Message(
+        input,
+        {
+          ok: (response) => {
+            outcome = { delivered: true, answerMessageId: response.message.id };
+          },
+          fail: (status, message) => {
+            outcome = { delivered: false, status, error: message };
+          },
+        },
+        undefined,
+        { queued: true }
+      )
+    );
+  } catch (error) {
+    if (!(error instanceof PipelineQueueError)) throw error;
+    outcome = { delivered: false, status: 503, error: error.message };
+  }
+  return outcome;
 }
 
 interface CachedV2Data {
@@ -0,0 +1,74 @@
+/**
+ * Citation Markers
+ *
+ * Synthesis and audit work with lane labels ([L1], [S2]) so the audit can
+ * tell local citations from state citations. Before an answer leaves the
+ * pipeline those labels are rewritten to sequential public markers ([1], [2])
+ * in order of first use, and each marker is tied to the chunk it came from.
+ */
+
+import type { CitedChunk, LabeledChunk } from "./types";
+
+const LANE_LABEL_PATTERN = /\[([LS])(\d+)\]/g;
+
+const SNIPPET_MAX_CHARS = 280;
+
+/**
+ * Return lane labels used in the answer that do not correspond to any
+ * retrieved chunk (e.g. "[L7]" when only three local chunks were supplied).
+ */
+export function findUnknownCitationLabels(
+  answerText: string,
+  chunks: LabeledChunk[]
+): string[] {
+  const known = new Set(chunks.map(c => c.label));
+  const used = answerText.match(LANE_LABEL_PATTERN) || [];
+
+  return Array.from(new Set(used.filter(label => !known.has(label))));
+}
+
+/**
+ * Rewrite lane labels to numbered markers. Labels that do not map to a
+ * retrieved chunk are dropped rather than numbered.
+ */
+export function numberCitationMarkers(
+  answerText: string,
+  chunks: LabeledChunk[]
+): { answerText: string; citedChunks: CitedChunk[] } {
+  const byLabel = new Map(chunks.map(c => [c.label, c] as [string, LabeledChunk]));
+  const markerByLabel = new Map<string, number>();
+  const citedChunks: CitedChunk[] = [];
+
+  const numbered = answerText.replace(
+    new RegExp(`\\s?${LANE_LABEL_PATTERN.source}`, "g"),
+    (match) => {
+      const label = match.trim();
+      const chunk = byLabel.get(label);
+      if (!chunk) return "";
+
+      let marker = markerByLabel.get(label);
+      if (marker === undefined) {
+        marker = citedChunks.length + 1;
+        markerByLabel.set(label, marker);
+        citedChunks.push({ marker, chunk });
+      }
+      return match.replace(label, `[${marker}]`);
+    }
+  );
+
+  return { answerText: numbered, citedChunks };
+}
+
+/**
+ * Short, single-line excerpt of a chunk for display next to its marker.
+ */
+export function buildChunkSnippet(content: string): string {
+  const flattened = content.replace(/\s+/g, " ").trim();
+  if (flattened.length <= SNIPPET_MAX_CHARS) {
+    return flattened;
+  }
+
+  const cut = flattened.slice(0, SNIPPET_MAX_CHARS);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > SNIPPET_MAX_CHARS * 0.6 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
@@ -0,0 +1,277 @@
+/**
+ * Clarification turns.
+ *
+ * When a question only makes sense once a town, board or year is pinned down
+ * ("what did the board decide about the budget?"), the assistant asks instead
+ * of guessing. The router proposes the dimension and candidate values; the
+ * turn is saved as an assistant message carrying a ClarificationPrompt, and
+ * the client offers the options as quick replies. A reply that matches an
+ * option resumes the original question with that option's constraints
+ * applied to the retrieval plan.
+ */
+
+import { storage } from "../storage";
+import { logWarn } from "../utils/logger";
+import type { ActorContext } from "../auth/types";
+import type { ChatMessage } from "@shared/schema";
+import type {
+  ClarificationConstraints,
+  ClarificationOption,
+  ClarificationPrompt,
+} from "@shared/chatClarification";
+import type { IssueMap, RetrievalPlanV3, RouterOutput } from "./types";
+import { chatConfigV3 } from "./chatConfigV3";
+import { resolveTimeExpression, detectRecencyPreference } from "./timeRange";
+import { detectTownsInText } from "./townComparison";
+
+const GENERIC_BOARD_PATTERN = /\b(?:the|this|that)\s+(?:board|committee|commission)\b/i;
+
+const NAMED_BOARD_PATTERN =
+  /\b(?:select\s*board|selectmen|planning board|zoning board|zba|conservation commission|budget committee|school board|library trustees|cemetery trustees|trustees of (?:the )?trust funds|heritage commission|historic district commission)\b/i;
+
+const YEAR_SENSITIVE_PATTERN =
+  /\b(?:budget|warrant articles?|tax rate|appropriations?|town meeting|annual report|default budget|bond)\b/i;
+
+const UNNAMED_TOWN_PATTERN = /\b(?:my|our|the) town\b/i;
+
+export interface ClarificationGateInput {
+  question: string;
+  /** A town came from the request or the session rather than the default */
+  townSpecified: boolean;
+  knownTowns: string[];
+}
+
+/**
+ * Cheap check before spending a router call: does the question leave a town,
+ * board or year open that would change the answer?
+ */
+export function mayNeedClarification(input: ClarificationGateInput): boolean {
+  const { question, townSpecified, knownTowns } = input;
+
+  if (GENERIC_BOARD_PATTERN.test(question) && !NAMED_BOARD_PATTERN.test(question)) {
+    return true;
+  }
+
+  if (
+    YEAR_SENSITIVE_PATTERN.test(question) &&
+    !resolveTimeExpression(question) &&
+    !detectRecencyPreference(question)
+  ) {
+    return true;
+  }
+
+  return (
+    !townSpecified &&
+    UNNAMED_TOWN_PATTERN.test(question) &&
+    detectTownsInText(question, knownTowns).length === 0
+  );
+}
+
+function townOptions(values: string[], knownTowns: string[]): ClarificationOption[] {
+  const options: ClarificationOption[] = [];
+  for (const value of values) {
+    const town = knownTowns.find((t) => t.toLowerCase() === value.toLowerCase());
+    if (town) options.push({ label: town, constraints: { town } });
+  }
+  return options;
+}
+
+function yearOptions(values: string[], now: Date): ClarificationOption[] {
+  const currentYear = now.getFullYear();
+  const years = values
+    .map((value) => (/^\d{4}$/.test(value) ? parseInt(value, 10) : NaN))
+    .filter((year) => year >= 1990 && year <= currentYear + 1);
+
+  const candidates = years.length >= 2 ? years : [currentYear, currentYear - 1, currentYear - 2];
+  return candidates.map((year) => ({ label: String(year), constraints: { year } }));
+}
+
+function boardOptions(values: string[]): ClarificationOption[] {
+  return values
+    .filter((value) => value.length <= 60)
+    .map((board) => ({ label: board, constraints: { board } }));
+}
+
+/**
+ * Turn the router's clarification into quick-reply options, or null when
+ * there are fewer than two usable ones (asking would not help).
+ */
+export function buildClarificationPrompt(
+  routerOutput: RouterOutput,
+  originalQuestion: string,
+  knownTowns: string[],
+  now: Date = new Date()
+): ClarificationPrompt | null {
+  const clarification = routerOutput.clarification;
+  if (!routerOutput.requiresClarification || !clarification) return null;
+
+  let options: ClarificationOption[];
+  switch (clarification.dimension) {
+    case "town":
+      options = townOptions(clarification.options, knownTowns);
+      break;
+    case "year":
+      options = yearOptions(clarification.options, now);
+      break;
+    case "board":
+      options = boardOptions(clarification.options);
+      break;
+  }
+
+  const seen = new Set<string>();
+  const uniqueOptions = options
+    .filter((option) => {
+      const key = option.label.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, chatConfigV3.CLARIFICATION_MAX_OPTIONS);
+
+  if (uniqueOptions.length < 2) return null;
+
+  return {
+    dimension: clarification.dimension,
+    question: clarification.question,
+    options: uniqueOptions,
+    originalQuestion,
+  };
+}
+
+/**
+ * The clarification stored on an assistant message, if it asked one.
+ */
+export function getMessageClarification(message: ChatMessage): ClarificationPrompt | null {
+  if (message.role !== "assistant" || !message.citations) return null;
+  try {
+    const parsed = JSON.parse(message.citations);
+    return parsed?.clarification ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ClarificationResume {
+  prompt: ClarificationPrompt;
+  option: ClarificationOption;
+}
+
+/**
+ * Match a reply against the clarification that ends the prior path. Option
+ * labels match case-insensitively; a year prompt also accepts any other
+ * plausible year typed out.
+ */
+export function findClarificationResume(
+  priorPath: ChatMessage[],
+  reply: string
+): ClarificationResume | null {
+  const last = priorPath[priorPath.length - 1];
+  const prompt = last ? getMessageClarification(last) : null;
+  if (!prompt) return null;
+
+  const normalized = reply.trim().toLowerCase();
+  const option = prompt.options.find((o) => o.label.toLowerCase() === normalized);
+  if (option) return { prompt, option };
+
+  if (prompt.dimension === "year" && /^\d{4}$/.test(normalized)) {
+    const year = parseInt(normalized, 10);
+    if (year >= 1990 && year <= new Date().getFullYear() + 1) {
+      return { prompt, option: { label: normalized, constraints: { year } } };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The question the pipeline answers after a clarification, e.g.
+ * "What did the board approve? (Planning Board)".
+ */
+export function clarifiedQuestion(resume: ClarificationResume): string {
+  return `${resume.prompt.originalQuestion} (${resume.option.label})`;
+}
+
+/**
+ * Narrow a plan to the chosen constraints. The town is applied upstream as
+ * the town preference; here a board is added to every local query and a year
+ * replaces whatever date range the planner resolved.
+ */
+export function applyClarificationConstraints(
+  issueMap: IssueMap,
+  retrievalPlan: RetrievalPlanV3,
+  constraints: ClarificationConstraints
+): { issueMap: IssueMap; retrievalPlan: RetrievalPlanV3 } {
+  let nextIssueMap = issueMap;
+  let nextPlan = retrievalPlan;
+
+  if (constraints.town) {
+    nextIssueMap = { ...nextIssueMap, town: constraints.town };
+  }
+
+  if (constraints.board) {
+    const board = constraints.board;
+    const boardLower = board.toLowerCase();
+    const hasBoard = nextIssueMap.boards.some((b) => b.toLowerCase() === boardLower);
+    nextIssueMap = {
+      ...nextIssueMap,
+      boards: hasBoard ? nextIssueMap.boards : [board, ...nextIssueMap.boards],
+    };
+    nextPlan = {
+      ...nextPlan,
+      local: {
+        ...nextPlan.local,
+        queries: nextPlan.local.queries.map((query) =>
+          query.toLowerCase().includes(boardLower) ? query : `${board} ${query}`
+        ),
+      },
+    };
+  }
+
+  if (constraints.year) {
+    const year = constraints.year;
+    nextIssueMap = { ...nextIssueMap, timeHints: [String(year)] };
+    nextPlan = {
+      ...nextPlan,
+      dateRange: { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1), label: String(year) },
+      preferRecent: false,
+    };
+  }
+
+  return { issueMap: nextIssueMap, retrievalPlan: nextPlan };
+}
+
+/**
+ * Record that a clarification was asked or answered, for measuring how often
+ * questions are ambiguous and which options people pick.
+ */
+export async function recordClarificationEvent(
+  actor: ActorContext | undefined,
+  sessionId: string,
+  town: string,
+  eventType: "clarification_requested" | "clarification_resolved",
+  prompt: ClarificationPrompt,
+  option?: ClarificationOption
+): Promise<void> {
+  if (!actor) return;
+  try {
+    await storage.createEvent({
+      actorType: actor.actorType,
+      userId: actor.actorType === "user" ? actor.userId : undefined,
+      anonId: actor.anonId,
+      eventType,
+      sessionId,
+      town,
+      metadata: {
+        dimension: prompt.dimension,
+        optionCount: prompt.options.length,
+        selected: option?.label,
+      },
+    });
+  } catch (error) {
+    logWarn("clarification_event_failed", {
+      sessionId,
+      stage: "clarification",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -16,6 +16,7 @@ import {
 import type { ChatNotice } from "@shared/chatNotices";
 import { augmentSystemPromptWithComposedAnswer, type ComposedAnswerFlags } from "./composedFirstAnswer";
 import { getModelForStage } from "../llm/modelRegistry";
+import { generateContent } from "../llm/providers";
 import { 
   twoLaneRetrieve,
   extractTwoLaneDocNames,
@@ -638,14 +639,12 @@ async function synthesizeDraftAnswer(
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: synthesisModel,
-      contents: [{ role: "user", parts: [{ text: synthesisPrompt }] }],
-      config: {
-        systemInstruction: synthesisSystemPrompt,
-        temperature: 0.3,
-        maxOutputTokens: policy.maxOutputTokens,
-      },
+      prompt: synthesisPrompt,
+      systemInstruction: synthesisSystemPrompt,
+      temperature: 0.3,
+      maxOutputTokens: policy.maxOutputTokens,
     });
 
     const responseText = response.text || "Unable to synthesize an answer from the retrieved documents.";
@@ -662,7 +661,6 @@ async function synthesizeDraftAnswer(
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -671,7 +669,7 @@ async function synthesizeDraftAnswer(
           stage: "synthesis",
           model: synthesisModel,
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
@@ -0,0 +1,90 @@
+/**
+ * Branching conversation helpers.
+ *
+ * Chat messages form a tree through `parentId`: regenerating an answer or
+ * editing a question creates a sibling instead of appending. The session's
+ * `activeMessageId` names the leaf the user is looking at, and everything the
+ * pipeline sees (history, situation context) comes from the path to that leaf.
+ */
+
+import type { ChatMessage, BranchedChatMessage, SituationContext } from "@shared/schema";
+
+function byCreatedAt(a: ChatMessage, b: ChatMessage): number {
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+/**
+ * Messages from the root down to `leafId`, oldest first.
+ * Returns an empty path for a null or unknown leaf.
+ */
+export function getBranchPath(messages: ChatMessage[], leafId: string | null): ChatMessage[] {
+  const byId = new Map<string, ChatMessage>();
+  messages.forEach((m) => byId.set(m.id, m));
+
+  const path: ChatMessage[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && path.length <= messages.length) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * Follow the most recent child from `messageId` down to a leaf. Used when the
+ * user switches to a sibling so they land on the latest turn of that branch.
+ */
+export function findLatestLeaf(messages: ChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  for (let depth = 0; depth < messages.length; depth++) {
+    const children = messages.filter((m) => m.parentId === leafId).sort(byCreatedAt);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+/**
+ * Path for the session's active branch. Falls back to the newest message when
+ * no active leaf has been recorded (or it no longer exists).
+ */
+export function getActiveBranch(messages: ChatMessage[], activeMessageId: string | null): ChatMessage[] {
+  if (messages.length === 0) return [];
+  const activeExists = !!activeMessageId && messages.some((m) => m.id === activeMessageId);
+  const leafId = activeExists ? activeMessageId : messages.slice().sort(byCreatedAt)[messages.length - 1].id;
+  return getBranchPath(messages, leafId);
+}
+
+/**
+ * Ids of the message and its alternatives (same parent, same role), oldest first.
+ */
+export function getSiblingIds(messages: ChatMessage[], message: ChatMessage): string[] {
+  return messages
+    .filter((m) => m.role === message.role && (m.parentId ?? null) === (message.parentId ?? null))
+    .sort(byCreatedAt)
+    .map((m) => m.id);
+}
+
+/**
+ * Active branch annotated with sibling ids, as returned to the chat UI.
+ */
+export function buildBranchedMessages(messages: ChatMessage[], activeMessageId: string | null): BranchedChatMessage[] {
+  return getActiveBranch(messages, activeMessageId).map((m) => ({
+    ...m,
+    siblingIds: getSiblingIds(messages, m),
+  }));
+}
+
+/**
+ * Situation context in effect at the end of a branch path: the snapshot on
+ * the last user turn. Turns recorded before snapshots existed fall back to
+ * the session-level context.
+ */
+export function getBranchSituationContext(
+  path: ChatMessage[],
+  sessionContext: SituationContext | null
+): SituationContext | null {
+  const lastUserMessage = path.filter((m) => m.role === "user").slice(-1)[0];
+  if (!lastUserMessage) return null;
+  return lastUserMessage.situationContext ?? sessionContext;
+}
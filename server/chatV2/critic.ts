@@ -1,13 +1,11 @@
-import { GoogleGenAI } from "@google/genai";
 import type { RouterOutput, RetrievalPlan, CriticScore, PipelineLogContext } from "./types";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
 import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
 import { infoOnlyNotice } from "./scopeUtils";
 import type { ChatNotice } from "@shared/chatNotices";
 import { getModelForStage } from "../llm/modelRegistry";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import { generateContent } from "../llm/providers";
 
 const CRITIC_SYSTEM_PROMPT = `You are reviewing a draft OpenCouncil answer for quality and accuracy.
 
@@ -110,13 +108,12 @@ Respond with valid JSON only.`;
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: CRITIC_SYSTEM_PROMPT,
-        temperature: 0.3,
-      },
+      prompt: userPrompt,
+      systemInstruction: CRITIC_SYSTEM_PROMPT,
+      temperature: 0.3,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
@@ -133,7 +130,6 @@ Respond with valid JSON only.`;
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -142,7 +138,7 @@ Respond with valid JSON only.`;
           stage: "critic",
           model: modelName,
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
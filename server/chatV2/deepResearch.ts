@@ -0,0 +1,444 @@
+/**
+ * Deep Research
+ *
+ * Long-form research memos for paying users and municipal staff, run by the
+ * research worker instead of inside a chat request:
+ * 1. Plans the question into information needs (router + retrieval planner)
+ * 2. Runs a two-lane retrieval pass per need
+ * 3. Gap-filling rounds ask which needs the evidence still leaves open and
+ *    search again with the queries suggested
+ * 4. Writes a structured memo from everything gathered, followed by a table
+ *    of authorities built from the sources it cites
+ */
+
+import { logDebug } from "../utils/logger";
+import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
+import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
+import { getModelForStage } from "../llm/modelRegistry";
+import { generateContent } from "../llm/providers";
+import { logLLMCall } from "../llm/callLLMWithLogging";
+import { chatConfig } from "./chatConfig";
+import { routeQuestion } from "./router";
+import { planRetrieval } from "./retrievalPlanner";
+import { twoLaneRetrieve, classifyAuthorityRobust, type LaneChunk } from "./twoLaneRetrieve";
+import { numberCitationMarkers } from "./citationMarkers";
+import { mapCitedChunksToCitations } from "./sources";
+import { assessResearchRecordStrength } from "./recordStrength";
+import { buildTableOfAuthorities, parseEvidenceGaps, renderTableOfAuthorities, type ResearchGap } from "./researchMemo";
+import type { AuthorityEntry, ResearchProgress } from "@shared/deepResearch";
+import type { AnswerRecordStrength } from "@shared/recordStrength";
+import type { SituationContext } from "@shared/schema";
+import type { ActorContext } from "../auth/types";
+import type {
+  ChatHistoryMessage,
+  LabeledChunk,
+  PipelineLogContext,
+  SourceCitation,
+} from "./types";
+
+export interface DeepResearchOptions {
+  question: string;
+  sessionHistory: ChatHistoryMessage[];
+  townPreference?: string | null;
+  situationContext?: SituationContext | null;
+  logContext?: PipelineLogContext;
+  /** Called at each step; awaited, so a slow write holds up the research */
+  onProgress?: (progress: ResearchProgress) => Promise<void> | void;
+}
+
+export interface DeepResearchResult {
+  /** Memo markdown with numbered markers, table of authorities included */
+  memoText: string;
+  sources: SourceCitation[];
+  authorities: AuthorityEntry[];
+  infoNeeds: string[];
+  /** Needs the record still did not answer after gap-filling */
+  openGaps: string[];
+  passes: number;
+  recordStrength: AnswerRecordStrength;
+  durationMs: number;
+}
+
+interface EvidencePool {
+  local: LaneChunk[];
+  state: LaneChunk[];
+  seen: Set<string>;
+}
+
+/**
+ * Deep research needs a paying account or municipal staff access
+ */
+export function canUseDeepResearch(actor: ActorContext | undefined): boolean {
+  if (!chatConfig.DEEP_ANSWER_ENABLED) return false;
+  if (actor?.actorType !== "user" || !actor.user) return false;
+  return actor.user.isPaying || actor.user.isMunicipalStaff;
+}
+
+export async function runDeepResearch(options: DeepResearchOptions): Promise<DeepResearchResult> {
+  const { question, sessionHistory, townPreference, situationContext, logContext, onProgress } = options;
+  const startTime = Date.now();
+
+  const progress: ResearchProgress = {
+    stage: "planning",
+    infoNeedsTotal: 0,
+    infoNeedsSearched: 0,
+    passes: 0,
+    gapRound: 0,
+    sourcesFound: 0,
+  };
+  const report = async (update: Partial<ResearchProgress>) => {
+    Object.assign(progress, update);
+    await onProgress?.({ ...progress });
+  };
+
+  await report({});
+
+  const userHints = { town: townPreference || undefined };
+  const routerOutput = await routeQuestion(question, sessionHistory, userHints, logContext);
+  const plan = await planRetrieval({ question, routerOutput, userHints, logContext });
+
+  // The default plan's placeholder need is no better than the question itself
+  const plannedNeeds = plan.infoNeeds
+    .map((need) => need.trim())
+    .filter((need) => need && need !== "General information about the topic");
+  const infoNeeds = (plannedNeeds.length > 0 ? plannedNeeds : [question])
+    .slice(0, chatConfig.DEEP_RESEARCH_MAX_INFO_NEEDS);
+
+  await report({ stage: "searching", infoNeedsTotal: infoNeeds.length });
+
+  const pool: EvidencePool = { local: [], state: [], seen: new Set() };
+
+  const search = async (query: string) => {
+    const result = await twoLaneRetrieve({
+      userQuestion: question,
+      rerankedQuestion: query,
+      townPreference: plan.filters.townPreference,
+      domains: plan.filters.categories,
+      boards: plan.filters.boards,
+      preferRecent: plan.preferRecent,
+      scopeHint: routerOutput.scopeHint,
+      situationContext,
+      logContext,
+    });
+    addEvidence(pool, result.localChunks.slice(0, chatConfig.DEEP_RESEARCH_CHUNKS_PER_PASS));
+    addEvidence(pool, result.stateChunks.slice(0, chatConfig.DEEP_RESEARCH_CHUNKS_PER_PASS));
+    progress.passes++;
+    progress.sourcesFound = countDocuments(pool);
+  };
+
+  for (const need of infoNeeds) {
+    await search(need);
+    await report({ infoNeedsSearched: progress.infoNeedsSearched + 1 });
+  }
+
+  let gaps = await findEvidenceGaps(question, infoNeeds, pool, logContext);
+  for (let round = 1; round <= chatConfig.DEEP_RESEARCH_MAX_GAP_ROUNDS && gaps.length > 0; round++) {
+    await report({ stage: "gap_filling", gapRound: round });
+    for (const gap of gaps) {
+      await search(gap.query);
+      await report({});
+    }
+    gaps = await findEvidenceGaps(question, infoNeeds, pool, logContext);
+  }
+  const openGaps = Array.from(new Set(gaps.map((g) => g.infoNeed)));
+
+  logDebug("deep_research_evidence_complete", {
+    requestId: logContext?.requestId,
+    sessionId: logContext?.sessionId,
+    stage: "deep_research",
+    infoNeedCount: infoNeeds.length,
+    passes: progress.passes,
+    localChunkCount: pool.local.length,
+    stateChunkCount: pool.state.length,
+    openGapCount: openGaps.length,
+  });
+
+  await report({ stage: "writing" });
+
+  const chunks = labelEvidence(pool);
+  const draft = await writeMemo({
+    question,
+    infoNeeds,
+    openGaps,
+    chunks,
+    sessionHistory,
+    townPreference,
+    logContext,
+  });
+
+  const { answerText, citedChunks } = numberCitationMarkers(draft, chunks);
+  const sources = await mapCitedChunksToCitations(citedChunks);
+  const authorities = buildTableOfAuthorities(answerText, citedChunks, sources);
+  const tableOfAuthorities = renderTableOfAuthorities(authorities);
+
+  return {
+    memoText: tableOfAuthorities ? `${answerText.trim()}\n\n${tableOfAuthorities}` : answerText.trim(),
+    sources,
+    authorities,
+    infoNeeds,
+    openGaps,
+    passes: progress.passes,
+    recordStrength: assessResearchRecordStrength([...pool.local, ...pool.state], openGaps),
+    durationMs: Date.now() - startTime,
+  };
+}
+
+function evidenceKey(chunk: LaneChunk): string {
+  return `${chunk.lane}:${chunk.title.toLowerCase().trim()}:${chunk.content.slice(0, 200)}`;
+}
+
+/**
+ * Add chunks not already gathered, up to the per-lane cap
+ */
+function addEvidence(pool: EvidencePool, chunks: LaneChunk[]): void {
+  for (const chunk of chunks) {
+    const laneChunks = chunk.lane === "local" ? pool.local : pool.state;
+    const key = evidenceKey(chunk);
+    if (pool.seen.has(key) || laneChunks.length >= chatConfig.DEEP_RESEARCH_MAX_CHUNKS_PER_LANE) continue;
+    pool.seen.add(key);
+    laneChunks.push(chunk);
+  }
+}
+
+function countDocuments(pool: EvidencePool): number {
+  return new Set([...pool.local, ...pool.state].map((c) => c.title.toLowerCase().trim())).size;
+}
+
+function labelEvidence(pool: EvidencePool): LabeledChunk[] {
+  const label = (chunk: LaneChunk, idx: number): LabeledChunk => ({
+    label: `[${chunk.lane === "local" ? "L" : "S"}${idx + 1}]`,
+    title: chunk.title,
+    content: chunk.content,
+    lane: chunk.lane,
+    authority: classifyAuthorityRobust(chunk.title, chunk.content, chunk.lane),
+    documentNames: chunk.documentNames,
+    town: chunk.town,
+  });
+  return [...pool.local.map(label), ...pool.state.map(label)];
+}
+
+const GAP_SYSTEM_PROMPT = `You review the evidence gathered for a research memo on New Hampshire municipal governance.
+
+For each research question, decide whether the excerpts answer it. A question is answered when the excerpts state the rule, fact or decision it asks about, not when they merely mention the topic.
+
+For each question that is NOT answered, write one new search query likely to find the missing material (name the statute, board, document type or period where you can).
+
+Respond with valid JSON only:
+{
+  "gaps": [
+    { "infoNeed": "the research question, exactly as given", "query": "new search query" }
+  ]
+}
+
+Return an empty "gaps" array when every question is answered.`;
+
+/**
+ * Research questions the gathered evidence leaves open, each with a query to
+ * search for next. A failed check ends gap-filling rather than the research.
+ */
+async function findEvidenceGaps(
+  question: string,
+  infoNeeds: string[],
+  pool: EvidencePool,
+  logContext?: PipelineLogContext
+): Promise<ResearchGap[]> {
+  const { model: modelName } = getModelForStage("retrievalPlanner");
+
+  const evidence = [...pool.local, ...pool.state]
+    .map((chunk, idx) => `${idx + 1}. (${chunk.lane}) ${chunk.title}: ${chunk.content.slice(0, 400).replace(/\s+/g, " ")}`)
+    .join("\n");
+
+  const userPrompt = `QUESTION: ${question}
+
+RESEARCH QUESTIONS:
+${infoNeeds.map((need, i) => `${i + 1}. ${need}`).join("\n")}
+
+EXCERPTS GATHERED:
+${evidence || "(none)"}`;
+
+  logLlmRequest({
+    requestId: logContext?.requestId,
+    sessionId: logContext?.sessionId,
+    stage: "deep_research_gaps",
+    model: modelName,
+    systemPrompt: GAP_SYSTEM_PROMPT,
+    userPrompt: userPrompt.slice(0, 500),
+    temperature: 0.2,
+    extra: { infoNeedCount: infoNeeds.length, excerptCount: pool.local.length + pool.state.length },
+  });
+
+  const startTime = Date.now();
+
+  try {
+    const response = await generateContent({
+      model: modelName,
+      prompt: userPrompt,
+      systemInstruction: GAP_SYSTEM_PROMPT,
+      temperature: 0.2,
+      responseFormat: "json",
+    });
+
+    const responseText = response.text || "";
+
+    logLlmResponse({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "deep_research_gaps",
+      model: modelName,
+      responseText: responseText.slice(0, 500),
+      durationMs: Date.now() - startTime,
+    });
+
+    if (logContext?.actor) {
+      await logLLMCall(
+        {
+          actor: logContext.actor,
+          sessionId: logContext.sessionId,
+          requestId: logContext.requestId,
+          stage: "retrievalPlanner",
+          model: modelName,
+          metadata: { deepResearch: "gaps" },
+        },
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
+      );
+    }
+
+    return parseEvidenceGaps(responseText, infoNeeds);
+  } catch (error) {
+    logLlmError({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "deep_research_gaps",
+      model: modelName,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+
+    if (isQuotaError(error)) {
+      const errMessage = error instanceof Error ? error.message : String(error);
+      throw new GeminiQuotaExceededError(errMessage || "Gemini quota exceeded during deep research");
+    }
+    return [];
+  }
+}
+
+const MEMO_SYSTEM_PROMPT = `You are a research assistant for New Hampshire municipal officials. Write a research memo from the document excerpts provided.
+
+Use Markdown with these sections, in this order:
+## Question presented
+## Short answer
+## Discussion
+One ### subsection per research question, in the order given.
+## Open questions
+What the record does not answer, and who could (the town office, town counsel, NHMA).
+
+Rules:
+- Cite every factual statement with the label of the excerpt it comes from, e.g. [L2] or [S1]. Use only labels that appear in the excerpts.
+- State law comes from statewide excerpts [S#]; local facts, votes and decisions come from local excerpts [L#]. Never present a local opinion as the law.
+- Give the meeting date for anything drawn from minutes.
+- Name statutes as "RSA 91-A:2". Do not invent RSA sections, ordinance numbers or dates.
+- Do not add a table of authorities or a list of sources; one is added after the memo.
+- Target 1200-2500 words.`;
+
+async function writeMemo(params: {
+  question: string;
+  infoNeeds: string[];
+  openGaps: string[];
+  chunks: LabeledChunk[];
+  sessionHistory: ChatHistoryMessage[];
+  townPreference?: string | null;
+  logContext?: PipelineLogContext;
+}): Promise<string> {
+  const { question, infoNeeds, openGaps, chunks, sessionHistory, townPreference, logContext } = params;
+  const { model: synthesisModel } = getModelForStage("complexSynthesis");
+
+  const historyContext = sessionHistory.length > 0
+    ? `Recent conversation:\n${sessionHistory
+        .slice(-4)
+        .map((m) => `${m.role}: ${m.content.slice(0, 200)}`)
+        .join("\n")}\n\n`
+    : "";
+
+  const gapContext = openGaps.length > 0
+    ? `\nThe search did not find answers to: ${openGaps.join("; ")}. Say so under "Open questions".\n`
+    : "";
+
+  const excerpts = chunks.length > 0
+    ? chunks.map((c) => `${c.label} ${c.title}\n${c.content.slice(0, 1500)}`).join("\n\n")
+    : "(no documents found)";
+
+  const userPrompt = `${historyContext}QUESTION: ${question}
+TOWN: ${townPreference || "not specified"}
+
+RESEARCH QUESTIONS:
+${infoNeeds.map((need, i) => `${i + 1}. ${need}`).join("\n")}
+${gapContext}
+EXCERPTS:
+${excerpts}`;
+
+  logLlmRequest({
+    requestId: logContext?.requestId,
+    sessionId: logContext?.sessionId,
+    stage: "deep_research_memo",
+    model: synthesisModel,
+    systemPrompt: MEMO_SYSTEM_PROMPT.slice(0, 500),
+    userPrompt: userPrompt.slice(0, 500),
+    temperature: 0.3,
+    extra: { chunkCount: chunks.length, infoNeedCount: infoNeeds.length, openGapCount: openGaps.length },
+  });
+
+  const startTime = Date.now();
+
+  try {
+    const response = await generateContent({
+      model: synthesisModel,
+      prompt: userPrompt,
+      systemInstruction: MEMO_SYSTEM_PROMPT,
+      temperature: 0.3,
+      maxOutputTokens: 8000,
+    });
+
+    const responseText = response.text || "";
+
+    logLlmResponse({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "deep_research_memo",
+      model: synthesisModel,
+      responseText: responseText.slice(0, 500),
+      durationMs: Date.now() - startTime,
+    });
+
+    if (logContext?.actor) {
+      await logLLMCall(
+        {
+          actor: logContext.actor,
+          sessionId: logContext.sessionId,
+          requestId: logContext.requestId,
+          stage: "synthesis",
+          model: synthesisModel,
+          metadata: { deepResearch: "memo" },
+        },
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
+      );
+    }
+
+    if (!responseText.trim()) {
+      throw new Error("Memo synthesis returned no text");
+    }
+    return responseText;
+  } catch (error) {
+    logLlmError({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "deep_research_memo",
+      model: synthesisModel,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+
+    if (isQuotaError(error)) {
+      const errMessage = error instanceof Error ? error.message : String(error);
+      throw new GeminiQuotaExceededError(errMessage || "Gemini quota exceeded during deep research");
+    }
+    throw error;
+  }
+}
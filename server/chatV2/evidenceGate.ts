@@ -8,14 +8,12 @@
  * Runs after initial retrieval in both simple and complex paths.
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { logDebug, logError } from "../utils/logger";
 import { logLlmRequest, logLlmResponse } from "../utils/llmLogging";
 import type { PipelineLogContext, RouterOutput, RetrievalPlan } from "./types";
 import { extractTokenCounts, logLLMCall } from "../llm/callLLMWithLogging";
 import { getModelForStage } from "../llm/modelRegistry";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import { generateContent } from "../llm/providers";
 
 /**
  * Question intent types that the gate uses to determine coverage needs
@@ -261,13 +259,12 @@ Respond with valid JSON only.`;
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: EVIDENCE_GATE_SYSTEM_PROMPT,
-        temperature: 0.2,
-      },
+      prompt: userPrompt,
+      systemInstruction: EVIDENCE_GATE_SYSTEM_PROMPT,
+      temperature: 0.2,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
@@ -284,7 +281,6 @@ Respond with valid JSON only.`;
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -293,7 +289,7 @@ Respond with valid JSON only.`;
           stage: "evidenceGate",
           model: modelName,
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
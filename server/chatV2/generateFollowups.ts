@@ -1,35 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
 import { isQuotaError } from "../utils/geminiErrors";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
 import type { PipelineLogContext } from "./types";
 import { getModelForStage } from "../llm/modelRegistry";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
-const FOLLOWUP_SYSTEM_PROMPT = `You are generating follow-up questions for OpenCouncil.
-
-Your task is to suggest 2–4 short follow-up questions that help the user explore the topic more deeply.
-
-RULES:
-
-• Questions must build on the answer, not correct it.
-• If the original question involved a specific town:
-  - At least one follow-up must address statewide law, process, or authority.
-• Others may explore:
-  - historical trends
-  - related boards or entities
-  - timelines
-  - comparisons across years or towns
-
-• Each question must be under 100 characters.
-• Avoid redundancy with information already explained.
-
-Do not generate follow-ups that exist only because the initial answer was incomplete.
-
-Output format:
-Return a JSON array of strings, like:
-["Question 1...", "Question 2...", "Question 3..."]`;
+import { generateContent } from "../llm/providers";
+import { resolvePrompt, promptLogMetadata } from "../llm/promptRegistry";
 
 interface GenerateFollowupsParams {
   userQuestion: string;
@@ -44,6 +19,10 @@ export async function generateFollowups(
 ): Promise<string[]> {
   const { userQuestion, answerText, townPreference, detectedDomains, logContext } = params;
   const { model: modelName } = getModelForStage('followups');
+  const systemPrompt = await resolvePrompt("followups", {
+    sessionId: logContext?.sessionId,
+    record: logContext?.promptVersions,
+  });
 
   const townContext = townPreference
     ? `The question is about a specific town: ${townPreference}`
@@ -74,10 +53,11 @@ Remember:
     sessionId: logContext?.sessionId,
     stage: "generateFollowups",
     model: modelName,
-    systemPrompt: FOLLOWUP_SYSTEM_PROMPT,
+    systemPrompt: systemPrompt.text,
     userPrompt,
     temperature: 0.4,
     extra: {
+      promptVersion: systemPrompt.version,
       townPreference,
       detectedDomains,
       answerLength: answerText.length,
@@ -87,13 +67,11 @@ Remember:
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: FOLLOWUP_SYSTEM_PROMPT,
-        temperature: 0.4,
-      },
+      prompt: userPrompt,
+      systemInstruction: systemPrompt.text,
+      temperature: 0.4,
     });
 
     const responseText = response.text || "";
@@ -110,7 +88,6 @@ Remember:
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -118,8 +95,9 @@ Remember:
           requestId: logContext.requestId,
           stage: "followups",
           model: modelName,
+          metadata: promptLogMetadata(systemPrompt),
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
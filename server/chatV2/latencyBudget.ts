@@ -0,0 +1,121 @@
+/**
+ * Latency budgets for the v3 pipeline.
+ *
+ * Each stage gets a budget (chatConfigV3 LATENCY BUDGET SETTINGS), capped by
+ * what is left of the overall deadline. A stage that runs past its budget is
+ * abandoned in favor of a defined fallback; the fallbacks that fired are
+ * logged and surfaced to the user as one notice.
+ */
+
+import { logWarn } from "../utils/logger";
+import { chatConfigV3 } from "./chatConfigV3";
+import { degradedAnswerNotice } from "./scopeUtils";
+import { NOTICE_CODES, type ChatNotice } from "@shared/chatNotices";
+import type { PipelineLogContext } from "./types";
+
+export type LatencyStage = "planner" | "localLane" | "stateLane" | "synthesis" | "repair" | "followups";
+
+export type LatencyFallback =
+  | "heuristic_plan"
+  | "local_lane_dropped"
+  | "state_lane_dropped"
+  | "degraded_synthesis"
+  | "repair_skipped"
+  | "followups_dropped";
+
+const STAGE_BUDGETS_MS: Record<LatencyStage, number> = {
+  planner: chatConfigV3.PLANNER_BUDGET_MS,
+  localLane: chatConfigV3.RETRIEVAL_LANE_BUDGET_MS,
+  stateLane: chatConfigV3.RETRIEVAL_LANE_BUDGET_MS,
+  synthesis: chatConfigV3.SYNTHESIS_BUDGET_MS,
+  repair: chatConfigV3.REPAIR_BUDGET_MS,
+  followups: chatConfigV3.FOLLOWUPS_BUDGET_MS,
+};
+
+/** Wording for the notice, completing "To answer in time, this response ..." */
+const FALLBACK_DESCRIPTIONS: Record<LatencyFallback, string> = {
+  heuristic_plan: "used a simpler search plan",
+  local_lane_dropped: "searched only statewide sources",
+  state_lane_dropped: "searched only local documents",
+  degraded_synthesis: "was written by a faster model",
+  repair_skipped: "skipped a quality check",
+  followups_dropped: "left out suggested follow-up questions",
+};
+
+export type BudgetOutcome<T> = { completed: true; value: T } | { completed: false };
+
+export interface LatencyBudget {
+  readonly startedAt: number;
+  /** Fallbacks that fired so far, in order */
+  readonly fallbacks: LatencyFallback[];
+  /** Milliseconds left before the overall deadline (Infinity when disabled) */
+  remainingMs(): number;
+  /** The stage's budget, capped by the time left (Infinity when disabled) */
+  stageBudgetMs(stage: LatencyStage): number;
+  recordFallback(fallback: LatencyFallback, stage: LatencyStage): void;
+}
+
+export function createLatencyBudget(
+  logContext?: PipelineLogContext,
+  options: { startedAt?: number; enabled?: boolean } = {}
+): LatencyBudget {
+  const { startedAt = Date.now(), enabled = chatConfigV3.ENABLE_LATENCY_BUDGETS } = options;
+  const fallbacks: LatencyFallback[] = [];
+
+  const remainingMs = () =>
+    enabled ? Math.max(0, chatConfigV3.PIPELINE_DEADLINE_MS - (Date.now() - startedAt)) : Infinity;
+
+  return {
+    startedAt,
+    fallbacks,
+    remainingMs,
+    stageBudgetMs: (stage) => (enabled ? Math.min(STAGE_BUDGETS_MS[stage], remainingMs()) : Infinity),
+    recordFallback: (fallback, stage) => {
+      if (fallbacks.includes(fallback)) return;
+      fallbacks.push(fallback);
+      logWarn("v3_latency_fallback", {
+        requestId: logContext?.requestId,
+        sessionId: logContext?.sessionId,
+        stage: "latency_budget",
+        budgetStage: stage,
+        fallback,
+        budgetMs: STAGE_BUDGETS_MS[stage],
+        elapsedMs: Date.now() - startedAt,
+      });
+    },
+  };
+}
+
+/**
+ * Wait for work up to budgetMs. Past the budget the work keeps running but
+ * its result (or error) is ignored.
+ */
+export async function runWithinBudget<T>(work: Promise<T>, budgetMs: number): Promise<BudgetOutcome<T>> {
+  if (budgetMs === Infinity) {
+    return { completed: true, value: await work };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<BudgetOutcome<T>>((resolve) => {
+    timer = setTimeout(() => resolve({ completed: false }), budgetMs);
+  });
+
+  try {
+    return await Promise.race([
+      work.then((value): BudgetOutcome<T> => ({ completed: true, value })),
+      expired,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Notices with one describing the budget's fallbacks, replacing any earlier
+ * one (the route adds follow-up fallbacks after the pipeline returns).
+ */
+export function withLatencyNotice(notices: ChatNotice[], budget: LatencyBudget): ChatNotice[] {
+  const others = notices.filter((n) => n.code !== NOTICE_CODES.DEGRADED_ANSWER);
+  if (budget.fallbacks.length === 0) return others;
+  return [...others, degradedAnswerNotice(budget.fallbacks.map((f) => FALLBACK_DESCRIPTIONS[f]))];
+}
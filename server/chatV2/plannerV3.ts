@@ -6,15 +6,20 @@
  * 2. Generate multi-query retrieval plan per lane
  * 3. Validate entities against source text (no hallucinated entities)
  * 4. Apply query budget constraints
+ * 5. Detect comparison questions across two or more towns
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { getModelForStage } from "../llm/modelRegistry";
+import { generateContent } from "../llm/providers";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
+import { resolvePrompt, promptLogMetadata } from "../llm/promptRegistry";
 import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
 import { logDebug } from "../utils/logger";
 import { chatConfigV3 } from "./chatConfigV3";
+import { resolveTimeHints, detectRecencyPreference } from "./timeRange";
+import { resolveComparisonTowns } from "./townComparison";
+import { extractIssueMap, type IssueMap as HeuristicIssueMap } from "./twoLaneRetrieve";
 import type { 
   IssueMap, 
   RetrievalPlanV3, 
@@ -24,73 +29,55 @@ import type {
 } from "./types";
 import type { SessionSource, SituationContext } from "@shared/schema";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
-const PLANNER_SYSTEM_PROMPT = `You are the planning agent for OpenCouncil's civic research assistant.
-
-Your job is to analyze a user's question (and any pasted article/document) to produce:
-1. An IssueMap - structured extraction of entities, topics, and intent
-2. A RetrievalPlan - specific queries for local and state document lanes
-
-CRITICAL RULES:
-- Only include entities that APPEAR in the provided text (user message or session source)
-- Do NOT guess or infer RSA numbers - leave legalTopics as descriptions
-- Be conservative with plannerConfidence if question is ambiguous
-
-Return JSON matching this exact schema:
-{
-  "issueMap": {
-    "town": "string or null",
-    "situationTitle": "brief title for the situation",
-    "entities": ["entity names from text only"],
-    "actions": ["action verbs/topics mentioned"],
-    "legalTopics": ["legal concepts mentioned - NOT RSA numbers"],
-    "boards": ["boards mentioned"],
-    "timeHints": ["dates, years, time references"],
-    "requestedOutput": "explain|steps|cite_laws|risk|process",
-    "legalSalience": 0.0-1.0,
-    "plannerConfidence": 0.0-1.0
-  },
-  "retrievalPlan": {
-    "local": {
-      "queries": ["query strings for local lane"],
-      "k": 12,
-      "cap": 10
-    },
-    "state": {
-      "queries": ["query strings for state lane"],
-      "k": 8,
-      "cap": 5
-    },
-    "mustInclude": {
-      "minState": 0-4,
-      "minLocalFacts": 0-4
-    },
-    "priority": "law-first|facts-first|process-first",
-    "reason": "brief explanation of plan"
-  }
-}
-
-Legal salience indicators (high = 0.7+):
-- liability, negligence, illegal, lawsuit, ADA, compliance
-- RSA, statute, code, regulation, immunity
-- damages, enforcement, penalty, violation
-
-Query guidelines:
-- Local queries: town-specific, board actions, meeting decisions, votes
-- State queries: NH law, RSA topics, NHMA guidance, municipal procedures
-- Max 6 queries per lane
-- Make queries specific and grounded in the actual question`;
-
 interface PlannerV3Options {
   userMessage: string;
   sessionSources?: SessionSource[];
   situationContext?: SituationContext | null;
   townHint?: string;
+  /** Towns with indexed documents, for comparison detection */
+  knownTowns?: string[];
+  /** Explicit comparison list from the request; overrides detection */
+  comparisonTowns?: string[];
   logContext?: PipelineLogContext;
 }
 
 export async function runPlannerV3(options: PlannerV3Options): Promise<PlannerOutput> {
+  return applyComparisonTowns(await planQuestion(options), options);
+}
+
+/**
+ * Plan without calling the model: the fallback plan, with entities, boards
+ * and legal topics from the heuristic extractIssueMap (which also reads the
+ * situation and session sources). Used when the planner is over its latency
+ * budget.
+ */
+export function runHeuristicPlannerV3(options: PlannerV3Options): PlannerOutput {
+  const { userMessage, situationContext, sessionSources, townHint } = options;
+  const extracted = extractIssueMap(userMessage, situationContext, sessionSources);
+  return applyComparisonTowns(getFallbackPlannerOutput(userMessage, townHint, extracted), options);
+}
+
+function applyComparisonTowns(output: PlannerOutput, options: PlannerV3Options): PlannerOutput {
+  const comparisonTowns = resolveComparisonTowns({
+    question: options.userMessage,
+    knownTowns: options.knownTowns || [],
+    explicitTowns: options.comparisonTowns,
+  });
+  if (comparisonTowns) {
+    output.retrievalPlan.comparisonTowns = comparisonTowns;
+    logDebug("planner_v3_comparison_detected", {
+      requestId: options.logContext?.requestId,
+      sessionId: options.logContext?.sessionId,
+      stage: "plannerV3",
+      comparisonTowns,
+      explicit: !!options.comparisonTowns?.length,
+    });
+  }
+
+  return output;
+}
+
+async function planQuestion(options: PlannerV3Options): Promise<PlannerOutput> {
   const { userMessage, sessionSources, situationContext, townHint, logContext } = options;
   const { model: modelName } = getModelForStage('retrievalPlanner');
 
@@ -104,6 +91,11 @@ export async function runPlannerV3(options: PlannerV3Options): Promise<PlannerOu
     ? `Current situation: "${situationContext.title}" with entities: ${situationContext.entities.slice(0, 5).join(', ')}`
     : '';
 
+  const systemPrompt = await resolvePrompt("planner", {
+    sessionId: logContext?.sessionId,
+    record: logContext?.promptVersions,
+  });
+
   const userPrompt = `Analyze this question and create a retrieval plan:
 
 USER QUESTION: "${userMessage}"
@@ -119,21 +111,21 @@ Return valid JSON only.`;
     sessionId: logContext?.sessionId,
     stage: "plannerV3",
     model: modelName,
-    systemPrompt: PLANNER_SYSTEM_PROMPT.slice(0, 500),
+    systemPrompt: systemPrompt.text.slice(0, 500),
     userPrompt: userPrompt.slice(0, 500),
     temperature: 0.2,
+    extra: { promptVersion: systemPrompt.version },
   });
 
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: PLANNER_SYSTEM_PROMPT,
-        temperature: 0.2,
-      },
+      prompt: userPrompt,
+      systemInstruction: systemPrompt.text,
+      temperature: 0.2,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
@@ -149,7 +141,6 @@ Return valid JSON only.`;
     });
 
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -157,8 +148,9 @@ Return valid JSON only.`;
           requestId: logContext.requestId,
           stage: "plannerV3" as any,
           model: modelName,
+          metadata: promptLogMetadata(systemPrompt),
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
@@ -267,6 +259,7 @@ function parseAndValidatePlannerOutput(
       },
       priority: validatePriority(parsed.retrievalPlan?.priority, issueMap.legalSalience),
       reason: parsed.retrievalPlan?.reason || 'Planner-generated plan',
+      ...resolveTimeFilters(issueMap, userMessage, parsed.retrievalPlan?.preferRecent === true),
     };
 
     if (issueMap.plannerConfidence < chatConfigV3.LOW_CONFIDENCE_THRESHOLD) {
@@ -299,14 +292,18 @@ function parseAndValidatePlannerOutput(
   }
 }
 
-function getFallbackPlannerOutput(userMessage: string, townHint?: string): PlannerOutput {
+function getFallbackPlannerOutput(
+  userMessage: string,
+  townHint?: string,
+  extracted?: HeuristicIssueMap
+): PlannerOutput {
   const issueMap: IssueMap = {
     town: townHint,
     situationTitle: extractDefaultTitle(userMessage),
-    entities: extractEntitiesHeuristic(userMessage),
-    actions: [],
-    legalTopics: extractLegalTopicsHeuristic(userMessage),
-    boards: extractBoardsHeuristic(userMessage),
+    entities: mergeTerms(extractEntitiesHeuristic(userMessage), extracted?.entities, 10),
+    actions: extracted?.actions ?? [],
+    legalTopics: mergeTerms(extractLegalTopicsHeuristic(userMessage), extracted?.legalTopics, 8),
+    boards: mergeTerms(extractBoardsHeuristic(userMessage), extracted?.boards, 5),
     timeHints: [],
     requestedOutput: "explain",
     legalSalience: computeLegalSalience(userMessage),
@@ -330,12 +327,38 @@ function getFallbackPlannerOutput(userMessage: string, townHint?: string): Plann
     },
     priority: issueMap.legalSalience >= 0.6 ? "law-first" : "facts-first",
     reason: "Fallback plan due to planner error",
+    ...resolveTimeFilters(issueMap, userMessage, false),
   };
 
   return {
     issueMap,
     retrievalPlan,
-    validationWarnings: ["Using fallback planner output"],
+    validationWarnings: [extracted ? "Using heuristic planner output" : "Using fallback planner output"],
+  };
+}
+
+function mergeTerms(terms: string[], extra: string[] | undefined, max: number): string[] {
+  if (!extra?.length) return terms;
+  return Array.from(new Set([...terms, ...extra])).slice(0, max);
+}
+
+/**
+ * Date window and recency preference for the plan, resolved relative to today
+ * from the planner's timeHints (or the question when there are none).
+ */
+function resolveTimeFilters(
+  issueMap: IssueMap,
+  userMessage: string,
+  plannerPrefersRecent: boolean
+): Pick<RetrievalPlanV3, 'dateRange' | 'preferRecent'> {
+  const dateRange = resolveTimeHints(issueMap.timeHints, userMessage);
+  const preferRecent = plannerPrefersRecent ||
+    detectRecencyPreference(userMessage) ||
+    issueMap.timeHints.some(hint => detectRecencyPreference(hint));
+
+  return {
+    ...(dateRange ? { dateRange } : {}),
+    preferRecent,
   };
 }
 
@@ -0,0 +1,129 @@
+/**
+ * Record strength as shown to the user.
+ *
+ * The v3 pipeline already grades its sources (computeRecordStrength) to set
+ * the synthesis tier; the unified pipeline only scores its retrieval
+ * (evaluateRetrievalQuality); deep research memos are graded on everything
+ * they gathered. All are turned into the same strong / partial / thin level
+ * with plain-language reasons for answerMeta.
+ */
+
+import { chatConfig } from "./chatConfig";
+import { detectAuthoritativeState } from "./synthesizerV3";
+import { RECORD_STRENGTH_LEVELS, type AnswerRecordStrength } from "@shared/recordStrength";
+import type { RecordStrength } from "./types";
+import type { LaneChunk, TwoLaneRetrievalResult } from "./twoLaneRetrieve";
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function recordReasons(
+  distinctStateDocs: number,
+  localFacts: number,
+  authoritativeStatePresent: boolean
+): string[] {
+  return [
+    distinctStateDocs > 0 ? plural(distinctStateDocs, "state document") : "No state documents found",
+    localFacts > 0 ? `${plural(localFacts, "passage")} from local documents` : "No local records found",
+    authoritativeStatePresent
+      ? "Includes RSA or other authoritative state sources"
+      : "No statute or authoritative state source found",
+  ];
+}
+
+function countEvidence(chunks: LaneChunk[]) {
+  const stateChunks = chunks.filter((c) => c.lane === "state");
+  return {
+    localFacts: chunks.length - stateChunks.length,
+    distinctStateDocs: new Set(stateChunks.map((c) => c.title.toLowerCase().trim())).size,
+    authoritativeStatePresent: detectAuthoritativeState(stateChunks),
+  };
+}
+
+/**
+ * Level and reasons for a v3 answer's record strength
+ */
+export function describeRecordStrength(recordStrength: RecordStrength): AnswerRecordStrength {
+  const distinctStateDocs = recordStrength.distinctStateDocs ?? recordStrength.stateCount;
+  const reasons = recordReasons(
+    distinctStateDocs,
+    recordStrength.localCount,
+    recordStrength.authoritativeStatePresent
+  );
+  if (recordStrength.situationAlignment < 0.2) {
+    reasons.push("Sources only loosely match the situation discussed");
+  }
+
+  return {
+    level: RECORD_STRENGTH_LEVELS[recordStrength.tier],
+    tier: recordStrength.tier,
+    reasons,
+    distinctStateDocs,
+    localFacts: recordStrength.localCount,
+    authoritativeStatePresent: recordStrength.authoritativeStatePresent,
+  };
+}
+
+/**
+ * Record strength for a unified-pipeline answer, graded from the chunks it
+ * was given and how confidently retrieval matched the question.
+ */
+export function assessRetrievalRecordStrength(retrieval: TwoLaneRetrievalResult): AnswerRecordStrength {
+  const { localFacts, distinctStateDocs, authoritativeStatePresent } = countEvidence(retrieval.mergedTopChunks);
+  const confident = retrieval.retrievalConfidence >= chatConfig.RETRIEVAL_CONFIDENCE_THRESHOLD;
+
+  let tier: AnswerRecordStrength["tier"];
+  if (confident && retrieval.retrievalConfidence >= 0.6 && distinctStateDocs >= 2 && authoritativeStatePresent) {
+    tier = "A";
+  } else if (confident && retrieval.mergedTopChunks.length >= 2) {
+    tier = "B";
+  } else {
+    tier = "C";
+  }
+
+  const reasons = recordReasons(distinctStateDocs, localFacts, authoritativeStatePresent);
+  if (!confident) {
+    reasons.push("Search results only loosely match the question");
+  }
+
+  return {
+    level: RECORD_STRENGTH_LEVELS[tier],
+    tier,
+    reasons,
+    distinctStateDocs,
+    localFacts,
+    authoritativeStatePresent,
+  };
+}
+
+/**
+ * Record strength for a deep research memo. Information needs that gap-filling
+ * could not answer keep it from being strong.
+ */
+export function assessResearchRecordStrength(chunks: LaneChunk[], openGaps: string[]): AnswerRecordStrength {
+  const { localFacts, distinctStateDocs, authoritativeStatePresent } = countEvidence(chunks);
+
+  let tier: AnswerRecordStrength["tier"];
+  if (openGaps.length === 0 && distinctStateDocs >= 2 && authoritativeStatePresent) {
+    tier = "A";
+  } else if (chunks.length >= 2) {
+    tier = "B";
+  } else {
+    tier = "C";
+  }
+
+  const reasons = recordReasons(distinctStateDocs, localFacts, authoritativeStatePresent);
+  if (openGaps.length > 0) {
+    reasons.push(`${plural(openGaps.length, "research question")} the record does not answer`);
+  }
+
+  return {
+    level: RECORD_STRENGTH_LEVELS[tier],
+    tier,
+    reasons,
+    distinctStateDocs,
+    localFacts,
+    authoritativeStatePresent,
+  };
+}
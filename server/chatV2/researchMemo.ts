@@ -0,0 +1,162 @@
+/**
+ * Deep research memo parts that need no LLM or retrieval calls: reading the
+ * gap reviewer's response and building the memo's table of authorities.
+ */
+
+import { parseRsaCitations } from "../services/rsaCorpus";
+import { AUTHORITY_KIND_LABELS, type AuthorityEntry, type AuthorityKind } from "@shared/deepResearch";
+import type { CitedChunk, LabeledChunk, SourceCitation } from "./types";
+
+export interface ResearchGap {
+  infoNeed: string;
+  query: string;
+}
+
+const KIND_ORDER: AuthorityKind[] = ["statute", "ordinance", "minutes", "other"];
+
+const ORDINANCE_CATEGORIES = ["ordinance", "zoning", "policy"];
+
+/**
+ * Gaps from the reviewer's JSON, limited to the research questions asked
+ */
+export function parseEvidenceGaps(responseText: string, infoNeeds: string[]): ResearchGap[] {
+  try {
+    const parsed = JSON.parse(responseText);
+    if (!Array.isArray(parsed?.gaps)) return [];
+
+    const known = new Map(infoNeeds.map((need) => [need.toLowerCase().trim(), need] as [string, string]));
+    const gaps: ResearchGap[] = [];
+    for (const gap of parsed.gaps) {
+      const infoNeed = known.get(String(gap?.infoNeed ?? "").toLowerCase().trim());
+      const query = String(gap?.query ?? "").trim();
+      if (infoNeed && query && !gaps.some((g) => g.infoNeed === infoNeed)) {
+        gaps.push({ infoNeed, query });
+      }
+    }
+    return gaps;
+  } catch {
+    return [];
+  }
+}
+
+function classifyAuthorityKind(source: SourceCitation, chunk: LabeledChunk | undefined): AuthorityKind {
+  if (chunk?.authority === "rsa") return "statute";
+  if (source.category === "meeting_minutes" || source.meetingDate || chunk?.authority === "minutes") {
+    return "minutes";
+  }
+  if (
+    (source.category && ORDINANCE_CATEGORIES.includes(source.category)) ||
+    /\b(ordinance|bylaw|zoning|regulations?)\b/i.test(source.title)
+  ) {
+    return "ordinance";
+  }
+  return "other";
+}
+
+function compareAuthorities(a: AuthorityEntry, b: AuthorityEntry): number {
+  const byKind = KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind);
+  if (byKind !== 0) return byKind;
+  // Minutes run in date order, undated ones last
+  if (a.kind === "minutes" && a.date !== b.date) {
+    if (!a.date) return 1;
+    if (!b.date) return -1;
+    return a.date.localeCompare(b.date);
+  }
+  return a.citation.localeCompare(b.citation, undefined, { numeric: true });
+}
+
+/**
+ * Authorities the memo relies on: each RSA section it names, then every cited
+ * document, grouped by kind. Statute excerpts already listed under an RSA
+ * section are not repeated as documents.
+ */
+export function buildTableOfAuthorities(
+  memoText: string,
+  citedChunks: CitedChunk[],
+  sources: SourceCitation[]
+): AuthorityEntry[] {
+  const entries: AuthorityEntry[] = parseRsaCitations(memoText).map((citation) => ({
+    kind: "statute",
+    citation: `RSA ${citation}`,
+    markers: citedChunks
+      .filter(({ chunk }) => chunk.rsaCitation === citation || parseRsaCitations(`${chunk.title} ${chunk.content}`).includes(citation))
+      .map(({ marker }) => marker),
+  }));
+  const statuteMarkers = new Set(entries.flatMap((e) => e.markers));
+
+  const documents = new Map<string, AuthorityEntry>();
+  for (const source of sources) {
+    if (source.marker === undefined) continue;
+    const chunk = citedChunks.find((c) => c.marker === source.marker)?.chunk;
+    const kind = classifyAuthorityKind(source, chunk);
+    if (kind === "statute" && statuteMarkers.has(source.marker)) continue;
+
+    const key = `${kind}:${source.documentVersionId ?? source.title}`;
+    const existing = documents.get(key);
+    if (existing) {
+      existing.markers.push(source.marker);
+      continue;
+    }
+    documents.set(key, {
+      kind,
+      citation: source.title,
+      date: source.meetingDate,
+      board: source.board,
+      town: source.town,
+      url: source.url,
+      markers: [source.marker],
+    });
+  }
+
+  return [...entries, ...Array.from(documents.values())].sort(compareAuthorities);
+}
+
+function tableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+}
+
+function formatMarkers(markers: number[]): string {
+  return markers.length > 0 ? markers.map((m) => `[${m}]`).join(", ") : "Not in cited excerpts";
+}
+
+function documentCell(entry: AuthorityEntry): string {
+  const title = tableCell(entry.citation);
+  return entry.url ? `[${title}](${entry.url})` : title;
+}
+
+/**
+ * Markdown for the table of authorities, one table per kind. Empty when
+ * the memo cites nothing.
+ */
+export function renderTableOfAuthorities(entries: AuthorityEntry[]): string {
+  if (entries.length === 0) return "";
+
+  const sections = ["## Table of authorities"];
+  for (const kind of KIND_ORDER) {
+    const rows = entries.filter((e) => e.kind === kind);
+    if (rows.length === 0) continue;
+
+    sections.push(`### ${AUTHORITY_KIND_LABELS[kind]}`);
+    if (kind === "minutes") {
+      sections.push([
+        "| Date | Board | Document | Cited at |",
+        "| --- | --- | --- | --- |",
+        ...rows.map((e) => `| ${e.date || "Undated"} | ${tableCell(e.board || "")} | ${documentCell(e)} | ${formatMarkers(e.markers)} |`),
+      ].join("\n"));
+    } else if (kind === "ordinance") {
+      sections.push([
+        "| Document | Town | Cited at |",
+        "| --- | --- | --- |",
+        ...rows.map((e) => `| ${documentCell(e)} | ${tableCell(e.town || "")} | ${formatMarkers(e.markers)} |`),
+      ].join("\n"));
+    } else {
+      sections.push([
+        "| Authority | Cited at |",
+        "| --- | --- |",
+        ...rows.map((e) => `| ${documentCell(e)} | ${formatMarkers(e.markers)} |`),
+      ].join("\n"));
+    }
+  }
+
+  return sections.join("\n\n");
+}
@@ -1,11 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
 import type { RouterOutput, RetrievalPlan, PipelineLogContext } from "./types";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
 import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
 import { getModelForStage } from "../llm/modelRegistry";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import { generateContent } from "../llm/providers";
 
 const PLANNER_SYSTEM_PROMPT = `You are the retrieval planning agent for OpenCouncil.
 
@@ -126,13 +124,12 @@ Respond with valid JSON only.`;
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: PLANNER_SYSTEM_PROMPT,
-        temperature: 0.2,
-      },
+      prompt: userPrompt,
+      systemInstruction: PLANNER_SYSTEM_PROMPT,
+      temperature: 0.2,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
@@ -149,7 +146,6 @@ Respond with valid JSON only.`;
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -158,7 +154,7 @@ Respond with valid JSON only.`;
           stage: "retrievalPlanner",
           model: modelName,
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
@@ -1,11 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
-import type { RouterOutput, ChatHistoryMessage, PipelineLogContext, ScopeHint, AnswerType, RenderStyle } from "./types";
+import type { RouterOutput, RouterClarification, ChatHistoryMessage, PipelineLogContext, ScopeHint, AnswerType, RenderStyle } from "./types";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
 import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
 import { getModelForStage } from "../llm/modelRegistry";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import { generateContent } from "../llm/providers";
 
 const NH_TOWNS = [
   "Ossipee", "Conway", "Bartlett", "Madison", "Tamworth", "Freedom", "Effingham",
@@ -155,6 +153,7 @@ You must determine:
 5. rerankedQuestion: a cleaned, retrieval-optimized version of the user's question
 6. scopeHint: "local", "statewide", "mixed", or null
 7. requiresComposedAnswer: true or false
+8. clarification: the single missing detail to ask about, or null
 
 IMPORTANT GUIDELINES:
 
@@ -178,6 +177,12 @@ IMPORTANT GUIDELINES:
     - understanding requires statewide process, law, or multi-entity context.
   When in doubt between "local" and "mixed", choose "mixed".
 
+• Clarification
+  - Only ask when the answer would differ materially depending on a town, a board, or a year the user has not given, and the user hints do not supply it.
+  - Set "clarification" to {"dimension": "town" | "board" | "year", "question": short question to the user, "options": 2-5 likely values}.
+  - Options are bare values: town names ("Conway"), board names ("Planning Board"), or four-digit years ("2024").
+  - Ask about one dimension only. Use null when the question can be answered as asked.
+
 • Do NOT assume that a town name means the answer should be purely local.
 • Do NOT collapse multi-factor questions into a single domain.
 • Do NOT answer the question; only classify and prepare it.
@@ -190,9 +195,28 @@ You MUST respond with valid JSON only, no other text. Use this exact format:
   "clarificationQuestions": ["question1", "question2"] (empty array if no clarification needed),
   "rerankedQuestion": "cleaned up question text",
   "scopeHint": "local" | "statewide" | "mixed" | null,
-  "requiresComposedAnswer": true | false
+  "requiresComposedAnswer": true | false,
+  "clarification": {"dimension": "town" | "board" | "year", "question": "...", "options": ["...", "..."]} | null
 }`;
 
+const CLARIFICATION_DIMENSIONS = ["town", "board", "year"];
+
+function parseRouterClarification(value: unknown): RouterClarification | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { dimension, question, options } = value as Record<string, unknown>;
+  if (typeof dimension !== "string" || !CLARIFICATION_DIMENSIONS.includes(dimension)) return undefined;
+  if (typeof question !== "string" || !question.trim() || !Array.isArray(options)) return undefined;
+
+  return {
+    dimension: dimension as RouterClarification["dimension"],
+    question: question.trim(),
+    options: options
+      .filter((o): o is string | number => typeof o === "string" || typeof o === "number")
+      .map((o) => String(o).trim())
+      .filter(Boolean),
+  };
+}
+
 export async function routeQuestion(
   question: string,
   recentHistory: ChatHistoryMessage[],
@@ -232,13 +256,12 @@ Remember: Respond with valid JSON only, no other text.`;
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: ROUTER_SYSTEM_PROMPT,
-        temperature: 0.2,
-      },
+      prompt: userPrompt,
+      systemInstruction: ROUTER_SYSTEM_PROMPT,
+      temperature: 0.2,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
@@ -255,7 +278,6 @@ Remember: Respond with valid JSON only, no other text.`;
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -264,7 +286,7 @@ Remember: Respond with valid JSON only, no other text.`;
           stage: "router",
           model: modelName,
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
@@ -294,6 +316,7 @@ Remember: Respond with valid JSON only, no other text.`;
         requiresComposedAnswer: Boolean(parsed.requiresComposedAnswer),
         answerType: detectAnswerType(question, complexity, domains),
         renderStyle: detectRenderStyle(question),
+        clarification: parseRouterClarification(parsed.clarification),
       };
     } catch (parseError) {
       logLlmError({
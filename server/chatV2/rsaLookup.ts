@@ -0,0 +1,129 @@
+/**
+ * Direct RSA section lookup for the V3 pipeline.
+ *
+ * File Search can return a neighbouring section when asked about RSA 91-A:2.
+ * Sections cited in the question are instead read from the statute corpus
+ * and given to synthesis as state chunks carrying their exact text. After
+ * synthesis, the sections the answer cites are checked against the corpus so
+ * the audit can flag numbers that do not exist or were never supplied.
+ */
+
+import { storage } from "../storage";
+import { logDebug, logWarn } from "../utils/logger";
+import { chatConfigV3 } from "./chatConfigV3";
+import { parseRsaReferences } from "../services/rsaCorpus";
+import type { RsaSection } from "@shared/schema";
+import type { LabeledChunk, PipelineLogContext, RsaEvidence } from "./types";
+
+function formatStatuteContent(section: RsaSection): string {
+  const heading = section.heading ? `RSA ${section.citation} ${section.heading}.` : `RSA ${section.citation}`;
+  const text = `${heading}\n${section.body}`;
+  const maxChars = chatConfigV3.RSA_SECTION_MAX_CHARS;
+  return text.length > maxChars ? `${text.slice(0, maxChars)} [section continues]` : text;
+}
+
+function toStatuteChunk(section: RsaSection, label: string): LabeledChunk {
+  return {
+    label,
+    title: section.heading ? `RSA ${section.citation} – ${section.heading}` : `RSA ${section.citation}`,
+    content: formatStatuteContent(section),
+    lane: "state",
+    authority: "rsa",
+    rsaCitation: section.citation,
+    url: section.sourceUrl || undefined,
+  };
+}
+
+/**
+ * State chunks with the exact text of the given sections, in the order given.
+ * Labels continue the state lane numbering after `existingStateCount`.
+ * Citations not in the corpus are skipped; a failed lookup yields none.
+ */
+export async function lookupStatuteChunks(
+  citations: string[],
+  existingStateCount: number,
+  logContext?: PipelineLogContext
+): Promise<LabeledChunk[]> {
+  if (!chatConfigV3.ENABLE_RSA_LOOKUP || citations.length === 0) return [];
+
+  const wanted = citations.slice(0, chatConfigV3.MAX_RSA_SECTIONS);
+  try {
+    const sections = await storage.getRsaSectionsByCitations(wanted);
+    const ordered = wanted
+      .map((citation) => sections.find((s) => s.citation === citation))
+      .filter((s): s is RsaSection => !!s);
+
+    logDebug("rsa_sections_resolved", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "rsa_lookup",
+      requested: wanted,
+      found: ordered.map((s) => s.citation),
+    });
+
+    return ordered.map((section, idx) => toStatuteChunk(section, `[S${existingStateCount + idx + 1}]`));
+  } catch (error) {
+    logWarn("rsa_lookup_failed", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "rsa_lookup",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Check the sections an answer cites against the corpus. Returns null when
+ * the answer cites none, lookup is disabled, or the lookup fails, in which
+ * case the audit falls back to pattern matching.
+ */
+export async function buildRsaEvidence(
+  answerText: string,
+  stateChunks: LabeledChunk[],
+  logContext?: PipelineLogContext
+): Promise<RsaEvidence | null> {
+  if (!chatConfigV3.ENABLE_RSA_LOOKUP) return null;
+
+  const references = parseRsaReferences(answerText);
+  if (references.length === 0) return null;
+
+  const chapters = Array.from(new Set(references.map((r) => r.chapter)));
+  const citations = references.map((r) => r.citation).filter((c): c is string => !!c);
+
+  try {
+    const [ingestedChapters, sections] = await Promise.all([
+      storage.getIngestedRsaChapters(chapters),
+      storage.getRsaSectionsByCitations(citations),
+    ]);
+
+    return {
+      ingestedChapters,
+      existingCitations: sections.map((s) => s.citation),
+      suppliedCitations: stateChunks
+        .map((c) => c.rsaCitation)
+        .filter((c): c is string => !!c),
+    };
+  } catch (error) {
+    logWarn("rsa_evidence_lookup_failed", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "rsa_lookup",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Sections the answer cites that exist in the corpus but were not supplied,
+ * so a repair pass can be given their text.
+ */
+export function findUnsuppliedCitations(answerText: string, evidence: RsaEvidence | null): string[] {
+  if (!evidence) return [];
+  return parseRsaReferences(answerText)
+    .map((r) => r.citation)
+    .filter((c): c is string =>
+      !!c && evidence.existingCitations.includes(c) && !evidence.suppliedCitations.includes(c)
+    );
+}
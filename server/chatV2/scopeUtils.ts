@@ -58,6 +58,17 @@ export function noDocsScopeNotice(): ChatNotice {
   };
 }
 
+export function noMinutesInRangeNotice(town: string, period: string): ChatNotice {
+  return {
+    kind: "scope",
+    code: NOTICE_CODES.NO_MINUTES_IN_RANGE,
+    label: `No minutes: ${period}`,
+    message: `No meeting minutes from the Town of ${town} dated ${period} are available. ` +
+      "This response may rely on older records or general New Hampshire practice.",
+    severity: "warning",
+  };
+}
+
 export function mixedScopeNotice(town: string | null): ChatNotice {
   const label = town ? `Mixed: ${town} + NH law` : "Mixed sources";
   const message = town
@@ -105,6 +116,24 @@ export function highDemandNotice(): ChatNotice {
   };
 }
 
+/**
+ * Notice for an answer produced with latency fallbacks; steps describe what
+ * was skipped or shortened.
+ */
+export function degradedAnswerNotice(steps: string[]): ChatNotice {
+  const stepList = steps.length > 1
+    ? `${steps.slice(0, -1).join(", ")} and ${steps[steps.length - 1]}`
+    : steps[0];
+  return {
+    kind: "system",
+    code: NOTICE_CODES.DEGRADED_ANSWER,
+    label: "Shortened answer",
+    message: `To answer in time, this response ${stepList}. ` +
+      "Asking again may give a more complete answer.",
+    severity: "info",
+  };
+}
+
 export function processingErrorNotice(): ChatNotice {
   return {
     kind: "error",
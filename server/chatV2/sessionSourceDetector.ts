@@ -167,18 +167,37 @@ export function getMostRecentSessionSource(
   )[0];
 }
 
+function formatSessionSource(source: SessionSource, maxLength: number): string {
+  const prefix = source.title 
+    ? `=== USER-PROVIDED ${source.type.toUpperCase()}: ${source.title} ===\n`
+    : `=== USER-PROVIDED ${source.type.toUpperCase()} ===\n`;
+  
+  return prefix + source.text.slice(0, maxLength - prefix.length);
+}
+
+/**
+ * Context text for the most recent source followed by any pinned ones,
+ * newest first, until `maxLength` is used up.
+ */
 export function getSessionSourceTextForContext(
   sessionSources: SessionSource[],
   maxLength: number = 15000
 ): string {
-  const mostRecent = getMostRecentSessionSource(sessionSources);
+  const mostRecent = getMostRecentSessionSource([...sessionSources]);
   if (!mostRecent) return "";
   
-  const prefix = mostRecent.title 
-    ? `=== USER-PROVIDED ${mostRecent.type.toUpperCase()}: ${mostRecent.title} ===\n`
-    : `=== USER-PROVIDED ${mostRecent.type.toUpperCase()} ===\n`;
-  
-  const truncatedText = mostRecent.text.slice(0, maxLength - prefix.length);
+  const pinned = sessionSources
+    .filter((s) => s.pinned && s.id !== mostRecent.id)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  
+  const sections: string[] = [];
+  let remaining = maxLength;
+  for (const source of [mostRecent, ...pinned]) {
+    if (sections.length > 0 && remaining < 500) break;
+    const section = formatSessionSource(source, remaining);
+    sections.push(section);
+    remaining -= section.length + 2;
+  }
   
-  return prefix + truncatedText;
+  return sections.join("\n\n");
 }
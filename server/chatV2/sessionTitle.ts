@@ -0,0 +1,138 @@
+/**
+ * Session titles from the first exchange.
+ *
+ * The sidebar title starts as the first question, truncated, so the session
+ * is recognizable immediately. A short LLM-written title based on the question
+ * and its answer then replaces it in the background. A title the user typed
+ * is never overwritten.
+ */
+
+import { storage } from "../storage";
+import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
+import { getModelForStage } from "../llm/modelRegistry";
+import { generateContent } from "../llm/providers";
+import type { PipelineLogContext } from "./types";
+
+const FALLBACK_TITLE_CHARS = 60;
+const GENERATED_TITLE_MAX_CHARS = 70;
+
+const SESSION_TITLE_SYSTEM_PROMPT = `You write titles for conversations in OpenCouncil, a civic Q&A assistant for New Hampshire towns.
+
+Given the user's first question and the assistant's answer, write a title of 3 to 8 words that names the topic, e.g. "Conway Transfer Station Hours" or "ADU Rules Under RSA 674:72".
+
+RULES:
+• Include the town when the question is about a specific town.
+• No quotes, no trailing punctuation, no emoji.
+• Respond with the title only.`;
+
+export function fallbackSessionTitle(question: string): string {
+  const text = question.trim().replace(/\s+/g, " ");
+  return text.slice(0, FALLBACK_TITLE_CHARS) + (text.length > FALLBACK_TITLE_CHARS ? "..." : "");
+}
+
+function cleanGeneratedTitle(text: string): string | null {
+  const title = text
+    .split("\n")[0]
+    .replace(/^["'“”*#\s]+|["'“”*.\s]+$/g, "")
+    .replace(/^title:\s*/i, "")
+    .trim();
+  if (title.length < 3 || title.length > GENERATED_TITLE_MAX_CHARS) return null;
+  return title;
+}
+
+export async function generateSessionTitle(params: {
+  question: string;
+  answerText: string;
+  logContext?: PipelineLogContext;
+}): Promise<string | null> {
+  const { question, answerText, logContext } = params;
+  const { model: modelName } = getModelForStage("sessionTitle");
+
+  const userPrompt = `USER QUESTION: "${question.slice(0, 500)}"
+
+ASSISTANT'S ANSWER (start):
+${answerText.slice(0, 600)}${answerText.length > 600 ? "..." : ""}
+
+Title:`;
+
+  logLlmRequest({
+    requestId: logContext?.requestId,
+    sessionId: logContext?.sessionId,
+    stage: "generateSessionTitle",
+    model: modelName,
+    systemPrompt: SESSION_TITLE_SYSTEM_PROMPT,
+    userPrompt,
+    temperature: 0.2,
+  });
+
+  const startTime = Date.now();
+
+  try {
+    const response = await generateContent({
+      model: modelName,
+      prompt: userPrompt,
+      systemInstruction: SESSION_TITLE_SYSTEM_PROMPT,
+      temperature: 0.2,
+    });
+
+    const responseText = response.text || "";
+
+    logLlmResponse({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "generateSessionTitle",
+      model: modelName,
+      responseText,
+      durationMs: Date.now() - startTime,
+    });
+
+    if (logContext?.actor) {
+      await logLLMCall(
+        {
+          actor: logContext.actor,
+          sessionId: logContext.sessionId,
+          requestId: logContext.requestId,
+          stage: "sessionTitle",
+          model: modelName,
+        },
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
+      );
+    }
+
+    return cleanGeneratedTitle(responseText);
+  } catch (error) {
+    logLlmError({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "generateSessionTitle",
+      model: modelName,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    return null;
+  }
+}
+
+/**
+ * Title a session after its first answer. The truncated question is stored
+ * before returning; the generated title follows without holding up the
+ * response.
+ */
+export async function titleSessionFromFirstExchange(params: {
+  sessionId: string;
+  isFirstExchange: boolean;
+  question: string;
+  answerText: string;
+  logContext?: PipelineLogContext;
+}): Promise<void> {
+  const { sessionId, isFirstExchange, question, answerText, logContext } = params;
+  if (!isFirstExchange || !question.trim()) return;
+
+  await storage.setAutoSessionTitle(sessionId, fallbackSessionTitle(question));
+
+  generateSessionTitle({ question, answerText, logContext })
+    .then((title) => (title ? storage.setAutoSessionTitle(sessionId, title) : undefined))
+    .catch((error) => {
+      console.error("Failed to generate session title:", error);
+    });
+}
@@ -14,6 +14,7 @@ import {
 import type { ChatNotice } from "@shared/chatNotices";
 import { augmentSystemPromptWithComposedAnswer, type ComposedAnswerFlags } from "./composedFirstAnswer";
 import { getModelForStage, type ModelContext } from "../llm/modelRegistry";
+import { generateContent } from "../llm/providers";
 import { chatConfig } from "./chatConfig";
 import { 
   twoLaneRetrieve,
@@ -506,13 +507,11 @@ async function generateRSAGeneralKnowledgeAnswer(
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: question }] }],
-      config: {
-        systemInstruction: RSA_GENERAL_KNOWLEDGE_SYSTEM_PROMPT,
-        temperature: 0.3,
-      },
+      prompt: question,
+      systemInstruction: RSA_GENERAL_KNOWLEDGE_SYSTEM_PROMPT,
+      temperature: 0.3,
     });
 
     const answerText = response.text || "";
@@ -529,7 +528,6 @@ async function generateRSAGeneralKnowledgeAnswer(
 
     // Log usage for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -539,7 +537,7 @@ async function generateRSAGeneralKnowledgeAnswer(
           model: modelName,
           metadata: { fallback: "rsa" },
         },
-        { text: answerText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: answerText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
@@ -12,14 +12,12 @@
  */
 
 import type { SituationContext } from "@shared/schema";
-import { GoogleGenAI } from "@google/genai";
 import { getModelForStage } from "../llm/modelRegistry";
+import { generateContent } from "../llm/providers";
 import { logDebug, logError } from "../utils/logger";
 import { chatConfig } from "./chatConfig";
 import type { PipelineLogContext } from "./types";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
 export interface SituationExtractionResult {
   shouldUpdate: boolean;
   newContext: SituationContext | null;
@@ -301,14 +299,13 @@ ${hasUserArtifact ? "\n(User attached a document)" : ""}
 
 Extract the situation context:`;
 
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: systemPrompt,
-        temperature: 0.1,
-        maxOutputTokens: 500,
-      },
+      prompt: userPrompt,
+      systemInstruction: systemPrompt,
+      temperature: 0.1,
+      maxOutputTokens: 500,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
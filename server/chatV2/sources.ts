@@ -1,5 +1,21 @@
 import { storage } from "../storage";
-import type { SourceCitation } from "./types";
+import { buildChunkSnippet } from "./citationMarkers";
+import type { CitedChunk, SourceCitation } from "./types";
+import type { DocumentVersion } from "@shared/schema";
+
+const LOCAL_VERSION_PREFIX = "documentVersions/";
+
+/**
+ * Document names come from File Search ("fileSearchStores/.../documents/...")
+ * or, for versions never uploaded there, from the local retrieval index
+ * ("documentVersions/<id>").
+ */
+async function resolveDocumentVersion(docName: string): Promise<DocumentVersion | undefined> {
+  if (docName.startsWith(LOCAL_VERSION_PREFIX)) {
+    return storage.getDocumentVersionById(docName.slice(LOCAL_VERSION_PREFIX.length));
+  }
+  return storage.getDocumentVersionByFileSearchName(docName);
+}
 
 export async function mapFileSearchDocumentsToCitations(
   documentNames: string[]
@@ -14,7 +30,7 @@ export async function mapFileSearchDocumentsToCitations(
 
   for (const docName of uniqueNames) {
     try {
-      const docVersion = await storage.getDocumentVersionByFileSearchName(docName);
+      const docVersion = await resolveDocumentVersion(docName);
 
       if (docVersion) {
         if (seenIds.has(docVersion.id)) continue;
@@ -22,19 +38,15 @@ export async function mapFileSearchDocumentsToCitations(
 
         const logicalDoc = await storage.getLogicalDocumentById(docVersion.documentId);
 
-        const meetingDateStr = docVersion.meetingDate 
-          ? (docVersion.meetingDate instanceof Date 
-              ? docVersion.meetingDate.toISOString().split('T')[0] 
-              : String(docVersion.meetingDate))
-          : undefined;
-          
+        const meetingDateStr = formatMeetingDate(docVersion.meetingDate);
+
         citations.push({
           id: docVersion.id,
           title: logicalDoc?.canonicalTitle || extractTitleFromName(docName),
           town: logicalDoc?.town || undefined,
           year: docVersion.year || undefined,
           category: logicalDoc?.category || undefined,
-          url: `/admin/documents/${docVersion.documentId}/view`,
+          url: buildDocumentViewerUrl(docVersion.id),
           meetingDate: meetingDateStr,
           board: logicalDoc?.board || undefined,
         });
@@ -68,6 +80,93 @@ export async function mapFileSearchDocumentsToCitations(
   return citations;
 }
 
+/**
+ * Map numbered inline citations to sources carrying the marker, the cited
+ * snippet and the backing document version.
+ */
+export async function mapCitedChunksToCitations(
+  citedChunks: CitedChunk[]
+): Promise<SourceCitation[]> {
+  const citations: SourceCitation[] = [];
+
+  for (const { marker, chunk } of citedChunks) {
+    const docName = chunk.documentNames?.[0];
+    const snippet = buildChunkSnippet(chunk.content);
+
+    const base: SourceCitation = {
+      id: docName || chunk.label,
+      title: chunk.title,
+      marker,
+      snippet,
+      url: chunk.url,
+    };
+
+    if (!docName) {
+      citations.push(base);
+      continue;
+    }
+
+    try {
+      const docVersion = await resolveDocumentVersion(docName);
+      if (!docVersion) {
+        citations.push({ ...base, title: chunk.title || extractTitleFromName(docName) });
+        continue;
+      }
+
+      const logicalDoc = await storage.getLogicalDocumentById(docVersion.documentId);
+
+      citations.push({
+        ...base,
+        id: docVersion.id,
+        documentVersionId: docVersion.id,
+        title: logicalDoc?.canonicalTitle || chunk.title,
+        town: logicalDoc?.town || undefined,
+        year: docVersion.year || undefined,
+        category: logicalDoc?.category || undefined,
+        url: buildDocumentViewerUrl(docVersion.id, snippet),
+        meetingDate: formatMeetingDate(docVersion.meetingDate),
+        board: logicalDoc?.board || undefined,
+      });
+    } catch (error) {
+      console.error(`Error mapping cited chunk ${chunk.label}:`, error);
+      citations.push(base);
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Numbered chunk citations first, then any other retrieved documents the
+ * answer did not cite inline.
+ */
+export async function mapAnswerSources(
+  citedChunks: CitedChunk[],
+  documentNames: string[]
+): Promise<SourceCitation[]> {
+  const cited = await mapCitedChunksToCitations(citedChunks);
+  const documents = await mapFileSearchDocumentsToCitations(documentNames);
+  const citedIds = new Set(cited.map(c => c.id));
+
+  return [...cited, ...documents.filter(d => !citedIds.has(d.id))];
+}
+
+/**
+ * Link to the end-user document viewer. The snippet lets the viewer jump to
+ * and highlight the cited passage.
+ */
+function buildDocumentViewerUrl(documentVersionId: string, snippet?: string): string {
+  const base = `/documents/${documentVersionId}`;
+  return snippet ? `${base}?q=${encodeURIComponent(snippet.slice(0, 200))}` : base;
+}
+
+function formatMeetingDate(meetingDate: Date | string | null): string | undefined {
+  if (!meetingDate) return undefined;
+  return meetingDate instanceof Date
+    ? meetingDate.toISOString().split('T')[0]
+    : String(meetingDate);
+}
+
 function extractTitleFromName(docName: string): string {
   if (docName.includes("/documents/")) {
     const parts = docName.split("/");
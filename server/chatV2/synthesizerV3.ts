@@ -8,10 +8,11 @@
  * 4. Anti-ChatGPT style: no headings, no filler, no template language
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { getModelForStage } from "../llm/modelRegistry";
+import { generateContent, generateContentStream, type LLMGenerateRequest } from "../llm/providers";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { logLLMCall } from "../llm/callLLMWithLogging";
+import { resolvePrompt, promptLogMetadata } from "../llm/promptRegistry";
 import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
 import { logDebug } from "../utils/logger";
 import { getProsePolicy, type ProsePolicy } from "./answerPolicy";
@@ -26,13 +27,20 @@ import type {
   RenderStyle,
 } from "./types";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
 export interface SynthesisV3Options extends SynthesisInputV3 {
   logContext?: PipelineLogContext;
   isRepairAttempt?: boolean;
   answerType?: AnswerType;
   renderStyle?: RenderStyle;
+  /**
+   * Write the answer with the degraded (faster) model, when too little of
+   * the latency budget is left for the synthesis model
+   */
+  degraded?: boolean;
+  /**
+   * When provided, synthesis streams from the model and forwards each text delta.
+   */
+  onToken?: (text: string) => void;
 }
 
 export interface SynthesisV3Result {
@@ -54,20 +62,28 @@ export async function synthesizeV3(options: SynthesisV3Options): Promise<Synthes
     isRepairAttempt,
     answerType = "QUICK_PROCESS",
     renderStyle = "PROSE",
+    degraded,
+    onToken,
+    comparisonTowns,
   } = options;
   
-  const { model: modelName } = getModelForStage('complexSynthesis');
+  const { model: modelName } = getModelForStage(degraded ? 'degraded' : 'complexSynthesis');
   const startTime = Date.now();
 
   const prosePolicy = getProsePolicy(answerType, renderStyle);
-  const systemPrompt = buildProseSystemPrompt(recordStrength, issueMap, answerType, renderStyle, prosePolicy, isRepairAttempt, stateChunks.length);
+  const systemPrompt = await resolvePrompt("synthesis", {
+    sessionId: logContext?.sessionId,
+    variables: buildProsePromptVariables(recordStrength, issueMap, answerType, renderStyle, prosePolicy, isRepairAttempt, stateChunks.length, comparisonTowns),
+    record: logContext?.promptVersions,
+  });
   const userPrompt = buildSynthesisUserPrompt(
     userMessage, 
     issueMap, 
     sessionSourceText, 
     localChunks, 
     stateChunks,
-    history
+    history,
+    comparisonTowns
   );
 
   // Lower temperature for more consistent, concise output
@@ -78,7 +94,7 @@ export async function synthesizeV3(options: SynthesisV3Options): Promise<Synthes
     sessionId: logContext?.sessionId,
     stage: "synthesizerV3",
     model: modelName,
-    systemPrompt: systemPrompt.slice(0, 500),
+    systemPrompt: systemPrompt.text.slice(0, 500),
     userPrompt: userPrompt.slice(0, 500),
     temperature: synthesisTemperature,
     extra: {
@@ -86,19 +102,24 @@ export async function synthesizeV3(options: SynthesisV3Options): Promise<Synthes
       localChunkCount: localChunks.length,
       stateChunkCount: stateChunks.length,
       isRepairAttempt,
+      degraded,
+      comparisonTowns,
+      promptVersion: systemPrompt.version,
     },
   });
 
   try {
-    const response = await ai.models.generateContent({
+    const request: LLMGenerateRequest = {
       model: modelName,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: systemPrompt,
-        temperature: synthesisTemperature,
-        maxOutputTokens: 2500, // Reduced to encourage conciseness
-      },
-    });
+      prompt: userPrompt,
+      systemInstruction: systemPrompt.text,
+      temperature: synthesisTemperature,
+      maxOutputTokens: 2500, // Reduced to encourage conciseness
+    };
+
+    const response = onToken
+      ? await generateContentStream(request, onToken)
+      : await generateContent(request);
 
     const responseText = response.text || "Unable to synthesize an answer from the available sources.";
     const durationMs = Date.now() - startTime;
@@ -113,7 +134,6 @@ export async function synthesizeV3(options: SynthesisV3Options): Promise<Synthes
     });
 
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -121,8 +141,9 @@ export async function synthesizeV3(options: SynthesisV3Options): Promise<Synthes
           requestId: logContext.requestId,
           stage: "synthesizerV3" as any,
           model: modelName,
+          metadata: promptLogMetadata(systemPrompt),
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
@@ -156,18 +177,24 @@ export async function synthesizeV3(options: SynthesisV3Options): Promise<Synthes
   }
 }
 
-function buildProseSystemPrompt(
+/**
+ * Values for the {{placeholders}} of the synthesis system prompt.
+ */
+function buildProsePromptVariables(
   recordStrength: RecordStrength, 
   issueMap: IssueMap,
   answerType: AnswerType,
   renderStyle: RenderStyle,
   prosePolicy: ProsePolicy,
   isRepairAttempt?: boolean,
-  stateChunkCount?: number
-): string {
+  stateChunkCount?: number,
+  comparisonTowns?: string[]
+): Record<string, string> {
   const tierInstructions = getTierInstructions(recordStrength);
   const hasStateChunks = (stateChunkCount || 0) > 0;
-  const answerTemplate = getAnswerTypeTemplate(answerType, renderStyle, prosePolicy, hasStateChunks);
+  const answerTemplate = comparisonTowns && comparisonTowns.length > 1
+    ? getComparisonTemplate(comparisonTowns, renderStyle, prosePolicy)
+    : getAnswerTypeTemplate(answerType, renderStyle, prosePolicy, hasStateChunks);
   
   const repairNote = isRepairAttempt 
     ? `\n\n**REPAIR ATTEMPT**: Previous answer violated prose rules. You MUST:
@@ -177,54 +204,22 @@ function buildProseSystemPrompt(
 - Stay within ${prosePolicy.wordMin}-${prosePolicy.wordMax} words`
     : '';
 
-  return `You are a town administrator explaining municipal governance to a resident in an email. Write calmly, neutrally, with short sentences.
-
-## WORD COUNT (MANDATORY - COUNT CAREFULLY)
-- Target: ${prosePolicy.wordMin}-${prosePolicy.wordMax} words (HARD LIMITS)
-- Paragraphs: ${prosePolicy.paragraphs.min}-${prosePolicy.paragraphs.max}
-${!prosePolicy.allowHeadings ? '- NO section headings allowed' : ''}
-${!prosePolicy.allowBullets ? '- NO bullet lists allowed' : ''}
-
-## PROSE-FIRST RENDERING
-${answerTemplate}
-
-## ANTI-CHATGPT STYLE CONSTRAINTS (MANDATORY)
-${renderStyle === "PROSE" ? "- Do NOT use section headings, bold headings, or markdown headers" : ""}
-- Do NOT use phrases like: "Bottom line", "What we know", "Unknowns that matter", "What changes"
-- Do NOT use phrases like: "next steps", "you may wish to", "consult counsel", "I recommend", "consider"
-- Do NOT use meta-language like: "based on the provided documents...", "the sources indicate..."
-- Do NOT start sentences with: "It's important to note...", "It should be noted...", "Worth mentioning..."
-- Prefer plain statements with citations at sentence ends: "...as outlined in the ordinance. [L1]"
-- Write like you're explaining this to a neighbor, not generating a report
-
-## CIVIC TONE
-- Calm, neutral, professional
-- Short sentences preferred
-- No legalese unless quoting a source
-- Be direct and helpful without being preachy
-
-## CITATION RULES
-- Cite facts/legal claims inline at sentence end: "...requires a public hearing. [S1]"
-- [Lx] for local documents (minutes, ordinances, etc.)
-- [Sx] for state law (RSA, NHMA guidance)
-- [USER] only when referencing user-provided text
-- If only local sources exist, answer using local only
-- If state sources are weak/irrelevant, do not mention state law
-${hasStateChunks ? '- Include at least 1 state citation [Sx] if relevant to the legal framework' : ''}
-
-## TIER INSTRUCTIONS (${recordStrength.tier})
-${tierInstructions}
-
-## HARD RULES
-1. NEVER mention specific RSA numbers unless cited with [Sx]
-2. Do NOT fabricate procedures or requirements
-3. Do NOT substitute related cases or prior conversation topics
-4. Keep answer grounded in retrieved sources only
-${repairNote}
-
-## CONTEXT
-${issueMap.situationTitle ? `Situation: "${issueMap.situationTitle}"` : 'General question'}
-${issueMap.legalTopics.length > 0 ? `Topics: ${issueMap.legalTopics.join(', ')}` : ''}`;
+  return {
+    wordMin: String(prosePolicy.wordMin),
+    wordMax: String(prosePolicy.wordMax),
+    paragraphsMin: String(prosePolicy.paragraphs.min),
+    paragraphsMax: String(prosePolicy.paragraphs.max),
+    headingsRule: !prosePolicy.allowHeadings ? '- NO section headings allowed' : '',
+    bulletsRule: !prosePolicy.allowBullets ? '- NO bullet lists allowed' : '',
+    answerTemplate,
+    proseHeadingsRule: renderStyle === "PROSE" ? "- Do NOT use section headings, bold headings, or markdown headers" : "",
+    stateCitationRule: hasStateChunks ? '- Include at least 1 state citation [Sx] if relevant to the legal framework' : '',
+    tier: recordStrength.tier,
+    tierInstructions,
+    repairNote,
+    situationLine: issueMap.situationTitle ? `Situation: "${issueMap.situationTitle}"` : 'General question',
+    topicsLine: issueMap.legalTopics.length > 0 ? `Topics: ${issueMap.legalTopics.join(', ')}` : '',
+  };
 }
 
 function getAnswerTypeTemplate(answerType: AnswerType, renderStyle: RenderStyle, prosePolicy: ProsePolicy, hasStateChunks: boolean): string {
@@ -263,6 +258,21 @@ Target ${prosePolicy.wordMin}-${prosePolicy.wordMax} words.`;
   }
 }
 
+function getComparisonTemplate(towns: string[], renderStyle: RenderStyle, prosePolicy: ProsePolicy): string {
+  const wordMax = prosePolicy.wordMax + 80 * (towns.length - 1);
+  const layout = renderStyle === "LIST"
+    ? `- One list item per town, in this order: ${towns.join(", ")}`
+    : `- One short paragraph per town, in this order: ${towns.join(", ")}. Start each with the town name and a colon ("${towns[0]}: ...")`;
+
+  return `COMPARISON answer (${prosePolicy.wordMin}-${wordMax} words):
+- Open with one sentence framing what is being compared
+${layout}
+- Close with 1-2 sentences on the key similarities and differences
+- Cite each town's claims ONLY with [Lx] labels listed under that town
+- State law [Sx] applies to every town; mention it once, not per town
+- If a town has no documents, write "No documents for <town> were found in the archive." in its place and do not guess its rules`;
+}
+
 function getTierInstructions(recordStrength: RecordStrength): string {
   switch (recordStrength.tier) {
     case 'A':
@@ -294,7 +304,8 @@ function buildSynthesisUserPrompt(
   sessionSourceText: string | undefined,
   localChunks: LabeledChunk[],
   stateChunks: LabeledChunk[],
-  history: ChatHistoryMessage[]
+  history: ChatHistoryMessage[],
+  comparisonTowns?: string[]
 ): string {
   const parts: string[] = [];
 
@@ -311,7 +322,18 @@ function buildSynthesisUserPrompt(
     parts.push(`=== USER-PROVIDED TEXT [USER] ===\n${sessionSourceText.slice(0, 12000)}\n`);
   }
 
-  if (localChunks.length > 0) {
+  if (comparisonTowns && comparisonTowns.length > 1) {
+    for (const town of comparisonTowns) {
+      const townChunks = localChunks.filter(c => c.town === town);
+      parts.push(`=== LOCAL DOCUMENTS: ${town.toUpperCase()} (cite as [Lx]) ===`);
+      if (townChunks.length === 0) {
+        parts.push(`No documents for ${town} were found in the archive.\n`);
+      }
+      for (const chunk of townChunks) {
+        parts.push(`${chunk.label} ${chunk.title} — ${chunk.content.slice(0, 2000)}\n`);
+      }
+    }
+  } else if (localChunks.length > 0) {
     parts.push('=== LOCAL DOCUMENTS (cite as [L1], [L2], etc.) ===');
     for (const chunk of localChunks) {
       // Citeable format: [L1] Title — excerpt
@@ -319,14 +341,25 @@ function buildSynthesisUserPrompt(
     }
   }
 
-  if (stateChunks.length > 0) {
+  const retrievedStateChunks = stateChunks.filter(c => !c.rsaCitation);
+  const statuteChunks = stateChunks.filter(c => c.rsaCitation);
+
+  if (retrievedStateChunks.length > 0) {
     parts.push('=== STATE DOCUMENTS (cite as [S1], [S2], etc. for legal framework) ===');
-    for (const chunk of stateChunks) {
+    for (const chunk of retrievedStateChunks) {
       // Citeable format: [S1] Title — excerpt
       parts.push(`${chunk.label} ${chunk.title} — ${chunk.content.slice(0, 2000)}\n`);
     }
   }
 
+  if (statuteChunks.length > 0) {
+    // Full text, already capped at RSA_SECTION_MAX_CHARS by the lookup
+    parts.push('=== RSA SECTIONS (official statute text; cite as [Sx] and rely on this text over other sources) ===');
+    for (const chunk of statuteChunks) {
+      parts.push(`${chunk.label} ${chunk.content}\n`);
+    }
+  }
+
   if (localChunks.length === 0 && stateChunks.length === 0 && !sessionSourceText) {
     parts.push('=== NO ARCHIVE DOCUMENTS FOUND ===\nNo relevant documents were retrieved from the archive. Provide a general response and note this limitation.');
   }
@@ -410,7 +443,7 @@ export function computeRecordStrength(
  * Robust detection of authoritative state sources
  * Checks both title AND content for RSA patterns and official sources
  */
-function detectAuthoritativeState(stateChunks: LabeledChunk[]): boolean {
+export function detectAuthoritativeState(stateChunks: Array<Pick<LabeledChunk, "title" | "content">>): boolean {
   const RSA_PATTERN = /\bRSA\s+\d+/i;
   const NHMA_PATTERN = /\b(NHMA|Municipal\s+Association)\b/i;
   const OFFICIAL_PATTERNS = [
@@ -0,0 +1,219 @@
+/**
+ * Time expression resolution for retrieval filters.
+ *
+ * Turns planner timeHints ("last month", "March 2024", "since 2022") into a
+ * concrete [start, end) date range relative to today. Retrieval uses the range
+ * to filter documentVersions.meetingDate / year; undated documents (RSAs,
+ * ordinances) are never excluded by it.
+ */
+
+import type { DateRange } from "./types";
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const MONTH_PATTERN = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+// Bare month names need full spelling and a preposition ("in March"), or to
+// be the whole hint; "may", "march" and "june" are ordinary words and names
+const BARE_MONTH_PATTERN = "(january|february|march|april|may|june|july|august|september|october|november|december)";
+
+// A number labelled as an ordinance, article or section is not a year
+const NOT_A_NUMBERED_ITEM = "(?<!(?:ordinance|article|section|chapter|warrant|case|no\\.?|number|#|§)\\s*)";
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, couple: 2, few: 3, several: 4,
+};
+
+const RECENCY_PATTERN = /\b(recent(?:ly)?|latest|most recent|last meeting|current(?:ly)?|right now|upcoming|this year|so far)\b/i;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+}
+
+function monthIndex(name: string): number {
+  const prefix = name.toLowerCase().slice(0, 3);
+  return MONTHS.findIndex((m) => m.startsWith(prefix));
+}
+
+function monthLabel(month: number, year: number): string {
+  return `${MONTHS[month].charAt(0).toUpperCase()}${MONTHS[month].slice(1)} ${year}`;
+}
+
+function isPlausibleYear(year: number, now: Date): boolean {
+  return year >= 1990 && year <= now.getFullYear() + 1;
+}
+
+function yearRange(fromYear: number, toYear: number, label: string): DateRange {
+  return { start: new Date(fromYear, 0, 1), end: new Date(toYear + 1, 0, 1), label };
+}
+
+function parseCount(value: string): number | null {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return COUNT_WORDS[value.toLowerCase()] ?? null;
+}
+
+/**
+ * Resolve one time expression. Returns null when the text names no usable
+ * period (e.g. "recently", which only implies a recency preference).
+ */
+export function resolveTimeExpression(text: string, now: Date = new Date()): DateRange | null {
+  const lower = text.toLowerCase().trim();
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+
+  if (/\btoday\b/.test(lower)) {
+    return { start: today, end: tomorrow, label: "today" };
+  }
+  if (/\byesterday\b/.test(lower)) {
+    return { start: addDays(today, -1), end: today, label: "yesterday" };
+  }
+
+  const rolling = lower.match(/\b(?:last|past|previous)\s+(\d+|a|one|two|three|four|five|six|seven|eight|nine|ten|twelve|couple(?:\s+of)?|few|several)\s+(day|week|month|year)s?\b/);
+  if (rolling) {
+    const count = parseCount(rolling[1].replace(/\s+of$/, "")) ?? 1;
+    const unit = rolling[2];
+    const start = unit === "day" ? addDays(today, -count)
+      : unit === "week" ? addDays(today, -7 * count)
+      : unit === "month" ? addMonths(today, -count)
+      : addMonths(today, -12 * count);
+    return { start, end: tomorrow, label: `past ${count} ${unit}${count === 1 ? "" : "s"}` };
+  }
+
+  const weekStart = addDays(today, -((today.getDay() + 6) % 7)); // Monday
+  if (/\bthis week\b/.test(lower)) {
+    return { start: weekStart, end: tomorrow, label: "this week" };
+  }
+  if (/\blast week\b/.test(lower)) {
+    return { start: addDays(weekStart, -7), end: weekStart, label: "last week" };
+  }
+
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  if (/\bthis month\b/.test(lower)) {
+    return { start: monthStart, end: tomorrow, label: "this month" };
+  }
+  if (/\blast month\b/.test(lower)) {
+    return { start: addMonths(monthStart, -1), end: monthStart, label: "last month" };
+  }
+
+  if (/\b(?:this|current)\s+year\b/.test(lower)) {
+    return { start: new Date(today.getFullYear(), 0, 1), end: tomorrow, label: String(today.getFullYear()) };
+  }
+  if (/\blast year\b/.test(lower)) {
+    return yearRange(today.getFullYear() - 1, today.getFullYear() - 1, String(today.getFullYear() - 1));
+  }
+
+  const isoDate = lower.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (isoDate) {
+    const day = new Date(parseInt(isoDate[1], 10), parseInt(isoDate[2], 10) - 1, parseInt(isoDate[3], 10));
+    return { start: day, end: addDays(day, 1), label: isoDate[0] };
+  }
+
+  const monthDayYear = lower.match(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`));
+  if (monthDayYear) {
+    const day = new Date(parseInt(monthDayYear[3], 10), monthIndex(monthDayYear[1]), parseInt(monthDayYear[2], 10));
+    return { start: day, end: addDays(day, 1), label: monthDayYear[0] };
+  }
+
+  const yearSpan = lower.match(new RegExp(`\\b(?:between\\s+)?${NOT_A_NUMBERED_ITEM}(\\d{4})\\s*(?:-|–|to|and|through)\\s*(\\d{4})\\b`));
+  if (yearSpan) {
+    const from = parseInt(yearSpan[1], 10);
+    const to = parseInt(yearSpan[2], 10);
+    if (isPlausibleYear(from, now) && isPlausibleYear(to, now) && from <= to) {
+      return yearRange(from, to, `${from}–${to}`);
+    }
+  }
+
+  const since = lower.match(new RegExp(`\\b(?:since|after)\\s+(?:${MONTH_PATTERN}\\s+)?(\\d{4})\\b`));
+  if (since) {
+    const year = parseInt(since[2], 10);
+    if (isPlausibleYear(year, now)) {
+      const month = since[1] ? monthIndex(since[1]) : 0;
+      return { start: new Date(year, month, 1), end: tomorrow, label: `since ${since[1] ? monthLabel(month, year) : year}` };
+    }
+  }
+
+  const monthYear = lower.match(new RegExp(`\\b${MONTH_PATTERN}\\.?,?\\s+(\\d{4})\\b`));
+  if (monthYear) {
+    const year = parseInt(monthYear[2], 10);
+    const month = monthIndex(monthYear[1]);
+    if (isPlausibleYear(year, now)) {
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1), label: monthLabel(month, year) };
+    }
+  }
+
+  // A bare month means the most recent one that has started
+  const bareMonth = lower.match(new RegExp(`^${BARE_MONTH_PATTERN}$`))
+    ?? lower.match(new RegExp(`\\b(?:in|during|from|last)\\s+${BARE_MONTH_PATTERN}\\b`));
+  if (bareMonth) {
+    const month = monthIndex(bareMonth[1]);
+    const year = month > today.getMonth() ? today.getFullYear() - 1 : today.getFullYear();
+    return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1), label: monthLabel(month, year) };
+  }
+
+  const bareYear = lower.match(new RegExp(`\\b${NOT_A_NUMBERED_ITEM}(19\\d{2}|20\\d{2})\\b`));
+  if (bareYear) {
+    const year = parseInt(bareYear[1], 10);
+    if (isPlausibleYear(year, now)) {
+      return yearRange(year, year, String(year));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Range covering every resolvable hint. Hints are tried first; the question
+ * itself is the fallback for plans without timeHints (heuristic planner).
+ */
+export function resolveTimeHints(timeHints: string[], question: string, now: Date = new Date()): DateRange | null {
+  const fromHints = timeHints
+    .map((hint) => resolveTimeExpression(hint, now))
+    .filter((range): range is DateRange => range !== null);
+  const ranges = fromHints.length > 0 ? fromHints : [resolveTimeExpression(question, now)].filter((r): r is DateRange => r !== null);
+
+  if (ranges.length === 0) return null;
+  if (ranges.length === 1) return ranges[0];
+
+  return {
+    start: new Date(Math.min(...ranges.map((r) => r.start.getTime()))),
+    end: new Date(Math.max(...ranges.map((r) => r.end.getTime()))),
+    label: ranges.map((r) => r.label).join(", "),
+  };
+}
+
+/**
+ * True when the question asks about current or latest activity without
+ * naming a period.
+ */
+export function detectRecencyPreference(text: string): boolean {
+  return RECENCY_PATTERN.test(text);
+}
+
+/**
+ * Whether a document's date falls in the range. Documents with neither a
+ * meeting date nor a year are treated as undated and always kept.
+ */
+export function isWithinDateRange(
+  doc: { meetingDate: Date | string | null; year: string | null },
+  range: DateRange
+): boolean {
+  if (doc.meetingDate) {
+    const time = new Date(doc.meetingDate).getTime();
+    return time >= range.start.getTime() && time < range.end.getTime();
+  }
+  const year = doc.year ? parseInt(doc.year, 10) : NaN;
+  if (isNaN(year)) return true;
+  return year >= range.start.getFullYear() && year <= new Date(range.end.getTime() - 1).getFullYear();
+}
@@ -0,0 +1,146 @@
+/**
+ * Multi-town comparison helpers.
+ *
+ * A question naming two or more known towns together ("how do Conway and
+ * Ossipee handle short-term rentals?") or asking to compare them, or a
+ * request with an explicit town list, runs the local lane once per town.
+ * Local chunks carry their town so the synthesizer can lay the answer out
+ * side by side.
+ */
+
+import { storage } from "../storage";
+import { logWarn } from "../utils/logger";
+import { chatConfigV3 } from "./chatConfigV3";
+
+const KNOWN_TOWNS_TTL_MS = 5 * 60 * 1000;
+
+let knownTownsCache: { towns: string[]; loadedAt: number } | null = null;
+
+/**
+ * Towns with indexed documents, cached briefly since every planned question
+ * checks them. A failed lookup disables detection rather than the request.
+ */
+export async function getKnownTowns(): Promise<string[]> {
+  if (knownTownsCache && Date.now() - knownTownsCache.loadedAt < KNOWN_TOWNS_TTL_MS) {
+    return knownTownsCache.towns;
+  }
+  try {
+    const towns = await storage.getAvailableTowns();
+    knownTownsCache = { towns, loadedAt: Date.now() };
+    return towns;
+  } catch (error) {
+    logWarn("known_towns_lookup_failed", {
+      stage: "town_comparison",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function townPattern(town: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(town)}\\b`, "i");
+}
+
+// Wording that asks for towns side by side
+const COMPARISON_INTENT = /\b(?:compar(?:e|es|ed|ing|ison)|vs\.?|versus|differ(?:s|ent|ence|ences)?|both|each of|side by side)(?:\s|$|[.,;:?!])/i;
+
+const TOWN_SLOT = "\u0000";
+
+// Two town mentions listed together: "Conway and Ossipee", "Conway's and
+// Ossipee's", "Conway, Madison or Tamworth"
+const LISTED_TOWNS = new RegExp(`${TOWN_SLOT}(?:['’]s)?(?:\\s*,\\s*(?:(?:and|or)\\s+)?|\\s+(?:and|or|&)\\s+)${TOWN_SLOT}`, "i");
+
+/**
+ * Whether the question asks about several towns at once, by comparison
+ * wording or by listing them together. Naming two towns apart is not
+ * enough: "Conway Road in Ossipee" or "I moved from Madison to Conway" ask
+ * about one place.
+ */
+export function hasComparisonIntent(text: string, knownTowns: string[] = []): boolean {
+  if (COMPARISON_INTENT.test(text)) return true;
+  let slotted = text;
+  knownTowns.forEach((town) => {
+    slotted = slotted.replace(new RegExp(`\\b${escapeRegExp(town)}\\b`, "gi"), TOWN_SLOT);
+  });
+  return LISTED_TOWNS.test(slotted);
+}
+
+/**
+ * Known towns named in the text, in order of first mention.
+ */
+export function detectTownsInText(text: string, knownTowns: string[]): string[] {
+  return knownTowns
+    .map((town) => ({ town, index: text.search(townPattern(town)) }))
+    .filter((m) => m.index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map((m) => m.town);
+}
+
+/**
+ * Towns to compare, or null for an ordinary single-town question. An explicit
+ * list wins over detection; its names are matched to known towns
+ * case-insensitively, and unknown names are kept so the answer can say no
+ * documents exist for them. Towns detected in the question only count when
+ * it lists them together or asks for a comparison.
+ */
+export function resolveComparisonTowns(options: {
+  question: string;
+  knownTowns: string[];
+  explicitTowns?: string[];
+}): string[] | null {
+  const { question, knownTowns, explicitTowns } = options;
+
+  const candidates = explicitTowns && explicitTowns.length > 0
+    ? explicitTowns.map((name) => {
+        const trimmed = name.trim();
+        return knownTowns.find((t) => t.toLowerCase() === trimmed.toLowerCase()) || trimmed;
+      })
+    : hasComparisonIntent(question, knownTowns) ? detectTownsInText(question, knownTowns) : [];
+
+  const towns: string[] = [];
+  candidates.forEach((town) => {
+    if (town && !towns.some((t) => t.toLowerCase() === town.toLowerCase())) towns.push(town);
+  });
+
+  return towns.length >= 2 ? towns.slice(0, chatConfigV3.MAX_COMPARISON_TOWNS) : null;
+}
+
+/**
+ * Point a planned local query at one town: drop the other compared towns'
+ * names and lead with this one.
+ */
+export function buildTownQuery(query: string, town: string, towns: string[]): string {
+  const SLOT = "\u0000";
+  let stripped = query;
+  towns.forEach((t) => {
+    stripped = stripped.replace(new RegExp(`\\b${escapeRegExp(t)}\\b`, "gi"), SLOT);
+  });
+  // "Conway and Ossipee" / "Conway, Ossipee or Madison" collapse to one slot
+  stripped = stripped
+    .replace(new RegExp(`${SLOT}(?:\\s*(?:,|and|or|vs\\.?|versus)\\s*${SLOT})+`, "gi"), SLOT)
+    .split(SLOT).join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${town} ${stripped}`.trim();
+}
+
+export function missingTownNote(town: string): string {
+  return `No documents for ${town} were found in the archive.`;
+}
+
+/**
+ * Append the "no documents" note for each town the answer does not already
+ * flag, so the gap is stated even when synthesis glosses over it.
+ */
+export function ensureMissingTownNotes(answerText: string, missingTowns: string[]): string {
+  const unflagged = missingTowns.filter((town) => {
+    const flagged = new RegExp(`no (?:relevant )?(?:documents|records)[^.]*\\b${escapeRegExp(town)}\\b`, "i");
+    return !flagged.test(answerText);
+  });
+  if (unflagged.length === 0) return answerText;
+  return `${answerText.trimEnd()}\n\n${unflagged.map(missingTownNote).join(" ")}`;
+}
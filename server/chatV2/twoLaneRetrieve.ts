@@ -1,9 +1,10 @@
 /**
  * Two-Lane Retrieval System
  * 
- * Implements parallel "local lane" + "statewide lane" retrieval using
- * the same Gemini File Search store. This reduces latency while ensuring
- * both town-specific and RSA/statewide context are retrieved upfront.
+ * Implements parallel "local lane" + "statewide lane" retrieval through the
+ * configured retrieval provider (Gemini File Search or the local Postgres
+ * index). This reduces latency while ensuring both town-specific and
+ * RSA/statewide context are retrieved upfront.
  * 
  * Key features:
  * - Parallel execution using Promise.all
@@ -12,21 +13,14 @@
  * - Configurable chunk caps per lane
  */
 
-import { GoogleGenAI } from "@google/genai";
-import { getOrCreateFileSearchStoreId } from "../gemini-store";
-import { getStoreIdForTown } from "../services/storeResolver";
-import { logDebug, logError } from "../utils/logger";
-import { logFileSearchRequest, logFileSearchResponse, extractGroundingInfoForLogging, extractRetrievalDocCount } from "../utils/fileSearchLogging";
-import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
-import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
-import { getModelForStage } from "../llm/modelRegistry";
+import { logDebug } from "../utils/logger";
+import { getRetrievalProvider } from "../retrieval";
 import { chatConfig } from "./chatConfig";
 import { computeSituationMatchScore } from "./situationExtractor";
-import type { PipelineLogContext, ScopeHint } from "./types";
+import { resolveTimeExpression, detectRecencyPreference } from "./timeRange";
+import type { DateRange, PipelineLogContext, ScopeHint } from "./types";
 import type { SituationContext, SessionSource } from "@shared/schema";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
 /**
  * Issue map extracted from query + situation + session sources
  * Used for topic alignment scoring and query expansion
@@ -146,6 +140,7 @@ export interface LaneChunk {
   lane: "local" | "state";
   score?: number;
   documentNames: string[];
+  town?: string; // set on local chunks in comparison mode
 }
 
 /**
@@ -158,6 +153,8 @@ export interface TwoLaneRetrieveOptions {
   domains?: string[];
   categories?: string[];
   preferRecent?: boolean;
+  /** Defaults to a period named in the user question, if any */
+  dateRange?: DateRange | null;
   boards?: string[];
   scopeHint?: ScopeHint;
   situationContext?: SituationContext | null;
@@ -598,101 +595,6 @@ function buildStateLaneQuery(question: string): string {
   return `${question} [Context: ${anchors}]. Focus on New Hampshire statewide laws, RSA statutes, NHMA guidance, and administrative rules. Ignore town-specific documents unless they explain statewide process.`;
 }
 
-/**
- * Execute a single lane retrieval using Gemini File Search
- */
-async function executeLaneRetrieval(options: {
-  query: string;
-  storeId: string;
-  lane: "local" | "state";
-  maxResults: number;
-  logContext?: PipelineLogContext;
-}): Promise<{
-  chunks: LaneChunk[];
-  documentNames: string[];
-  rawContent: string;
-}> {
-  const { query, storeId, lane, maxResults, logContext } = options;
-  const { model: retrievalModel } = getModelForStage('complexSummary');
-  
-  const systemPrompt = lane === "local"
-    ? `You are a document retrieval assistant. Extract relevant information from municipal documents. Focus on town-specific facts, decisions, votes, dates, amounts, and board actions. Be thorough and include specific details.`
-    : `You are a document retrieval assistant. Extract relevant information about New Hampshire state laws, RSA statutes, administrative rules, and statewide municipal guidance. Focus on legal authority, definitions, processes, and mechanisms.`;
-  
-  const startTime = Date.now();
-  
-  logFileSearchRequest({
-    requestId: logContext?.requestId,
-    sessionId: logContext?.sessionId,
-    stage: `twoLane_${lane}`,
-    storeId,
-    queryText: query,
-    filters: { lane },
-  });
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: retrievalModel,
-      contents: [{ role: "user", parts: [{ text: query }] }],
-      config: {
-        systemInstruction: systemPrompt,
-        tools: [
-          {
-            fileSearch: {
-              fileSearchStoreNames: [storeId],
-            },
-          } as any,
-        ],
-      },
-    });
-    
-    const rawContent = response.text || "";
-    const durationMs = Date.now() - startTime;
-    const retrievalResult = extractRetrievalDocCount(response);
-    const groundingInfo = extractGroundingInfoForLogging(response);
-    
-    logFileSearchResponse({
-      requestId: logContext?.requestId,
-      sessionId: logContext?.sessionId,
-      stage: `twoLane_${lane}`,
-      results: groundingInfo,
-      responseText: rawContent.slice(0, 500),
-      durationMs,
-    });
-    
-    const chunks: LaneChunk[] = retrievalResult.documentNames.slice(0, maxResults).map((docName, idx) => ({
-      docId: `${lane}_${idx}_${docName.slice(0, 20)}`,
-      title: docName,
-      content: rawContent,
-      lane,
-      score: 1 - (idx * 0.05),
-      documentNames: [docName],
-    }));
-    
-    return {
-      chunks,
-      documentNames: retrievalResult.documentNames,
-      rawContent,
-    };
-  } catch (error) {
-    if (isQuotaError(error)) {
-      throw new GeminiQuotaExceededError(
-        error instanceof Error ? error.message : "Gemini quota exceeded in two-lane retrieval"
-      );
-    }
-    
-    logLlmError({
-      requestId: logContext?.requestId,
-      sessionId: logContext?.sessionId,
-      stage: `twoLane_${lane}`,
-      model: retrievalModel,
-      error: error instanceof Error ? error : new Error(String(error)),
-    });
-    
-    return { chunks: [], documentNames: [], rawContent: "" };
-  }
-}
-
 /**
  * Deduplicate chunks by document name, preferring higher-scored chunks
  */
@@ -1003,24 +905,14 @@ export async function twoLaneRetrieve(
     return emptyResult;
   }
   
-  let storeId = await getStoreIdForTown(townPreference || "");
-  if (!storeId) {
-      storeId = await getOrCreateFileSearchStoreId();
-  }
-  console.log(`[DEBUG] Retrieval Store ID for ${townPreference}: ${storeId}`);
-  
-  if (!storeId) {
-    logError("two_lane_no_store", {
-      requestId: logContext?.requestId,
-      sessionId: logContext?.sessionId,
-      stage: "twoLaneRetrieve",
-      reason: "No file search store available",
-    });
-    
-    return { ...emptyResult, debug: { ...emptyResult.debug, durationMs: Date.now() - startTime } };
-  }
+  const provider = getRetrievalProvider();
   
   const issueMap = extractIssueMap(userQuestion, situationContext, sessionSources);
+
+  // Only the question itself sets the window; dates inside pasted documents
+  // or the situation describe the record, not what the user is asking about
+  const dateRange = (options.dateRange === undefined ? resolveTimeExpression(userQuestion) : options.dateRange) || undefined;
+  const recencyBoost = preferRecent ?? detectRecencyPreference(userQuestion);
   
   logDebug("two_lane_issue_map_extracted", {
     requestId: logContext?.requestId,
@@ -1060,21 +952,31 @@ export async function twoLaneRetrieve(
     legalSalience,
     stateK,
     dynamicStateCap,
+    dateRange: dateRange?.label,
+    preferRecent: recencyBoost,
   });
   
   const [localResult, stateResult] = await Promise.all([
-    executeLaneRetrieval({
+    provider.retrieveLane({
       query: localQuery,
-      storeId,
+      keywords: rerankedQuestion,
       lane: "local",
       maxResults: localK,
+      townPreference,
+      boards,
+      categories,
+      dateRange,
+      preferRecent: recencyBoost,
       logContext,
     }),
-    executeLaneRetrieval({
+    provider.retrieveLane({
       query: stateQuery,
-      storeId,
+      keywords: rerankedQuestion,
       lane: "state",
       maxResults: stateK,
+      townPreference,
+      dateRange,
+      preferRecent: recencyBoost,
       logContext,
     }),
   ]);
@@ -1122,18 +1024,24 @@ export async function twoLaneRetrieve(
     const secondPassStateK = chatConfig.SECOND_PASS_STATE_LANE_K || 6;
     
     const [secondLocalResult, secondStateResult] = await Promise.all([
-      executeLaneRetrieval({
+      provider.retrieveLane({
         query: secondPassLocalQuery,
-        storeId,
         lane: "local",
         maxResults: secondPassLocalK,
+        townPreference,
+        boards,
+        categories,
+        dateRange,
+        preferRecent: recencyBoost,
         logContext,
       }),
-      executeLaneRetrieval({
+      provider.retrieveLane({
         query: secondPassStateQuery,
-        storeId,
         lane: "state",
         maxResults: secondPassStateK,
+        townPreference,
+        dateRange,
+        preferRecent: recencyBoost,
         logContext,
       }),
     ]);
@@ -1233,6 +1141,8 @@ export async function twoLaneRetrieve(
 // =====================================================
 
 import { chatConfigV3 } from "./chatConfigV3";
+import { buildTownQuery } from "./townComparison";
+import { runWithinBudget } from "./latencyBudget";
 import type { RetrievalPlanV3, LabeledChunk, ChunkAuthority, IssueMap as IssueMapV3 } from "./types";
 
 /**
@@ -1249,6 +1159,8 @@ export interface V3RetrievalResult {
   authoritativeStatePresent: boolean;
   distinctStateDocs: number;
   distinctLocalDocs: number;
+  /** Lanes abandoned for running past the lane budget; their results are empty */
+  droppedLanes: Array<"local" | "state">;
   debug: {
     localQueriesUsed: string[];
     stateQueriesUsed: string[];
@@ -1272,16 +1184,16 @@ export async function twoLaneRetrieveWithPlan(
     townPreference?: string | null;
     situationContext?: SituationContext | null;
     logContext?: PipelineLogContext;
+    /** Time each lane may take, first batch and follow-up queries together */
+    laneBudgetMs?: number;
   }
 ): Promise<V3RetrievalResult> {
-  const { townPreference, situationContext, logContext } = options;
+  const { townPreference, situationContext, logContext, laneBudgetMs = Infinity } = options;
   const startTime = Date.now();
+  const laneDeadline = startTime + laneBudgetMs;
+  const droppedLanes: Array<"local" | "state"> = [];
 
-  let storeId = await getStoreIdForTown(townPreference || "");
-  if (!storeId) {
-      storeId = await getOrCreateFileSearchStoreId();
-  }
-  console.log(`[DEBUG] Retrieval Store ID for ${townPreference}: ${storeId}`);
+  const provider = getRetrievalProvider();
 
   let localQueriesUsed: string[] = [];
   let stateQueriesUsed: string[] = [];
@@ -1295,37 +1207,71 @@ export async function twoLaneRetrieveWithPlan(
   const localQueries = plan.local.queries.slice(0, chatConfigV3.MAX_QUERIES_PER_LANE);
   const stateQueries = plan.state.queries.slice(0, chatConfigV3.MAX_QUERIES_PER_LANE);
 
-  const executeLocalQuery = async (query: string, idx: number) => {
-    const result = await executeLaneRetrieval({
-      query,
-      storeId,
+  // Comparison mode: the local lane runs once per town, each chunk tagged
+  // with the town it came from
+  const comparisonTowns = plan.comparisonTowns && plan.comparisonTowns.length > 1 ? plan.comparisonTowns : null;
+
+  const executeLocalQuery = async (query: string, idx: number, town?: string) => {
+    const result = await provider.retrieveLane({
+      query: town && comparisonTowns ? buildTownQuery(query, town, comparisonTowns) : query,
       lane: "local",
       maxResults: plan.local.k,
+      townPreference: town ?? townPreference,
+      dateRange: plan.dateRange,
+      preferRecent: plan.preferRecent,
       logContext,
     });
+    if (town) {
+      return { query, idx, result: { ...result, chunks: result.chunks.map(c => ({ ...c, town })) } };
+    }
     return { query, idx, result };
   };
 
   const executeStateQuery = async (query: string, idx: number) => {
-    const result = await executeLaneRetrieval({
+    const result = await provider.retrieveLane({
       query,
-      storeId,
       lane: "state",
       maxResults: plan.state.k,
+      townPreference,
+      dateRange: plan.dateRange,
+      preferRecent: plan.preferRecent,
       logContext,
     });
     return { query, idx, result };
   };
 
+  // A lane that runs past its budget is dropped: its results so far are
+  // discarded and its remaining queries never start
+  const runLaneBatch = async <R>(lane: "local" | "state", batch: Promise<R>[]): Promise<R[]> => {
+    if (batch.length === 0) return [];
+    const outcome = await runWithinBudget(Promise.all(batch), Math.max(0, laneDeadline - Date.now()));
+    if (outcome.completed) return outcome.value;
+
+    droppedLanes.push(lane);
+    logDebug("v3_retrieval_lane_over_budget", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: "v3_retrieval",
+      lane,
+      laneBudgetMs,
+    });
+    return [];
+  };
+
   const firstBatchLocal = localQueries.slice(0, 2);
   const firstBatchState = stateQueries.slice(0, 2);
 
-  const firstBatchPromises = [
-    ...firstBatchLocal.map((q, i) => executeLocalQuery(q, i)),
-    ...firstBatchState.map((q, i) => executeStateQuery(q, i)),
-  ];
+  const firstBatchLocalPromises = comparisonTowns
+    ? comparisonTowns.flatMap(town =>
+        localQueries.slice(0, chatConfigV3.COMPARISON_QUERIES_PER_TOWN).map((q, i) => executeLocalQuery(q, i, town))
+      )
+    : firstBatchLocal.map((q, i) => executeLocalQuery(q, i));
 
-  const firstBatchResults = await Promise.all(firstBatchPromises);
+  const [firstBatchLocalResults, firstBatchStateResults] = await Promise.all([
+    runLaneBatch("local", firstBatchLocalPromises),
+    runLaneBatch("state", firstBatchState.map((q, i) => executeStateQuery(q, i))),
+  ]);
+  const firstBatchResults = [...firstBatchLocalResults, ...firstBatchStateResults];
 
   for (const result of firstBatchResults) {
     if (result.result.chunks.length > 0) {
@@ -1404,16 +1350,16 @@ export async function twoLaneRetrieveWithPlan(
       legalSalience,
     });
   } else {
-    const remainingLocalQueries = localQueries.slice(2);
-    const remainingStateQueries = stateQueries.slice(2);
+    // Comparison mode already spent its local budget across the towns
+    const remainingLocalQueries = comparisonTowns || droppedLanes.includes("local") ? [] : localQueries.slice(2);
+    const remainingStateQueries = droppedLanes.includes("state") ? [] : stateQueries.slice(2);
 
     if (remainingLocalQueries.length > 0 || remainingStateQueries.length > 0) {
-      const remainingPromises = [
-        ...remainingLocalQueries.map((q, i) => executeLocalQuery(q, i + 2)),
-        ...remainingStateQueries.map((q, i) => executeStateQuery(q, i + 2)),
-      ];
-
-      const remainingResults = await Promise.all(remainingPromises);
+      const [remainingLocalResults, remainingStateResults] = await Promise.all([
+        runLaneBatch("local", remainingLocalQueries.map((q, i) => executeLocalQuery(q, i + 2))),
+        runLaneBatch("state", remainingStateQueries.map((q, i) => executeStateQuery(q, i + 2))),
+      ]);
+      const remainingResults = [...remainingLocalResults, ...remainingStateResults];
 
       for (const result of remainingResults) {
         if (result.result.chunks.length > 0) {
@@ -1442,7 +1388,9 @@ export async function twoLaneRetrieveWithPlan(
   const minLocalFacts = plan.mustInclude.minLocalFacts || 0;
 
   const selectedState = selectWithMinimum(rankedState, plan.state.cap, minState, issueMap.legalTopics);
-  const selectedLocal = selectWithMinimum(rankedLocal, plan.local.cap, minLocalFacts, []);
+  const selectedLocal = comparisonTowns
+    ? selectPerTown(allLocalChunks, comparisonTowns, plan.local.cap, situationContext)
+    : selectWithMinimum(rankedLocal, plan.local.cap, minLocalFacts, []);
 
   // Use robust authority classification that checks content
   const labeledLocalChunks: LabeledChunk[] = selectedLocal.map((chunk, idx) => ({
@@ -1451,6 +1399,8 @@ export async function twoLaneRetrieveWithPlan(
     content: chunk.content,
     lane: "local" as const,
     authority: classifyAuthorityRobust(chunk.title, chunk.content, "local"),
+    documentNames: chunk.documentNames,
+    town: chunk.town,
   }));
 
   const labeledStateChunks: LabeledChunk[] = selectedState.map((chunk, idx) => ({
@@ -1459,6 +1409,7 @@ export async function twoLaneRetrieveWithPlan(
     content: chunk.content,
     lane: "state" as const,
     authority: classifyAuthorityRobust(chunk.title, chunk.content, "state"),
+    documentNames: chunk.documentNames,
   }));
 
   const situationAlignment = computeAverageSituationAlignment(
@@ -1500,6 +1451,7 @@ export async function twoLaneRetrieveWithPlan(
     authoritativeStatePresent: authoritativeStatePresentFinal,
     earlyExitTriggered,
     earlyExitReason,
+    droppedLanes,
     legalSalience,
     durationMs,
   });
@@ -1515,6 +1467,7 @@ export async function twoLaneRetrieveWithPlan(
     authoritativeStatePresent: authoritativeStatePresentFinal,
     distinctStateDocs: finalDistinctStateDocs,
     distinctLocalDocs: finalDistinctLocalDocs,
+    droppedLanes,
     debug: {
       localQueriesUsed,
       stateQueriesUsed,
@@ -1551,6 +1504,24 @@ function rankChunksWithSituationContext(
   return scored.sort((a, b) => (b.score || 0) - (a.score || 0));
 }
 
+/**
+ * Comparison mode selection: split the local cap evenly across towns (with a
+ * floor) and keep each town's best chunks, in town order, so one
+ * well-documented town cannot crowd the others out.
+ */
+function selectPerTown(
+  chunks: LaneChunk[],
+  towns: string[],
+  localCap: number,
+  situationContext: SituationContext | null | undefined
+): LaneChunk[] {
+  const capPerTown = Math.max(chatConfigV3.COMPARISON_MIN_CAP_PER_TOWN, Math.ceil(localCap / towns.length));
+  return towns.flatMap(town => {
+    const townChunks = dedupeChunksByDocument(chunks.filter(c => c.town === town));
+    return rankChunksWithSituationContext(townChunks, situationContext).slice(0, capPerTown);
+  });
+}
+
 function selectWithMinimum(
   rankedChunks: LaneChunk[],
   cap: number,
@@ -1605,7 +1576,7 @@ function classifyAuthority(title: string, lane: "local" | "state"): ChunkAuthori
 /**
  * Robust authority classification that checks both title AND content
  */
-function classifyAuthorityRobust(title: string, content: string, lane: "local" | "state"): ChunkAuthority {
+export function classifyAuthorityRobust(title: string, content: string, lane: "local" | "state"): ChunkAuthority {
   const combinedText = (title + ' ' + content).toLowerCase();
   const lowerTitle = title.toLowerCase();
 
@@ -48,6 +48,18 @@ export interface RouterOutput {
   requiresComposedAnswer?: boolean;
   answerType: AnswerType;
   renderStyle: RenderStyle;
+  /** Structured form of the clarification, when one dimension would resolve it */
+  clarification?: RouterClarification;
+}
+
+/**
+ * The one missing detail (town, board or year) the router would ask about,
+ * with the candidate values it suggests offering as quick replies.
+ */
+export interface RouterClarification {
+  dimension: ClarificationDimension;
+  question: string;
+  options: string[];
 }
 
 export interface RetrievalPlan {
@@ -97,6 +109,8 @@ export interface FinalAnswerMeta {
   requiresClarification: boolean;
   criticScore: CriticScore;
   limitationsNote?: string;
+  /** How well the documents found support the answer */
+  recordStrength?: AnswerRecordStrength;
 }
 
 export interface SourceCitation {
@@ -108,6 +122,9 @@ export interface SourceCitation {
   url?: string;
   meetingDate?: string;
   board?: string;
+  marker?: number; // Inline "[n]" marker in the answer text, when cited
+  snippet?: string; // Excerpt of the cited chunk
+  documentVersionId?: string;
 }
 
 export interface ChatV2Request {
@@ -115,6 +132,8 @@ export interface ChatV2Request {
   metadata?: {
     town?: string;
     board?: string;
+    /** Compare these towns side by side instead of answering for one */
+    towns?: string[];
   };
   attachment?: {
     filename: string;
@@ -125,9 +144,17 @@ export interface ChatV2Request {
    * Answer mode: "standard" (default) or "deep" (longer, more detailed responses)
    */
   answerMode?: AnswerMode;
+  /**
+   * Fork from an earlier message (edit or regenerate) instead of continuing
+   * the active branch
+   */
+  branch?: ChatBranchRequest;
 }
 
 import type { ChatNotice } from "@shared/chatNotices";
+import type { ChatBranchRequest } from "@shared/schema";
+import type { ClarificationDimension, ClarificationPrompt } from "@shared/chatClarification";
+import type { AnswerRecordStrength } from "@shared/recordStrength";
 
 export interface ChatV2Response {
   message: {
@@ -141,6 +168,10 @@ export interface ChatV2Response {
   sources: SourceCitation[];
   suggestedFollowUps: string[];
   notices?: ChatNotice[];
+  /** Set when the turn asks the user to narrow the question instead of answering */
+  clarification?: ClarificationPrompt;
+  /** Set on a high-demand reply whose question can be queued for later delivery */
+  queueable?: boolean;
 }
 
 export interface ChatHistoryMessage {
@@ -149,6 +180,8 @@ export interface ChatHistoryMessage {
 }
 
 import type { ActorContext } from "../auth/types";
+import type { PromptVersionRecord } from "@shared/promptTemplates";
+import type { LatencyFallback } from "./latencyBudget";
 
 /**
  * Logging context passed through the pipeline for request correlation
@@ -157,6 +190,8 @@ export interface PipelineLogContext {
   requestId: string;
   sessionId: string;
   actor?: ActorContext;
+  /** Prompt versions the stages used, saved with the assistant message */
+  promptVersions?: PromptVersionRecord;
 }
 
 // =====================================================
@@ -201,6 +236,21 @@ export interface RetrievalPlanV3 {
   };
   priority: "law-first" | "facts-first" | "process-first";
   reason: string; // for debug
+  /** Period resolved from timeHints; dated documents outside it are filtered out */
+  dateRange?: DateRange;
+  /** Boost newer meeting dates when ranking retrieved chunks */
+  preferRecent?: boolean;
+  /** Two or more towns to compare; the local lane runs once per town */
+  comparisonTowns?: string[];
+}
+
+/**
+ * Concrete date window resolved from a time expression. `end` is exclusive.
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+  label: string; // human-readable, e.g. "last month" or "March 2024"
 }
 
 /**
@@ -263,15 +313,29 @@ export interface AuditResult {
   };
 }
 
+/**
+ * Statute corpus facts about the RSA sections an answer cites. Existence can
+ * only be checked for chapters the corpus holds.
+ */
+export interface RsaEvidence {
+  ingestedChapters: string[];
+  existingCitations: string[];
+  /** Sections whose exact text was given to synthesis */
+  suppliedCitations: string[];
+}
+
 export interface AuditViolation {
   type: 
     | "uncited_rsa" 
+    | "unknown_rsa" 
+    | "unsupplied_rsa" 
     | "uncited_procedure" 
     | "absolute_legal_claim" 
     | "off_topic_drift"
     | "format_violation"
     | "missing_state_citation"
-    | "llm_tail";
+    | "llm_tail"
+    | "unknown_citation";
   evidence: string;
   severity: "warning" | "error";
 }
@@ -287,6 +351,8 @@ export interface SynthesisInputV3 {
   stateChunks: LabeledChunk[];
   recordStrength: RecordStrength;
   history: ChatHistoryMessage[];
+  /** Set for comparison questions; local chunks are grouped by their town */
+  comparisonTowns?: string[];
 }
 
 /**
@@ -298,6 +364,19 @@ export interface LabeledChunk {
   content: string;
   lane: "local" | "state";
   authority: ChunkAuthority;
+  documentNames?: string[]; // File Search document names backing this chunk
+  town?: string; // local chunks in comparison mode
+  rsaCitation?: string; // statute text from the RSA corpus, e.g. "91-A:2"
+  url?: string; // link for chunks not backed by a document version
+}
+
+/**
+ * A retrieved chunk the final answer cites, with its public marker number
+ * (the n in "[n]").
+ */
+export interface CitedChunk {
+  marker: number;
+  chunk: LabeledChunk;
 }
 
 /**
@@ -338,6 +417,8 @@ export interface V3DebugInfo {
   };
   finalAnswerCharLen?: number;
   finalAnswerWordCount?: number;
+  /** Fallbacks taken to stay within the latency budgets */
+  latencyFallbacks?: LatencyFallback[];
 }
 
 /**
@@ -350,6 +431,8 @@ export interface V3PipelineResult {
   docSourceTown: string | null;
   retrievedChunkCount: number;
   recordStrength: RecordStrength;
+  citedChunks: CitedChunk[];
+  notices: ChatNotice[];
   debug: V3DebugInfo;
   durationMs: number;
 }
@@ -9,20 +9,20 @@
  * No router, no evidence gate, no simple vs complex branching.
  */
 
-import { GoogleGenAI } from "@google/genai";
 import { getOrCreateFileSearchStoreId } from "../gemini-store";
 import { logDebug, logError } from "../utils/logger";
 import { logLlmRequest, logLlmResponse, logLlmError } from "../utils/llmLogging";
 import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
 import { getModelForStage } from "../llm/modelRegistry";
-import { logLLMCall, extractTokenCounts } from "../llm/callLLMWithLogging";
+import { generateContent } from "../llm/providers";
+import { logLLMCall } from "../llm/callLLMWithLogging";
 import { chatConfig } from "./chatConfig";
 import type { PipelineLogContext, ChatHistoryMessage, DocSourceType } from "./types";
 import type { SituationContext, SessionSource } from "@shared/schema";
 import { twoLaneRetrieve, extractTwoLaneDocNames, buildTwoLaneSnippetText, classifyTwoLaneDocSource, type LaneChunk, type TwoLaneRetrievalResult } from "./twoLaneRetrieve";
 import { getSessionSourceTextForContext } from "./sessionSourceDetector";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import { assessRetrievalRecordStrength } from "./recordStrength";
+import type { AnswerRecordStrength } from "@shared/recordStrength";
 
 export interface UnifiedPipelineOptions {
   question: string;
@@ -39,6 +39,7 @@ export interface UnifiedPipelineResult {
   docSourceType: DocSourceType;
   docSourceTown: string | null;
   retrievedChunkCount: number;
+  recordStrength: AnswerRecordStrength;
   durationMs: number;
 }
 
@@ -124,6 +125,7 @@ export async function runUnifiedChatPipeline(
     docSourceType,
     docSourceTown,
     retrievedChunkCount: mergedChunks.length,
+    recordStrength: assessRetrievalRecordStrength(retrievalResult),
     durationMs,
   };
 }
@@ -288,14 +290,12 @@ Please provide a helpful answer based on these documents. Cite your sources.`;
   const startTime = Date.now();
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model: synthesisModel,
-      contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-      config: {
-        systemInstruction: systemPrompt,
-        temperature: 0.3,
-        maxOutputTokens: 3000,
-      },
+      prompt: userPrompt,
+      systemInstruction: systemPrompt,
+      temperature: 0.3,
+      maxOutputTokens: 3000,
     });
 
     const responseText = response.text || "Unable to synthesize an answer from the retrieved documents.";
@@ -312,7 +312,6 @@ Please provide a helpful answer based on these documents. Cite your sources.`;
 
     // Log for cost tracking
     if (logContext?.actor) {
-      const tokens = extractTokenCounts(response);
       await logLLMCall(
         {
           actor: logContext.actor,
@@ -321,7 +320,7 @@ Please provide a helpful answer based on these documents. Cite your sources.`;
           stage: "unified_synthesis" as any,
           model: synthesisModel,
         },
-        { text: responseText, tokensIn: tokens.tokensIn, tokensOut: tokens.tokensOut }
+        { text: responseText, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
       );
     }
 
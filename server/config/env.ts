@@ -21,6 +21,8 @@ interface EnvConfig {
   OCR_ENABLED: boolean;
   OCR_PROVIDER: 'tesseract' | 'none';
   OCR_MIN_CHAR_THRESHOLD: number;
+  RETRIEVAL_PROVIDER: 'gemini' | 'local';
+  LLM_PROVIDER: 'gemini' | 'openai';
 }
 
 const REQUIRED_VARS = [
@@ -35,6 +37,8 @@ const OPTIONAL_VARS_WITH_DEFAULTS: Record<string, string> = {
   OCR_ENABLED: 'true',
   OCR_PROVIDER: 'tesseract',
   OCR_MIN_CHAR_THRESHOLD: '1200',
+  RETRIEVAL_PROVIDER: 'gemini',
+  LLM_PROVIDER: 'gemini',
 };
 
 /**
@@ -98,6 +102,8 @@ export function getEnvConfig(): EnvConfig {
     OCR_ENABLED: process.env.OCR_ENABLED !== 'false',
     OCR_PROVIDER: (process.env.OCR_PROVIDER || OPTIONAL_VARS_WITH_DEFAULTS.OCR_PROVIDER) as EnvConfig['OCR_PROVIDER'],
     OCR_MIN_CHAR_THRESHOLD: parseInt(process.env.OCR_MIN_CHAR_THRESHOLD || OPTIONAL_VARS_WITH_DEFAULTS.OCR_MIN_CHAR_THRESHOLD, 10),
+    RETRIEVAL_PROVIDER: (process.env.RETRIEVAL_PROVIDER || OPTIONAL_VARS_WITH_DEFAULTS.RETRIEVAL_PROVIDER) as EnvConfig['RETRIEVAL_PROVIDER'],
+    LLM_PROVIDER: (process.env.LLM_PROVIDER || OPTIONAL_VARS_WITH_DEFAULTS.LLM_PROVIDER) as EnvConfig['LLM_PROVIDER'],
   };
 }
 
@@ -0,0 +1,35 @@
+import { getPipelineExperimentConfig } from './experiments';
+
+describe('getPipelineExperimentConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('puts everyone on v3 by default', () => {
+    delete process.env.PIPELINE_V3_PERCENT;
+    const config = getPipelineExperimentConfig();
+    expect(config.variants).toEqual([
+      { name: 'v3', percent: 100 },
+      { name: 'unified', percent: 0 },
+    ]);
+  });
+
+  it('splits actors by PIPELINE_V3_PERCENT', () => {
+    process.env.PIPELINE_V3_PERCENT = '30';
+    const config = getPipelineExperimentConfig();
+    expect(config.variants.map((v) => v.percent)).toEqual([30, 70]);
+  });
+
+  it('clamps out-of-range and ignores invalid values', () => {
+    process.env.PIPELINE_V3_PERCENT = '150';
+    expect(getPipelineExperimentConfig().variants[0].percent).toBe(100);
+    process.env.PIPELINE_V3_PERCENT = 'half';
+    expect(getPipelineExperimentConfig().variants[0].percent).toBe(100);
+  });
+});
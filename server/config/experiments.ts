@@ -0,0 +1,37 @@
+export type PipelineVariant = 'v3' | 'unified';
+
+export interface ExperimentVariant<V extends string> {
+  name: V;
+  /** Share of actors, 0-100; the variants of an experiment add up to 100 */
+  percent: number;
+}
+
+export interface ExperimentConfig<V extends string> {
+  /** Recorded with each assignment; changing it reshuffles every actor */
+  key: string;
+  variants: ExperimentVariant<V>[];
+}
+
+export const PIPELINE_EXPERIMENT_KEY = 'chat_pipeline';
+
+function parsePercent(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  if (isNaN(parsed)) return fallback;
+  return Math.min(100, Math.max(0, parsed));
+}
+
+/**
+ * Split of actors between the v3 and unified chat pipelines. PIPELINE_V3_PERCENT
+ * (default 100) is the share on v3; raise it in steps to roll out a change.
+ */
+export function getPipelineExperimentConfig(): ExperimentConfig<PipelineVariant> {
+  const v3Percent = parsePercent(process.env.PIPELINE_V3_PERCENT, 100);
+
+  return {
+    key: PIPELINE_EXPERIMENT_KEY,
+    variants: [
+      { name: 'v3', percent: v3Percent },
+      { name: 'unified', percent: 100 - v3Percent },
+    ],
+  };
+}
@@ -0,0 +1,18 @@
+export interface GeminiCircuitConfig {
+  /** Quota or 5xx errors within windowMs that open the circuit */
+  failureThreshold: number;
+  windowMs: number;
+  /** How long the circuit stays open before one call probes the primary route */
+  cooldownMs: number;
+  /** Second Gemini key used while the circuit is open; File Search stays on the primary key */
+  secondaryApiKey?: string;
+}
+
+export function getGeminiCircuitConfig(): GeminiCircuitConfig {
+  return {
+    failureThreshold: parseInt(process.env.GEMINI_CIRCUIT_FAILURES || '3', 10),
+    windowMs: parseInt(process.env.GEMINI_CIRCUIT_WINDOW_MS || '60000', 10),
+    cooldownMs: parseInt(process.env.GEMINI_CIRCUIT_COOLDOWN_MS || '60000', 10),
+    secondaryApiKey: process.env.GEMINI_API_KEY_SECONDARY || undefined,
+  };
+}
@@ -0,0 +1,35 @@
+export type LlmProviderName = 'gemini' | 'openai';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  highQualityModel: string;
+  timeoutMs: number;
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  openaiCompatible: OpenAICompatibleConfig;
+}
+
+/**
+ * Default LLM backend for every pipeline stage. "openai" points the stages at
+ * any OpenAI-compatible /chat/completions server (llama.cpp, Ollama, vLLM) so
+ * the pipeline can run without Gemini; per-stage MODEL_* overrides still win.
+ */
+export function getLlmConfig(): LlmConfig {
+  const provider: LlmProviderName = process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'gemini';
+  const model = process.env.OPENAI_COMPAT_MODEL || 'llama3.1';
+
+  return {
+    provider,
+    openaiCompatible: {
+      baseUrl: (process.env.OPENAI_COMPAT_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+      apiKey: process.env.OPENAI_COMPAT_API_KEY || undefined,
+      model,
+      highQualityModel: process.env.OPENAI_COMPAT_MODEL_HIGH_QUALITY || model,
+      timeoutMs: parseInt(process.env.OPENAI_COMPAT_TIMEOUT_MS || '120000', 10),
+    },
+  };
+}
@@ -90,4 +90,26 @@ describe('OCR Configuration', () => {
       expect(result).toBe('blocked');
     });
   });
+
+  describe('getOcrConfig', () => {
+    const originalChatMaxPages = originalEnv.OCR_CHAT_MAX_PAGES;
+
+    afterEach(() => {
+      if (originalChatMaxPages === undefined) {
+        delete process.env.OCR_CHAT_MAX_PAGES;
+      } else {
+        process.env.OCR_CHAT_MAX_PAGES = originalChatMaxPages;
+      }
+    });
+
+    it('should cap inline chat OCR at 10 pages by default', () => {
+      delete process.env.OCR_CHAT_MAX_PAGES;
+      expect(getOcrConfig().chatMaxPages).toBe(10);
+    });
+
+    it('should read the chat page cap from env', () => {
+      process.env.OCR_CHAT_MAX_PAGES = '3';
+      expect(getOcrConfig().chatMaxPages).toBe(3);
+    });
+  });
 });
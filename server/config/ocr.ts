@@ -4,17 +4,21 @@ export interface OcrConfig {
   enabled: boolean;
   provider: OcrProvider;
   minCharThreshold: number;
+  /** Pages OCR'd inline for a chat attachment; the rest of the file is skipped */
+  chatMaxPages: number;
 }
 
 export function getOcrConfig(): OcrConfig {
   const enabled = process.env.OCR_ENABLED !== 'false';
   const provider = (process.env.OCR_PROVIDER as OcrProvider) || 'tesseract';
   const minCharThreshold = parseInt(process.env.OCR_MIN_CHAR_THRESHOLD || '1200', 10);
+  const chatMaxPages = parseInt(process.env.OCR_CHAT_MAX_PAGES || '10', 10);
 
   return {
     enabled,
     provider,
     minCharThreshold,
+    chatMaxPages,
   };
 }
 
@@ -0,0 +1,35 @@
+import { getPipelineQueueConfig } from './pipelineQueue';
+
+describe('getPipelineQueueConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('gives anonymous visitors the shortest queue by default', () => {
+    const config = getPipelineQueueConfig();
+    expect(config.maxConcurrent).toBe(8);
+    expect(config.maxQueued).toEqual({ municipal_staff: 50, paying: 50, free: 25, anonymous: 10, background: 5 });
+  });
+
+  it('reads limits from the environment', () => {
+    process.env.PIPELINE_MAX_CONCURRENT = '3';
+    process.env.PIPELINE_QUEUE_MAX_ANON = '0';
+    const config = getPipelineQueueConfig();
+    expect(config.maxConcurrent).toBe(3);
+    expect(config.maxQueued.anonymous).toBe(0);
+  });
+
+  it('keeps at least one pipeline slot and ignores invalid values', () => {
+    process.env.PIPELINE_MAX_CONCURRENT = '0';
+    process.env.PIPELINE_QUEUE_MAX_FREE = 'lots';
+    const config = getPipelineQueueConfig();
+    expect(config.maxConcurrent).toBe(1);
+    expect(config.maxQueued.free).toBe(25);
+  });
+});
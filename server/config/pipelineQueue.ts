@@ -0,0 +1,36 @@
+/**
+ * Priority classes for chat pipeline runs, highest first. Under load a free
+ * slot always goes to the oldest waiter of the highest class. Background work
+ * (queued questions, deep research) only runs when no one is waiting.
+ */
+export const PRIORITY_CLASSES = ['municipal_staff', 'paying', 'free', 'anonymous', 'background'] as const;
+
+export type PriorityClass = typeof PRIORITY_CLASSES[number];
+
+export interface PipelineQueueConfig {
+  /** Pipeline runs allowed at once across all actors */
+  maxConcurrent: number;
+  /** Waiters allowed per class; further requests are turned away */
+  maxQueued: Record<PriorityClass, number>;
+  /** How long a request may wait for a slot before giving up */
+  maxWaitMs: number;
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+export function getPipelineQueueConfig(): PipelineQueueConfig {
+  return {
+    maxConcurrent: Math.max(1, parseCount(process.env.PIPELINE_MAX_CONCURRENT, 8)),
+    maxQueued: {
+      municipal_staff: parseCount(process.env.PIPELINE_QUEUE_MAX_STAFF, 50),
+      paying: parseCount(process.env.PIPELINE_QUEUE_MAX_PAYING, 50),
+      free: parseCount(process.env.PIPELINE_QUEUE_MAX_FREE, 25),
+      anonymous: parseCount(process.env.PIPELINE_QUEUE_MAX_ANON, 10),
+      background: parseCount(process.env.PIPELINE_QUEUE_MAX_BACKGROUND, 5),
+    },
+    maxWaitMs: parseCount(process.env.PIPELINE_QUEUE_MAX_WAIT_MS, 90000),
+  };
+}
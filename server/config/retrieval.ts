@@ -0,0 +1,24 @@
+export type RetrievalProviderName = 'gemini' | 'local';
+
+export interface RetrievalConfig {
+  provider: RetrievalProviderName;
+  chunkMaxChars: number;
+  chunkOverlapChars: number;
+}
+
+/**
+ * Retrieval backend for both lanes. "gemini" uses the File Search stores;
+ * "local" ranks chunks in Postgres full-text search and needs no Gemini
+ * store, which is what dev and test environments use.
+ */
+export function getRetrievalConfig(): RetrievalConfig {
+  const provider: RetrievalProviderName = process.env.RETRIEVAL_PROVIDER === 'local' ? 'local' : 'gemini';
+  const chunkMaxChars = parseInt(process.env.RETRIEVAL_CHUNK_MAX_CHARS || '1500', 10);
+  const chunkOverlapChars = parseInt(process.env.RETRIEVAL_CHUNK_OVERLAP_CHARS || '200', 10);
+
+  return {
+    provider,
+    chunkMaxChars,
+    chunkOverlapChars,
+  };
+}
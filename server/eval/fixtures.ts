@@ -0,0 +1,174 @@
+/**
+ * Record/replay of LLM and retrieval calls for golden-question evals.
+ *
+ * In "record" mode every call goes to the configured providers and the
+ * response is stored under a hash of its request. In "replay" mode the stored
+ * response is returned and nothing leaves the process, so a run only changes
+ * when pipeline code, config or post-processing change. A prompt or query that
+ * was never recorded is a miss: replay throws EvalFixtureMissError and the
+ * question is reported as needing a re-record.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { getLLMProvider, type LLMCallHandler, type LLMGenerateRequest, type LLMGenerateResponse } from "../llm/providers";
+import { getConfiguredRetrievalProvider, type LaneRetrievalRequest, type LaneRetrievalResult, type RetrievalProvider } from "../retrieval";
+import type { FixtureMode } from "./types";
+
+export class EvalFixtureMissError extends Error {
+  constructor(kind: "llm" | "retrieval", key: string) {
+    super(`No recorded ${kind} fixture for request ${key.slice(0, 12)}`);
+    this.name = "EvalFixtureMissError";
+  }
+}
+
+interface FixtureFile {
+  questionId: string;
+  recordedAt: string;
+  llm: Record<string, LLMGenerateResponse>;
+  retrieval: Record<string, LaneRetrievalResult>;
+}
+
+export interface FixtureSession {
+  llm: LLMCallHandler;
+  retrieval: RetrievalProvider;
+  /** Text of every chunk retrieved so far, for citation support checks */
+  retrievedText(): string;
+  misses(): number;
+  save(): void;
+}
+
+function hashKey(value: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+function llmKey(request: LLMGenerateRequest): string {
+  return hashKey({
+    model: request.model,
+    prompt: request.prompt,
+    systemInstruction: request.systemInstruction ?? null,
+    temperature: request.temperature ?? null,
+    maxOutputTokens: request.maxOutputTokens ?? null,
+    responseFormat: request.responseFormat ?? null,
+    responseSchema: request.responseSchema ?? null,
+  });
+}
+
+function retrievalKey(request: LaneRetrievalRequest): string {
+  return hashKey({
+    query: request.query,
+    keywords: request.keywords ?? null,
+    lane: request.lane,
+    maxResults: request.maxResults,
+    townPreference: request.townPreference ?? null,
+    boards: request.boards ?? [],
+    categories: request.categories ?? [],
+    // The label, not the dates: relative windows ("last month") would
+    // otherwise miss on every replay after the month rolls over
+    dateRange: request.dateRange?.label ?? null,
+    preferRecent: request.preferRecent ?? false,
+  });
+}
+
+export function getFixturePath(fixturesDir: string, setVersion: string, questionId: string): string {
+  return path.join(fixturesDir, setVersion, `${questionId}.json`);
+}
+
+/**
+ * Whether a question has been recorded at all. Replaying one that has not
+ * would only produce misses.
+ */
+export function hasFixtureFile(fixturesDir: string, setVersion: string, questionId: string): boolean {
+  return fs.existsSync(getFixturePath(fixturesDir, setVersion, questionId));
+}
+
+function readFixtureFile(filePath: string, questionId: string): FixtureFile {
+  if (!fs.existsSync(filePath)) {
+    return { questionId, recordedAt: "", llm: {}, retrieval: {} };
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as FixtureFile;
+}
+
+/**
+ * Fixture-backed LLM handler and retrieval provider for one question.
+ * Recording starts from an empty file so stale responses never linger.
+ */
+export function createFixtureSession(options: {
+  mode: FixtureMode;
+  fixturesDir: string;
+  setVersion: string;
+  questionId: string;
+}): FixtureSession {
+  const { mode, fixturesDir, setVersion, questionId } = options;
+  const filePath = getFixturePath(fixturesDir, setVersion, questionId);
+  const fixtures: FixtureFile = mode === "replay"
+    ? readFixtureFile(filePath, questionId)
+    : { questionId, recordedAt: new Date().toISOString(), llm: {}, retrieval: {} };
+  const retrievedChunks: string[] = [];
+  let missCount = 0;
+
+  const replayLlm = (request: LLMGenerateRequest): LLMGenerateResponse => {
+    const key = llmKey(request);
+    const recorded = fixtures.llm[key];
+    if (!recorded) {
+      missCount++;
+      throw new EvalFixtureMissError("llm", key);
+    }
+    return recorded;
+  };
+
+  const llm: LLMCallHandler = {
+    async generate(request) {
+      if (mode === "replay") return replayLlm(request);
+      const response = await getLLMProvider(request.model).generate(request);
+      fixtures.llm[llmKey(request)] = response;
+      return response;
+    },
+    async generateStream(request, onToken) {
+      if (mode === "replay") {
+        const response = replayLlm(request);
+        if (response.text) onToken(response.text);
+        return response;
+      }
+      const response = await getLLMProvider(request.model).generateStream(request, onToken);
+      fixtures.llm[llmKey(request)] = response;
+      return response;
+    },
+  };
+
+  const liveRetrieval = getConfiguredRetrievalProvider();
+  const retrieval: RetrievalProvider = {
+    name: `${liveRetrieval.name}:${mode}`,
+    async retrieveLane(request) {
+      const key = retrievalKey(request);
+      let result: LaneRetrievalResult | undefined;
+
+      if (mode === "replay") {
+        result = fixtures.retrieval[key];
+        if (!result) {
+          missCount++;
+          throw new EvalFixtureMissError("retrieval", key);
+        }
+      } else {
+        result = await liveRetrieval.retrieveLane(request);
+        fixtures.retrieval[key] = result;
+      }
+
+      result.chunks.forEach((chunk) => retrievedChunks.push(chunk.content));
+      return result;
+    },
+  };
+
+  return {
+    llm,
+    retrieval,
+    retrievedText: () => retrievedChunks.join("\n"),
+    misses: () => missCount,
+    save() {
+      if (mode !== "record") return;
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(fixtures, null, 2));
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Versioned golden question sets live in server/eval/golden/<version>.json.
+ * A published version is never edited in place; changing expectations means
+ * adding a new version so runs against the old one stay comparable.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { GoldenQuestion, GoldenQuestionSet } from "./types";
+
+const GOLDEN_DIR = path.resolve(import.meta.dirname, "golden");
+
+export function listGoldenSetVersions(): string[] {
+  if (!fs.existsSync(GOLDEN_DIR)) return [];
+  return fs.readdirSync(GOLDEN_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.replace(/\.json$/, ""))
+    .sort();
+}
+
+function validateQuestion(q: GoldenQuestion, index: number): string[] {
+  const errors: string[] = [];
+  const where = `questions[${index}]${q?.id ? ` (${q.id})` : ""}`;
+
+  if (!q.id || !/^[a-z0-9-]+$/.test(q.id)) errors.push(`${where}: id must be kebab-case`);
+  if (!q.question?.trim()) errors.push(`${where}: question is required`);
+  if (!Array.isArray(q.expectedTowns)) errors.push(`${where}: expectedTowns must be an array`);
+  if (!Array.isArray(q.requiredRsaCitations)) errors.push(`${where}: requiredRsaCitations must be an array`);
+  if (!Array.isArray(q.forbiddenClaims)) {
+    errors.push(`${where}: forbiddenClaims must be an array`);
+  } else {
+    q.forbiddenClaims.forEach((pattern) => {
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        errors.push(`${where}: invalid forbiddenClaims pattern ${JSON.stringify(pattern)}`);
+      }
+    });
+  }
+  return errors;
+}
+
+export function loadGoldenSet(version: string): GoldenQuestionSet {
+  const filePath = path.join(GOLDEN_DIR, `${version}.json`);
+  if (!fs.existsSync(filePath)) {
+    const available = listGoldenSetVersions().join(", ") || "none";
+    throw new Error(`Golden set "${version}" not found (available: ${available})`);
+  }
+
+  const set = JSON.parse(fs.readFileSync(filePath, "utf-8")) as GoldenQuestionSet;
+  const errors: string[] = [];
+  if (set.version !== version) {
+    errors.push(`version field "${set.version}" does not match file name "${version}"`);
+  }
+
+  const seen = new Set<string>();
+  (set.questions || []).forEach((q, i) => {
+    errors.push(...validateQuestion(q, i));
+    if (seen.has(q.id)) errors.push(`questions[${i}]: duplicate id ${q.id}`);
+    seen.add(q.id);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid golden set "${version}":\n  ${errors.join("\n  ")}`);
+  }
+  return set;
+}
@@ -0,0 +1,128 @@
+/**
+ * Eval run summaries and run-to-run diffs, rendered as Markdown so they can
+ * be pasted into a PR description.
+ */
+
+import type { EvalQuestionDiff, EvalQuestionResult, EvalRun, EvalRunDiff } from "./types";
+
+function describeListChange(name: string, before: string[], after: string[]): string[] {
+  const added = after.filter((x) => !before.includes(x));
+  const removed = before.filter((x) => !after.includes(x));
+  const lines: string[] = [];
+  if (added.length > 0) lines.push(`${name} +${added.join(", +")}`);
+  if (removed.length > 0) lines.push(`${name} -${removed.join(", -")}`);
+  return lines;
+}
+
+function diffQuestion(base: EvalQuestionResult | undefined, head: EvalQuestionResult | undefined): EvalQuestionDiff {
+  if (!base) {
+    return { id: head!.id, change: "added", scoreDelta: 0, details: [] };
+  }
+  if (!head) {
+    return { id: base.id, change: "removed", scoreDelta: 0, details: [] };
+  }
+
+  if (base.unrecorded || head.unrecorded) {
+    const details = [`not recorded in ${head.unrecorded ? "head" : "base"} run`];
+    return { id: head.id, change: "unchanged", scoreDelta: 0, details };
+  }
+
+  const scoreDelta = (head.checks?.auditScore || 0) - (base.checks?.auditScore || 0);
+  const details: string[] = [];
+
+  if (base.error !== head.error) {
+    details.push(head.error ? `error: ${head.error}` : "error cleared");
+  }
+  if (base.tier !== head.tier) {
+    details.push(`tier ${base.tier ?? "-"} -> ${head.tier ?? "-"}`);
+  }
+  if (base.checks && head.checks) {
+    details.push(
+      ...describeListChange("missing RSA", base.checks.missingRsaCitations, head.checks.missingRsaCitations),
+      ...describeListChange("unsupported RSA", base.checks.unsupportedRsaCitations, head.checks.unsupportedRsaCitations),
+      ...describeListChange("forbidden", base.checks.forbiddenClaimsFound, head.checks.forbiddenClaimsFound),
+      ...describeListChange("missing town", base.checks.missingTowns, head.checks.missingTowns),
+    );
+  }
+
+  let change: EvalQuestionDiff["change"] = "unchanged";
+  if (!base.passed && head.passed) change = "fixed";
+  if (base.passed && !head.passed) change = "regressed";
+
+  return { id: head.id, change, scoreDelta, details };
+}
+
+export function diffEvalRuns(base: EvalRun, head: EvalRun): EvalRunDiff {
+  const ids: string[] = [];
+  base.results.concat(head.results).forEach((r) => {
+    if (!ids.includes(r.id)) ids.push(r.id);
+  });
+
+  const questions = ids.map((id) => diffQuestion(
+    base.results.find((r) => r.id === id),
+    head.results.find((r) => r.id === id)
+  ));
+
+  return {
+    baseLabel: base.label,
+    headLabel: head.label,
+    passedDelta: head.summary.passed - base.summary.passed,
+    meanScoreDelta: Math.round((head.summary.meanAuditScore - base.summary.meanAuditScore) * 10) / 10,
+    questions,
+  };
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+export function formatRunSummary(run: EvalRun): string {
+  const lines = [
+    `## Eval ${run.label}`,
+    "",
+    `Set ${run.setVersion} (${run.mode}): ${run.summary.passed}/${run.summary.total} passed, ` +
+      `${run.summary.failed} failed, ${run.summary.errored} errored, ${run.summary.unrecorded ?? 0} unrecorded, ` +
+      `mean audit score ${run.summary.meanAuditScore}`,
+    "",
+    "| Question | Result | Tier | Audit | Issues |",
+    "| --- | --- | --- | --- | --- |",
+  ];
+
+  run.results.forEach((r) => {
+    const issues = r.error
+      ? [r.error]
+      : [
+          ...(r.checks?.missingRsaCitations.map((c) => `missing ${c}`) || []),
+          ...(r.checks?.unsupportedRsaCitations.map((c) => `unsupported ${c}`) || []),
+          ...(r.checks?.forbiddenClaimsFound.map((c) => `forbidden /${c}/`) || []),
+          ...(r.checks?.missingTowns.map((t) => `no ${t}`) || []),
+        ];
+    const status = r.unrecorded ? "unrecorded" : r.error ? "error" : r.passed ? "pass" : "fail";
+    lines.push(`| ${r.id} | ${status} | ${r.tier ?? "-"} | ${r.checks?.auditScore ?? "-"} | ${issues.join("; ") || "-"} |`);
+  });
+
+  return lines.join("\n");
+}
+
+export function formatDiffReport(diff: EvalRunDiff): string {
+  const changed = diff.questions.filter((q) => q.change !== "unchanged" || q.scoreDelta !== 0 || q.details.length > 0);
+  const count = (change: EvalQuestionDiff["change"]) => diff.questions.filter((q) => q.change === change).length;
+
+  const lines = [
+    `## Eval diff ${diff.baseLabel} -> ${diff.headLabel}`,
+    "",
+    `Passed ${signed(diff.passedDelta)}, mean audit score ${signed(diff.meanScoreDelta)}. ` +
+      `${count("regressed")} regressed, ${count("fixed")} fixed, ${count("added")} added, ${count("removed")} removed.`,
+  ];
+
+  if (changed.length === 0) {
+    lines.push("", "No per-question changes.");
+    return lines.join("\n");
+  }
+
+  lines.push("", "| Question | Change | Audit delta | Details |", "| --- | --- | --- | --- |");
+  changed.forEach((q) => {
+    lines.push(`| ${q.id} | ${q.change} | ${signed(q.scoreDelta)} | ${q.details.join("; ") || "-"} |`);
+  });
+  return lines.join("\n");
+}
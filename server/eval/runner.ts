@@ -0,0 +1,149 @@
+/**
+ * Golden-question eval runner
+ *
+ * Drives runChatV3Pipeline once per question, sequentially, with LLM and
+ * retrieval calls routed through a per-question fixture session. The fixture
+ * handlers only apply inside the question's own async context, so requests
+ * served by the same process keep the real providers. No actor is passed, so
+ * eval traffic never lands in llm_cost_logs.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { runChatV3Pipeline } from "../chatV2/chatOrchestratorV3";
+import { createLatencyBudget } from "../chatV2/latencyBudget";
+import { runWithLLMCallHandler } from "../llm/providers";
+import { runWithRetrievalProvider } from "../retrieval";
+import { createFixtureSession, getFixturePath, hasFixtureFile } from "./fixtures";
+import { loadGoldenSet } from "./goldenSet";
+import { scoreGoldenAnswer, isPassing } from "./scoring";
+import type { EvalQuestionResult, EvalRun, FixtureMode, GoldenQuestion } from "./types";
+
+export interface EvalRunOptions {
+  setVersion: string;
+  mode: FixtureMode;
+  fixturesDir: string;
+  label?: string;
+  /** Only run questions whose id is listed */
+  questionIds?: string[];
+  onQuestionComplete?: (result: EvalQuestionResult, index: number, total: number) => void;
+}
+
+function unrecordedResult(question: GoldenQuestion, options: EvalRunOptions): EvalQuestionResult {
+  return {
+    id: question.id,
+    question: question.question,
+    passed: false,
+    error: `Not recorded: no fixture at ${getFixturePath(options.fixturesDir, options.setVersion, question.id)}`,
+    answerText: "",
+    checks: null,
+    tier: null,
+    durationMs: 0,
+    fixtureMisses: 0,
+    unrecorded: true,
+  };
+}
+
+async function runQuestion(
+  question: GoldenQuestion,
+  options: EvalRunOptions
+): Promise<EvalQuestionResult> {
+  if (options.mode === "replay" && !hasFixtureFile(options.fixturesDir, options.setVersion, question.id)) {
+    return unrecordedResult(question, options);
+  }
+
+  const session = createFixtureSession({
+    mode: options.mode,
+    fixturesDir: options.fixturesDir,
+    setVersion: options.setVersion,
+    questionId: question.id,
+  });
+  const startTime = Date.now();
+
+  const runPipeline = () => runChatV3Pipeline({
+    userMessage: question.question,
+    sessionHistory: [],
+    townPreference: question.town,
+    situationContext: null,
+    sessionSources: [],
+    logContext: {
+      requestId: uuidv4(),
+      sessionId: `eval-${question.id}`,
+    },
+    // A slow recording must not change which stages ran, or replay would
+    // not match it
+    latencyBudget: createLatencyBudget(undefined, { enabled: false }),
+  });
+
+  try {
+    const result = await runWithLLMCallHandler(session.llm, () =>
+      runWithRetrievalProvider(session.retrieval, runPipeline)
+    );
+
+    // Stages degrade instead of failing on a missing fixture, so a miss
+    // invalidates the answer even when the pipeline returned one
+    const fixtureMisses = session.misses();
+    const checks = scoreGoldenAnswer(question, result, session.retrievedText());
+    session.save();
+
+    return {
+      id: question.id,
+      question: question.question,
+      passed: fixtureMisses === 0 && isPassing(checks),
+      error: fixtureMisses > 0 ? `${fixtureMisses} fixture miss(es); re-record this question` : undefined,
+      answerText: result.answerText,
+      checks,
+      tier: result.recordStrength.tier,
+      durationMs: Date.now() - startTime,
+      fixtureMisses,
+    };
+  } catch (error) {
+    return {
+      id: question.id,
+      question: question.question,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+      answerText: "",
+      checks: null,
+      tier: null,
+      durationMs: Date.now() - startTime,
+      fixtureMisses: session.misses(),
+    };
+  }
+}
+
+export async function runGoldenEval(options: EvalRunOptions): Promise<EvalRun> {
+  const set = loadGoldenSet(options.setVersion);
+  const questions = options.questionIds?.length
+    ? set.questions.filter((q) => options.questionIds!.includes(q.id))
+    : set.questions;
+  const startedAt = new Date().toISOString();
+  const results: EvalQuestionResult[] = [];
+
+  for (let i = 0; i < questions.length; i++) {
+    const result = await runQuestion(questions[i], options);
+    results.push(result);
+    options.onQuestionComplete?.(result, i, questions.length);
+  }
+
+  const scored = results.filter((r) => r.checks);
+  const meanAuditScore = scored.length > 0
+    ? scored.reduce((sum, r) => sum + (r.checks?.auditScore || 0), 0) / scored.length
+    : 0;
+
+  return {
+    label: options.label || `${set.version}-${options.mode}-${startedAt.replace(/[:.]/g, "-")}`,
+    setVersion: set.version,
+    mode: options.mode,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    results,
+    summary: {
+      total: results.length,
+      passed: results.filter((r) => r.passed).length,
+      failed: results.filter((r) => !r.passed && !r.error).length,
+      errored: results.filter((r) => !!r.error && !r.unrecorded).length,
+      unrecorded: results.filter((r) => r.unrecorded).length,
+      meanAuditScore: Math.round(meanAuditScore * 10) / 10,
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { extractRsaReferences, isPassing } from './scoring';
+import { diffEvalRuns } from './report';
+import type { EvalChecks, EvalQuestionResult, EvalRun } from './types';
+
+const passingChecks: EvalChecks = {
+  auditScore: 80,
+  auditComplete: true,
+  wordCount: 200,
+  missingTowns: [],
+  missingRsaCitations: [],
+  forbiddenClaimsFound: [],
+  unsupportedRsaCitations: [],
+  citationMarkerCount: 3,
+};
+
+function makeRun(label: string, results: EvalQuestionResult[]): EvalRun {
+  const passed = results.filter((r) => r.passed).length;
+  return {
+    label,
+    setVersion: 'v1',
+    mode: 'replay',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    completedAt: '2026-01-01T00:01:00.000Z',
+    results,
+    summary: {
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      errored: 0,
+      meanAuditScore: 80,
+    },
+  };
+}
+
+function makeResult(id: string, checks: EvalChecks): EvalQuestionResult {
+  return {
+    id,
+    question: id,
+    passed: isPassing(checks),
+    answerText: '',
+    checks,
+    tier: 'B',
+    durationMs: 10,
+    fixtureMisses: 0,
+  };
+}
+
+describe('Golden eval scoring', () => {
+  describe('extractRsaReferences', () => {
+    it('should normalize and deduplicate references', () => {
+      const refs = extractRsaReferences('See RSA 91-A:2 and rsa  91-a:2, plus RSA 674:33 and RSA 32.');
+      expect(refs).toEqual(['RSA 91-A:2', 'RSA 674:33', 'RSA 32']);
+    });
+  });
+
+  describe('isPassing', () => {
+    it('should fail on a missing required citation', () => {
+      expect(isPassing(passingChecks)).toBe(true);
+      expect(isPassing({ ...passingChecks, missingRsaCitations: ['RSA 91-A:2'] })).toBe(false);
+    });
+
+    it('should not gate on the audit score', () => {
+      expect(isPassing({ ...passingChecks, auditScore: 10 })).toBe(true);
+    });
+  });
+
+  describe('diffEvalRuns', () => {
+    it('should classify regressions and added questions', () => {
+      const base = makeRun('base', [makeResult('q1', passingChecks)]);
+      const head = makeRun('head', [
+        makeResult('q1', { ...passingChecks, forbiddenClaimsFound: ['always'] }),
+        makeResult('q2', passingChecks),
+      ]);
+
+      const diff = diffEvalRuns(base, head);
+      expect(diff.questions.find((q) => q.id === 'q1')?.change).toBe('regressed');
+      expect(diff.questions.find((q) => q.id === 'q1')?.details).toContain('forbidden +always');
+      expect(diff.questions.find((q) => q.id === 'q2')?.change).toBe('added');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Golden-question scoring
+ *
+ * Combines the audit's structural answer score with checks specific to each
+ * golden question: town anchoring, required RSA citations, forbidden claims,
+ * and RSA references the retrieved evidence does not support.
+ */
+
+import { scoreAnswer } from "../chatV2/audit";
+import type { V3PipelineResult } from "../chatV2/types";
+import type { EvalChecks, GoldenQuestion } from "./types";
+
+const RSA_REFERENCE = /\bRSA\s+(\d+(?:-[A-Z])?)(?::(\d+(?:-[a-z])?))?/gi;
+
+/**
+ * Canonical "RSA <chapter>[:<section>]" references in a text, deduplicated.
+ */
+export function extractRsaReferences(text: string): string[] {
+  const refs: string[] = [];
+  let match: RegExpExecArray | null;
+  RSA_REFERENCE.lastIndex = 0;
+  while ((match = RSA_REFERENCE.exec(text)) !== null) {
+    const ref = normalizeRsa(`RSA ${match[1]}${match[2] ? `:${match[2]}` : ""}`);
+    if (!refs.includes(ref)) refs.push(ref);
+  }
+  return refs;
+}
+
+export function normalizeRsa(reference: string): string {
+  return reference.replace(/\s+/g, " ").trim().toUpperCase();
+}
+
+/**
+ * A required citation of a whole chapter ("RSA 91-A") is met by any section
+ * of it; a required section must be cited exactly.
+ */
+function isCitationPresent(required: string, cited: string[]): boolean {
+  const target = normalizeRsa(required);
+  return cited.some((ref) => ref === target || (!target.includes(":") && ref.startsWith(`${target}:`)));
+}
+
+export function scoreGoldenAnswer(
+  question: GoldenQuestion,
+  result: V3PipelineResult,
+  retrievedText: string
+): EvalChecks {
+  const answerText = result.answerText;
+  const answerLower = answerText.toLowerCase();
+  const audit = scoreAnswer(answerText, result.debug.retrievalCounts.stateSelected);
+
+  const cited = extractRsaReferences(answerText);
+  const supported = extractRsaReferences(retrievedText);
+
+  const missingTowns = question.expectedTowns.filter((town) => {
+    const anchoredBySource = (result.docSourceTown || "").toLowerCase() === town.toLowerCase();
+    return !anchoredBySource && !answerLower.includes(town.toLowerCase());
+  });
+
+  const forbiddenClaimsFound = question.forbiddenClaims.filter((pattern) => new RegExp(pattern, "i").test(answerText));
+
+  // Matched at chapter level: retrieved summaries often name the chapter
+  // without the section the answer goes on to cite
+  const supportedChapters = supported.map((ref) => ref.split(":")[0]);
+  const unsupportedRsaCitations = cited.filter((ref) => !supportedChapters.includes(ref.split(":")[0]));
+
+  return {
+    auditScore: audit.score,
+    auditComplete: audit.isComplete,
+    wordCount: audit.wordCount,
+    missingTowns,
+    missingRsaCitations: question.requiredRsaCitations.filter((req) => !isCitationPresent(req, cited)),
+    forbiddenClaimsFound,
+    unsupportedRsaCitations,
+    citationMarkerCount: result.citedChunks.length,
+  };
+}
+
+/**
+ * Pass/fail gate. The audit score is reported but not gated on, since its
+ * heading rubric does not apply to every answer type.
+ */
+export function isPassing(checks: EvalChecks): boolean {
+  return (
+    checks.missingTowns.length === 0 &&
+    checks.missingRsaCitations.length === 0 &&
+    checks.forbiddenClaimsFound.length === 0 &&
+    checks.unsupportedRsaCitations.length === 0
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Golden-question evaluation types
+ */
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  /** Town preference the question is asked under (null for statewide questions) */
+  town: string | null;
+  /** Towns the answer must stay anchored to */
+  expectedTowns: string[];
+  /** RSA sections the answer must cite, e.g. "RSA 91-A:2" */
+  requiredRsaCitations: string[];
+  /** Case-insensitive regular expressions for claims the answer must never make */
+  forbiddenClaims: string[];
+  tags?: string[];
+  notes?: string;
+}
+
+export interface GoldenQuestionSet {
+  version: string;
+  description: string;
+  questions: GoldenQuestion[];
+}
+
+export type FixtureMode = "record" | "replay";
+
+export interface EvalChecks {
+  auditScore: number;
+  auditComplete: boolean;
+  wordCount: number;
+  missingTowns: string[];
+  missingRsaCitations: string[];
+  forbiddenClaimsFound: string[];
+  /** RSA references in the answer that no retrieved chunk contains */
+  unsupportedRsaCitations: string[];
+  citationMarkerCount: number;
+}
+
+export interface EvalQuestionResult {
+  id: string;
+  question: string;
+  passed: boolean;
+  error?: string;
+  answerText: string;
+  checks: EvalChecks | null;
+  tier: string | null;
+  durationMs: number;
+  fixtureMisses: number;
+  /** Replay found no fixture file for this question, so it was not run */
+  unrecorded?: boolean;
+}
+
+export interface EvalRun {
+  label: string;
+  setVersion: string;
+  mode: FixtureMode;
+  startedAt: string;
+  completedAt: string;
+  results: EvalQuestionResult[];
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
+    unrecorded: number;
+    meanAuditScore: number;
+  };
+}
+
+export interface EvalQuestionDiff {
+  id: string;
+  change: "fixed" | "regressed" | "unchanged" | "added" | "removed";
+  scoreDelta: number;
+  details: string[];
+}
+
+export interface EvalRunDiff {
+  baseLabel: string;
+  headLabel: string;
+  passedDelta: number;
+  meanScoreDelta: number;
+  questions: EvalQuestionDiff[];
+}
@@ -1,6 +1,8 @@
 import { GoogleGenAI } from "@google/genai";
 import { getOrCreateFileSearchStoreId, setFileSearchStoreId } from "./gemini-store";
 import { blobStorage } from "./services/blobStorage";
+import { bumpCorpusVersionForTown } from "./chatV2/answerCache";
+import { callGemini } from "./llm/geminiCircuit";
 import * as fs from "fs/promises";
 import * as path from "path";
 
@@ -95,7 +97,9 @@ export async function uploadDocumentToFileStore(
   
   for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
     try {
-      return await attemptUploadToFileStore(filePath, filename, metadata);
+      const result = await attemptUploadToFileStore(filePath, filename, metadata);
+      await bumpCorpusVersionForTown(metadata.town);
+      return result;
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
@@ -479,20 +483,24 @@ Guidelines:
 All information is informational only and is not legal advice.`;
 
     // Call Gemini with File Search
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-        tools: [
-          {
-            fileSearch: {
-              fileSearchStoreNames: [storeId],
-            },
-          } as any,
-        ],
-      },
-    });
+    const response = await callGemini(
+      "gemini-2.5-flash",
+      (client, model) => client.models.generateContent({
+        model,
+        contents: contents,
+        config: {
+          systemInstruction: systemInstruction,
+          tools: [
+            {
+              fileSearch: {
+                fileSearchStoreNames: [storeId],
+              },
+            } as any,
+          ],
+        },
+      }),
+      { stage: "askQuestionWithFileSearch", allowSecondaryKey: false }
+    );
 
     const answer = response.text || "No directly relevant material was found in the OpenCouncil archive for this question.";
 
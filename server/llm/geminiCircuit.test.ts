@@ -0,0 +1,75 @@
+import { createCircuitBreaker } from './geminiCircuit';
+
+describe('createCircuitBreaker', () => {
+  const config = { failureThreshold: 3, windowMs: 60000, cooldownMs: 30000 };
+  let clock: number;
+  const now = () => clock;
+
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  it('opens after the threshold of failures within the window', () => {
+    const breaker = createCircuitBreaker(config, now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.state()).toBe('open');
+    expect(breaker.tryPrimary()).toBe(false);
+  });
+
+  it('ignores failures that have aged out of the window', () => {
+    const breaker = createCircuitBreaker(config, now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    clock = 61000;
+    breaker.recordFailure();
+    expect(breaker.state()).toBe('closed');
+  });
+
+  it('lets a single probe through after the cooldown', () => {
+    const breaker = createCircuitBreaker(config, now);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock = 30000;
+    expect(breaker.state()).toBe('half_open');
+    expect(breaker.tryPrimary()).toBe(true);
+    expect(breaker.tryPrimary()).toBe(false);
+  });
+
+  it('closes when the probe succeeds', () => {
+    const breaker = createCircuitBreaker(config, now);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock = 30000;
+    breaker.tryPrimary();
+    breaker.recordSuccess();
+    expect(breaker.state()).toBe('closed');
+    expect(breaker.tryPrimary()).toBe(true);
+  });
+
+  it('restarts the cooldown when the probe fails', () => {
+    const breaker = createCircuitBreaker(config, now);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock = 30000;
+    breaker.tryPrimary();
+    breaker.recordFailure();
+    expect(breaker.state()).toBe('open');
+    clock = 59000;
+    expect(breaker.state()).toBe('open');
+    clock = 60000;
+    expect(breaker.tryPrimary()).toBe(true);
+  });
+
+  it('lets another probe through when the probe fails for an unrelated reason', () => {
+    const breaker = createCircuitBreaker(config, now);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    clock = 30000;
+    expect(breaker.tryPrimary()).toBe(true);
+    // The probe hit a 400, which callGemini neither counts for nor against the circuit
+    breaker.releaseProbe();
+    expect(breaker.state()).toBe('half_open');
+    expect(breaker.tryPrimary()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state()).toBe('closed');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Circuit breaker shared by the Gemini generation and File Search calls.
+ *
+ * Repeated quota (429) or 5xx errors open the circuit. While it is open,
+ * calls go to the secondary API key when one is configured, otherwise to
+ * getFallbackModel() on the primary key; with neither available they fail
+ * fast as quota errors. After the cooldown a single call probes the primary
+ * route: success closes the circuit, another failure keeps it open.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { getGeminiCircuitConfig, type GeminiCircuitConfig } from "../config/geminiCircuit";
+import { getFallbackModel, getProviderForModel } from "./modelRegistry";
+import { isQuotaError, isServerError, GeminiQuotaExceededError } from "../utils/geminiErrors";
+import { logDebug, logInfo, logWarn } from "../utils/logger";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  /** Whether this call may use the primary route; claims the probe when half-open */
+  tryPrimary(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** End a call whose error says nothing about capacity (400, network reset, abort) */
+  releaseProbe(): void;
+}
+
+export function createCircuitBreaker(
+  config: Pick<GeminiCircuitConfig, "failureThreshold" | "windowMs" | "cooldownMs">,
+  now: () => number = Date.now
+): CircuitBreaker {
+  let failures: number[] = [];
+  let openedAt: number | null = null;
+  let probeInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return now() - openedAt >= config.cooldownMs ? "half_open" : "open";
+  };
+
+  return {
+    state,
+    tryPrimary: () => {
+      const current = state();
+      if (current === "closed") return true;
+      if (current === "half_open" && !probeInFlight) {
+        probeInFlight = true;
+        return true;
+      }
+      return false;
+    },
+    recordSuccess: () => {
+      // Failures while closed age out of the window rather than reset, so
+      // intermittent quota errors still open the circuit
+      if (openedAt !== null) {
+        openedAt = null;
+        failures = [];
+      }
+      probeInFlight = false;
+    },
+    recordFailure: () => {
+      const at = now();
+      if (openedAt !== null) {
+        // A failed probe (or a call started before opening) restarts the cooldown
+        openedAt = at;
+        probeInFlight = false;
+        return;
+      }
+      failures = failures.filter((t) => at - t < config.windowMs);
+      failures.push(at);
+      if (failures.length >= config.failureThreshold) {
+        openedAt = at;
+        failures = [];
+      }
+    },
+    releaseProbe: () => {
+      // Leave the state as it is; the next call probes again
+      probeInFlight = false;
+    },
+  };
+}
+
+export interface GeminiCallOptions {
+  /** Pipeline stage, for logs */
+  stage?: string;
+  /**
+   * File Search stores belong to the primary key's project, so File Search
+   * calls only fall back to another model, never to the secondary key
+   */
+  allowSecondaryKey?: boolean;
+}
+
+const config = getGeminiCircuitConfig();
+const breaker = createCircuitBreaker(config);
+
+const primaryClient = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+const secondaryClient = config.secondaryApiKey ? new GoogleGenAI({ apiKey: config.secondaryApiKey }) : null;
+
+export function getGeminiCircuitState(): CircuitState {
+  return breaker.state();
+}
+
+/**
+ * Run a Gemini call through the circuit breaker. `call` receives the client
+ * and model to use, which differ from the primary ones while the circuit is
+ * open.
+ */
+export async function callGemini<T>(
+  model: string,
+  call: (client: GoogleGenAI, model: string) => Promise<T>,
+  options: GeminiCallOptions = {}
+): Promise<T> {
+  const { stage = "gemini", allowSecondaryKey = true } = options;
+
+  if (breaker.tryPrimary()) {
+    const before = breaker.state();
+    try {
+      const result = await call(primaryClient, model);
+      if (before !== "closed") {
+        logInfo("gemini_circuit_closed", { stage: "gemini_circuit", callStage: stage, model });
+      }
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isQuotaError(error) || isServerError(error)) {
+        breaker.recordFailure();
+        if (before === "closed" && breaker.state() !== "closed") {
+          logWarn("gemini_circuit_opened", {
+            stage: "gemini_circuit",
+            callStage: stage,
+            model,
+            cooldownMs: config.cooldownMs,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      } else {
+        breaker.releaseProbe();
+      }
+      throw error;
+    }
+  }
+
+  if (allowSecondaryKey && secondaryClient) {
+    logDebug("gemini_circuit_rerouted", { stage: "gemini_circuit", callStage: stage, model, route: "secondary_key" });
+    return call(secondaryClient, model);
+  }
+
+  const fallbackModel = getFallbackModel();
+  if (fallbackModel !== model && getProviderForModel(fallbackModel) === "gemini") {
+    logDebug("gemini_circuit_rerouted", {
+      stage: "gemini_circuit",
+      callStage: stage,
+      model,
+      route: "fallback_model",
+      fallbackModel,
+    });
+    return call(primaryClient, fallbackModel);
+  }
+
+  throw new GeminiQuotaExceededError(`Gemini circuit open; no fallback for ${model}`);
+}
@@ -6,8 +6,14 @@
  * - High-quality models (gemini-3-flash-preview) for final synthesis
  * - Escalation rules for complex/high-impact questions
  * - Safe fallbacks on errors
+ *
+ * Model names also decide the provider: "gemini-*" names go to Gemini and
+ * anything else to the OpenAI-compatible provider. With LLM_PROVIDER=openai
+ * the stage defaults become OPENAI_COMPAT_MODEL(_HIGH_QUALITY).
  */
 
+import { getLlmConfig, type LlmProviderName } from "../config/llm";
+
 export type ModelStage = 
   | 'router'
   | 'retrievalPlanner'
@@ -17,6 +23,9 @@ export type ModelStage =
   | 'critic'
   | 'evidenceGate'
   | 'followups'
+  | 'sessionTitle'
+  | 'sessionAnalytics'
+  | 'metadataExtraction'
   | 'degraded';
 
 export interface ModelContext {
@@ -28,6 +37,7 @@ export interface ModelContext {
 
 export interface ModelSelection {
   model: string;
+  provider: LlmProviderName;
   wasEscalated: boolean;
   escalationReason?: string;
 }
@@ -46,22 +56,34 @@ const ENV_OVERRIDES: Record<ModelStage, string> = {
   critic: 'MODEL_CRITIC',
   evidenceGate: 'MODEL_EVIDENCE_GATE',
   followups: 'MODEL_FOLLOWUPS',
+  sessionTitle: 'MODEL_SESSION_TITLE',
+  sessionAnalytics: 'MODEL_SESSION_ANALYTICS',
+  metadataExtraction: 'MODEL_METADATA_EXTRACTION',
   degraded: 'MODEL_DEGRADED',
 };
 
 const SIMPLE_ESCALATE_ENV = 'MODEL_SIMPLE_ESCALATE';
 
-const DEFAULT_MODELS: Record<ModelStage, string> = {
-  router: MODELS.FAST,
-  retrievalPlanner: MODELS.FAST,
-  simpleAnswer: MODELS.FAST,
-  complexSummary: MODELS.FAST,
-  complexSynthesis: MODELS.FAST,
-  critic: MODELS.FAST,
-  evidenceGate: MODELS.FAST,
-  followups: MODELS.FAST,
-  degraded: MODELS.FAST,
-};
+/**
+ * Fast / high-quality model pair for the configured default provider
+ */
+function getBaseModels(): { fast: string; highQuality: string } {
+  const config = getLlmConfig();
+  if (config.provider === 'openai') {
+    return {
+      fast: config.openaiCompatible.model,
+      highQuality: config.openaiCompatible.highQualityModel,
+    };
+  }
+  return { fast: MODELS.FAST, highQuality: MODELS.HIGH_QUALITY };
+}
+
+/**
+ * Provider that serves a model name
+ */
+export function getProviderForModel(model: string): LlmProviderName {
+  return /^(models\/)?gemini/i.test(model) ? 'gemini' : 'openai';
+}
 
 function getEnvOverride(stage: ModelStage): string | undefined {
   const envKey = ENV_OVERRIDES[stage];
@@ -69,7 +91,7 @@ function getEnvOverride(stage: ModelStage): string | undefined {
 }
 
 function getSimpleEscalationModel(): string {
-  return process.env[SIMPLE_ESCALATE_ENV] || MODELS.HIGH_QUALITY;
+  return process.env[SIMPLE_ESCALATE_ENV] || getBaseModels().highQuality;
 }
 
 /**
@@ -99,6 +121,7 @@ export function getModelForStage(stage: ModelStage, ctx: ModelContext = {}): Mod
   if (envOverride) {
     return {
       model: envOverride,
+      provider: getProviderForModel(envOverride),
       wasEscalated: false,
     };
   }
@@ -106,16 +129,21 @@ export function getModelForStage(stage: ModelStage, ctx: ModelContext = {}): Mod
   if (stage === 'simpleAnswer') {
     const { escalate, reason } = shouldEscalateSimpleAnswer(ctx);
     if (escalate) {
+      const model = getSimpleEscalationModel();
       return {
-        model: getSimpleEscalationModel(),
+        model,
+        provider: getProviderForModel(model),
         wasEscalated: true,
         escalationReason: reason,
       };
     }
   }
 
+  // Every stage defaults to the fast model
+  const model = getBaseModels().fast;
   return {
-    model: DEFAULT_MODELS[stage],
+    model,
+    provider: getProviderForModel(model),
     wasEscalated: false,
   };
 }
@@ -124,7 +152,7 @@ export function getModelForStage(stage: ModelStage, ctx: ModelContext = {}): Mod
  * Get the fallback model for retry scenarios
  */
 export function getFallbackModel(): string {
-  return process.env['MODEL_DEGRADED'] || MODELS.FAST;
+  return process.env['MODEL_DEGRADED'] || getBaseModels().fast;
 }
 
 /**
@@ -0,0 +1,108 @@
+/**
+ * Prompt registry: which version of a prompt a request uses.
+ *
+ * Live versions (traffic weight > 0) of a key split sessions between them by
+ * weight, deterministically per session. A key with no live versions, or a
+ * failed lookup, falls back to the built-in prompt as version 0.
+ */
+
+import { storage } from "../storage";
+import { logWarn } from "../utils/logger";
+import { BUILTIN_PROMPTS, pickPromptVersion, renderPromptTemplate } from "./promptTemplates";
+import {
+  BUILTIN_PROMPT_VERSION,
+  type PromptKey,
+  type PromptVersionRecord,
+} from "@shared/promptTemplates";
+import type { PromptTemplate } from "@shared/schema";
+
+const LIVE_PROMPTS_TTL_MS = 60 * 1000;
+
+let livePromptsCache: { templates: PromptTemplate[]; loadedAt: number } | null = null;
+
+export interface ResolvedPrompt {
+  key: PromptKey;
+  version: number;
+  text: string;
+}
+
+export interface ResolvePromptOptions {
+  /** Session the request belongs to; keeps the assignment stable across turns */
+  sessionId?: string;
+  variables?: Record<string, string>;
+  /** Record of versions used for the current message; updated in place */
+  record?: PromptVersionRecord;
+}
+
+/**
+ * Live versions of every key, cached briefly since each LLM stage looks
+ * them up.
+ */
+async function getLivePrompts(): Promise<PromptTemplate[]> {
+  if (livePromptsCache && Date.now() - livePromptsCache.loadedAt < LIVE_PROMPTS_TTL_MS) {
+    return livePromptsCache.templates;
+  }
+  try {
+    const templates = await storage.getLivePromptTemplates();
+    livePromptsCache = { templates, loadedAt: Date.now() };
+    return templates;
+  } catch (error) {
+    logWarn("prompt_registry_lookup_failed", {
+      stage: "prompt_registry",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Serve built-in prompts until the next refresh instead of retrying per call
+    livePromptsCache = { templates: [], loadedAt: Date.now() };
+    return [];
+  }
+}
+
+/**
+ * Drop cached versions so a weight change applies to the next request.
+ */
+export function invalidatePromptCache(): void {
+  livePromptsCache = null;
+}
+
+export async function resolvePrompt(
+  key: PromptKey,
+  options: ResolvePromptOptions = {}
+): Promise<ResolvedPrompt> {
+  const { sessionId = "", variables = {}, record } = options;
+
+  const live = (await getLivePrompts()).filter((t) => t.key === key);
+  const chosen = pickPromptVersion(key, sessionId, live);
+
+  const version = chosen ? chosen.version : BUILTIN_PROMPT_VERSION;
+  const template = chosen ? chosen.template : BUILTIN_PROMPTS[key];
+
+  if (record) {
+    record[key] = version;
+  }
+
+  return { key, version, text: renderPromptTemplate(template, variables) };
+}
+
+/**
+ * Versions a session is assigned for the given keys, without rendering them.
+ * Lets an answer be matched to the prompts it would be produced with.
+ */
+export async function getAssignedPromptVersions(
+  keys: readonly PromptKey[],
+  sessionId: string
+): Promise<PromptVersionRecord> {
+  const live = await getLivePrompts();
+  const assigned: PromptVersionRecord = {};
+  for (const key of keys) {
+    const chosen = pickPromptVersion(key, sessionId, live.filter((t) => t.key === key));
+    assigned[key] = chosen ? chosen.version : BUILTIN_PROMPT_VERSION;
+  }
+  return assigned;
+}
+
+/**
+ * Metadata for llm_cost_logs identifying the prompt behind a call.
+ */
+export function promptLogMetadata(prompt: ResolvedPrompt): Record<string, unknown> {
+  return { promptKey: prompt.key, promptVersion: prompt.version };
+}
@@ -0,0 +1,59 @@
+import {
+  BUILTIN_PROMPTS,
+  getTemplatePlaceholders,
+  pickPromptVersion,
+  previewPromptTemplate,
+  renderPromptTemplate,
+} from './promptTemplates';
+import { PROMPT_KEYS, PROMPT_VARIABLES } from '@shared/promptTemplates';
+
+describe('renderPromptTemplate', () => {
+  it('fills placeholders and leaves unknown ones as written', () => {
+    const text = renderPromptTemplate('Hi {{name}}, {{ missing }} $& {{name}}', { name: 'Ossipee' });
+    expect(text).toBe('Hi Ossipee, {{ missing }} $& Ossipee');
+  });
+
+  it('built-in prompts only use their own placeholders', () => {
+    for (const key of PROMPT_KEYS) {
+      const used = getTemplatePlaceholders(BUILTIN_PROMPTS[key]);
+      expect(used.sort()).toEqual([...PROMPT_VARIABLES[key]].sort());
+    }
+  });
+});
+
+describe('previewPromptTemplate', () => {
+  it('reports placeholders the prompt does not fill in', () => {
+    const result = previewPromptTemplate('chatAnalytics', 'Review {{transcrpt}}');
+    expect(result.unknownVariables).toEqual(['transcrpt']);
+    expect(result.unusedVariables).toEqual(['transcript']);
+  });
+});
+
+describe('pickPromptVersion', () => {
+  const versions = [
+    { version: 1, trafficWeight: 50 },
+    { version: 2, trafficWeight: 50 },
+    { version: 3, trafficWeight: 0 },
+  ];
+
+  it('returns null when nothing is live', () => {
+    expect(pickPromptVersion('planner', 'session-1', [{ version: 1, trafficWeight: 0 }])).toBeNull();
+  });
+
+  it('keeps a session on the same version', () => {
+    const first = pickPromptVersion('synthesis', 'session-1', versions);
+    for (let i = 0; i < 5; i++) {
+      expect(pickPromptVersion('synthesis', 'session-1', versions)).toBe(first);
+    }
+  });
+
+  it('splits sessions by weight and never picks a zero-weight version', () => {
+    const counts: Record<number, number> = { 1: 0, 2: 0, 3: 0 };
+    for (let i = 0; i < 2000; i++) {
+      counts[pickPromptVersion('synthesis', `session-${i}`, versions)!.version]++;
+    }
+    expect(counts[3]).toBe(0);
+    expect(counts[1]).toBeGreaterThan(800);
+    expect(counts[2]).toBeGreaterThan(800);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Gemini provider - wraps @google/genai generateContent for the pipeline stages.
+ */
+
+import type { GenerateContentConfig } from "@google/genai";
+import { extractTokenCounts } from "../callLLMWithLogging";
+import { callGemini } from "../geminiCircuit";
+import { wantsJson, type LLMGenerateRequest, type LLMGenerateResponse, type LLMProvider } from "./types";
+
+function buildRequest(request: LLMGenerateRequest, model: string) {
+  const config: GenerateContentConfig = {};
+  if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+  if (request.temperature !== undefined) config.temperature = request.temperature;
+  if (request.maxOutputTokens !== undefined) config.maxOutputTokens = request.maxOutputTokens;
+  if (wantsJson(request)) config.responseMimeType = "application/json";
+  if (request.responseSchema) config.responseJsonSchema = request.responseSchema;
+
+  return {
+    model,
+    contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+    config,
+  };
+}
+
+// While the circuit is open the call may run on a fallback model; the
+// response reports the model that actually answered
+async function generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+  return callGemini(request.model, async (ai, model) => {
+    const response = await ai.models.generateContent(buildRequest(request, model));
+    const tokens = extractTokenCounts(response);
+
+    return {
+      text: response.text || "",
+      tokensIn: tokens.tokensIn,
+      tokensOut: tokens.tokensOut,
+      provider: "gemini",
+      model,
+    };
+  });
+}
+
+async function generateStream(
+  request: LLMGenerateRequest,
+  onToken: (text: string) => void
+): Promise<LLMGenerateResponse> {
+  return callGemini(request.model, async (ai, model) => {
+    const stream = await ai.models.generateContentStream(buildRequest(request, model));
+    let text = "";
+    let tokens = { tokensIn: 0, tokensOut: 0 };
+
+    while (true) {
+      const { value: chunk, done } = await stream.next();
+      if (done) break;
+
+      const delta = chunk.text || "";
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      // Usage arrives on the final chunk
+      if (chunk.usageMetadata) {
+        tokens = extractTokenCounts(chunk);
+      }
+    }
+
+    return { text, ...tokens, provider: "gemini" as const, model };
+  });
+}
+
+export const geminiProvider: LLMProvider = {
+  name: "gemini",
+  generate,
+  generateStream,
+};
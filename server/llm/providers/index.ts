@@ -0,0 +1,47 @@
+/**
+ * LLM provider layer
+ *
+ * Pipeline stages call generateContent / generateContentStream with the model
+ * name returned by getModelForStage; the provider is resolved from that name
+ * (see getProviderForModel in modelRegistry.ts).
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { getProviderForModel } from "../modelRegistry";
+import { geminiProvider } from "./gemini";
+import { openAICompatibleProvider } from "./openaiCompatible";
+import type { LLMGenerateRequest, LLMGenerateResponse, LLMProvider } from "./types";
+
+export type { LLMGenerateRequest, LLMGenerateResponse, LLMProvider } from "./types";
+export { OpenAICompatibleError } from "./openaiCompatible";
+
+/**
+ * Replaces provider resolution for every call, e.g. with the eval harness's
+ * record/replay layer.
+ */
+export type LLMCallHandler = Pick<LLMProvider, "generate" | "generateStream">;
+
+const callHandlerScope = new AsyncLocalStorage<LLMCallHandler>();
+
+export function getLLMProvider(model: string): LLMProvider {
+  return getProviderForModel(model) === "openai" ? openAICompatibleProvider : geminiProvider;
+}
+
+/**
+ * Route generation inside `run` through `handler`. Calls made outside it,
+ * such as concurrent chat requests, keep using the real providers.
+ */
+export function runWithLLMCallHandler<T>(handler: LLMCallHandler, run: () => Promise<T>): Promise<T> {
+  return callHandlerScope.run(handler, run);
+}
+
+export function generateContent(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+  return (callHandlerScope.getStore() ?? getLLMProvider(request.model)).generate(request);
+}
+
+export function generateContentStream(
+  request: LLMGenerateRequest,
+  onToken: (text: string) => void
+): Promise<LLMGenerateResponse> {
+  return (callHandlerScope.getStore() ?? getLLMProvider(request.model)).generateStream(request, onToken);
+}
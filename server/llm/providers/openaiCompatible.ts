@@ -0,0 +1,171 @@
+/**
+ * OpenAI-compatible provider
+ *
+ * Talks to any server exposing POST {baseUrl}/chat/completions (llama.cpp,
+ * Ollama, vLLM, OpenAI itself). Used as a local stand-in for Gemini in
+ * development and offline evaluation.
+ */
+
+import { getLlmConfig } from "../../config/llm";
+import { wantsJson, type LLMGenerateRequest, type LLMGenerateResponse, type LLMProvider } from "./types";
+
+/**
+ * Non-2xx response from the server. `code` carries the HTTP status so
+ * isQuotaError treats a 429 like a Gemini RESOURCE_EXHAUSTED.
+ */
+export class OpenAICompatibleError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = "OpenAICompatibleError";
+    this.code = code;
+  }
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+function buildBody(request: LLMGenerateRequest, stream: boolean): Record<string, unknown> {
+  const messages: { role: "system" | "user"; content: string }[] = [];
+  if (request.systemInstruction) {
+    messages.push({ role: "system", content: request.systemInstruction });
+  }
+  messages.push({ role: "user", content: request.prompt });
+
+  const body: Record<string, unknown> = { model: request.model, messages, stream };
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.maxOutputTokens !== undefined) body.max_tokens = request.maxOutputTokens;
+
+  if (request.responseSchema) {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: { name: "response", schema: request.responseSchema },
+    };
+  } else if (wantsJson(request)) {
+    body.response_format = { type: "json_object" };
+  }
+
+  if (stream) {
+    body.stream_options = { include_usage: true };
+  }
+  return body;
+}
+
+async function postChatCompletion(request: LLMGenerateRequest, stream: boolean): Promise<Response> {
+  const { baseUrl, apiKey, timeoutMs } = getLlmConfig().openaiCompatible;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(buildBody(request, stream)),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new OpenAICompatibleError(
+        response.status,
+        `OpenAI-compatible request failed (${response.status}): ${detail.slice(0, 500)}`
+      );
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new OpenAICompatibleError(504, `OpenAI-compatible request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    // For streams the timer only bounds time-to-first-byte
+    clearTimeout(timer);
+  }
+}
+
+async function generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+  const response = await postChatCompletion(request, false);
+  const data = await response.json() as ChatCompletionResponse;
+
+  return {
+    text: data.choices?.[0]?.message?.content || "",
+    tokensIn: data.usage?.prompt_tokens || 0,
+    tokensOut: data.usage?.completion_tokens || 0,
+    provider: "openai",
+    model: request.model,
+  };
+}
+
+async function generateStream(
+  request: LLMGenerateRequest,
+  onToken: (text: string) => void
+): Promise<LLMGenerateResponse> {
+  const response = await postChatCompletion(request, true);
+  if (!response.body) {
+    throw new OpenAICompatibleError(502, "OpenAI-compatible stream returned no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: ChatCompletionUsage | undefined;
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const payload = trimmed.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+
+    const chunk = JSON.parse(payload) as ChatCompletionChunk;
+    const delta = chunk.choices?.[0]?.delta?.content || "";
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return {
+    text,
+    tokensIn: usage?.prompt_tokens || 0,
+    tokensOut: usage?.completion_tokens || 0,
+    provider: "openai",
+    model: request.model,
+  };
+}
+
+export const openAICompatibleProvider: LLMProvider = {
+  name: "openai",
+  generate,
+  generateStream,
+};
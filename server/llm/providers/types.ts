@@ -0,0 +1,40 @@
+import type { LLMCallResult } from "../callLLMWithLogging";
+import type { LlmProviderName } from "../../config/llm";
+
+export type { LlmProviderName };
+
+/**
+ * A single-turn generation request. Every pipeline stage sends one user
+ * prompt plus a system instruction, so that is all providers need to map.
+ */
+export interface LLMGenerateRequest {
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** "json" asks the provider for a bare JSON object instead of prose */
+  responseFormat?: "text" | "json";
+  /** Optional JSON Schema the object must satisfy; implies responseFormat "json" */
+  responseSchema?: Record<string, unknown>;
+}
+
+/**
+ * Text plus token counts. Shaped as an LLMCallResult so it can be passed
+ * straight to logLLMCall.
+ */
+export interface LLMGenerateResponse extends LLMCallResult {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: LlmProviderName;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse>;
+  /** Streams text deltas to `onToken`; resolves with the full text and final usage */
+  generateStream(request: LLMGenerateRequest, onToken: (text: string) => void): Promise<LLMGenerateResponse>;
+}
+
+export function wantsJson(request: LLMGenerateRequest): boolean {
+  return request.responseFormat === "json" || !!request.responseSchema;
+}
@@ -41,6 +41,20 @@ export const chatMessageLimiter = rateLimit({
   handler: rateLimitHandler,
 });
 
+/**
+ * Chat attachment limiter - attachments may be OCR'd inline, which is CPU-bound
+ * 5 messages with attachments per minute per user/IP
+ */
+export const chatAttachmentLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 5,
+  message: { message: "Too many attachments. Please wait a moment before sending another file." },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator,
+  handler: rateLimitHandler,
+});
+
 /**
  * Chat session creation limiter
  * 10 new sessions per minute per user/IP
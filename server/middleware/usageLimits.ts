@@ -1,11 +1,27 @@
 import { Response, NextFunction } from "express";
 import { getDailyCost } from "../llm/callLLMWithLogging";
-import type { IdentityRequest } from "../auth/types";
+import type { ActorContext, IdentityRequest } from "../auth/types";
 
 const DAILY_LIMIT_ANON = 0.10; // $0.10 per day for anonymous users
 const DAILY_LIMIT_FREE_USER = 0.50; // $0.50 per day for free users
 const DAILY_LIMIT_PAYING_USER = 10.00; // $10.00 per day for paying users
 
+export function getDailyLimit(actor: ActorContext): { limit: number; tierName: "anonymous" | "free" | "paying" } {
+  if (actor.actorType === "user" && actor.user) {
+    return actor.user.isPaying
+      ? { limit: DAILY_LIMIT_PAYING_USER, tierName: "paying" }
+      : { limit: DAILY_LIMIT_FREE_USER, tierName: "free" };
+  }
+  return { limit: DAILY_LIMIT_ANON, tierName: "anonymous" };
+}
+
+/**
+ * For work started outside a request, such as queued background jobs
+ */
+export async function hasReachedDailyLimit(actor: ActorContext): Promise<boolean> {
+  return (await getDailyCost(actor)) >= getDailyLimit(actor).limit;
+}
+
 export async function checkUsageLimits(
   req: IdentityRequest,
   res: Response,
@@ -19,22 +35,7 @@ export async function checkUsageLimits(
     }
     
     const dailyCost = await getDailyCost(actor);
-    
-    let limit: number;
-    let tierName: string;
-    
-    if (actor.actorType === "user" && actor.user) {
-      if (actor.user.isPaying) {
-        limit = DAILY_LIMIT_PAYING_USER;
-        tierName = "paying";
-      } else {
-        limit = DAILY_LIMIT_FREE_USER;
-        tierName = "free";
-      }
-    } else {
-      limit = DAILY_LIMIT_ANON;
-      tierName = "anonymous";
-    }
+    const { limit, tierName } = getDailyLimit(actor);
     
     if (dailyCost >= limit) {
       res.status(429).json({
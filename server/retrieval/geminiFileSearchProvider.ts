@@ -0,0 +1,172 @@
+/**
+ * Gemini File Search retrieval provider
+ *
+ * Runs each lane query against the town's File Search store and turns the
+ * grounding metadata into LaneChunks. Every chunk of a call shares the same
+ * generated summary as its content; the documents are what differ.
+ *
+ * File Search cannot filter on our version dates, so a date range is stated
+ * in the query and then enforced on the grounded documents afterwards.
+ */
+
+import { getOrCreateFileSearchStoreId } from "../gemini-store";
+import { getStoreIdForTown } from "../services/storeResolver";
+import { logError } from "../utils/logger";
+import { logFileSearchRequest, logFileSearchResponse, extractGroundingInfoForLogging, extractRetrievalDocCount } from "../utils/fileSearchLogging";
+import { logLlmError } from "../utils/llmLogging";
+import { isQuotaError, GeminiQuotaExceededError } from "../utils/geminiErrors";
+import { getModelForStage } from "../llm/modelRegistry";
+import { callGemini } from "../llm/geminiCircuit";
+import { storage } from "../storage";
+import { isWithinDateRange } from "../chatV2/timeRange";
+import type { LaneChunk } from "../chatV2/twoLaneRetrieve";
+import type { DateRange } from "../chatV2/types";
+import { emptyLaneResult, recencyWeight, type LaneRetrievalRequest, type LaneRetrievalResult, type RetrievalProvider } from "./types";
+
+async function resolveStoreId(townPreference?: string | null): Promise<string> {
+  const townStoreId = await getStoreIdForTown(townPreference || "");
+  return townStoreId || await getOrCreateFileSearchStoreId();
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Drop grounded documents dated outside the range and, when asked, order the
+ * rest newest first. Names without a known version are kept in place.
+ */
+async function applyDateConstraints(
+  documentNames: string[],
+  dateRange: DateRange | undefined,
+  preferRecent: boolean
+): Promise<string[]> {
+  if (!dateRange && !preferRecent) return documentNames;
+
+  const versions = await storage.getDocumentVersionsByFileSearchNames(documentNames);
+  const versionByName = new Map(versions.map((v) => [v.fileSearchDocumentName, v]));
+
+  const kept = documentNames.filter((name) => {
+    const version = versionByName.get(name);
+    return !dateRange || !version || isWithinDateRange(version, dateRange);
+  });
+
+  if (!preferRecent) return kept;
+
+  const now = new Date();
+  const weighted = kept.map((name, idx) => ({
+    name,
+    score: (1 - idx * 0.05) * recencyWeight(versionByName.get(name)?.meetingDate ?? null, now),
+  }));
+  weighted.sort((a, b) => b.score - a.score);
+  return weighted.map((w) => w.name);
+}
+
+async function retrieveLane(request: LaneRetrievalRequest): Promise<LaneRetrievalResult> {
+  const { lane, maxResults, townPreference, dateRange, preferRecent, logContext } = request;
+  const query = dateRange
+    ? `${request.query}\n\nOnly use documents dated ${dateRange.label} (${formatDay(dateRange.start)} to ${formatDay(new Date(dateRange.end.getTime() - 1))}).`
+    : request.query;
+
+  const storeId = await resolveStoreId(townPreference);
+  if (!storeId) {
+    logError("two_lane_no_store", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: `twoLane_${lane}`,
+      reason: "No file search store available",
+      townPreference,
+    });
+    return emptyLaneResult();
+  }
+
+  const { model: retrievalModel } = getModelForStage('complexSummary');
+  
+  const systemPrompt = lane === "local"
+    ? `You are a document retrieval assistant. Extract relevant information from municipal documents. Focus on town-specific facts, decisions, votes, dates, amounts, and board actions. Be thorough and include specific details.`
+    : `You are a document retrieval assistant. Extract relevant information about New Hampshire state laws, RSA statutes, administrative rules, and statewide municipal guidance. Focus on legal authority, definitions, processes, and mechanisms.`;
+  
+  const startTime = Date.now();
+  
+  logFileSearchRequest({
+    requestId: logContext?.requestId,
+    sessionId: logContext?.sessionId,
+    stage: `twoLane_${lane}`,
+    storeId,
+    queryText: query,
+    filters: { lane, dateRange: dateRange?.label, preferRecent: !!preferRecent },
+  });
+  
+  try {
+    const response = await callGemini(
+      retrievalModel,
+      (ai, model) => ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: [{ text: query }] }],
+        config: {
+          systemInstruction: systemPrompt,
+          tools: [
+            {
+              fileSearch: {
+                fileSearchStoreNames: [storeId],
+              },
+            } as any,
+          ],
+        },
+      }),
+      { stage: `twoLane_${lane}`, allowSecondaryKey: false }
+    );
+    
+    const rawContent = response.text || "";
+    const durationMs = Date.now() - startTime;
+    const retrievalResult = extractRetrievalDocCount(response);
+    const groundingInfo = extractGroundingInfoForLogging(response);
+    
+    logFileSearchResponse({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: `twoLane_${lane}`,
+      results: groundingInfo,
+      responseText: rawContent.slice(0, 500),
+      durationMs,
+    });
+    
+    const documentNames = await applyDateConstraints(retrievalResult.documentNames, dateRange, !!preferRecent);
+
+    const chunks: LaneChunk[] = documentNames.slice(0, maxResults).map((docName, idx) => ({
+      docId: `${lane}_${idx}_${docName.slice(0, 20)}`,
+      title: docName,
+      content: rawContent,
+      lane,
+      score: 1 - (idx * 0.05),
+      documentNames: [docName],
+    }));
+    
+    return {
+      chunks,
+      documentNames,
+      rawContent,
+    };
+  } catch (error) {
+    if (isQuotaError(error)) {
+      throw new GeminiQuotaExceededError(
+        error instanceof Error ? error.message : "Gemini quota exceeded in two-lane retrieval"
+      );
+    }
+    
+    logLlmError({
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: `twoLane_${lane}`,
+      model: retrievalModel,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    
+    return emptyLaneResult();
+  }
+}
+
+export const geminiFileSearchProvider: RetrievalProvider = {
+  name: "gemini",
+  retrieveLane,
+};
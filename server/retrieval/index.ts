@@ -0,0 +1,34 @@
+/**
+ * Retrieval provider selection
+ *
+ * RETRIEVAL_PROVIDER picks the backend for both lanes (see config/retrieval.ts).
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { getRetrievalConfig } from "../config/retrieval";
+import { geminiFileSearchProvider } from "./geminiFileSearchProvider";
+import { localFullTextProvider } from "./localFullTextProvider";
+import type { RetrievalProvider } from "./types";
+
+export type { RetrievalProvider, LaneRetrievalRequest, LaneRetrievalResult } from "./types";
+
+const providerScope = new AsyncLocalStorage<RetrievalProvider>();
+
+/**
+ * Provider configured for this environment, ignoring any override.
+ */
+export function getConfiguredRetrievalProvider(): RetrievalProvider {
+  return getRetrievalConfig().provider === "local" ? localFullTextProvider : geminiFileSearchProvider;
+}
+
+export function getRetrievalProvider(): RetrievalProvider {
+  return providerScope.getStore() ?? getConfiguredRetrievalProvider();
+}
+
+/**
+ * Substitute a provider (e.g. eval record/replay) for retrieval inside `run`
+ * only.
+ */
+export function runWithRetrievalProvider<T>(provider: RetrievalProvider, run: () => Promise<T>): Promise<T> {
+  return providerScope.run(provider, run);
+}
@@ -0,0 +1,134 @@
+/**
+ * Local full-text retrieval provider
+ *
+ * Ranks chunks from the document_chunks table with Postgres full-text search.
+ * The local lane searches the preferred town's documents and the state lane
+ * searches "statewide" ones. Board and category filters are applied first and
+ * dropped when they leave nothing, mirroring how the File Search lanes treat
+ * them as hints rather than hard constraints. A date range is a hard
+ * constraint and survives that relaxation.
+ */
+
+import { storage } from "../storage";
+import { logDebug, logError } from "../utils/logger";
+import type { LaneChunk } from "../chatV2/twoLaneRetrieve";
+import type { DocumentChunkSearchResult } from "../storage/documentChunks";
+import { emptyLaneResult, recencyWeight, type LaneRetrievalRequest, type LaneRetrievalResult, type RetrievalProvider } from "./types";
+
+const MAX_QUERY_TERMS = 24;
+const MIN_TERM_LENGTH = 3;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had", "her", "was", "one",
+  "our", "out", "has", "have", "how", "what", "when", "where", "which", "who", "why", "will", "with",
+  "does", "did", "this", "that", "there", "their", "they", "them", "then", "than", "from", "into",
+  "about", "would", "could", "should", "town", "please", "tell",
+]);
+
+/**
+ * OR-joined tsquery over the distinct content words of a question. Terms are
+ * reduced to [a-z0-9] so nothing user-supplied reaches to_tsquery syntax.
+ */
+export function buildTsQuery(text: string): string | null {
+  const terms: string[] = [];
+  text.toLowerCase().split(/[^a-z0-9]+/).forEach((term) => {
+    const isNumber = /^\d+$/.test(term);
+    if (!term || (!isNumber && term.length < MIN_TERM_LENGTH) || STOPWORDS.has(term)) return;
+    if (!terms.includes(term)) terms.push(term);
+  });
+  if (terms.length === 0) return null;
+  return terms.slice(0, MAX_QUERY_TERMS).join(" | ");
+}
+
+function toLaneChunks(
+  results: DocumentChunkSearchResult[],
+  lane: "local" | "state",
+  preferRecent: boolean,
+  maxResults: number
+): LaneChunk[] {
+  const topRank = results.length > 0 ? results[0].rank : 0;
+  const now = new Date();
+  const chunks = results.map((result) => {
+    const documentName = result.fileSearchDocumentName || `documentVersions/${result.chunk.documentVersionId}`;
+    const textScore = topRank > 0 ? result.rank / topRank : 0;
+    return {
+      docId: `local_${result.chunk.id}`,
+      title: result.canonicalTitle,
+      content: result.chunk.content,
+      lane,
+      score: preferRecent ? textScore * recencyWeight(result.meetingDate, now) : textScore,
+      documentNames: [documentName],
+    };
+  });
+  if (preferRecent) {
+    chunks.sort((a, b) => b.score - a.score);
+  }
+  return chunks.slice(0, maxResults);
+}
+
+async function retrieveLane(request: LaneRetrievalRequest): Promise<LaneRetrievalResult> {
+  const { query, keywords, lane, maxResults, townPreference, boards, categories, dateRange, preferRecent, logContext } = request;
+  const startTime = Date.now();
+
+  const tsQuery = buildTsQuery(keywords || query);
+  if (!tsQuery) return emptyLaneResult();
+
+  const town = lane === "state" ? "statewide" : townPreference || undefined;
+  const hasFilters = lane === "local" && ((boards?.length ?? 0) > 0 || (categories?.length ?? 0) > 0);
+  // Recency re-ranks a wider candidate pool so older top text matches can drop out
+  const limit = preferRecent ? maxResults * 2 : maxResults;
+
+  try {
+    let results = await storage.searchDocumentChunks({
+      tsQuery,
+      town,
+      boards: lane === "local" ? boards : undefined,
+      categories: lane === "local" ? categories : undefined,
+      dateRange,
+      limit,
+    });
+    let filtersRelaxed = false;
+
+    if (results.length === 0 && hasFilters) {
+      results = await storage.searchDocumentChunks({ tsQuery, town, dateRange, limit });
+      filtersRelaxed = true;
+    }
+
+    const chunks = toLaneChunks(results, lane, !!preferRecent, maxResults);
+    const documentNames = Array.from(new Set(chunks.map((c) => c.documentNames[0])));
+
+    logDebug("local_retrieval_complete", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: `twoLane_${lane}`,
+      town,
+      tsQuery: tsQuery.slice(0, 200),
+      chunkCount: chunks.length,
+      documentCount: documentNames.length,
+      filtersRelaxed,
+      dateRange: dateRange?.label,
+      preferRecent: !!preferRecent,
+      durationMs: Date.now() - startTime,
+    });
+
+    return {
+      chunks,
+      documentNames,
+      rawContent: chunks.map((c) => c.content).join("\n\n"),
+    };
+  } catch (error) {
+    logError("local_retrieval_error", {
+      requestId: logContext?.requestId,
+      sessionId: logContext?.sessionId,
+      stage: `twoLane_${lane}`,
+      town,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return emptyLaneResult();
+  }
+}
+
+export const localFullTextProvider: RetrievalProvider = {
+  name: "local",
+  retrieveLane,
+};
@@ -0,0 +1,141 @@
+/**
+ * Local retrieval index maintenance
+ *
+ * Splits a version's best available text (OCR when completed, otherwise the
+ * extracted preview) into overlapping, page-aware chunks for the local
+ * full-text provider. Indexing runs regardless of the active provider so an
+ * environment can switch to "local" without a backfill.
+ *
+ * Every indexing path (new or superseding version, OCR text) goes through
+ * here, so it also bumps the town's corpus version to retire cached answers.
+ */
+
+import { storage } from "../storage";
+import { getRetrievalConfig } from "../config/retrieval";
+import { getDocumentText } from "../services/documentText";
+import { logInfo, logError } from "../utils/logger";
+import { bumpCorpusVersionForTown } from "../chatV2/answerCache";
+import type { InsertDocumentChunk } from "@shared/schema";
+import type { IndexableDocumentVersion } from "../storage/documentChunks";
+
+export interface PageChunk {
+  pageNumber: number; // 1-based
+  content: string;
+}
+
+/**
+ * Chunk each page on paragraph boundaries, hard-splitting paragraphs longer
+ * than `maxChars`. Consecutive chunks on a page share `overlapChars` of text
+ * so a sentence cut at a boundary is still searchable as a whole.
+ */
+export function chunkPages(pages: string[], maxChars: number, overlapChars: number): PageChunk[] {
+  const chunks: PageChunk[] = [];
+
+  pages.forEach((page, pageIdx) => {
+    const pieces: string[] = [];
+    page.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0).forEach((paragraph) => {
+      for (let start = 0; start < paragraph.length; start += maxChars) {
+        pieces.push(paragraph.slice(start, start + maxChars));
+      }
+    });
+
+    let current = "";
+    pieces.forEach((piece) => {
+      if (current && current.length + piece.length + 2 > maxChars) {
+        chunks.push({ pageNumber: pageIdx + 1, content: current });
+        const tail = overlapChars > 0 ? current.slice(-overlapChars) : "";
+        current = tail ? `${tail}\n\n${piece}` : piece;
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    });
+    if (current) {
+      chunks.push({ pageNumber: pageIdx + 1, content: current });
+    }
+  });
+
+  return chunks;
+}
+
+async function writeChunks(version: IndexableDocumentVersion): Promise<number> {
+  const { chunkMaxChars, chunkOverlapChars } = getRetrievalConfig();
+  const { pages } = getDocumentText(version.fileBlob);
+  const { town, board, category } = version.logicalDocument;
+
+  const chunks: InsertDocumentChunk[] = chunkPages(pages, chunkMaxChars, chunkOverlapChars).map((chunk, idx) => ({
+    documentVersionId: version.id,
+    chunkIndex: idx,
+    pageNumber: chunk.pageNumber,
+    content: chunk.content,
+    town,
+    board,
+    category,
+  }));
+
+  return storage.replaceDocumentChunks(version.id, chunks);
+}
+
+/**
+ * (Re)build the chunks of one document version. Failures are logged and
+ * reported as -1 so callers in the ingestion path never fail on indexing.
+ */
+export async function indexDocumentVersion(versionId: string): Promise<number> {
+  try {
+    const version = await storage.getIndexableDocumentVersion(versionId);
+    if (!version) return 0;
+
+    const chunkCount = await writeChunks(version);
+    logInfo("local_index_version", { versionId, chunkCount });
+    await bumpCorpusVersionForTown(version.logicalDocument.town);
+    return chunkCount;
+  } catch (error) {
+    logError("local_index_version_error", {
+      versionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return -1;
+  }
+}
+
+/**
+ * Re-chunk every version backed by a file blob, e.g. after OCR replaced its text.
+ */
+export async function reindexFileBlob(fileBlobId: string): Promise<void> {
+  try {
+    const versions = await storage.getIndexableVersionsByFileBlobId(fileBlobId);
+    for (const version of versions) {
+      const chunkCount = await writeChunks(version);
+      logInfo("local_index_version", { versionId: version.id, fileBlobId, chunkCount });
+      await bumpCorpusVersionForTown(version.logicalDocument.town);
+    }
+  } catch (error) {
+    logError("local_index_blob_error", {
+      fileBlobId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Re-chunk all current versions. Used by the admin rebuild endpoint.
+ */
+export async function rebuildLocalIndex(): Promise<{ versions: number; chunks: number; failed: number }> {
+  const versions = await storage.getCurrentIndexableVersions();
+  let chunks = 0;
+  let failed = 0;
+
+  for (const version of versions) {
+    try {
+      chunks += await writeChunks(version);
+    } catch (error) {
+      failed++;
+      logError("local_index_version_error", {
+        versionId: version.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logInfo("local_index_rebuilt", { versions: versions.length, chunks, failed });
+  return { versions: versions.length, chunks, failed };
+}
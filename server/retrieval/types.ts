@@ -0,0 +1,53 @@
+/**
+ * Retrieval provider contract shared by the local and state lanes.
+ *
+ * Both two-lane retrieval entry points call `retrieveLane` once per lane query,
+ * so a provider only has to turn one query into ranked LaneChunks.
+ */
+
+import type { LaneChunk } from "../chatV2/twoLaneRetrieve";
+import type { DateRange, PipelineLogContext } from "../chatV2/types";
+
+export interface LaneRetrievalRequest {
+  /** Full lane query, including any town/board/context decoration */
+  query: string;
+  /** Undecorated question text; keyword-based providers search on this when set */
+  keywords?: string;
+  lane: "local" | "state";
+  maxResults: number;
+  townPreference?: string | null;
+  boards?: string[];
+  categories?: string[];
+  /** Drop documents dated outside the window; undated documents are kept */
+  dateRange?: DateRange;
+  /** Rank newer meeting dates higher */
+  preferRecent?: boolean;
+  logContext?: PipelineLogContext;
+}
+
+export interface LaneRetrievalResult {
+  chunks: LaneChunk[];
+  documentNames: string[];
+  rawContent: string;
+}
+
+export interface RetrievalProvider {
+  name: string;
+  retrieveLane(request: LaneRetrievalRequest): Promise<LaneRetrievalResult>;
+}
+
+export function emptyLaneResult(): LaneRetrievalResult {
+  return { chunks: [], documentNames: [], rawContent: "" };
+}
+
+const RECENCY_DECAY_DAYS = 180;
+
+/**
+ * Score multiplier for recency boosting: 2x for a meeting held today, falling
+ * toward 1x as it ages. Undated documents are left at 1x.
+ */
+export function recencyWeight(meetingDate: Date | string | null, now: Date = new Date()): number {
+  if (!meetingDate) return 1;
+  const ageDays = Math.max(0, (now.getTime() - new Date(meetingDate).getTime()) / 86400000);
+  return 1 + 1 / (1 + ageDays / RECENCY_DECAY_DAYS);
+}
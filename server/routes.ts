@@ -9,23 +9,39 @@ import { logInfo, logError, logWarn } from "./utils/logger";
 import { authenticateAdmin, generateToken } from "./middleware/auth";
 import { requireRole } from "./auth/middleware";
 import type { IdentityRequest } from "./auth/types";
+import { toActorIdentifier, ownsSession } from "./auth/sessionAccess";
 import { uploadDocumentToFileStore, askQuestionWithFileSearch, reindexOcrDocument } from "./gemini-client";
 import { extractPreviewText, suggestMetadataFromContent } from "./bulk-upload-helper";
 import { processFile, formatDuplicateWarning } from "./services/fileProcessing";
 import { suggestMetadataFromPreview, validateMetadata, isValidNHTown } from "./services/metadataExtraction";
 import { insertDocumentSchema, insertChatMessageSchema, ALLOWED_CATEGORIES, documentMetadataSchema } from "@shared/schema";
 import type { DocumentMetadata, IngestionJobStatus, ActorIdentifier } from "@shared/schema";
+import { CHAT_SESSION_PAGE_SIZE, SESSION_TITLE_MAX_CHARS } from "@shared/chatSessions";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { z } from "zod";
 import { registerChatV2Routes } from "./chatV2/chatV2Route";
 import { registerAdminUsageRoutes } from "./routes/adminUsageRoutes";
 import { registerAdminChatAnalyticsRoutes } from "./routes/adminChatAnalyticsRoutes";
+import { registerDocumentViewerRoutes } from "./routes/documentViewerRoutes";
+import { registerChatFeedbackRoutes } from "./routes/chatFeedbackRoutes";
+import { registerChatExportRoutes } from "./routes/chatExportRoutes";
+import { registerChatShareRoutes } from "./routes/chatShareRoutes";
+import { registerAdminRsaRoutes } from "./routes/adminRsaRoutes";
+import { registerSessionSourceRoutes } from "./routes/sessionSourceRoutes";
+import { registerAdminPromptRoutes } from "./routes/adminPromptRoutes";
+import { registerQueuedQuestionRoutes } from "./routes/queuedQuestionRoutes";
+import { registerResearchJobRoutes } from "./routes/researchJobRoutes";
 import { chatConfig } from "./chatV2/chatConfig";
+import { canUseDeepResearch } from "./chatV2/deepResearch";
+import { fallbackSessionTitle } from "./chatV2/sessionTitle";
+import { buildBranchedMessages, findLatestLeaf, getActiveBranch, getBranchPath, getBranchSituationContext } from "./chatV2/conversationBranches";
 import { getOcrConfig } from "./config/ocr";
+import { indexDocumentVersion, rebuildLocalIndex } from "./retrieval/localIndex";
 import { blobStorage } from "./services/blobStorage";
 import { 
   chatMessageLimiter, 
+  generalApiLimiter,
   sessionCreationLimiter, 
   uploadLimiter 
 } from "./middleware/rateLimiter";
@@ -949,6 +965,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rebuild the local retrieval index (document_chunks) from all current versions
+  app.post("/api/admin/retrieval/rebuild-local-index", authenticateAdmin, async (req, res) => {
+    try {
+      const result = await rebuildLocalIndex();
+      res.json({
+        success: true,
+        message: `Indexed ${result.chunks} chunks from ${result.versions} documents. ${result.failed} failed.`,
+        ...result,
+      });
+    } catch (error) {
+      console.error("Error rebuilding local retrieval index:", error);
+      res.status(500).json({ message: "Failed to rebuild local retrieval index" });
+    }
+  });
+
   // Get single ingestion job with blob details
   app.get("/api/admin/ingestion/jobs/:jobId", authenticateAdmin, async (req, res) => {
     try {
@@ -1103,6 +1134,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       await storage.setCurrentVersion(job.documentId, version.id);
+      await indexDocumentVersion(version.id);
 
       await storage.updateIngestionJob(jobId, {
         status: "indexed",
@@ -1265,6 +1297,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
           
           await storage.setCurrentVersion(job!.documentId!, version.id);
+          await indexDocumentVersion(version.id);
           
           await storage.updateIngestionJob(job!.id, {
             status: "indexed",
@@ -1398,21 +1431,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // CHAT ROUTES
   // ============================================================
 
-  app.get("/api/chat/sessions", async (req, res) => {
+  // One page of the current actor's sessions (?page, ?archived=true, ?q= searches titles and messages)
+  app.get("/api/chat/sessions", async (req: IdentityRequest, res) => {
     try {
       const actor = req.actor;
-      const sessions = await storage.getChatSessions(actor ? {
-        type: actor.actorType === 'user' ? 'user' : 'anon',
-        userId: actor.userId,
-        anonId: actor.anonId,
-      } : undefined);
-      res.json(sessions);
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || CHAT_SESSION_PAGE_SIZE, 1), 100);
+      const search = typeof req.query.q === "string" ? req.query.q.slice(0, 200) : "";
+
+      const result = await storage.getChatSessionsPage(actor ? toActorIdentifier(actor) : undefined, {
+        page,
+        pageSize,
+        archived: req.query.archived === "true",
+        search,
+      });
+      res.json(result);
     } catch (error) {
       console.error("Error fetching sessions:", error);
       res.status(500).json({ message: "Failed to fetch sessions" });
     }
   });
 
+  // Rename and/or archive a session
+  app.patch("/api/chat/sessions/:id", generalApiLimiter, async (req: IdentityRequest, res) => {
+    try {
+      const actor = req.actor;
+      if (!actor || (!actor.userId && !actor.anonId)) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { title, archived } = req.body ?? {};
+      if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+        return res.status(400).json({ message: "title must be a non-empty string" });
+      }
+      if (archived !== undefined && typeof archived !== "boolean") {
+        return res.status(400).json({ message: "archived must be a boolean" });
+      }
+
+      const session = await storage.getChatSessionById(req.params.id);
+      if (!session || !ownsSession(actor, session)) {
+        return res.status(404).json({ message: "Chat session not found" });
+      }
+
+      if (typeof title === "string") {
+        await storage.renameChatSession(session.id, title.trim().replace(/\s+/g, " ").slice(0, SESSION_TITLE_MAX_CHARS));
+      }
+      if (typeof archived === "boolean" && archived !== !!session.archivedAt) {
+        await storage.setChatSessionArchived(session.id, archived);
+        await storage.createEvent({
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          eventType: archived ? "session_archived" : "session_unarchived",
+          sessionId: session.id,
+          town: session.townPreference,
+        });
+      }
+
+      res.json(await storage.getChatSessionById(session.id));
+    } catch (error) {
+      console.error("Error updating session:", error);
+      res.status(500).json({ message: "Failed to update session" });
+    }
+  });
+
+  // Soft delete; the session's share links stop working
+  app.delete("/api/chat/sessions/:id", generalApiLimiter, async (req: IdentityRequest, res) => {
+    try {
+      const actor = req.actor;
+      if (!actor || (!actor.userId && !actor.anonId)) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const session = await storage.getChatSessionById(req.params.id);
+      if (!session || !ownsSession(actor, session)) {
+        return res.status(404).json({ message: "Chat session not found" });
+      }
+
+      await storage.softDeleteChatSession(session.id);
+      const shares = await storage.getActiveSessionShares(session.id);
+      for (const share of shares) {
+        await storage.revokeSessionShare(share.id);
+      }
+
+      await storage.createEvent({
+        actorType: actor.actorType,
+        userId: actor.actorType === "user" ? actor.userId : undefined,
+        anonId: actor.anonId,
+        eventType: "session_deleted",
+        sessionId: session.id,
+        town: session.townPreference,
+        metadata: { revokedShareCount: shares.length },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
   app.post("/api/chat/sessions", sessionCreationLimiter, async (req, res) => {
     try {
       const { title } = req.body;
@@ -1434,17 +1552,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/chat/sessions/:id", async (req, res) => {
+  // Messages on the session's active branch, with sibling ids for the branch switcher
+  app.get("/api/chat/sessions/:id", async (req: IdentityRequest, res) => {
     try {
       const { id } = req.params;
+      const session = await storage.getChatSessionById(id);
+      if (!session || session.deletedAt) {
+        return res.json([]);
+      }
+      if (!req.actor || !ownsSession(req.actor, session)) {
+        return res.status(404).json({ message: "Chat session not found" });
+      }
       const messages = await storage.getMessagesBySessionId(id);
-      res.json(messages);
+      res.json(buildBranchedMessages(messages, session.activeMessageId));
     } catch (error) {
       console.error("Error fetching messages:", error);
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
+  // Switch the active branch to the latest turn under the chosen message
+  app.post("/api/chat/sessions/:id/branch", generalApiLimiter, async (req: IdentityRequest, res) => {
+    try {
+      const { id } = req.params;
+      const { messageId } = req.body;
+      const actor = req.actor;
+
+      if (!actor || (!actor.userId && !actor.anonId)) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      if (!messageId || typeof messageId !== "string") {
+        return res.status(400).json({ message: "messageId is required" });
+      }
+
+      const session = await storage.getChatSessionById(id);
+      if (!session || !ownsSession(actor, session)) {
+        return res.status(404).json({ message: "Chat session not found" });
+      }
+
+      const messages = await storage.getMessagesBySessionId(id);
+      if (!messages.some((m) => m.id === messageId)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const leafId = findLatestLeaf(messages, messageId);
+      await storage.setSessionActiveMessage(id, leafId);
+
+      // Keep the session-level situation in step with the branch now in view
+      const branchContext = getBranchSituationContext(getBranchPath(messages, leafId), null);
+      if (branchContext) {
+        await storage.setSessionSituationContext(id, branchContext);
+      }
+
+      res.json(buildBranchedMessages(messages, leafId));
+    } catch (error) {
+      console.error("Error switching branch:", error);
+      res.status(500).json({ message: "Failed to switch branch" });
+    }
+  });
+
   /**
    * @deprecated Use /api/chat/v2/sessions/:sessionId/messages instead.
    * This v1 endpoint will be removed in a future release.
@@ -1465,16 +1631,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Chat session not found" });
       }
 
+      const allMessages = getActiveBranch(
+        await storage.getMessagesBySessionId(id),
+        session.activeMessageId
+      );
+
       const userMessage = await storage.createChatMessage({
         sessionId: id,
+        parentId: allMessages.length > 0 ? allMessages[allMessages.length - 1].id : null,
         role: "user",
         content: content.trim(),
         citations: null,
       });
 
-      const allMessages = await storage.getMessagesBySessionId(id);
       const chatHistory = allMessages
-        .filter(m => m.id !== userMessage.id)
         .map(m => ({
           role: m.role,
           content: m.content,
@@ -1498,14 +1668,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const assistantMessage = await storage.createChatMessage({
         sessionId: id,
+        parentId: userMessage.id,
         role: "assistant",
         content: answer,
         citations: citations.length > 0 ? JSON.stringify(citations) : null,
       });
 
       if (allMessages.filter(m => m.role === "user").length === 0) {
-        const title = content.trim().slice(0, 60) + (content.trim().length > 60 ? "..." : "");
-        await storage.updateChatSession(id, { title });
+        await storage.setAutoSessionTitle(id, fallbackSessionTitle(content));
       }
 
       res.json(assistantMessage);
@@ -1533,9 +1703,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get chat configuration (feature flags for frontend)
-  app.get("/api/chat/config", (req, res) => {
+  app.get("/api/chat/config", (req: IdentityRequest, res) => {
     res.json({
       deepAnswerEnabled: chatConfig.DEEP_ANSWER_ENABLED,
+      deepResearchAvailable: canUseDeepResearch(req.actor),
     });
   });
 
@@ -1746,6 +1917,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register Admin Chat Analytics Routes
   registerAdminChatAnalyticsRoutes(app);
 
+  // Register public document viewer routes (cited sources)
+  registerDocumentViewerRoutes(app);
+
+  // Register end-user answer feedback routes
+  registerChatFeedbackRoutes(app);
+
+  // Register conversation memo export routes
+  registerChatExportRoutes(app);
+
+  // Register read-only shared conversation routes
+  registerChatShareRoutes(app);
+
+  // Register RSA statute corpus admin routes
+  registerAdminRsaRoutes(app);
+
+  // Register session source management routes
+  registerSessionSourceRoutes(app);
+
+  // Register prompt template admin routes
+  registerAdminPromptRoutes(app);
+
+  // Register high-demand question queue routes
+  registerQueuedQuestionRoutes(app);
+
+  // Register deep research job routes
+  registerResearchJobRoutes(app);
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -6,6 +6,7 @@ import {
   analyzeChatSession,
   batchAnalyzeSessions,
 } from "../services/chatAnalyticsService";
+import { isFeedbackReasonCode } from "@shared/chatFeedback";
 
 export function registerAdminChatAnalyticsRoutes(app: Express) {
   app.get(
@@ -19,6 +20,7 @@ export function registerAdminChatAnalyticsRoutes(app: Express) {
         const sortOrder = (req.query.sortOrder as string) || "desc";
         const search = (req.query.search as string) || "";
         const filterAnalyzed = req.query.filterAnalyzed as string | undefined;
+        const filterThinRecord = req.query.filterThinRecord === "true";
         const filterMinDocScore = parseInt(req.query.filterMinDocScore as string) || 0;
         const filterMaxDocScore = parseInt(req.query.filterMaxDocScore as string) || 10;
         const filterMinAnswerScore = parseInt(req.query.filterMinAnswerScore as string) || 0;
@@ -31,6 +33,7 @@ export function registerAdminChatAnalyticsRoutes(app: Express) {
           sortOrder: sortOrder as "asc" | "desc",
           search,
           filterAnalyzed: filterAnalyzed === "true" ? true : filterAnalyzed === "false" ? false : undefined,
+          filterThinRecord,
           filterMinDocScore,
           filterMaxDocScore,
           filterMinAnswerScore,
@@ -45,6 +48,49 @@ export function registerAdminChatAnalyticsRoutes(app: Express) {
     }
   );
 
+  // End-user feedback queue (registered before /:sessionId so it isn't shadowed)
+  app.get(
+    "/api/admin/chat-analytics/feedback",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+        const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 20, 1), 100);
+        const rating = req.query.rating as string | undefined;
+        const reason = req.query.reason as string | undefined;
+        const reviewed = req.query.reviewed as string | undefined;
+
+        const result = await storage.getMessageFeedbackQueue({
+          page,
+          pageSize,
+          rating: rating === "up" || rating === "down" ? rating : undefined,
+          reason: isFeedbackReasonCode(reason) ? reason : undefined,
+          reviewed: reviewed === "true" ? true : reviewed === "false" ? false : undefined,
+        });
+
+        res.json(result);
+      } catch (error) {
+        console.error("Error fetching feedback queue:", error);
+        res.status(500).json({ message: "Failed to fetch feedback queue" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/admin/chat-analytics/feedback/:feedbackId/review",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const reviewed = req.body?.reviewed !== false;
+        await storage.setMessageFeedbackReviewed(req.params.feedbackId, reviewed);
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Error updating feedback review status:", error);
+        res.status(500).json({ message: "Failed to update feedback" });
+      }
+    }
+  );
+
   app.get(
     "/api/admin/chat-analytics/:sessionId",
     authenticateAdmin,
@@ -0,0 +1,117 @@
+import type { Express, Response } from "express";
+import { authenticateAdmin, type AuthRequest } from "../middleware/auth";
+import { storage } from "../storage";
+import { invalidatePromptCache } from "../llm/promptRegistry";
+import { BUILTIN_PROMPTS, previewPromptTemplate } from "../llm/promptTemplates";
+import {
+  PROMPT_KEYS,
+  PROMPT_KEY_LABELS,
+  PROMPT_VARIABLES,
+  isPromptKey,
+  type PromptKeySummary,
+} from "@shared/promptTemplates";
+
+const MAX_TRAFFIC_WEIGHT = 100;
+
+function isValidWeight(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_TRAFFIC_WEIGHT;
+}
+
+export function registerAdminPromptRoutes(app: Express) {
+  // Every prompt key with its built-in text and stored versions
+  app.get("/api/admin/prompts", authenticateAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const templates = await storage.getPromptTemplates();
+      const summaries: PromptKeySummary[] = PROMPT_KEYS.map((key) => ({
+        key,
+        label: PROMPT_KEY_LABELS[key],
+        variables: PROMPT_VARIABLES[key],
+        builtinTemplate: BUILTIN_PROMPTS[key],
+        versions: templates.filter((t) => t.key === key),
+      }));
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      res.status(500).json({ message: "Failed to fetch prompt templates" });
+    }
+  });
+
+  // Save a new version of a prompt. Versions are never edited in place, so
+  // logged version numbers always refer to the text that was sent.
+  app.post("/api/admin/prompts/:key/versions", authenticateAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { key } = req.params;
+      if (!isPromptKey(key)) {
+        return res.status(404).json({ message: "Unknown prompt key" });
+      }
+
+      const { template, notes, trafficWeight } = req.body ?? {};
+      if (typeof template !== "string" || !template.trim()) {
+        return res.status(400).json({ message: "template must be a non-empty string" });
+      }
+      if (trafficWeight !== undefined && !isValidWeight(trafficWeight)) {
+        return res.status(400).json({ message: `trafficWeight must be an integer from 0 to ${MAX_TRAFFIC_WEIGHT}` });
+      }
+
+      const created = await storage.createPromptTemplateVersion({
+        key,
+        template,
+        notes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
+        trafficWeight,
+        createdBy: req.adminEmail ?? null,
+      });
+      invalidatePromptCache();
+
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating prompt version:", error);
+      res.status(500).json({ message: "Failed to create prompt version" });
+    }
+  });
+
+  // Set a version's share of sessions; 0 takes it out of rotation
+  app.patch("/api/admin/prompts/versions/:id", authenticateAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { trafficWeight } = req.body ?? {};
+      if (!isValidWeight(trafficWeight)) {
+        return res.status(400).json({ message: `trafficWeight must be an integer from 0 to ${MAX_TRAFFIC_WEIGHT}` });
+      }
+
+      const updated = await storage.updatePromptTemplateWeight(req.params.id, trafficWeight);
+      if (!updated) {
+        return res.status(404).json({ message: "Prompt version not found" });
+      }
+      invalidatePromptCache();
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating prompt version:", error);
+      res.status(500).json({ message: "Failed to update prompt version" });
+    }
+  });
+
+  // Render a draft with sample values, without saving it
+  app.post("/api/admin/prompts/preview", authenticateAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { key, template, variables } = req.body ?? {};
+      if (!isPromptKey(key)) {
+        return res.status(400).json({ message: "Unknown prompt key" });
+      }
+      if (typeof template !== "string") {
+        return res.status(400).json({ message: "template must be a string" });
+      }
+
+      const overrides: Record<string, string> = {};
+      if (variables && typeof variables === "object") {
+        for (const [name, value] of Object.entries(variables)) {
+          if (typeof value === "string") overrides[name] = value;
+        }
+      }
+
+      res.json(previewPromptTemplate(key, template, overrides));
+    } catch (error) {
+      console.error("Error previewing prompt:", error);
+      res.status(500).json({ message: "Failed to preview prompt" });
+    }
+  });
+}
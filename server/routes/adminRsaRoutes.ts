@@ -0,0 +1,124 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import multer from "multer";
+import * as path from "path";
+import { authenticateAdmin } from "../middleware/auth";
+import { storage } from "../storage";
+import {
+  importRsaText,
+  parseRsaCitations,
+  statuteHtmlToText,
+  RsaParseError,
+} from "../services/rsaCorpus";
+
+const HTML_EXTENSIONS = [".htm", ".html"];
+
+const statuteUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (ext === ".txt" || HTML_EXTENSIONS.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid file type. Only TXT and HTML statute files are allowed."));
+    }
+  },
+});
+
+// Multer errors (size, type, field name) become 400s instead of reaching the
+// default error handler as 500s
+function handleStatuteUpload(req: Request, res: Response, next: NextFunction) {
+  statuteUpload.single("file")(req, res, (err: any) => {
+    if (err) {
+      if (err.code === "LIMIT_FILE_SIZE") {
+        return res.status(400).json({ message: "File too large. Maximum size is 10MB." });
+      }
+      if (err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_UNEXPECTED_FILE") {
+        return res.status(400).json({ message: "Upload one statute file in the \"file\" field." });
+      }
+      return res.status(400).json({ message: err.message || "File upload failed" });
+    }
+    next();
+  });
+}
+
+export function registerAdminRsaRoutes(app: Express) {
+  // Chapters in the statute corpus with their section counts
+  app.get("/api/admin/rsa/chapters", authenticateAdmin, async (req: Request, res: Response) => {
+    try {
+      const chapters = await storage.getRsaChapterSummaries();
+      res.json(chapters);
+    } catch (error) {
+      console.error("Error fetching RSA chapters:", error);
+      res.status(500).json({ message: "Failed to fetch RSA chapters" });
+    }
+  });
+
+  // Import a chapter (or title) of statute text saved from the General Court site
+  app.post(
+    "/api/admin/rsa/import",
+    authenticateAdmin,
+    handleStatuteUpload,
+    async (req: Request, res: Response) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        const raw = req.file.buffer.toString("utf-8");
+        const isHtml = HTML_EXTENSIONS.includes(path.extname(req.file.originalname).toLowerCase());
+        const { title, titleName, sourceUrl } = req.body ?? {};
+
+        const result = await importRsaText(isHtml ? statuteHtmlToText(raw) : raw, {
+          title: typeof title === "string" ? title : undefined,
+          titleName: typeof titleName === "string" ? titleName : undefined,
+          sourceUrl: typeof sourceUrl === "string" && sourceUrl ? sourceUrl : undefined,
+        });
+
+        res.json({
+          success: true,
+          message: `Imported ${result.sectionCount} sections from RSA ${result.chapters.join(", ")}.`,
+          ...result,
+        });
+      } catch (error) {
+        if (error instanceof RsaParseError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error("Error importing RSA text:", error);
+        res.status(500).json({ message: "Failed to import RSA text" });
+      }
+    }
+  );
+
+  // Resolve the RSA references in a string, e.g. ?q=RSA 91-A:2
+  app.get("/api/admin/rsa/lookup", authenticateAdmin, async (req: Request, res: Response) => {
+    try {
+      const citations = parseRsaCitations(String(req.query.q ?? ""));
+      if (citations.length === 0) {
+        return res.status(400).json({ message: "No RSA section reference found" });
+      }
+      const sections = await storage.getRsaSectionsByCitations(citations);
+      res.json({
+        sections,
+        missing: citations.filter((c) => !sections.some((s) => s.citation === c)),
+      });
+    } catch (error) {
+      console.error("Error looking up RSA sections:", error);
+      res.status(500).json({ message: "Failed to look up RSA sections" });
+    }
+  });
+
+  app.delete("/api/admin/rsa/chapters/:chapter", authenticateAdmin, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteRsaChapter(req.params.chapter.toUpperCase());
+      if (deleted === 0) {
+        return res.status(404).json({ message: "RSA chapter not found" });
+      }
+      await storage.bumpCorpusVersion("statewide");
+      res.json({ success: true, deleted });
+    } catch (error) {
+      console.error("Error deleting RSA chapter:", error);
+      res.status(500).json({ message: "Failed to delete RSA chapter" });
+    }
+  });
+}
@@ -8,6 +8,9 @@ import {
   getTopicMetrics,
   getTrustMetrics,
   getCostMetrics,
+  getAnswerCacheMetrics,
+  getPipelineExperimentMetrics,
+  getPipelineQueueMetrics,
   getAlerts,
 } from "../services/adminUsageService";
 
@@ -123,6 +126,54 @@ export function registerAdminUsageRoutes(app: Express) {
     }
   );
 
+  // Answer cache hit rates
+  app.get(
+    "/api/admin/usage/answer-cache",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const days = parseInt(req.query.days as string) || 7;
+        const metrics = await getAnswerCacheMetrics(days);
+        res.json(metrics);
+      } catch (error) {
+        console.error("Error fetching answer cache metrics:", error);
+        res.status(500).json({ message: "Failed to fetch answer cache metrics" });
+      }
+    }
+  );
+
+  // Pipeline experiment: unified vs v3 per variant
+  app.get(
+    "/api/admin/usage/experiments",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const days = parseInt(req.query.days as string) || 7;
+        const metrics = await getPipelineExperimentMetrics(days);
+        res.json(metrics);
+      } catch (error) {
+        console.error("Error fetching experiment metrics:", error);
+        res.status(500).json({ message: "Failed to fetch experiment metrics" });
+      }
+    }
+  );
+
+  // Pipeline queue wait times per priority class
+  app.get(
+    "/api/admin/usage/queue",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const days = parseInt(req.query.days as string) || 7;
+        const metrics = await getPipelineQueueMetrics(days);
+        res.json(metrics);
+      } catch (error) {
+        console.error("Error fetching pipeline queue metrics:", error);
+        res.status(500).json({ message: "Failed to fetch pipeline queue metrics" });
+      }
+    }
+  );
+
   // Alerts panel
   app.get(
     "/api/admin/usage/alerts",
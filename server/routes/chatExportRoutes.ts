@@ -0,0 +1,79 @@
+import type { Express, Response } from "express";
+import { format } from "date-fns";
+import type { IdentityRequest } from "../auth/types";
+import { ownsSession } from "../auth/sessionAccess";
+import { storage } from "../storage";
+import { generalApiLimiter } from "../middleware/rateLimiter";
+import {
+  MEMO_FORMATS,
+  buildSessionMemo,
+  isMemoFormat,
+  renderSessionMemo,
+} from "../services/memoExport";
+
+function memoFilename(title: string, generatedAt: Date, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "conversation";
+  return `${slug}-${format(generatedAt, "yyyy-MM-dd")}.${extension}`;
+}
+
+export function registerChatExportRoutes(app: Express) {
+  // Download a session's active branch as a cited memo (?format=md|docx|pdf)
+  app.get(
+    "/api/chat/sessions/:sessionId/export",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const memoFormat = req.query.format ?? "md";
+        if (!isMemoFormat(memoFormat)) {
+          return res.status(400).json({ message: "format must be one of md, docx, pdf" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const messages = await storage.getMessagesBySessionId(session.id);
+        const memo = buildSessionMemo(session, messages);
+        if (memo.entries.length === 0) {
+          return res.status(400).json({ message: "This conversation has no answers to export yet" });
+        }
+
+        const body = await renderSessionMemo(memo, memoFormat);
+
+        await storage.createEvent({
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          eventType: "session_exported",
+          sessionId: session.id,
+          town: session.townPreference,
+          metadata: {
+            format: memoFormat,
+            questionCount: memo.entries.length,
+          },
+        });
+
+        const { mimeType, extension } = MEMO_FORMATS[memoFormat];
+        res.setHeader("Content-Type", mimeType);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${memoFilename(memo.title, memo.generatedAt, extension)}"`
+        );
+        res.send(body);
+      } catch (error) {
+        console.error("Error exporting chat session:", error);
+        res.status(500).json({ message: "Failed to export conversation" });
+      }
+    }
+  );
+}
@@ -0,0 +1,107 @@
+import type { Express, Response } from "express";
+import type { IdentityRequest } from "../auth/types";
+import { toActorIdentifier, ownsSession } from "../auth/sessionAccess";
+import { storage } from "../storage";
+import { generalApiLimiter } from "../middleware/rateLimiter";
+import { getMessagePipelineVariant } from "../services/experiments";
+import {
+  FEEDBACK_COMMENT_MAX_CHARS,
+  isFeedbackReasonCode,
+  type FeedbackRating,
+} from "@shared/chatFeedback";
+
+export function registerChatFeedbackRoutes(app: Express) {
+  // Current actor's feedback for every answer in a session
+  app.get(
+    "/api/chat/sessions/:sessionId/feedback",
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        if (!req.actor) {
+          return res.json([]);
+        }
+        const feedback = await storage.getSessionFeedbackForActor(
+          req.params.sessionId,
+          toActorIdentifier(req.actor)
+        );
+        res.json(feedback);
+      } catch (error) {
+        console.error("Error fetching message feedback:", error);
+        res.status(500).json({ message: "Failed to fetch feedback" });
+      }
+    }
+  );
+
+  // Submit or replace feedback on an assistant answer
+  app.post(
+    "/api/chat/messages/:messageId/feedback",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const { rating, reasons, comment } = req.body ?? {};
+        if (rating !== "up" && rating !== "down") {
+          return res.status(400).json({ message: "rating must be 'up' or 'down'" });
+        }
+        if (reasons !== undefined && (!Array.isArray(reasons) || !reasons.every(isFeedbackReasonCode))) {
+          return res.status(400).json({ message: "Invalid feedback reason" });
+        }
+        if (comment !== undefined && comment !== null && typeof comment !== "string") {
+          return res.status(400).json({ message: "comment must be a string" });
+        }
+
+        const message = await storage.getChatMessageById(req.params.messageId);
+        if (!message || message.role !== "assistant") {
+          return res.status(404).json({ message: "Message not found" });
+        }
+
+        const session = await storage.getChatSessionById(message.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+
+        // Reasons only describe what was wrong
+        const reasonCodes: string[] = rating === "down" ? Array.from(new Set<string>(reasons || [])) : [];
+        const trimmedComment = typeof comment === "string"
+          ? comment.trim().slice(0, FEEDBACK_COMMENT_MAX_CHARS) || null
+          : null;
+
+        const feedback = await storage.upsertMessageFeedback({
+          messageId: message.id,
+          sessionId: session.id,
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          rating: rating as FeedbackRating,
+          reasons: reasonCodes,
+          comment: trimmedComment,
+        });
+
+        await storage.createEvent({
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          eventType: "answer_feedback",
+          sessionId: session.id,
+          town: session.townPreference,
+          metadata: {
+            feedbackId: feedback.id,
+            messageId: message.id,
+            rating,
+            reasons: reasonCodes,
+            hasComment: !!trimmedComment,
+            pipelineVariant: getMessagePipelineVariant(message),
+          },
+        });
+
+        res.json(feedback);
+      } catch (error) {
+        console.error("Error saving message feedback:", error);
+        res.status(500).json({ message: "Failed to save feedback" });
+      }
+    }
+  );
+}
@@ -0,0 +1,179 @@
+import type { Express, Response } from "express";
+import type { IdentityRequest } from "../auth/types";
+import { ownsSession } from "../auth/sessionAccess";
+import { storage } from "../storage";
+import { generalApiLimiter } from "../middleware/rateLimiter";
+import {
+  buildSharedMessages,
+  generateShareToken,
+  toShareLink,
+  toSharedSnapshot,
+} from "../services/sessionShare";
+
+export function registerChatShareRoutes(app: Express) {
+  // Publish a read-only snapshot of the session's active branch
+  app.post(
+    "/api/chat/sessions/:sessionId/shares",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const { includeAttachmentText } = req.body ?? {};
+        if (includeAttachmentText !== undefined && typeof includeAttachmentText !== "boolean") {
+          return res.status(400).json({ message: "includeAttachmentText must be a boolean" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const messages = await storage.getMessagesBySessionId(session.id);
+        const sharedMessages = buildSharedMessages(session, messages, {
+          includeAttachmentText: includeAttachmentText === true,
+        });
+        if (!sharedMessages.some((m) => m.role === "assistant")) {
+          return res.status(400).json({ message: "This conversation has no answers to share yet" });
+        }
+
+        const share = await storage.createSessionShare({
+          token: generateShareToken(),
+          sessionId: session.id,
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          title: session.title,
+          town: session.townPreference,
+          snapshot: JSON.stringify(sharedMessages),
+          includesAttachmentText: includeAttachmentText === true,
+        });
+
+        await storage.createEvent({
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          eventType: "session_shared",
+          sessionId: session.id,
+          town: session.townPreference,
+          metadata: {
+            shareId: share.id,
+            messageCount: sharedMessages.length,
+            includesAttachmentText: share.includesAttachmentText,
+          },
+        });
+
+        res.status(201).json(toShareLink(share));
+      } catch (error) {
+        console.error("Error sharing chat session:", error);
+        res.status(500).json({ message: "Failed to share conversation" });
+      }
+    }
+  );
+
+  // Owner's links for a session that are still live
+  app.get(
+    "/api/chat/sessions/:sessionId/shares",
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor) {
+          return res.json([]);
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const shares = await storage.getActiveSessionShares(session.id);
+        res.json(shares.map(toShareLink));
+      } catch (error) {
+        console.error("Error fetching session shares:", error);
+        res.status(500).json({ message: "Failed to fetch share links" });
+      }
+    }
+  );
+
+  // Revoke a link; the snapshot stays stored but is no longer served
+  app.delete(
+    "/api/chat/shares/:shareId",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const share = await storage.getSessionShareById(req.params.shareId);
+        const session = share ? await storage.getChatSessionById(share.sessionId) : undefined;
+        if (!share || !session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Share link not found" });
+        }
+
+        if (!share.revokedAt) {
+          await storage.revokeSessionShare(share.id);
+          await storage.createEvent({
+            actorType: actor.actorType,
+            userId: actor.actorType === "user" ? actor.userId : undefined,
+            anonId: actor.anonId,
+            eventType: "session_share_revoked",
+            sessionId: session.id,
+            town: session.townPreference,
+            metadata: {
+              shareId: share.id,
+              viewCount: share.viewCount,
+            },
+          });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Error revoking share link:", error);
+        res.status(500).json({ message: "Failed to revoke share link" });
+      }
+    }
+  );
+
+  // Public read-only snapshot; revoked and unknown tokens look the same
+  app.get(
+    "/api/shared/:token",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const share = await storage.getSessionShareByToken(req.params.token);
+        if (!share || share.revokedAt) {
+          return res.status(404).json({ message: "This shared conversation is no longer available" });
+        }
+
+        await storage.recordSessionShareView(share.id);
+
+        const actor = req.actor;
+        if (actor) {
+          await storage.createEvent({
+            actorType: actor.actorType,
+            userId: actor.actorType === "user" ? actor.userId : undefined,
+            anonId: actor.anonId,
+            eventType: "session_share_viewed",
+            sessionId: share.sessionId,
+            town: share.town,
+            metadata: {
+              shareId: share.id,
+              isOwner: (!!actor.userId && actor.userId === share.userId)
+                || (!!actor.anonId && actor.anonId === share.anonId),
+            },
+          });
+        }
+
+        res.json(toSharedSnapshot(share));
+      } catch (error) {
+        console.error("Error fetching shared conversation:", error);
+        res.status(500).json({ message: "Failed to load shared conversation" });
+      }
+    }
+  );
+}
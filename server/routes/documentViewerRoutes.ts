@@ -0,0 +1,132 @@
+import type { Express, Response } from "express";
+import type { IdentityRequest } from "../auth/types";
+import type { DocumentVersion } from "@shared/schema";
+import { storage } from "../storage";
+import { blobStorage, BlobStorageError } from "../services/blobStorage";
+import { getDocumentText, locateSnippet } from "../services/documentText";
+import { generalApiLimiter } from "../middleware/rateLimiter";
+
+const STAFF_ROLES = ["admin", "municipal_admin"];
+
+/**
+ * Documents are viewable once they have been indexed for chat (the same set
+ * answers can cite). Staff can also open versions that were never indexed.
+ */
+function canViewVersion(req: IdentityRequest, version: DocumentVersion): boolean {
+  if (req.user && STAFF_ROLES.includes(req.user.role)) {
+    return true;
+  }
+  return !!version.fileSearchDocumentName;
+}
+
+async function loadViewableVersion(
+  req: IdentityRequest,
+  res: Response
+): Promise<DocumentVersion | null> {
+  if (!req.actor) {
+    res.status(401).json({ message: "Authentication required" });
+    return null;
+  }
+
+  const version = await storage.getDocumentVersionById(req.params.versionId);
+  // Hidden versions get the same 404 as missing ones
+  if (!version || !canViewVersion(req, version)) {
+    res.status(404).json({ message: "Document not found" });
+    return null;
+  }
+
+  return version;
+}
+
+/**
+ * Header values must be latin1, so the plain filename is an ASCII stand-in
+ * and the real name goes in filename* for browsers that read it.
+ */
+function inlineDisposition(originalFilename: string): string {
+  const asciiName = originalFilename
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/["\\]/g, "");
+  const encodedName = encodeURIComponent(originalFilename)
+    .replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
+
+export function registerDocumentViewerRoutes(app: Express) {
+  // Document metadata plus page-split text for the viewer
+  app.get(
+    "/api/documents/versions/:versionId",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const version = await loadViewableVersion(req, res);
+        if (!version) return;
+
+        const [logicalDoc, fileBlob] = await Promise.all([
+          storage.getLogicalDocumentById(version.documentId),
+          storage.getFileBlobById(version.fileBlobId),
+        ]);
+
+        if (!fileBlob) {
+          return res.status(404).json({ message: "Document file not found" });
+        }
+
+        const text = getDocumentText(fileBlob);
+        const highlight = typeof req.query.q === "string" ? req.query.q : "";
+
+        res.json({
+          id: version.id,
+          documentId: version.documentId,
+          title: logicalDoc?.canonicalTitle || fileBlob.originalFilename,
+          town: logicalDoc?.town || null,
+          board: logicalDoc?.board || null,
+          category: logicalDoc?.category || null,
+          year: version.year,
+          meetingDate: version.meetingDate ? version.meetingDate.toISOString() : null,
+          isCurrent: version.isCurrent,
+          originalFilename: fileBlob.originalFilename,
+          mimeType: fileBlob.mimeType,
+          fileUrl: `/api/documents/versions/${version.id}/file`,
+          textSource: text.source,
+          pages: text.pages,
+          highlight: highlight ? locateSnippet(text.pages, highlight) : null,
+        });
+      } catch (error) {
+        console.error("Error fetching document version:", error);
+        res.status(500).json({ message: "Failed to fetch document" });
+      }
+    }
+  );
+
+  // Original file, streamed inline so the browser's PDF viewer can honor #page=N
+  app.get(
+    "/api/documents/versions/:versionId/file",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const version = await loadViewableVersion(req, res);
+        if (!version) return;
+
+        const fileBlob = await storage.getFileBlobById(version.fileBlobId);
+        if (!fileBlob) {
+          return res.status(404).json({ message: "Document file not found" });
+        }
+
+        const buffer = await blobStorage.readFile(fileBlob.storagePath);
+
+        res.setHeader("Content-Type", fileBlob.mimeType);
+        res.setHeader("Content-Length", buffer.length.toString());
+        res.setHeader("Content-Disposition", inlineDisposition(fileBlob.originalFilename));
+        res.setHeader("Cache-Control", "private, max-age=300");
+        res.send(buffer);
+      } catch (error) {
+        if (error instanceof BlobStorageError && error.code === "ENOENT") {
+          return res.status(404).json({ message: "Document file not found" });
+        }
+        console.error("Error streaming document file:", error);
+        res.status(500).json({ message: "Failed to load document file" });
+      }
+    }
+  );
+}
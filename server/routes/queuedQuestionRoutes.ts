@@ -0,0 +1,94 @@
+import type { Express, Response } from "express";
+import type { IdentityRequest } from "../auth/types";
+import { ownsSession } from "../auth/sessionAccess";
+import { storage } from "../storage";
+import { generalApiLimiter } from "../middleware/rateLimiter";
+import type { ChatMessage, QueuedQuestion, QueuedQuestionSummary } from "@shared/schema";
+
+function isQueueableMessage(message: ChatMessage): boolean {
+  if (message.role !== "assistant" || !message.citations) return false;
+  try {
+    return JSON.parse(message.citations)?.queueable === true;
+  } catch {
+    return false;
+  }
+}
+
+function toQueuedQuestionSummary(queued: QueuedQuestion): QueuedQuestionSummary {
+  return {
+    id: queued.id,
+    placeholderMessageId: queued.placeholderMessageId,
+    status: queued.status,
+    answerMessageId: queued.answerMessageId,
+    createdAt: queued.createdAt,
+    deliveredAt: queued.deliveredAt,
+  };
+}
+
+export function registerQueuedQuestionRoutes(app: Express) {
+  // Questions waiting for Gemini capacity, oldest first
+  app.get(
+    "/api/chat/sessions/:sessionId/queued-questions",
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor) {
+          return res.json([]);
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const queued = await storage.getQueuedQuestionsBySession(session.id);
+        res.json(queued.map(toQueuedQuestionSummary));
+      } catch (error) {
+        console.error("Error fetching queued questions:", error);
+        res.status(500).json({ message: "Failed to fetch queued questions" });
+      }
+    }
+  );
+
+  // Answer a question that hit high demand once capacity returns. The answer
+  // is delivered into the session as a sibling of the high-demand reply.
+  app.post(
+    "/api/chat/sessions/:sessionId/messages/:messageId/queue",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const messages = await storage.getMessagesBySessionId(session.id);
+        const placeholder = messages.find((m) => m.id === req.params.messageId);
+        if (!placeholder) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+        if (!isQueueableMessage(placeholder)) {
+          return res.status(400).json({ message: "This message can't be queued" });
+        }
+
+        const queued = await storage.createQueuedQuestion({
+          sessionId: session.id,
+          placeholderMessageId: placeholder.id,
+          actorType: actor.actorType,
+          userId: actor.userId ?? null,
+          anonId: actor.anonId ?? null,
+        });
+
+        res.status(201).json(toQueuedQuestionSummary(queued));
+      } catch (error) {
+        console.error("Error queueing question:", error);
+        res.status(500).json({ message: "Failed to queue question" });
+      }
+    }
+  );
+}
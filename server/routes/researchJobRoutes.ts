@@ -0,0 +1,144 @@
+import type { Express, Response } from "express";
+import type { IdentityRequest } from "../auth/types";
+import { ownsSession } from "../auth/sessionAccess";
+import { storage } from "../storage";
+import { chatMessageLimiter, generalApiLimiter } from "../middleware/rateLimiter";
+import { checkUsageLimits } from "../middleware/usageLimits";
+import { canUseDeepResearch } from "../chatV2/deepResearch";
+import { getActiveBranch } from "../chatV2/conversationBranches";
+import type { ResearchJob, ResearchJobSummary } from "@shared/schema";
+
+function toResearchJobSummary(job: ResearchJob): ResearchJobSummary {
+  return {
+    id: job.id,
+    sessionId: job.sessionId,
+    questionMessageId: job.questionMessageId,
+    question: job.question,
+    status: job.status,
+    progress: job.progress,
+    memoMessageId: job.memoMessageId,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+export function registerResearchJobRoutes(app: Express) {
+  // Start a deep research memo. The question is saved to the conversation
+  // now; the memo is delivered as its answer when the job finishes.
+  app.post(
+    "/api/chat/sessions/:sessionId/research",
+    chatMessageLimiter,
+    checkUsageLimits,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor?.userId) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+        if (!canUseDeepResearch(actor)) {
+          return res.status(403).json({ message: "Deep research is available to paying subscribers and municipal staff" });
+        }
+
+        const { content } = req.body as { content?: unknown };
+        if (typeof content !== "string" || !content.trim()) {
+          return res.status(400).json({ message: "Message content is required" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || session.deletedAt || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const messages = await storage.getMessagesBySessionId(session.id);
+        const activeBranch = getActiveBranch(messages, session.activeMessageId);
+        const question = content.trim();
+
+        const job = await storage.startResearchJob(
+          {
+            sessionId: session.id,
+            parentId: activeBranch.length > 0 ? activeBranch[activeBranch.length - 1].id : null,
+            role: "user",
+            content: question,
+            citations: null,
+          },
+          { userId: actor.userId, question }
+        );
+        if (!job) {
+          return res.status(409).json({ message: "A research memo is already being prepared in this conversation" });
+        }
+
+        res.status(201).json(toResearchJobSummary(job));
+      } catch (error) {
+        console.error("Error starting research:", error);
+        res.status(500).json({ message: "Failed to start research" });
+      }
+    }
+  );
+
+  // Research jobs in a conversation, oldest first, with their progress
+  app.get(
+    "/api/chat/sessions/:sessionId/research-jobs",
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor?.userId) {
+          return res.json([]);
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const jobs = await storage.getResearchJobsBySession(session.id);
+        res.json(jobs.map(toResearchJobSummary));
+      } catch (error) {
+        console.error("Error fetching research jobs:", error);
+        res.status(500).json({ message: "Failed to fetch research jobs" });
+      }
+    }
+  );
+
+  // Finished research the user has not been told about yet, in any conversation
+  app.get(
+    "/api/chat/research-jobs/notifications",
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const userId = req.actor?.userId;
+        if (!userId) {
+          return res.json([]);
+        }
+
+        const jobs = await storage.getUnnotifiedResearchJobs(userId);
+        res.json(jobs.map(toResearchJobSummary));
+      } catch (error) {
+        console.error("Error fetching research notifications:", error);
+        res.status(500).json({ message: "Failed to fetch research notifications" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/chat/research-jobs/notifications/ack",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const userId = req.actor?.userId;
+        if (!userId) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const { ids } = req.body as { ids?: unknown };
+        if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+          return res.status(400).json({ message: "ids must be an array of job ids" });
+        }
+
+        await storage.markResearchJobsNotified(userId, ids);
+        res.status(204).end();
+      } catch (error) {
+        console.error("Error acknowledging research notifications:", error);
+        res.status(500).json({ message: "Failed to acknowledge research notifications" });
+      }
+    }
+  );
+}
@@ -0,0 +1,177 @@
+import type { Express, Response } from "express";
+import type { IdentityRequest } from "../auth/types";
+import { ownsSession } from "../auth/sessionAccess";
+import { storage } from "../storage";
+import { SessionSourcePinLimitError } from "../storage/chat";
+import { generalApiLimiter } from "../middleware/rateLimiter";
+import { proposeSessionSource, toSessionSourceSummary } from "../services/sessionSourceProposal";
+import { SESSION_SOURCE_TITLE_MAX_CHARS } from "@shared/sessionSources";
+
+export function registerSessionSourceRoutes(app: Express) {
+  // Pasted articles and minutes the assistant is carrying as context
+  app.get(
+    "/api/chat/sessions/:sessionId/sources",
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor) {
+          return res.json([]);
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        res.json((session.sessionSources || []).map(toSessionSourceSummary));
+      } catch (error) {
+        console.error("Error fetching session sources:", error);
+        res.status(500).json({ message: "Failed to fetch session sources" });
+      }
+    }
+  );
+
+  // Rename and/or pin a source
+  app.patch(
+    "/api/chat/sessions/:sessionId/sources/:sourceId",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const { title, pinned } = req.body ?? {};
+        if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+          return res.status(400).json({ message: "title must be a non-empty string" });
+        }
+        if (pinned !== undefined && typeof pinned !== "boolean") {
+          return res.status(400).json({ message: "pinned must be a boolean" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const updated = await storage.updateSessionSource(session.id, req.params.sourceId, {
+          ...(typeof title === "string"
+            ? { title: title.trim().replace(/\s+/g, " ").slice(0, SESSION_SOURCE_TITLE_MAX_CHARS) }
+            : {}),
+          ...(typeof pinned === "boolean" ? { pinned } : {}),
+        });
+        if (!updated) {
+          return res.status(404).json({ message: "Session source not found" });
+        }
+
+        res.json(toSessionSourceSummary(updated));
+      } catch (error) {
+        if (error instanceof SessionSourcePinLimitError) {
+          return res.status(409).json({ message: error.message });
+        }
+        console.error("Error updating session source:", error);
+        res.status(500).json({ message: "Failed to update session source" });
+      }
+    }
+  );
+
+  // Stop carrying a source; later answers no longer see its text
+  app.delete(
+    "/api/chat/sessions/:sessionId/sources/:sourceId",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        const removed = await storage.removeSessionSource(session.id, req.params.sourceId);
+        if (!removed) {
+          return res.status(404).json({ message: "Session source not found" });
+        }
+
+        await storage.createEvent({
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          eventType: "session_source_removed",
+          sessionId: session.id,
+          town: session.townPreference,
+          metadata: { sourceId: req.params.sourceId },
+        });
+
+        res.json({ success: true });
+      } catch (error) {
+        console.error("Error removing session source:", error);
+        res.status(500).json({ message: "Failed to remove session source" });
+      }
+    }
+  );
+
+  // Propose a source for the document archive; an admin reviews it in ingestion
+  app.post(
+    "/api/chat/sessions/:sessionId/sources/:sourceId/propose",
+    generalApiLimiter,
+    async (req: IdentityRequest, res: Response) => {
+      try {
+        const actor = req.actor;
+        if (!actor || (!actor.userId && !actor.anonId)) {
+          return res.status(401).json({ message: "Authentication required" });
+        }
+
+        const session = await storage.getChatSessionById(req.params.sessionId);
+        if (!session || !ownsSession(actor, session)) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+
+        // Claimed under the session row lock, so two clicks create one job
+        const source = await storage.claimSessionSourceProposal(session.id, req.params.sourceId);
+        if (source === "not_found") {
+          return res.status(404).json({ message: "Session source not found" });
+        }
+        if (source === "already_proposed") {
+          return res.status(409).json({ message: "This source has already been proposed" });
+        }
+
+        let job;
+        try {
+          job = await proposeSessionSource(session, source);
+        } catch (error) {
+          await storage.updateSessionSource(session.id, source.id, { proposalClaimedAt: undefined });
+          throw error;
+        }
+        const updated = await storage.updateSessionSource(session.id, source.id, {
+          proposedJobId: job.id,
+          proposalClaimedAt: undefined,
+        });
+
+        await storage.createEvent({
+          actorType: actor.actorType,
+          userId: actor.actorType === "user" ? actor.userId : undefined,
+          anonId: actor.anonId,
+          eventType: "session_source_proposed",
+          sessionId: session.id,
+          town: session.townPreference,
+          metadata: {
+            sourceId: source.id,
+            sourceType: source.type,
+            ingestionJobId: job.id,
+            charCount: source.text.length,
+          },
+        });
+
+        res.status(201).json(toSessionSourceSummary(updated ?? { ...source, proposedJobId: job.id }));
+      } catch (error) {
+        console.error("Error proposing session source:", error);
+        res.status(500).json({ message: "Failed to propose session source" });
+      }
+    }
+  );
+}
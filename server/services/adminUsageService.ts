@@ -3,6 +3,9 @@ import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
 import ws from "ws";
 import * as schema from "@shared/schema";
+import { getPipelineExperimentConfig } from "../config/experiments";
+import { PRIORITY_CLASSES } from "../config/pipelineQueue";
+import { pipelineExecutor, type PipelineQueueSnapshot } from "./pipelineExecutor";
 
 neonConfig.webSocketConstructor = ws;
 
@@ -78,6 +81,57 @@ export interface CostMetrics {
   costPerUsefulSession: number;
 }
 
+export interface AnswerCacheMetrics {
+  lookups: number;
+  hits: number;
+  hitRate: number;
+  hitsPerDay: { date: string; lookups: number; hits: number }[];
+  topCachedQuestions: { question: string; town: string | null; hits: number }[];
+}
+
+export interface PipelineVariantMetrics {
+  variant: string;
+  answers: number;
+  cachedAnswers: number;
+  actors: number;
+  avgLatencyMs: number;
+  p50LatencyMs: number;
+  p90LatencyMs: number;
+  costPerAnswer: number;
+  feedbackUp: number;
+  feedbackDown: number;
+  analyzedSessions: number;
+  avgDocumentQualityScore: number | null;
+  avgAnswerQualityScore: number | null;
+}
+
+export interface PipelineExperimentMetrics {
+  experiment: string;
+  /** Current split, e.g. { v3: 90, unified: 10 } */
+  allocation: Record<string, number>;
+  variants: PipelineVariantMetrics[];
+}
+
+export interface PriorityClassQueueMetrics {
+  priorityClass: string;
+  /** Requests that asked for a pipeline slot */
+  requests: number;
+  /** Admitted requests that had to wait */
+  queued: number;
+  avgWaitMs: number;
+  p90WaitMs: number;
+  maxWaitMs: number;
+  /** Turned away because the class's queue was full */
+  rejected: number;
+  timedOut: number;
+}
+
+export interface PipelineQueueMetrics {
+  /** Live state of this server's executor */
+  current: PipelineQueueSnapshot;
+  classes: PriorityClassQueueMetrics[];
+}
+
 export interface AlertItem {
   type: "no_doc_rate" | "daily_cost" | "scope_mismatch";
   message: string;
@@ -662,6 +716,229 @@ export async function getCostMetrics(days: number = 7): Promise<CostMetrics> {
   };
 }
 
+// ============================================================
+// ANSWER CACHE METRICS
+// ============================================================
+
+export async function getAnswerCacheMetrics(days: number = 7): Promise<AnswerCacheMetrics> {
+  const db = getDb();
+  const range = getDateRange(days);
+
+  // One answer_cache_lookup event per cacheable question
+  const perDayResult = await db.execute(sql`
+    SELECT DATE(created_at) as date,
+      COUNT(*) as lookups,
+      COUNT(*) FILTER (WHERE (metadata->>'hit')::boolean) as hits
+    FROM events
+    WHERE event_type = 'answer_cache_lookup'
+    AND created_at >= ${range.startDate}
+    GROUP BY DATE(created_at)
+    ORDER BY date ASC
+  `);
+  const hitsPerDay = perDayResult.rows.map(row => ({
+    date: String(row.date),
+    lookups: Number(row.lookups),
+    hits: Number(row.hits),
+  }));
+
+  const lookups = hitsPerDay.reduce((sum, day) => sum + day.lookups, 0);
+  const hits = hitsPerDay.reduce((sum, day) => sum + day.hits, 0);
+
+  const topQuestionsResult = await db.execute(sql`
+    SELECT question, town, hit_count
+    FROM answer_cache
+    WHERE last_hit_at >= ${range.startDate}
+    ORDER BY hit_count DESC
+    LIMIT 10
+  `);
+  const topCachedQuestions = topQuestionsResult.rows.map(row => ({
+    question: String(row.question),
+    town: row.town ? String(row.town) : null,
+    hits: Number(row.hit_count),
+  }));
+
+  return {
+    lookups,
+    hits,
+    hitRate: lookups > 0 ? (hits / lookups) * 100 : 0,
+    hitsPerDay,
+    topCachedQuestions,
+  };
+}
+
+// ============================================================
+// PIPELINE EXPERIMENT METRICS
+// ============================================================
+
+export async function getPipelineExperimentMetrics(days: number = 7): Promise<PipelineExperimentMetrics> {
+  const db = getDb();
+  const range = getDateRange(days);
+  const config = getPipelineExperimentConfig();
+
+  const metricsByVariant = new Map<string, PipelineVariantMetrics>();
+  const variantMetrics = (variant: string): PipelineVariantMetrics => {
+    let metrics = metricsByVariant.get(variant);
+    if (!metrics) {
+      metrics = {
+        variant,
+        answers: 0,
+        cachedAnswers: 0,
+        actors: 0,
+        avgLatencyMs: 0,
+        p50LatencyMs: 0,
+        p90LatencyMs: 0,
+        costPerAnswer: 0,
+        feedbackUp: 0,
+        feedbackDown: 0,
+        analyzedSessions: 0,
+        avgDocumentQualityScore: null,
+        avgAnswerQualityScore: null,
+      };
+      metricsByVariant.set(variant, metrics);
+    }
+    return metrics;
+  };
+  config.variants.forEach((v) => variantMetrics(v.name));
+
+  // One chat_answer event per answer; latency only counts answers the
+  // pipeline actually ran (cache hits return in milliseconds)
+  const answersResult = await db.execute(sql`
+    SELECT metadata->>'pipelineVariant' as variant,
+      COUNT(*) FILTER (WHERE NOT (metadata->>'cached')::boolean) as answers,
+      COUNT(*) FILTER (WHERE (metadata->>'cached')::boolean) as cached_answers,
+      COUNT(DISTINCT COALESCE(user_id, anon_id)) as actors,
+      AVG((metadata->>'durationMs')::numeric) FILTER (WHERE NOT (metadata->>'cached')::boolean) as avg_ms,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY (metadata->>'durationMs')::numeric)
+        FILTER (WHERE NOT (metadata->>'cached')::boolean) as p50_ms,
+      PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY (metadata->>'durationMs')::numeric)
+        FILTER (WHERE NOT (metadata->>'cached')::boolean) as p90_ms
+    FROM events
+    WHERE event_type = 'chat_answer'
+    AND created_at >= ${range.startDate}
+    GROUP BY metadata->>'pipelineVariant'
+  `);
+  for (const row of answersResult.rows) {
+    const metrics = variantMetrics(String(row.variant));
+    metrics.answers = Number(row.answers || 0);
+    metrics.cachedAnswers = Number(row.cached_answers || 0);
+    metrics.actors = Number(row.actors || 0);
+    metrics.avgLatencyMs = Math.round(Number(row.avg_ms || 0));
+    metrics.p50LatencyMs = Math.round(Number(row.p50_ms || 0));
+    metrics.p90LatencyMs = Math.round(Number(row.p90_ms || 0));
+  }
+
+  // LLM cost of each answer's request, spread over the answers the pipeline ran
+  const costResult = await db.execute(sql`
+    SELECT e.metadata->>'pipelineVariant' as variant, COALESCE(SUM(c.cost_usd), 0) as total
+    FROM events e
+    JOIN llm_cost_logs c ON c.request_id = e.metadata->>'requestId'
+    WHERE e.event_type = 'chat_answer'
+    AND NOT (e.metadata->>'cached')::boolean
+    AND e.created_at >= ${range.startDate}
+    GROUP BY e.metadata->>'pipelineVariant'
+  `);
+  for (const row of costResult.rows) {
+    const metrics = variantMetrics(String(row.variant));
+    metrics.costPerAnswer = metrics.answers > 0 ? Number(row.total) / metrics.answers : 0;
+  }
+
+  const feedbackResult = await db.execute(sql`
+    SELECT e.metadata->>'pipelineVariant' as variant,
+      COUNT(*) FILTER (WHERE f.rating = 'up') as up,
+      COUNT(*) FILTER (WHERE f.rating = 'down') as down
+    FROM events e
+    JOIN message_feedback f ON f.message_id = e.metadata->>'messageId'
+    WHERE e.event_type = 'chat_answer'
+    AND e.created_at >= ${range.startDate}
+    GROUP BY e.metadata->>'pipelineVariant'
+  `);
+  for (const row of feedbackResult.rows) {
+    const metrics = variantMetrics(String(row.variant));
+    metrics.feedbackUp = Number(row.up || 0);
+    metrics.feedbackDown = Number(row.down || 0);
+  }
+
+  // Analytics scores are per session; a session counts toward each variant
+  // that answered in it
+  const analyticsResult = await db.execute(sql`
+    SELECT v.variant,
+      COUNT(*) as sessions,
+      AVG(a.document_quality_score) as doc_score,
+      AVG(a.answer_quality_score) as answer_score
+    FROM (
+      SELECT DISTINCT session_id, metadata->>'pipelineVariant' as variant
+      FROM events
+      WHERE event_type = 'chat_answer'
+      AND created_at >= ${range.startDate}
+    ) v
+    JOIN chat_analytics a ON a.session_id = v.session_id
+    GROUP BY v.variant
+  `);
+  for (const row of analyticsResult.rows) {
+    const metrics = variantMetrics(String(row.variant));
+    metrics.analyzedSessions = Number(row.sessions || 0);
+    metrics.avgDocumentQualityScore = row.doc_score !== null ? Number(row.doc_score) : null;
+    metrics.avgAnswerQualityScore = row.answer_score !== null ? Number(row.answer_score) : null;
+  }
+
+  return {
+    experiment: config.key,
+    allocation: Object.fromEntries(config.variants.map((v) => [v.name, v.percent])),
+    variants: Array.from(metricsByVariant.values()),
+  };
+}
+
+// ============================================================
+// PIPELINE QUEUE METRICS
+// ============================================================
+
+export async function getPipelineQueueMetrics(days: number = 7): Promise<PipelineQueueMetrics> {
+  const db = getDb();
+  const range = getDateRange(days);
+
+  const metricsByClass = new Map<string, PriorityClassQueueMetrics>(
+    PRIORITY_CLASSES.map((priorityClass) => [
+      priorityClass,
+      { priorityClass, requests: 0, queued: 0, avgWaitMs: 0, p90WaitMs: 0, maxWaitMs: 0, rejected: 0, timedOut: 0 },
+    ])
+  );
+
+  // One chat_queue_wait event per request; wait times only count admitted
+  // requests that actually queued
+  const result = await db.execute(sql`
+    SELECT metadata->>'priorityClass' as priority_class,
+      COUNT(*) as requests,
+      COUNT(*) FILTER (WHERE metadata->>'outcome' = 'admitted' AND (metadata->>'queued')::boolean) as queued,
+      AVG((metadata->>'waitMs')::numeric)
+        FILTER (WHERE metadata->>'outcome' = 'admitted' AND (metadata->>'queued')::boolean) as avg_ms,
+      PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY (metadata->>'waitMs')::numeric)
+        FILTER (WHERE metadata->>'outcome' = 'admitted' AND (metadata->>'queued')::boolean) as p90_ms,
+      MAX((metadata->>'waitMs')::numeric) FILTER (WHERE metadata->>'outcome' = 'admitted') as max_ms,
+      COUNT(*) FILTER (WHERE metadata->>'outcome' = 'full') as rejected,
+      COUNT(*) FILTER (WHERE metadata->>'outcome' = 'timeout') as timed_out
+    FROM events
+    WHERE event_type = 'chat_queue_wait'
+    AND created_at >= ${range.startDate}
+    GROUP BY metadata->>'priorityClass'
+  `);
+  for (const row of result.rows) {
+    const metrics = metricsByClass.get(String(row.priority_class));
+    if (!metrics) continue;
+    metrics.requests = Number(row.requests || 0);
+    metrics.queued = Number(row.queued || 0);
+    metrics.avgWaitMs = Math.round(Number(row.avg_ms || 0));
+    metrics.p90WaitMs = Math.round(Number(row.p90_ms || 0));
+    metrics.maxWaitMs = Math.round(Number(row.max_ms || 0));
+    metrics.rejected = Number(row.rejected || 0);
+    metrics.timedOut = Number(row.timed_out || 0);
+  }
+
+  return {
+    current: pipelineExecutor.snapshot(),
+    classes: Array.from(metricsByClass.values()),
+  };
+}
+
 // ============================================================
 // ALERTS
 // ============================================================
@@ -1,4 +1,3 @@
-import { GoogleGenAI } from "@google/genai";
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
 import ws from "ws";
@@ -6,6 +5,10 @@ import { storage } from "../storage";
 import { eq, desc, asc, sql } from "drizzle-orm";
 import * as schema from "@shared/schema";
 import type { ChatAnalytics } from "@shared/schema";
+import { generateContent } from "../llm/providers";
+import { getModelForStage } from "../llm/modelRegistry";
+import { resolvePrompt, promptLogMetadata } from "../llm/promptRegistry";
+import { logLLMCall } from "../llm/callLLMWithLogging";
 
 neonConfig.webSocketConstructor = ws;
 
@@ -18,8 +21,6 @@ function getDb() {
   return _db;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
 export interface ChatAnalyticsListItem {
   sessionId: string;
   title: string;
@@ -30,6 +31,8 @@ export interface ChatAnalyticsListItem {
   messageCount: number;
   totalCost: number;
   costPerMessage: number;
+  /** Assistant answers whose answerMeta.recordStrength level is "thin" */
+  thinRecordAnswers: number;
   isAnalyzed: boolean;
   summary: string | null;
   critique: string | null;
@@ -54,6 +57,8 @@ interface ListParams {
   sortOrder: "asc" | "desc";
   search: string;
   filterAnalyzed?: boolean;
+  /** Only sessions with at least one thin-record answer */
+  filterThinRecord?: boolean;
   filterMinDocScore: number;
   filterMaxDocScore: number;
   filterMinAnswerScore: number;
@@ -68,6 +73,7 @@ export async function getChatAnalyticsList(params: ListParams): Promise<ChatAnal
     sortOrder,
     search,
     filterAnalyzed,
+    filterThinRecord,
     filterMinDocScore,
     filterMaxDocScore,
     filterMinAnswerScore,
@@ -83,6 +89,14 @@ export async function getChatAnalyticsList(params: ListParams): Promise<ChatAnal
       session: schema.chatSessions,
       messageCount: sql<number>`(SELECT COUNT(*) FROM chat_messages WHERE session_id = ${schema.chatSessions.id})`.as('message_count'),
       totalCost: sql<number>`COALESCE((SELECT SUM(CAST(cost_usd AS FLOAT)) FROM llm_cost_logs WHERE session_id = ${schema.chatSessions.id}), 0)`.as('total_cost'),
+      thinRecordAnswers: sql<number>`(
+        SELECT COUNT(*) FROM chat_messages
+        WHERE session_id = ${schema.chatSessions.id}
+          AND role = 'assistant'
+          AND CASE WHEN citations LIKE '%"recordStrength"%'
+            THEN citations::jsonb #>> '{answerMeta,recordStrength,level}'
+          END = 'thin'
+      )`.as('thin_record_answers'),
     })
     .from(schema.chatSessions)
     .orderBy(sortOrder === "desc" ? desc(schema.chatSessions.updatedAt) : asc(schema.chatSessions.updatedAt))
@@ -112,6 +126,7 @@ export async function getChatAnalyticsList(params: ListParams): Promise<ChatAnal
       messageCount,
       totalCost,
       costPerMessage: messageCount > 0 ? totalCost / messageCount : 0,
+      thinRecordAnswers: Number(row.thinRecordAnswers) || 0,
       isAnalyzed: !!analytics,
       summary: analytics?.summary || null,
       critique: analytics?.critique || null,
@@ -135,6 +150,10 @@ export async function getChatAnalyticsList(params: ListParams): Promise<ChatAnal
     items = items.filter(item => item.isAnalyzed === filterAnalyzed);
   }
 
+  if (filterThinRecord) {
+    items = items.filter(item => item.thinRecordAnswers > 0);
+  }
+
   items = items.filter(item => {
     if (item.documentQualityScore !== null) {
       if (item.documentQualityScore < filterMinDocScore || item.documentQualityScore > filterMaxDocScore) {
@@ -211,63 +230,33 @@ export async function analyzeChatSession(sessionId: string): Promise<ChatAnalyti
     .map(m => `[${m.role.toUpperCase()}]: ${m.content}`)
     .join("\n\n");
 
-  const prompt = `You are a HARSH CRITIC analyzing chat conversations between users and OPENCouncil, an AI assistant for New Hampshire municipal officials. Your job is to ruthlessly identify failures and gaps.
-
-BE BRUTALLY HONEST. Do NOT sugarcoat or make excuses. If the AI failed, say so clearly.
-
-SCORING GUIDELINES - BE STRICT:
-- Score 1-3: FAILURE - AI couldn't answer, gave wrong info, no citations, or said "I don't have that document"
-- Score 4-5: POOR - Generic advice without specific citations, vague responses, missing key details
-- Score 6-7: ACCEPTABLE - Answered with some citations but incomplete or could be better
-- Score 8-9: GOOD - Solid answer with proper citations and specific information
-- Score 10: EXCEPTIONAL - Perfect response with comprehensive citations (rare)
-
-AUTOMATIC LOW SCORES (1-3):
-- If AI said "I don't have access to" or "I couldn't find" specific documents = Score 2-3 max
-- If AI gave generic legal advice without citing specific NH RSAs or town ordinances = Score 3-4 max
-- If AI failed to answer the user's actual question = Score 1-2
-- If user asked for specific town info and AI gave general info = Score 3-4 max
-- If response lacks ANY citations = Score 4 max for document quality
-
-Analyze this conversation:
-
-1. **Summary**: What did the user ask for? Did they get it? Be direct.
-
-2. **Critique**: Be HARSH. What went wrong? What was missing? Don't praise mediocre responses. If the AI said it lacked documents, that's a FAILURE. If citations were missing, say so. If the answer was vague or generic, call it out. Only praise genuinely excellent responses.
-
-3. **Missing Documents Suggestions**: CRITICAL - If the AI failed to provide specific information, LIST EXACTLY what documents we need to ingest. Be specific:
-   - Town name + document type + year (e.g., "Ossipee Zoning Ordinance 2024")
-   - Specific RSA chapters if legal questions went unanswered
-   - Board meeting minutes with date ranges
-   - Master plans, budgets, or other municipal documents
-   DO NOT say "None identified" unless the response was truly complete and well-cited.
-
-4. **Document Quality Score**: How well did the AI cite and use source documents? Remember: NO citations = max score of 4. Said "I don't have this document" = max score of 3.
-
-5. **Answer Quality Score**: Did the user get what they actually needed? Generic advice = low score. Missing the user's actual question = very low score.
-
-TRANSCRIPT:
-${transcript}
-
-Respond in this exact JSON format:
-{
-  "summary": "...",
-  "critique": "...",
-  "missingDocsSuggestions": "...",
-  "documentQualityScore": 5,
-  "answerQualityScore": 4
-}`;
+  const prompt = await resolvePrompt("chatAnalytics", {
+    sessionId,
+    variables: { transcript },
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: "application/json",
-      },
+    const modelName = getModelForStage("sessionAnalytics").model;
+    const response = await generateContent({
+      model: modelName,
+      prompt: prompt.text,
+      responseFormat: "json",
     });
 
     const text = response.text || "";
+
+    // Admin-run analysis: tied to the session but not to its owner, so it
+    // stays out of their daily cost
+    await logLLMCall(
+      {
+        actor: { actorType: session.userId ? "user" : "anon" },
+        sessionId,
+        stage: "other",
+        model: modelName,
+        metadata: { ...promptLogMetadata(prompt), purpose: "sessionAnalytics" },
+      },
+      { text, tokensIn: response.tokensIn, tokensOut: response.tokensOut }
+    );
     
     let parsed: {
       summary: string;
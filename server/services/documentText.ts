@@ -0,0 +1,84 @@
+import type { FileBlob } from "@shared/schema";
+
+/**
+ * Page separators produced by our extractors:
+ * - OCR worker joins pages with "--- Page Break ---"
+ * - pdftotext emits form feeds between pages
+ */
+const PAGE_SEPARATOR = /\n*--- Page Break ---\n*|\f/;
+
+const MIN_OVERLAP_SCORE = 0.3;
+
+export type DocumentTextSource = "ocr" | "extracted" | "none";
+
+export interface DocumentText {
+  source: DocumentTextSource;
+  pages: string[];
+}
+
+export interface SnippetLocation {
+  page: number; // 1-based
+  exact: boolean;
+}
+
+/**
+ * Best available text for a file blob, split into pages. Completed OCR wins
+ * over the extracted preview since it covers scanned pages.
+ */
+export function getDocumentText(fileBlob: FileBlob): DocumentText {
+  if (fileBlob.ocrStatus === "completed" && fileBlob.ocrText?.trim()) {
+    return { source: "ocr", pages: splitPages(fileBlob.ocrText) };
+  }
+  if (fileBlob.previewText?.trim()) {
+    return { source: "extracted", pages: splitPages(fileBlob.previewText) };
+  }
+  return { source: "none", pages: [] };
+}
+
+export function splitPages(text: string): string[] {
+  const pages = text.split(PAGE_SEPARATOR).map(p => p.trim());
+  const nonEmpty = pages.filter(p => p.length > 0);
+  return nonEmpty.length > 0 ? pages : [];
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function significantWords(text: string): string[] {
+  return normalize(text).split(" ").filter(w => w.length >= 4);
+}
+
+/**
+ * Find the page a cited snippet most likely came from. Tries a verbatim match
+ * on the opening of the snippet, then falls back to word overlap since
+ * snippets are sometimes paraphrased by retrieval.
+ */
+export function locateSnippet(pages: string[], snippet: string): SnippetLocation | null {
+  const needle = normalize(snippet).slice(0, 80).trim();
+  if (!needle || pages.length === 0) return null;
+
+  const normalizedPages = pages.map(normalize);
+
+  const exactIdx = normalizedPages.findIndex(p => p.includes(needle));
+  if (exactIdx >= 0) {
+    return { page: exactIdx + 1, exact: true };
+  }
+
+  const words = Array.from(new Set(significantWords(snippet)));
+  if (words.length === 0) return null;
+
+  let bestPage = -1;
+  let bestScore = 0;
+  normalizedPages.forEach((pageText, idx) => {
+    const pageWords = new Set(pageText.split(" "));
+    const hits = words.filter(w => pageWords.has(w)).length;
+    const score = hits / words.length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPage = idx;
+    }
+  });
+
+  return bestScore >= MIN_OVERLAP_SCORE ? { page: bestPage + 1, exact: false } : null;
+}
@@ -0,0 +1,108 @@
+import { assignExperimentVariant, getExperimentBucket, getPipelineAssignment } from './experiments';
+import { chatConfigV3 } from '../chatV2/chatConfigV3';
+import type { ExperimentConfig } from '../config/experiments';
+
+// First unit id of the form `unit-N` that lands in the bucket
+function unitInBucket(experimentKey: string, bucket: number): string {
+  for (let i = 0; i < 10000; i++) {
+    const unitId = `unit-${i}`;
+    if (getExperimentBucket(experimentKey, unitId) === bucket) return unitId;
+  }
+  throw new Error(`No unit found for bucket ${bucket}`);
+}
+
+function split(v3Percent: number): ExperimentConfig<'v3' | 'unified'> {
+  return {
+    key: 'test_split',
+    variants: [
+      { name: 'v3', percent: v3Percent },
+      { name: 'unified', percent: 100 - v3Percent },
+    ],
+  };
+}
+
+describe('getExperimentBucket', () => {
+  it('gives a unit the same bucket every time', () => {
+    expect(getExperimentBucket('chat_pipeline', 'user-1')).toBe(getExperimentBucket('chat_pipeline', 'user-1'));
+  });
+
+  it('stays within 0-99', () => {
+    for (let i = 0; i < 200; i++) {
+      const bucket = getExperimentBucket('chat_pipeline', `user-${i}`);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(100);
+    }
+  });
+
+  it('reshuffles units when the experiment key changes', () => {
+    const ids = Array.from({ length: 20 }, (_, i) => `user-${i}`);
+    const before = ids.map((id) => getExperimentBucket('chat_pipeline', id));
+    const after = ids.map((id) => getExperimentBucket('chat_pipeline_v2', id));
+    expect(after).not.toEqual(before);
+  });
+});
+
+describe('assignExperimentVariant', () => {
+  it('splits at the variant boundary', () => {
+    const config = split(30);
+    expect(assignExperimentVariant(config, unitInBucket(config.key, 0))).toBe('v3');
+    expect(assignExperimentVariant(config, unitInBucket(config.key, 29))).toBe('v3');
+    expect(assignExperimentVariant(config, unitInBucket(config.key, 30))).toBe('unified');
+    expect(assignExperimentVariant(config, unitInBucket(config.key, 99))).toBe('unified');
+  });
+
+  it('puts everyone on one variant at 0 and 100 percent', () => {
+    expect(assignExperimentVariant(split(100), unitInBucket('test_split', 99))).toBe('v3');
+    expect(assignExperimentVariant(split(0), unitInBucket('test_split', 0))).toBe('unified');
+  });
+
+  it('keeps a unit on its variant while the split stays put', () => {
+    const config = split(50);
+    const variant = assignExperimentVariant(config, 'anon-abc');
+    expect(assignExperimentVariant(config, 'anon-abc')).toBe(variant);
+  });
+
+  it('falls back to the first variant when the percentages do not cover the bucket', () => {
+    const config: ExperimentConfig<'a' | 'b'> = {
+      key: 'test_short',
+      variants: [
+        { name: 'a', percent: 10 },
+        { name: 'b', percent: 10 },
+      ],
+    };
+    expect(assignExperimentVariant(config, unitInBucket(config.key, 15))).toBe('b');
+    expect(assignExperimentVariant(config, unitInBucket(config.key, 50))).toBe('a');
+  });
+});
+
+describe('getPipelineAssignment', () => {
+  const originalEnv = process.env;
+  const originalEnabled = chatConfigV3.ENABLE_V3_PIPELINE;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, PIPELINE_V3_PERCENT: '0' };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    chatConfigV3.ENABLE_V3_PIPELINE = originalEnabled;
+  });
+
+  it('assigns by the actor id', () => {
+    expect(getPipelineAssignment({ actorType: 'user', userId: 'user-1', anonId: 'anon-1' })).toEqual({
+      experiment: 'chat_pipeline',
+      variant: 'unified',
+    });
+  });
+
+  it('uses v3 for requests without an actor', () => {
+    expect(getPipelineAssignment(undefined).variant).toBe('v3');
+  });
+
+  it('sends everyone to the unified pipeline when v3 is switched off', () => {
+    process.env.PIPELINE_V3_PERCENT = '100';
+    chatConfigV3.ENABLE_V3_PIPELINE = false;
+    expect(getPipelineAssignment({ actorType: 'anon', anonId: 'anon-1' }).variant).toBe('unified');
+    expect(getPipelineAssignment(undefined).variant).toBe('unified');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Experiment assignment for gradual rollouts.
+ *
+ * Actors are bucketed by a hash of the experiment key and their id (the user
+ * id once signed in, otherwise the anonymous id), so an actor keeps the same
+ * variant across sessions for as long as the percentages stay put.
+ */
+
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { logWarn } from "../utils/logger";
+import { chatConfigV3 } from "../chatV2/chatConfigV3";
+import {
+  getPipelineExperimentConfig,
+  type ExperimentConfig,
+  type PipelineVariant,
+} from "../config/experiments";
+import type { ActorContext } from "../auth/types";
+import type { ChatMessage } from "@shared/schema";
+
+export interface PipelineAssignment {
+  experiment: string;
+  variant: PipelineVariant;
+}
+
+function experimentUnitId(actor: ActorContext | undefined): string | undefined {
+  if (!actor) return undefined;
+  return actor.actorType === "user" ? actor.userId : actor.anonId;
+}
+
+/**
+ * Stable 0-99 bucket for a unit in an experiment.
+ */
+export function getExperimentBucket(experimentKey: string, unitId: string): number {
+  const digest = createHash("sha256").update(`${experimentKey}:${unitId}`).digest("hex");
+  return parseInt(digest.slice(0, 8), 16) % 100;
+}
+
+export function assignExperimentVariant<V extends string>(
+  config: ExperimentConfig<V>,
+  unitId: string
+): V {
+  let bucket = getExperimentBucket(config.key, unitId);
+  for (const variant of config.variants) {
+    if (bucket < variant.percent) return variant.name;
+    bucket -= variant.percent;
+  }
+  return config.variants[0].name;
+}
+
+/**
+ * Pipeline for an actor's questions. With the v3 pipeline switched off
+ * everyone gets the unified pipeline; requests without an actor id get v3.
+ */
+export function getPipelineAssignment(actor: ActorContext | undefined): PipelineAssignment {
+  const config = getPipelineExperimentConfig();
+
+  if (!chatConfigV3.ENABLE_V3_PIPELINE) {
+    return { experiment: config.key, variant: "unified" };
+  }
+
+  const unitId = experimentUnitId(actor);
+  return {
+    experiment: config.key,
+    variant: unitId ? assignExperimentVariant(config, unitId) : "v3",
+  };
+}
+
+/**
+ * Variant recorded on an assistant message, or null for messages answered
+ * outside the experiment (attachments, errors, older messages).
+ */
+export function getMessagePipelineVariant(message: ChatMessage): PipelineVariant | null {
+  if (message.role !== "assistant" || !message.citations) return null;
+  try {
+    const parsed = JSON.parse(message.citations);
+    return parsed?.pipelineVariant ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One "chat_answer" event per answered question; the experiment dashboard
+ * joins cost, feedback and analytics to these by request, message and session.
+ */
+export async function recordChatAnswerEvent(options: {
+  actor: ActorContext | undefined;
+  sessionId: string;
+  town: string;
+  assignment: PipelineAssignment;
+  requestId: string;
+  messageId: string;
+  durationMs: number;
+  cached?: boolean;
+}): Promise<void> {
+  const { actor, sessionId, town, assignment } = options;
+  if (!actor) return;
+  try {
+    await storage.createEvent({
+      actorType: actor.actorType,
+      userId: actor.actorType === "user" ? actor.userId : undefined,
+      anonId: actor.anonId,
+      eventType: "chat_answer",
+      sessionId,
+      town,
+      metadata: {
+        experiment: assignment.experiment,
+        pipelineVariant: assignment.variant,
+        requestId: options.requestId,
+        messageId: options.messageId,
+        durationMs: options.durationMs,
+        cached: !!options.cached,
+      },
+    });
+  } catch (error) {
+    logWarn("chat_answer_event_failed", {
+      sessionId,
+      stage: "experiments",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -118,6 +118,14 @@ export function getMimeType(filename: string): string {
       return 'application/msword';
     case 'txt':
       return 'text/plain';
+    case 'png':
+      return 'image/png';
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'tif':
+    case 'tiff':
+      return 'image/tiff';
     default:
       return 'application/octet-stream';
   }
@@ -8,6 +8,7 @@ import * as path from "path";
 import { getOrCreateTownStore } from "./s3Sync"; 
 import { processFile } from "./fileProcessing";
 import { performOcrOnPdf } from "../workers/ocrWorkerUtils"; // New extracted utility
+import { indexDocumentVersion } from "../retrieval/localIndex";
 
 const S3_BUCKET = process.env.S3_BUCKET || "opencouncil-municipal-docs";
 const s3 = new S3Client({ region: process.env.AWS_REGION || "us-east-1" });
@@ -189,6 +190,7 @@ async function createUnifiedDocumentEntry(job: any, fileId: string, storeId: str
   }).returning();
 
   await db.update(schema.logicalDocuments).set({ currentVersionId: version.id }).where(eq(schema.logicalDocuments.id, logicalDoc.id));
+  await indexDocumentVersion(version.id);
 }
 
 function extractDateFromFilename(filename: string): Date | null {
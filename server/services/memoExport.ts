@@ -0,0 +1,417 @@
+/**
+ * Session memo export
+ *
+ * Renders a chat session's active branch as a memo: each question, its answer
+ * and the answer's cited sources, under a header with the town, the date the
+ * memo was generated and the scope disclaimer the chat shows. Markdown is the
+ * canonical layout; DOCX and PDF render the same blocks.
+ */
+
+import { format } from "date-fns";
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+import PDFDocument from "pdfkit";
+import { getActiveBranch } from "../chatV2/conversationBranches";
+import { selectScopeNotice } from "../chatV2/scopeUtils";
+import type { DocSourceType, SourceCitation } from "../chatV2/types";
+import type { ChatMessage, ChatSession } from "@shared/schema";
+
+export const MEMO_FORMATS = {
+  md: { mimeType: "text/markdown; charset=utf-8", extension: "md" },
+  docx: { mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", extension: "docx" },
+  pdf: { mimeType: "application/pdf", extension: "pdf" },
+} as const;
+
+export type MemoFormat = keyof typeof MEMO_FORMATS;
+
+export function isMemoFormat(value: unknown): value is MemoFormat {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(MEMO_FORMATS, value);
+}
+
+export interface MemoEntry {
+  question: string;
+  attachmentFilename: string | null;
+  answer: string;
+  sources: SourceCitation[];
+}
+
+export interface SessionMemo {
+  title: string;
+  town: string | null;
+  generatedAt: Date;
+  disclaimer: string;
+  entries: MemoEntry[];
+}
+
+function storedSources(citations: string | null): SourceCitation[] {
+  if (!citations) return [];
+  try {
+    const parsed = JSON.parse(citations);
+    return parsed?.v2 === true && Array.isArray(parsed.sources) ? parsed.sources : [];
+  } catch {
+    return [];
+  }
+}
+
+function isStatewideSource(source: SourceCitation): boolean {
+  return (source.town || "").toLowerCase() === "statewide";
+}
+
+/**
+ * Memo-wide scope: the same notice a single answer would get if it had drawn
+ * on every source cited in the session.
+ */
+function memoScopeDisclaimer(town: string | null, sources: SourceCitation[]): string {
+  const hasLocal = sources.some((s) => !isStatewideSource(s));
+  const hasState = sources.some(isStatewideSource);
+  const docSourceType: DocSourceType = hasLocal && hasState ? "mixed" : hasLocal ? "local" : hasState ? "statewide" : "none";
+
+  return selectScopeNotice({
+    docSourceType,
+    docSourceTown: town,
+    sourceCount: sources.length,
+  }).message;
+}
+
+/**
+ * Question/answer pairs on the session's active branch. Questions still
+ * waiting for an answer are left out.
+ */
+export function buildSessionMemo(
+  session: ChatSession,
+  messages: ChatMessage[],
+  now: Date = new Date()
+): SessionMemo {
+  const path = getActiveBranch(messages, session.activeMessageId);
+  const entries: MemoEntry[] = [];
+
+  path.forEach((message, idx) => {
+    const answer = path[idx + 1];
+    if (message.role !== "user" || !answer || answer.role !== "assistant") return;
+    entries.push({
+      question: message.content,
+      attachmentFilename: message.attachmentFilename,
+      answer: answer.content,
+      sources: storedSources(answer.citations),
+    });
+  });
+
+  const town = session.townPreference || null;
+  return {
+    title: session.title,
+    town,
+    generatedAt: now,
+    disclaimer: memoScopeDisclaimer(town, entries.flatMap((e) => e.sources)),
+    entries,
+  };
+}
+
+function formatMeetingDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, "MMMM d, yyyy");
+}
+
+/**
+ * "Title — Town, Board, March 5, 2024" with whichever details are known.
+ */
+export function formatSourceLine(source: SourceCitation): string {
+  const details = [
+    source.town ? (isStatewideSource(source) ? "Statewide" : source.town) : null,
+    source.board || null,
+    source.meetingDate ? formatMeetingDate(source.meetingDate) : source.year || null,
+  ].filter((d): d is string => !!d);
+
+  return details.length > 0 ? `${source.title} — ${details.join(", ")}` : source.title;
+}
+
+function sourceLabel(source: SourceCitation, idx: number): string {
+  return `[${source.marker ?? idx + 1}]`;
+}
+
+// ============================================================
+// MARKDOWN BLOCKS
+// ============================================================
+
+interface MemoBlock {
+  kind: "heading" | "paragraph" | "bullet" | "numbered";
+  text: string;
+  number?: string;
+}
+
+interface InlineRun {
+  text: string;
+  bold: boolean;
+}
+
+/**
+ * The subset of Markdown our answers use: headings, bullet and numbered
+ * lists, paragraphs.
+ */
+function parseMarkdownBlocks(markdown: string): MemoBlock[] {
+  const blocks: MemoBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  markdown.split("\n").forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || /^-{3,}$/.test(line)) {
+      flush();
+      return;
+    }
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    const numbered = line.match(/^(\d+)[.)]\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ kind: "heading", text: heading[1] });
+    } else if (bullet) {
+      flush();
+      blocks.push({ kind: "bullet", text: bullet[1] });
+    } else if (numbered) {
+      flush();
+      blocks.push({ kind: "numbered", text: numbered[2], number: numbered[1] });
+    } else {
+      paragraph.push(line);
+    }
+  });
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split on **bold** spans; links become "text (url)" and other emphasis
+ * markers are dropped.
+ */
+function parseInlineRuns(text: string): InlineRun[] {
+  const plain = text
+    .replace(/\[([^\]]+)\]\((https?:[^)]+)\)/g, "$1 ($2)")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*(?!\*)/g, "$1$2")
+    .replace(/\b_([^_]+)_\b/g, "$1");
+
+  return plain
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const bold = part.match(/^\*\*([^*]+)\*\*$/);
+      return bold ? { text: bold[1], bold: true } : { text: part, bold: false };
+    });
+}
+
+// ============================================================
+// MARKDOWN
+// ============================================================
+
+export function renderMemoMarkdown(memo: SessionMemo): string {
+  const lines: string[] = [
+    `# ${memo.title}`,
+    "",
+    `**Town:** ${memo.town || "Not specified"}  `,
+    `**Generated:** ${format(memo.generatedAt, "MMMM d, yyyy")}`,
+    "",
+    `> ${memo.disclaimer}`,
+  ];
+
+  memo.entries.forEach((entry, idx) => {
+    lines.push("", "---", "", `## Question ${idx + 1}`, "", entry.question);
+    if (entry.attachmentFilename) {
+      lines.push("", `*Attachment: ${entry.attachmentFilename}*`);
+    }
+    // Answer headings sit below the memo's own Question / Answer levels
+    lines.push("", "### Answer", "", entry.answer.trim().replace(/^#{1,6}\s+/gm, "#### "));
+    if (entry.sources.length > 0) {
+      lines.push("", "### Sources", "");
+      entry.sources.forEach((source, sIdx) => {
+        lines.push(`- ${sourceLabel(source, sIdx)} ${formatSourceLine(source)}`);
+      });
+    }
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+// ============================================================
+// DOCX
+// ============================================================
+
+function docxRuns(text: string): TextRun[] {
+  return parseInlineRuns(text).map((run) => new TextRun({ text: run.text, bold: run.bold }));
+}
+
+function docxBlocks(markdown: string): Paragraph[] {
+  return parseMarkdownBlocks(markdown).map((block) => {
+    switch (block.kind) {
+      case "heading":
+        return new Paragraph({ heading: HeadingLevel.HEADING_3, children: docxRuns(block.text) });
+      case "bullet":
+        return new Paragraph({ bullet: { level: 0 }, children: docxRuns(block.text) });
+      case "numbered":
+        return new Paragraph({
+          indent: { left: 360 },
+          children: [new TextRun(`${block.number}. `), ...docxRuns(block.text)],
+        });
+      default:
+        return new Paragraph({ spacing: { after: 120 }, children: docxRuns(block.text) });
+    }
+  });
+}
+
+export async function renderMemoDocx(memo: SessionMemo): Promise<Buffer> {
+  const children: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(memo.title)] }),
+    new Paragraph({ children: [new TextRun({ text: "Town: ", bold: true }), new TextRun(memo.town || "Not specified")] }),
+    new Paragraph({
+      children: [new TextRun({ text: "Generated: ", bold: true }), new TextRun(format(memo.generatedAt, "MMMM d, yyyy"))],
+    }),
+    new Paragraph({ spacing: { before: 120, after: 240 }, children: [new TextRun({ text: memo.disclaimer, italics: true })] }),
+  ];
+
+  memo.entries.forEach((entry, idx) => {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(`Question ${idx + 1}`)] }));
+    children.push(new Paragraph({ spacing: { after: 120 }, children: [new TextRun(entry.question)] }));
+    if (entry.attachmentFilename) {
+      children.push(new Paragraph({ children: [new TextRun({ text: `Attachment: ${entry.attachmentFilename}`, italics: true })] }));
+    }
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun("Answer")] }));
+    children.push(...docxBlocks(entry.answer));
+    if (entry.sources.length > 0) {
+      children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun("Sources")] }));
+      entry.sources.forEach((source, sIdx) => {
+        children.push(new Paragraph({
+          bullet: { level: 0 },
+          children: [new TextRun({ text: `${sourceLabel(source, sIdx)} `, bold: true }), new TextRun(formatSourceLine(source))],
+        }));
+      });
+    }
+  });
+
+  const doc = new Document({
+    creator: "OPENCouncil",
+    title: memo.title,
+    sections: [{ children }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+// ============================================================
+// PDF
+// ============================================================
+
+const PDF_FONT = "Helvetica";
+const PDF_FONT_BOLD = "Helvetica-Bold";
+const PDF_FONT_ITALIC = "Helvetica-Oblique";
+const PDF_LIST_INDENT = 22;
+
+function pdfRuns(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  options: PDFKit.Mixins.TextOptions = {},
+  position?: { x: number; y: number }
+): void {
+  const runs = parseInlineRuns(text);
+  runs.forEach((run, idx) => {
+    const runOptions = { ...options, continued: idx < runs.length - 1 };
+    doc.font(run.bold ? PDF_FONT_BOLD : PDF_FONT);
+    if (idx === 0 && position) {
+      doc.text(run.text, position.x, position.y, runOptions);
+    } else {
+      doc.text(run.text, runOptions);
+    }
+  });
+}
+
+function pdfListItem(doc: PDFKit.PDFDocument, marker: string, text: string): void {
+  const x = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right - PDF_LIST_INDENT;
+  const y = doc.y;
+  doc.font(PDF_FONT).text(marker, x, y, { width: PDF_LIST_INDENT, lineBreak: false });
+  pdfRuns(doc, text, { width }, { x: x + PDF_LIST_INDENT, y });
+  doc.x = x;
+}
+
+function pdfBlocks(doc: PDFKit.PDFDocument, markdown: string): void {
+  parseMarkdownBlocks(markdown).forEach((block) => {
+    switch (block.kind) {
+      case "heading":
+        doc.fontSize(11).font(PDF_FONT_BOLD).text(block.text.replace(/\*\*/g, ""));
+        doc.fontSize(10);
+        break;
+      case "bullet":
+        pdfListItem(doc, "•", block.text);
+        break;
+      case "numbered":
+        pdfListItem(doc, `${block.number}.`, block.text);
+        break;
+      default:
+        pdfRuns(doc, block.text);
+    }
+    doc.moveDown(0.4);
+  });
+}
+
+export function renderMemoPdf(memo: SessionMemo): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 72, info: { Title: memo.title, Creator: "OPENCouncil" } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.fontSize(18).font(PDF_FONT_BOLD).text(memo.title);
+    doc.moveDown(0.5);
+    doc.fontSize(10).font(PDF_FONT_BOLD).text("Town: ", { continued: true }).font(PDF_FONT).text(memo.town || "Not specified");
+    doc.font(PDF_FONT_BOLD).text("Generated: ", { continued: true }).font(PDF_FONT).text(format(memo.generatedAt, "MMMM d, yyyy"));
+    doc.moveDown(0.5);
+    doc.font(PDF_FONT_ITALIC).fillColor("#555555").text(memo.disclaimer).fillColor("black");
+
+    memo.entries.forEach((entry, idx) => {
+      doc.moveDown(1);
+      doc.fontSize(13).font(PDF_FONT_BOLD).text(`Question ${idx + 1}`);
+      doc.moveDown(0.3);
+      doc.fontSize(10).font(PDF_FONT).text(entry.question);
+      if (entry.attachmentFilename) {
+        doc.font(PDF_FONT_ITALIC).text(`Attachment: ${entry.attachmentFilename}`);
+      }
+      doc.moveDown(0.6);
+      doc.fontSize(12).font(PDF_FONT_BOLD).text("Answer");
+      doc.moveDown(0.3);
+      doc.fontSize(10);
+      pdfBlocks(doc, entry.answer);
+      if (entry.sources.length > 0) {
+        doc.moveDown(0.3);
+        doc.fontSize(12).font(PDF_FONT_BOLD).text("Sources");
+        doc.moveDown(0.3);
+        doc.fontSize(9);
+        entry.sources.forEach((source, sIdx) => {
+          pdfListItem(doc, sourceLabel(source, sIdx), formatSourceLine(source));
+        });
+        doc.fontSize(10);
+      }
+    });
+
+    doc.end();
+  });
+}
+
+export async function renderSessionMemo(memo: SessionMemo, memoFormat: MemoFormat): Promise<Buffer> {
+  switch (memoFormat) {
+    case "docx":
+      return renderMemoDocx(memo);
+    case "pdf":
+      return renderMemoPdf(memo);
+    default:
+      return Buffer.from(renderMemoMarkdown(memo), "utf-8");
+  }
+}
@@ -1,8 +1,7 @@
-import { GoogleGenAI } from "@google/genai";
 import type { DocumentMetadata, MetadataHints } from "@shared/schema";
 import { ALLOWED_CATEGORIES, NH_TOWNS } from "@shared/schema";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+import { generateContent } from "../llm/providers";
+import { getModelForStage } from "../llm/modelRegistry";
 
 export interface SuggestedMetadata {
   category: typeof ALLOWED_CATEGORIES[number];
@@ -479,9 +478,10 @@ Document Preview Text:
 ${previewText.slice(0, 10000)}`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
+    const response = await generateContent({
+      model: getModelForStage("metadataExtraction").model,
+      prompt,
+      responseFormat: "json",
     });
 
     const responseText = response.text || "";
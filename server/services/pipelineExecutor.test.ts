@@ -0,0 +1,138 @@
+import { createPipelineExecutor, PipelineQueueError, type PipelineSlot } from './pipelineExecutor';
+import type { PipelineQueueConfig } from '../config/pipelineQueue';
+
+describe('createPipelineExecutor', () => {
+  const config: PipelineQueueConfig = {
+    maxConcurrent: 1,
+    maxQueued: { municipal_staff: 2, paying: 2, free: 2, anonymous: 1, background: 1 },
+    maxWaitMs: 1000,
+  };
+  let clock: number;
+  const now = () => clock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    clock = 0;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('admits immediately while a slot is free', async () => {
+    const executor = createPipelineExecutor(config, now);
+    const slot = await executor.acquire('anonymous');
+    expect(slot.queued).toBe(false);
+    expect(slot.waitMs).toBe(0);
+    expect(executor.snapshot().active).toBe(1);
+  });
+
+  it('gives a freed slot to the highest class first, oldest waiter within a class', async () => {
+    const executor = createPipelineExecutor(config, now);
+    const running = await executor.acquire('free');
+
+    const admitted: string[] = [];
+    const track = (label: string) => (slot: PipelineSlot) => {
+      admitted.push(label);
+      return slot;
+    };
+    const anon = executor.acquire('anonymous').then(track('anonymous'));
+    const payingFirst = executor.acquire('paying').then(track('paying-1'));
+    const payingSecond = executor.acquire('paying').then(track('paying-2'));
+    const staff = executor.acquire('municipal_staff').then(track('staff'));
+
+    running.release();
+    (await staff).release();
+    (await payingFirst).release();
+    (await payingSecond).release();
+    await anon;
+
+    expect(admitted).toEqual(['staff', 'paying-1', 'paying-2', 'anonymous']);
+  });
+
+  it('reports the time spent waiting', async () => {
+    const executor = createPipelineExecutor(config, now);
+    const running = await executor.acquire('free');
+    const waiting = executor.acquire('free');
+    clock = 250;
+    running.release();
+    const slot = await waiting;
+    expect(slot.queued).toBe(true);
+    expect(slot.waitMs).toBe(250);
+  });
+
+  it('reports queue positions as they change', async () => {
+    const executor = createPipelineExecutor(config, now);
+    const running = await executor.acquire('free');
+    const positions: number[] = [];
+    const free = executor.acquire('free', { onPosition: (p) => positions.push(p) });
+    const staff = executor.acquire('municipal_staff');
+
+    // Staff jumps ahead, then is admitted
+    running.release();
+    (await staff).release();
+    await free;
+
+    expect(positions).toEqual([1, 2, 1]);
+  });
+
+  it('turns requests away when their class queue is full', async () => {
+    const executor = createPipelineExecutor(config, now);
+    await executor.acquire('free');
+    const queued = executor.acquire('anonymous');
+
+    await expect(executor.acquire('anonymous')).rejects.toMatchObject({ reason: 'full' });
+    expect(executor.snapshot().queued.anonymous).toBe(1);
+    // Other classes keep their own room
+    executor.acquire('paying').catch(() => {});
+    expect(executor.snapshot().queued.paying).toBe(1);
+    queued.catch(() => {});
+  });
+
+  it('gives up after the maximum wait', async () => {
+    const executor = createPipelineExecutor(config, now);
+    await executor.acquire('free');
+    const waiting = executor.acquire('free');
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(waiting).rejects.toBeInstanceOf(PipelineQueueError);
+    await expect(waiting).rejects.toMatchObject({ reason: 'timeout' });
+    expect(executor.snapshot().queued.free).toBe(0);
+  });
+
+  it('leaves the queue when aborted and moves later waiters up', async () => {
+    const executor = createPipelineExecutor(config, now);
+    const running = await executor.acquire('free');
+    const abort = new AbortController();
+    const positions: number[] = [];
+    const leaving = executor.acquire('free', { signal: abort.signal });
+    const staying = executor.acquire('free', { onPosition: (p) => positions.push(p) });
+
+    abort.abort();
+    await expect(leaving).rejects.toMatchObject({ reason: 'aborted' });
+    expect(positions).toEqual([2, 1]);
+
+    running.release();
+    const slot = await staying;
+    expect(slot.queued).toBe(true);
+  });
+
+  it('rejects a request whose signal is already aborted', async () => {
+    const executor = createPipelineExecutor(config, now);
+    await executor.acquire('free');
+    const abort = new AbortController();
+    abort.abort();
+    await expect(executor.acquire('free', { signal: abort.signal })).rejects.toMatchObject({ reason: 'aborted' });
+    expect(executor.snapshot().queued.free).toBe(0);
+  });
+
+  it('frees a slot only once per release', async () => {
+    const executor = createPipelineExecutor({ ...config, maxConcurrent: 2 }, now);
+    const first = await executor.acquire('free');
+    await executor.acquire('free');
+    first.release();
+    first.release();
+    expect(executor.snapshot().active).toBe(1);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Concurrency-limited executor for chat pipeline runs.
+ *
+ * At most maxConcurrent runs hold a slot at once. Requests beyond that wait
+ * in a bounded queue per priority class; a freed slot goes to the oldest
+ * waiter of the highest class, so municipal staff and paying users keep
+ * getting answers during bursts of anonymous traffic. Waiters are told their
+ * position as it changes. Background workers queue behind everyone.
+ */
+
+import { storage } from "../storage";
+import { logWarn } from "../utils/logger";
+import {
+  PRIORITY_CLASSES,
+  getPipelineQueueConfig,
+  type PipelineQueueConfig,
+  type PriorityClass,
+} from "../config/pipelineQueue";
+import type { ActorContext } from "../auth/types";
+
+export type PipelineQueueErrorReason = "full" | "timeout" | "aborted";
+
+export class PipelineQueueError extends Error {
+  constructor(message: string, public readonly reason: PipelineQueueErrorReason) {
+    super(message);
+    this.name = "PipelineQueueError";
+  }
+}
+
+export interface PipelineSlot {
+  priorityClass: PriorityClass;
+  /** Time spent waiting for the slot (0 when one was free) */
+  waitMs: number;
+  queued: boolean;
+  release(): void;
+}
+
+export interface AcquireOptions {
+  /** Called with the 1-based queue position whenever it changes */
+  onPosition?: (position: number) => void;
+  /** Leaves the queue, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export interface PipelineQueueSnapshot {
+  active: number;
+  maxConcurrent: number;
+  queued: Record<PriorityClass, number>;
+}
+
+export interface PipelineExecutor {
+  acquire(priorityClass: PriorityClass, options?: AcquireOptions): Promise<PipelineSlot>;
+  snapshot(): PipelineQueueSnapshot;
+}
+
+interface Waiter {
+  priorityClass: PriorityClass;
+  position: number;
+  onPosition?: (position: number) => void;
+  admit(): void;
+}
+
+export function createPipelineExecutor(
+  config: PipelineQueueConfig,
+  now: () => number = Date.now
+): PipelineExecutor {
+  let active = 0;
+  const queues = Object.fromEntries(PRIORITY_CLASSES.map((c) => [c, [] as Waiter[]])) as Record<
+    PriorityClass,
+    Waiter[]
+  >;
+
+  const reportPositions = () => {
+    let position = 0;
+    for (const priorityClass of PRIORITY_CLASSES) {
+      for (const waiter of queues[priorityClass]) {
+        position++;
+        if (waiter.position !== position) {
+          waiter.position = position;
+          waiter.onPosition?.(position);
+        }
+      }
+    }
+  };
+
+  const remove = (waiter: Waiter) => {
+    const queue = queues[waiter.priorityClass];
+    const index = queue.indexOf(waiter);
+    if (index === -1) return false;
+    queue.splice(index, 1);
+    return true;
+  };
+
+  const release = () => {
+    active--;
+    const next = PRIORITY_CLASSES.map((c) => queues[c][0]).find(Boolean);
+    if (next) {
+      remove(next);
+      active++;
+      next.admit();
+      reportPositions();
+    }
+  };
+
+  const slot = (priorityClass: PriorityClass, waitMs: number, queued: boolean): PipelineSlot => {
+    let released = false;
+    return {
+      priorityClass,
+      waitMs,
+      queued,
+      release: () => {
+        if (released) return;
+        released = true;
+        release();
+      },
+    };
+  };
+
+  return {
+    acquire: (priorityClass, options = {}) => {
+      if (active < config.maxConcurrent) {
+        active++;
+        return Promise.resolve(slot(priorityClass, 0, false));
+      }
+
+      if (queues[priorityClass].length >= config.maxQueued[priorityClass]) {
+        return Promise.reject(new PipelineQueueError("Pipeline queue is full", "full"));
+      }
+
+      return new Promise<PipelineSlot>((resolve, reject) => {
+        const enqueuedAt = now();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const onAbort = () => {
+          if (remove(waiter)) {
+            clearTimeout(timer);
+            reject(new PipelineQueueError("Left the pipeline queue", "aborted"));
+            reportPositions();
+          }
+        };
+
+        const waiter: Waiter = {
+          priorityClass,
+          position: 0,
+          onPosition: options.onPosition,
+          admit: () => {
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", onAbort);
+            resolve(slot(priorityClass, now() - enqueuedAt, true));
+          },
+        };
+
+        timer = setTimeout(() => {
+          if (remove(waiter)) {
+            options.signal?.removeEventListener("abort", onAbort);
+            reject(new PipelineQueueError("Timed out waiting for a pipeline slot", "timeout"));
+            reportPositions();
+          }
+        }, config.maxWaitMs);
+
+        if (options.signal?.aborted) {
+          clearTimeout(timer);
+          reject(new PipelineQueueError("Left the pipeline queue", "aborted"));
+          return;
+        }
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+
+        queues[priorityClass].push(waiter);
+        reportPositions();
+      });
+    },
+    snapshot: () => ({
+      active,
+      maxConcurrent: config.maxConcurrent,
+      queued: Object.fromEntries(PRIORITY_CLASSES.map((c) => [c, queues[c].length])) as Record<
+        PriorityClass,
+        number
+      >,
+    }),
+  };
+}
+
+/**
+ * Executor shared by every chat pipeline run in this process
+ */
+export const pipelineExecutor = createPipelineExecutor(getPipelineQueueConfig());
+
+export function getPriorityClass(actor: ActorContext | undefined): PriorityClass {
+  if (actor?.actorType !== "user" || !actor.user) return "anonymous";
+  if (actor.user.isMunicipalStaff) return "municipal_staff";
+  return actor.user.isPaying ? "paying" : "free";
+}
+
+/**
+ * Run background work (a queued question, a research job) in a pipeline slot
+ * at the lowest priority. Throws PipelineQueueError when the background queue
+ * is full or the wait times out; the worker retries on its next poll.
+ */
+export async function withBackgroundSlot<T>(
+  actor: ActorContext,
+  sessionId: string,
+  run: () => Promise<T>
+): Promise<T> {
+  const requestedAt = Date.now();
+  let slot: PipelineSlot;
+  try {
+    slot = await pipelineExecutor.acquire("background");
+  } catch (error) {
+    if (error instanceof PipelineQueueError) {
+      await recordQueueWaitEvent({
+        actor,
+        sessionId,
+        priorityClass: "background",
+        outcome: error.reason,
+        waitMs: Date.now() - requestedAt,
+        queued: error.reason !== "full",
+      });
+    }
+    throw error;
+  }
+
+  await recordQueueWaitEvent({
+    actor,
+    sessionId,
+    priorityClass: "background",
+    outcome: "admitted",
+    waitMs: slot.waitMs,
+    queued: slot.queued,
+  });
+
+  try {
+    return await run();
+  } finally {
+    slot.release();
+  }
+}
+
+/**
+ * One "chat_queue_wait" event per request that asked for a slot; the admin
+ * usage page reports wait times and turned-away requests per class.
+ */
+export async function recordQueueWaitEvent(options: {
+  actor: ActorContext | undefined;
+  sessionId: string;
+  priorityClass: PriorityClass;
+  outcome: "admitted" | PipelineQueueErrorReason;
+  waitMs: number;
+  queued: boolean;
+}): Promise<void> {
+  const { actor, sessionId } = options;
+  if (!actor) return;
+  try {
+    await storage.createEvent({
+      actorType: actor.actorType,
+      userId: actor.actorType === "user" ? actor.userId : undefined,
+      anonId: actor.anonId,
+      eventType: "chat_queue_wait",
+      sessionId,
+      metadata: {
+        priorityClass: options.priorityClass,
+        outcome: options.outcome,
+        waitMs: options.waitMs,
+        queued: options.queued,
+      },
+    });
+  } catch (error) {
+    logWarn("chat_queue_wait_event_failed", {
+      sessionId,
+      stage: "pipeline_queue",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * RSA statute corpus.
+ *
+ * Parses statute text as published by the General Court (TITLE / CHAPTER
+ * headers followed by "91-A:2 Meetings Open to Public. –" section headings)
+ * into one row per section, and parses RSA references ("RSA 91-A:2",
+ * "rsa 32:5-b") into the same canonical chapter:section citation so either
+ * side can be looked up directly.
+ */
+
+import { storage } from "../storage";
+import type { InsertRsaSection } from "@shared/schema";
+
+export class RsaParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RsaParseError";
+  }
+}
+
+export interface RsaReference {
+  chapter: string; // e.g. '91-A'
+  section?: string; // e.g. '2'; absent for chapter-only references
+  citation?: string; // e.g. '91-A:2'
+}
+
+export interface RsaImportOptions {
+  /** Roman numeral title, required when the text has no TITLE header */
+  title?: string;
+  titleName?: string;
+  sourceUrl?: string;
+}
+
+export interface RsaImportResult {
+  chapters: string[];
+  sectionCount: number;
+}
+
+const CHAPTER_PATTERN = "(\\d{1,3}(?:-[A-Za-z]{1,2})?)";
+const SECTION_PATTERN = "(\\d{1,3}(?:-[A-Za-z]{1,2})?)";
+
+const REFERENCE_REGEX = new RegExp(`\\bRSAs?\\s+(?:chapter\\s+)?${CHAPTER_PATTERN}(?::${SECTION_PATTERN})?\\b`, "gi");
+
+const TITLE_LINE = /^\s*TITLE\s+([IVXLC]+(?:-[A-Z])?)\s*$/i;
+const CHAPTER_LINE = new RegExp(`^\\s*CHAPTER\\s+${CHAPTER_PATTERN}\\s*$`, "i");
+const SECTION_LABEL_LINE = /^\s*Section\s+\d{1,3}(?:-[A-Za-z]{1,2})?:\S+\s*$/i;
+const SECTION_HEADING_LINE = new RegExp(`^\\s*${CHAPTER_PATTERN}:${SECTION_PATTERN}\\s+(.+?)\\.?\\s+[–—-]{1,2}(?:\\s+(.*))?$`);
+const REPEALED_SECTION_LINE = new RegExp(`^\\s*${CHAPTER_PATTERN}:${SECTION_PATTERN}\\s+(Repealed\\b.*)$`, "i");
+
+export function normalizeRsaChapter(chapter: string): string {
+  return chapter.trim().toUpperCase();
+}
+
+export function normalizeRsaSection(section: string): string {
+  return section.trim().toLowerCase();
+}
+
+export function formatRsaCitation(chapter: string, section: string): string {
+  return `${normalizeRsaChapter(chapter)}:${normalizeRsaSection(section)}`;
+}
+
+/**
+ * RSA references in free text, deduplicated, in order of first mention.
+ */
+export function parseRsaReferences(text: string): RsaReference[] {
+  const references: RsaReference[] = [];
+  const seen = new Set<string>();
+  const regex = new RegExp(REFERENCE_REGEX.source, REFERENCE_REGEX.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    const chapter = normalizeRsaChapter(match[1]);
+    const section = match[2] ? normalizeRsaSection(match[2]) : undefined;
+    const key = section ? formatRsaCitation(chapter, section) : chapter;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    references.push(section ? { chapter, section, citation: key } : { chapter });
+  }
+
+  return references;
+}
+
+/**
+ * Canonical citations ("91-A:2") for the section-level references in text.
+ */
+export function parseRsaCitations(text: string): string[] {
+  return parseRsaReferences(text)
+    .map((r) => r.citation)
+    .filter((c): c is string => !!c);
+}
+
+/**
+ * Official page for a section, e.g. .../rsa/html/VI/91-A/91-A-2.htm
+ */
+export function rsaSectionUrl(title: string, chapter: string, section: string): string {
+  return `https://www.gencourt.state.nh.us/rsa/html/${title}/${chapter}/${chapter}-${section}.htm`;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&ndash;": "–",
+  "&mdash;": "—",
+  "&sect;": "§",
+};
+
+/**
+ * Plain text from a statute page saved from the General Court site, keeping
+ * the line breaks the section parser relies on.
+ */
+export function statuteHtmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h\d|center|codesect|sourcenote|li|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&[a-z]+;|&#39;/gi, (entity) => HTML_ENTITIES[entity.toLowerCase()] ?? entity)
+    .replace(/[ \t]+\n/g, "\n");
+}
+
+function toTitleCase(text: string): string {
+  if (text !== text.toUpperCase()) return text.trim();
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/\b([a-z])/g, (c) => c.toUpperCase())
+    .replace(/\b(And|Of|The|To|For|In|On|Or)\b/g, (w) => w.toLowerCase())
+    .replace(/^([a-z])/, (c) => c.toUpperCase());
+}
+
+function nextNonEmptyLine(lines: string[], from: number): { text: string; index: number } | null {
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i].trim()) return { text: lines[i].trim(), index: i };
+  }
+  return null;
+}
+
+/**
+ * Split statute text into sections. Text before the first section heading
+ * (title and chapter headers, tables of contents) is not stored.
+ */
+export function parseRsaText(text: string, options: RsaImportOptions = {}): InsertRsaSection[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const sections: InsertRsaSection[] = [];
+
+  let title = options.title?.trim().toUpperCase() || null;
+  let titleName = options.titleName?.trim() || null;
+  let chapterName: string | null = null;
+  let current: InsertRsaSection | null = null;
+  let bodyLines: string[] = [];
+
+  const flush = () => {
+    if (!current) return;
+    const body = bodyLines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    sections.push({ ...current, body: body || current.heading || "" });
+    current = null;
+    bodyLines = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const titleMatch = line.match(TITLE_LINE);
+    if (titleMatch) {
+      flush();
+      title = titleMatch[1].toUpperCase();
+      const name = nextNonEmptyLine(lines, i + 1);
+      if (name && !CHAPTER_LINE.test(name.text)) {
+        titleName = toTitleCase(name.text);
+        i = name.index;
+      }
+      continue;
+    }
+
+    const chapterMatch = line.match(CHAPTER_LINE);
+    if (chapterMatch) {
+      flush();
+      const name = nextNonEmptyLine(lines, i + 1);
+      if (name && !SECTION_LABEL_LINE.test(name.text) && !SECTION_HEADING_LINE.test(name.text)) {
+        chapterName = toTitleCase(name.text);
+        i = name.index;
+      }
+      continue;
+    }
+
+    if (SECTION_LABEL_LINE.test(line)) continue;
+
+    const headingMatch = line.match(SECTION_HEADING_LINE) || line.match(REPEALED_SECTION_LINE);
+    if (headingMatch) {
+      flush();
+      if (!title) {
+        throw new RsaParseError("The text has no TITLE header; provide the title (e.g. VI) to import it.");
+      }
+      const chapter = normalizeRsaChapter(headingMatch[1]);
+      const section = normalizeRsaSection(headingMatch[2]);
+      current = {
+        title,
+        titleName,
+        chapter,
+        chapterName,
+        section,
+        citation: formatRsaCitation(chapter, section),
+        heading: headingMatch[3].trim().replace(/\.$/, ""),
+        body: "",
+        sourceUrl: options.sourceUrl || rsaSectionUrl(title, chapter, section),
+      };
+      if (headingMatch[4]) bodyLines.push(headingMatch[4]);
+      continue;
+    }
+
+    if (current) bodyLines.push(line.trimEnd());
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Parse statute text and store its sections, replacing earlier text for the
+ * same citations. Cached answers are invalidated since statewide evidence
+ * changed.
+ */
+export async function importRsaText(text: string, options: RsaImportOptions = {}): Promise<RsaImportResult> {
+  const sections = parseRsaText(text, options);
+  if (sections.length === 0) {
+    throw new RsaParseError('No RSA sections found. Section headings look like "91-A:2 Meetings Open to Public. –".');
+  }
+
+  const sectionCount = await storage.upsertRsaSections(sections);
+  await storage.bumpCorpusVersion("statewide");
+
+  return {
+    chapters: Array.from(new Set(sections.map((s) => s.chapter))),
+    sectionCount,
+  };
+}
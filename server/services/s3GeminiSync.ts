@@ -13,6 +13,7 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { Readable } from "stream";
 import * as syncStorage from "../storage/s3GeminiSync";
+import { bumpCorpusVersionForTown } from "../chatV2/answerCache";
 import type { InsertS3GeminiSync, S3GeminiSync } from "@shared/schema";
 
 // ============================================================
@@ -484,5 +485,8 @@ export async function syncTown(
   }
   
   console.log(`[S3GeminiSync] Complete: ${result.uploaded} uploaded, ${result.skipped} skipped, ${result.failed} failed`);
+  if (result.uploaded > 0) {
+    await bumpCorpusVersionForTown(townLower);
+  }
   return result;
 }
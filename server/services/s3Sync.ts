@@ -18,6 +18,7 @@ import { GoogleGenAI } from "@google/genai";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { Readable } from "stream";
+import { bumpCorpusVersionForTown } from "../chatV2/answerCache";
 
 // ============================================================
 // CONFIGURATION
@@ -433,6 +434,7 @@ export async function syncS3ToGemini(options: SyncOptions = {}): Promise<SyncRes
           
           if (uploadResult.success) {
             console.log(`[S3Sync] ✓ ${file.key}`);
+            await bumpCorpusVersionForTown(metadata.town);
             return { success: true };
           } else {
             throw new Error(uploadResult.error || "Unknown error");
@@ -0,0 +1,96 @@
+/**
+ * Shared session snapshots
+ *
+ * A share freezes the session's active branch as it looks in the chat — each
+ * message with its sources, notices and coverage gaps — so the link keeps
+ * showing the exact answers even if the owner keeps chatting, edits or
+ * regenerates. Attachment text extracted from uploads can hold personal
+ * details and is left out unless the owner opts in.
+ */
+
+import { randomBytes } from "crypto";
+import { getActiveBranch } from "../chatV2/conversationBranches";
+import type { ChatMessage, ChatSession, SessionShare, SourceCitation } from "@shared/schema";
+import type { ChatNotice } from "@shared/chatNotices";
+import type {
+  SessionShareLink,
+  SharedSessionMessage,
+  SharedSessionSnapshot,
+} from "@shared/sessionShares";
+
+const SHARE_TOKEN_BYTES = 24;
+
+/** 192 random bits, URL-safe */
+export function generateShareToken(): string {
+  return randomBytes(SHARE_TOKEN_BYTES).toString("base64url");
+}
+
+interface StoredAnswerMetadata {
+  sources: SourceCitation[];
+  notices: ChatNotice[];
+  missingFacets: string[];
+}
+
+function storedAnswerMetadata(citations: string | null): StoredAnswerMetadata {
+  const empty: StoredAnswerMetadata = { sources: [], notices: [], missingFacets: [] };
+  if (!citations) return empty;
+  try {
+    const parsed = JSON.parse(citations);
+    if (parsed?.v2 !== true) return empty;
+    return {
+      sources: Array.isArray(parsed.sources) ? parsed.sources : [],
+      notices: Array.isArray(parsed.notices) ? parsed.notices : [],
+      missingFacets: parsed.showCoverageDisclaimer && Array.isArray(parsed.missingFacets)
+        ? parsed.missingFacets
+        : [],
+    };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Messages on the session's active branch, in the shape the shared page
+ * renders.
+ */
+export function buildSharedMessages(
+  session: ChatSession,
+  messages: ChatMessage[],
+  options: { includeAttachmentText: boolean }
+): SharedSessionMessage[] {
+  return getActiveBranch(messages, session.activeMessageId)
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .map((m) => {
+      const shared: SharedSessionMessage = {
+        id: m.id,
+        role: m.role as SharedSessionMessage["role"],
+        content: m.content,
+        createdAt: new Date(m.createdAt).toISOString(),
+        attachmentFilename: m.attachmentFilename,
+        ...(m.role === "assistant" ? storedAnswerMetadata(m.citations) : { sources: [], notices: [], missingFacets: [] }),
+      };
+      if (options.includeAttachmentText && m.attachmentExtractedText) {
+        shared.attachmentExtractedText = m.attachmentExtractedText;
+      }
+      return shared;
+    });
+}
+
+export function toSharedSnapshot(share: SessionShare): SharedSessionSnapshot {
+  return {
+    title: share.title,
+    town: share.town,
+    sharedAt: share.createdAt.toISOString(),
+    messages: JSON.parse(share.snapshot) as SharedSessionMessage[],
+  };
+}
+
+export function toShareLink(share: SessionShare): SessionShareLink {
+  return {
+    id: share.id,
+    token: share.token,
+    includesAttachmentText: share.includesAttachmentText,
+    viewCount: share.viewCount,
+    createdAt: share.createdAt.toISOString(),
+  };
+}
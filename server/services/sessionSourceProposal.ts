@@ -0,0 +1,100 @@
+/**
+ * Proposing a session source for the document archive.
+ *
+ * The pasted text is saved as a .txt file blob and queued as an ingestion
+ * job in "needs_review", the same state admin uploads land in, so it only
+ * becomes searchable once an admin approves and indexes it.
+ */
+
+import { storage } from "../storage";
+import { blobStorage } from "./blobStorage";
+import { computeRawHash, computePreviewHash, formatDuplicateWarning } from "./fileProcessing";
+import { suggestMetadataFromPreview } from "./metadataExtraction";
+import type { ChatSession, IngestionJob, MetadataHints, SessionSource } from "@shared/schema";
+import type { SessionSourceSummary } from "@shared/sessionSources";
+
+const PREVIEW_CHARS = 240;
+
+export function toSessionSourceSummary(source: SessionSource): SessionSourceSummary {
+  return {
+    id: source.id,
+    type: source.type,
+    title: source.title ?? null,
+    charCount: source.text.length,
+    preview: source.text.slice(0, PREVIEW_CHARS),
+    pinned: !!source.pinned,
+    proposedJobId: source.proposedJobId ?? null,
+    createdAt: source.createdAt,
+  };
+}
+
+function proposalFilename(source: SessionSource): string {
+  const base = (source.title || `${source.type} ${source.createdAt.slice(0, 10)}`)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${base || "session-source"}.txt`;
+}
+
+/**
+ * Create the file blob and review job for a source. The caller records the
+ * job id on the source so it is not proposed twice.
+ */
+export async function proposeSessionSource(
+  session: ChatSession,
+  source: SessionSource
+): Promise<IngestionJob> {
+  const filename = proposalFilename(source);
+  const buffer = Buffer.from(source.text, "utf-8");
+  const previewText = source.text.slice(0, 15000);
+
+  const rawHash = computeRawHash(buffer);
+  const previewHash = computePreviewHash(previewText);
+  const { storagePath } = await blobStorage.saveFile(buffer, filename);
+
+  const duplicates = await storage.findDuplicateBlobs(rawHash, previewHash);
+  let duplicateWarning: string | null = null;
+  if (duplicates.exact) {
+    duplicateWarning = formatDuplicateWarning({
+      isExactDuplicate: true,
+      isPreviewMatch: false,
+      existingFilename: duplicates.exact.originalFilename,
+      existingBlobId: duplicates.exact.id,
+    });
+  } else if (duplicates.preview) {
+    duplicateWarning = formatDuplicateWarning({
+      isExactDuplicate: false,
+      isPreviewMatch: true,
+      existingFilename: duplicates.preview.originalFilename,
+      existingBlobId: duplicates.preview.id,
+    });
+  }
+
+  const fileBlob = await storage.createFileBlob({
+    rawHash,
+    previewHash,
+    sizeBytes: buffer.length,
+    mimeType: "text/plain",
+    originalFilename: filename,
+    storagePath,
+    previewText,
+    extractedTextCharCount: source.text.length,
+    needsOcr: false,
+    ocrStatus: "none",
+  });
+
+  const metadataHints: MetadataHints | undefined = session.townPreference
+    ? { defaultTown: session.townPreference }
+    : undefined;
+  const suggestedMetadata = await suggestMetadataFromPreview(filename, previewText, metadataHints);
+
+  return storage.createIngestionJob({
+    fileBlobId: fileBlob.id,
+    status: "needs_review",
+    suggestedMetadata,
+    metadataHints: metadataHints || null,
+    duplicateWarning,
+    statusNote: `Proposed from a chat session (${source.type}${source.title ? `: "${source.title}"` : ""})`,
+  });
+}
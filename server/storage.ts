@@ -42,11 +42,40 @@ import type {
   InsertEvent,
   ChatAnalytics,
   InsertChatAnalytics,
+  MessageFeedback,
+  InsertMessageFeedback,
+  InsertDocumentChunk,
+  AnswerCacheEntry,
+  InsertAnswerCacheEntry,
+  SessionShare,
+  InsertSessionShare,
+  RsaSection,
+  InsertRsaSection,
+  PromptTemplate,
+  QueuedQuestion,
+  InsertQueuedQuestion,
+  ResearchJob,
+  InsertResearchJob,
   MinutesUpdateItem,
   ActorIdentifier,
   SituationContext,
   SessionSource,
 } from "@shared/schema";
+import type { ChatSessionListResult } from "@shared/chatSessions";
+import type {
+  FeedbackRating,
+  FeedbackReasonCode,
+  MessageFeedbackQueueResult,
+} from "@shared/chatFeedback";
+import type { ResearchProgress } from "@shared/deepResearch";
+import type {
+  DocumentChunkSearchOptions,
+  DocumentChunkSearchResult,
+  IndexableDocumentVersion,
+} from "./storage/documentChunks";
+import type { RsaChapterSummary } from "./storage/rsaSections";
+import type { SessionSourceUpdate } from "./storage/chat";
+import type { NewPromptTemplateVersion } from "./storage/promptTemplates";
 
 // Import all functions from modular storage
 import * as admins from "./storage/admins";
@@ -56,6 +85,14 @@ import * as users from "./storage/users";
 import * as fileBlobs from "./storage/fileBlobs";
 import * as ingestion from "./storage/ingestion";
 import * as analytics from "./storage/analytics";
+import * as feedback from "./storage/feedback";
+import * as documentChunks from "./storage/documentChunks";
+import * as answerCache from "./storage/answerCache";
+import * as sessionShares from "./storage/sessionShares";
+import * as rsaSections from "./storage/rsaSections";
+import * as promptTemplates from "./storage/promptTemplates";
+import * as queuedQuestions from "./storage/queuedQuestions";
+import * as researchJobs from "./storage/researchJobs";
 import * as tempUploads from "./storage/tempUploads";
 
 /**
@@ -75,13 +112,21 @@ export interface IStorage {
 
   // Chat session operations
   createChatSession(session: InsertChatSession): Promise<ChatSession>;
-  getChatSessions(actor?: ActorIdentifier): Promise<ChatSession[]>;
+  getChatSessionsPage(
+    actor: ActorIdentifier | undefined,
+    params: { page: number; pageSize: number; archived?: boolean; search?: string }
+  ): Promise<ChatSessionListResult>;
   getChatSessionById(id: string): Promise<ChatSession | undefined>;
   updateChatSession(id: string, data: Partial<InsertChatSession>): Promise<void>;
+  renameChatSession(id: string, title: string): Promise<void>;
+  setAutoSessionTitle(id: string, title: string): Promise<void>;
+  setChatSessionArchived(id: string, archived: boolean): Promise<void>;
+  softDeleteChatSession(id: string): Promise<void>;
   getAllChatSessions(): Promise<ChatSession[]>;
 
   // Chat message operations
-  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  createChatMessage(message: InsertChatMessage, options?: { activeOnlyIfAt?: string }): Promise<ChatMessage>;
+  getChatMessageById(id: string): Promise<ChatMessage | undefined>;
   getMessagesBySessionId(sessionId: string): Promise<ChatMessage[]>;
 
   // Temp upload operations
@@ -127,6 +172,7 @@ export interface IStorage {
   getCurrentVersionForDocument(documentId: string): Promise<DocumentVersionWithBlob | undefined>;
   setCurrentVersion(documentId: string, versionId: string): Promise<void>;
   getDocumentVersionByFileSearchName(fileSearchDocumentName: string): Promise<DocumentVersion | undefined>;
+  getDocumentVersionsByFileSearchNames(fileSearchDocumentNames: string[]): Promise<DocumentVersion[]>;
 
   // IngestionJob operations
   createIngestionJob(job: InsertIngestionJob): Promise<IngestionJob>;
@@ -172,10 +218,17 @@ export interface IStorage {
   // Situation context
   setSessionSituationContext(sessionId: string, context: SituationContext): Promise<void>;
   getSessionSituationContext(sessionId: string): Promise<SituationContext | null>;
+  setMessageSituationContext(messageId: string, context: SituationContext | null): Promise<void>;
+
+  // Branches
+  setSessionActiveMessage(sessionId: string, messageId: string): Promise<void>;
 
   // Session sources
   addSessionSource(sessionId: string, source: SessionSource, maxSources?: number): Promise<void>;
   getSessionSources(sessionId: string): Promise<SessionSource[]>;
+  updateSessionSource(sessionId: string, sourceId: string, updates: SessionSourceUpdate): Promise<SessionSource | null>;
+  claimSessionSourceProposal(sessionId: string, sourceId: string): Promise<SessionSource | "not_found" | "already_proposed">;
+  removeSessionSource(sessionId: string, sourceId: string): Promise<boolean>;
   clearSessionSources(sessionId: string): Promise<void>;
 
   // Minutes updates
@@ -186,6 +239,77 @@ export interface IStorage {
   createChatAnalytics(analytics: InsertChatAnalytics): Promise<ChatAnalytics>;
   getChatAnalyticsBySessionId(sessionId: string): Promise<ChatAnalytics | undefined>;
   upsertChatAnalytics(analytics: InsertChatAnalytics): Promise<ChatAnalytics>;
+
+  // Message feedback
+  getMessageFeedbackForActor(messageId: string, actor: ActorIdentifier): Promise<MessageFeedback | undefined>;
+  getSessionFeedbackForActor(sessionId: string, actor: ActorIdentifier): Promise<MessageFeedback[]>;
+  upsertMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback>;
+  setMessageFeedbackReviewed(id: string, reviewed: boolean): Promise<void>;
+  getMessageFeedbackQueue(params: {
+    rating?: FeedbackRating;
+    reason?: FeedbackReasonCode;
+    reviewed?: boolean;
+    page: number;
+    pageSize: number;
+  }): Promise<MessageFeedbackQueueResult>;
+
+  // Local retrieval index
+  replaceDocumentChunks(documentVersionId: string, chunks: InsertDocumentChunk[]): Promise<number>;
+  searchDocumentChunks(options: DocumentChunkSearchOptions): Promise<DocumentChunkSearchResult[]>;
+  countMinutesInRange(options: { town: string; dateRange: { start: Date; end: Date } }): Promise<number>;
+  getIndexableDocumentVersion(versionId: string): Promise<IndexableDocumentVersion | undefined>;
+  getIndexableVersionsByFileBlobId(fileBlobId: string): Promise<IndexableDocumentVersion[]>;
+  getCurrentIndexableVersions(): Promise<IndexableDocumentVersion[]>;
+
+  // Answer cache
+  getCorpusVersions(scopes: string[]): Promise<Record<string, number>>;
+  bumpCorpusVersion(scope: string): Promise<number>;
+  getAnswerCacheEntry(cacheKey: string, notBefore: Date): Promise<AnswerCacheEntry | undefined>;
+  upsertAnswerCacheEntry(entry: InsertAnswerCacheEntry): Promise<AnswerCacheEntry>;
+  recordAnswerCacheHit(id: string): Promise<void>;
+
+  // Shared session snapshots
+  createSessionShare(share: InsertSessionShare): Promise<SessionShare>;
+  getSessionShareByToken(token: string): Promise<SessionShare | undefined>;
+  getSessionShareById(id: string): Promise<SessionShare | undefined>;
+  getActiveSessionShares(sessionId: string): Promise<SessionShare[]>;
+  revokeSessionShare(id: string): Promise<void>;
+  recordSessionShareView(id: string): Promise<void>;
+
+  // RSA statute corpus
+  upsertRsaSections(sections: InsertRsaSection[]): Promise<number>;
+  getRsaSectionsByCitations(citations: string[]): Promise<RsaSection[]>;
+  getIngestedRsaChapters(chapters: string[]): Promise<string[]>;
+  getRsaChapterSummaries(): Promise<RsaChapterSummary[]>;
+  deleteRsaChapter(chapter: string): Promise<number>;
+
+  // Versioned prompt templates
+  getPromptTemplates(): Promise<PromptTemplate[]>;
+  getLivePromptTemplates(): Promise<PromptTemplate[]>;
+  createPromptTemplateVersion(input: NewPromptTemplateVersion): Promise<PromptTemplate>;
+  updatePromptTemplateWeight(id: string, trafficWeight: number): Promise<PromptTemplate | undefined>;
+
+  // Queued questions
+  createQueuedQuestion(data: InsertQueuedQuestion): Promise<QueuedQuestion>;
+  getQueuedQuestionsBySession(sessionId: string): Promise<QueuedQuestion[]>;
+  claimNextQueuedQuestion(): Promise<QueuedQuestion | null>;
+  markQueuedQuestionDelivered(id: string, answerMessageId: string): Promise<void>;
+  releaseQueuedQuestion(id: string, error: string, giveUp: boolean): Promise<void>;
+  recoverStaleQueuedQuestions(thresholdMinutes: number): Promise<number>;
+
+  // Deep research jobs
+  startResearchJob(
+    question: InsertChatMessage,
+    job: Omit<InsertResearchJob, "sessionId" | "questionMessageId">
+  ): Promise<ResearchJob | null>;
+  getResearchJobsBySession(sessionId: string): Promise<ResearchJob[]>;
+  getUnnotifiedResearchJobs(userId: string): Promise<ResearchJob[]>;
+  markResearchJobsNotified(userId: string, ids: string[]): Promise<void>;
+  claimNextResearchJob(): Promise<ResearchJob | null>;
+  updateResearchJobProgress(id: string, progress: ResearchProgress): Promise<void>;
+  completeResearchJob(id: string, memoMessageId: string): Promise<void>;
+  releaseResearchJob(id: string, error: string, giveUp: boolean): Promise<void>;
+  recoverStaleResearchJobs(thresholdMinutes: number): Promise<number>;
 }
 
 /**
@@ -205,22 +329,34 @@ export class DatabaseStorage implements IStorage {
 
   // Chat sessions
   createChatSession = chat.createChatSession;
-  getChatSessions = chat.getChatSessions;
+  getChatSessionsPage = chat.getChatSessionsPage;
   getChatSessionById = chat.getChatSessionById;
   updateChatSession = chat.updateChatSession;
+  renameChatSession = chat.renameChatSession;
+  setAutoSessionTitle = chat.setAutoSessionTitle;
+  setChatSessionArchived = chat.setChatSessionArchived;
+  softDeleteChatSession = chat.softDeleteChatSession;
   getAllChatSessions = chat.getAllChatSessions;
 
   // Chat messages
   createChatMessage = chat.createChatMessage;
+  getChatMessageById = chat.getChatMessageById;
   getMessagesBySessionId = chat.getMessagesBySessionId;
 
   // Situation context
   setSessionSituationContext = chat.setSessionSituationContext;
   getSessionSituationContext = chat.getSessionSituationContext;
+  setMessageSituationContext = chat.setMessageSituationContext;
+
+  // Branches
+  setSessionActiveMessage = chat.setSessionActiveMessage;
 
   // Session sources
   addSessionSource = chat.addSessionSource;
   getSessionSources = chat.getSessionSources;
+  updateSessionSource = chat.updateSessionSource;
+  claimSessionSourceProposal = chat.claimSessionSourceProposal;
+  removeSessionSource = chat.removeSessionSource;
   clearSessionSources = chat.clearSessionSources;
 
   // Session town preference
@@ -270,6 +406,7 @@ export class DatabaseStorage implements IStorage {
   getCurrentVersionForDocument = documents.getCurrentVersionForDocument;
   setCurrentVersion = documents.setCurrentVersion;
   getDocumentVersionByFileSearchName = documents.getDocumentVersionByFileSearchName;
+  getDocumentVersionsByFileSearchNames = documents.getDocumentVersionsByFileSearchNames;
 
   // Minutes updates
   getRecentMinutesUpdates = documents.getRecentMinutesUpdates;
@@ -318,6 +455,68 @@ export class DatabaseStorage implements IStorage {
   createChatAnalytics = analytics.createChatAnalytics;
   getChatAnalyticsBySessionId = analytics.getChatAnalyticsBySessionId;
   upsertChatAnalytics = analytics.upsertChatAnalytics;
+
+  // Message feedback
+  getMessageFeedbackForActor = feedback.getMessageFeedbackForActor;
+  getSessionFeedbackForActor = feedback.getSessionFeedbackForActor;
+  upsertMessageFeedback = feedback.upsertMessageFeedback;
+  setMessageFeedbackReviewed = feedback.setMessageFeedbackReviewed;
+  getMessageFeedbackQueue = feedback.getMessageFeedbackQueue;
+
+  // Local retrieval index
+  replaceDocumentChunks = documentChunks.replaceDocumentChunks;
+  searchDocumentChunks = documentChunks.searchDocumentChunks;
+  countMinutesInRange = documentChunks.countMinutesInRange;
+  getIndexableDocumentVersion = documentChunks.getIndexableDocumentVersion;
+  getIndexableVersionsByFileBlobId = documentChunks.getIndexableVersionsByFileBlobId;
+  getCurrentIndexableVersions = documentChunks.getCurrentIndexableVersions;
+
+  // Answer cache
+  getCorpusVersions = answerCache.getCorpusVersions;
+  bumpCorpusVersion = answerCache.bumpCorpusVersion;
+  getAnswerCacheEntry = answerCache.getAnswerCacheEntry;
+  upsertAnswerCacheEntry = answerCache.upsertAnswerCacheEntry;
+  recordAnswerCacheHit = answerCache.recordAnswerCacheHit;
+
+  // Shared session snapshots
+  createSessionShare = sessionShares.createSessionShare;
+  getSessionShareByToken = sessionShares.getSessionShareByToken;
+  getSessionShareById = sessionShares.getSessionShareById;
+  getActiveSessionShares = sessionShares.getActiveSessionShares;
+  revokeSessionShare = sessionShares.revokeSessionShare;
+  recordSessionShareView = sessionShares.recordSessionShareView;
+
+  // RSA statute corpus
+  upsertRsaSections = rsaSections.upsertRsaSections;
+  getRsaSectionsByCitations = rsaSections.getRsaSectionsByCitations;
+  getIngestedRsaChapters = rsaSections.getIngestedRsaChapters;
+  getRsaChapterSummaries = rsaSections.getRsaChapterSummaries;
+  deleteRsaChapter = rsaSections.deleteRsaChapter;
+
+  // Versioned prompt templates
+  getPromptTemplates = promptTemplates.getPromptTemplates;
+  getLivePromptTemplates = promptTemplates.getLivePromptTemplates;
+  createPromptTemplateVersion = promptTemplates.createPromptTemplateVersion;
+  updatePromptTemplateWeight = promptTemplates.updatePromptTemplateWeight;
+
+  // Queued questions
+  createQueuedQuestion = queuedQuestions.createQueuedQuestion;
+  getQueuedQuestionsBySession = queuedQuestions.getQueuedQuestionsBySession;
+  claimNextQueuedQuestion = queuedQuestions.claimNextQueuedQuestion;
+  markQueuedQuestionDelivered = queuedQuestions.markQueuedQuestionDelivered;
+  releaseQueuedQuestion = queuedQuestions.releaseQueuedQuestion;
+  recoverStaleQueuedQuestions = queuedQuestions.recoverStaleQueuedQuestions;
+
+  // Deep research jobs
+  startResearchJob = researchJobs.startResearchJob;
+  getResearchJobsBySession = researchJobs.getResearchJobsBySession;
+  getUnnotifiedResearchJobs = researchJobs.getUnnotifiedResearchJobs;
+  markResearchJobsNotified = researchJobs.markResearchJobsNotified;
+  claimNextResearchJob = researchJobs.claimNextResearchJob;
+  updateResearchJobProgress = researchJobs.updateResearchJobProgress;
+  completeResearchJob = researchJobs.completeResearchJob;
+  releaseResearchJob = researchJobs.releaseResearchJob;
+  recoverStaleResearchJobs = researchJobs.recoverStaleResearchJobs;
 }
 
 // Export singleton instance for backward compatibility
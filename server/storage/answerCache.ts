@@ -0,0 +1,100 @@
+/**
+ * Answer cache and corpus version storage operations
+ */
+
+import { db, schema, eq, inArray, sql } from "./db";
+import type {
+  AnswerCacheEntry,
+  InsertAnswerCacheEntry,
+} from "@shared/schema";
+
+// ============================================================
+// CORPUS VERSIONS
+// ============================================================
+
+/**
+ * Current version of each scope. Scopes that were never bumped are at 0.
+ */
+export async function getCorpusVersions(scopes: string[]): Promise<Record<string, number>> {
+  const versions: Record<string, number> = {};
+  scopes.forEach((scope) => {
+    versions[scope] = 0;
+  });
+  if (scopes.length === 0) return versions;
+
+  const rows = await db
+    .select()
+    .from(schema.corpusVersions)
+    .where(inArray(schema.corpusVersions.scope, scopes));
+  rows.forEach((row) => {
+    versions[row.scope] = row.version;
+  });
+  return versions;
+}
+
+export async function bumpCorpusVersion(scope: string): Promise<number> {
+  const [result] = await db
+    .insert(schema.corpusVersions)
+    .values({ scope, version: 1 })
+    .onConflictDoUpdate({
+      target: schema.corpusVersions.scope,
+      set: {
+        version: sql`${schema.corpusVersions.version} + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return result.version;
+}
+
+// ============================================================
+// ANSWER CACHE
+// ============================================================
+
+/**
+ * Entry for a key, ignoring entries created before `notBefore` (expired).
+ */
+export async function getAnswerCacheEntry(
+  cacheKey: string,
+  notBefore: Date
+): Promise<AnswerCacheEntry | undefined> {
+  const [result] = await db
+    .select()
+    .from(schema.answerCache)
+    .where(eq(schema.answerCache.cacheKey, cacheKey));
+  if (!result || result.createdAt < notBefore) return undefined;
+  return result;
+}
+
+/**
+ * Store an answer under its key, replacing any earlier (e.g. expired or
+ * regenerated) answer and resetting its hit count.
+ */
+export async function upsertAnswerCacheEntry(entry: InsertAnswerCacheEntry): Promise<AnswerCacheEntry> {
+  const [result] = await db
+    .insert(schema.answerCache)
+    .values(entry)
+    .onConflictDoUpdate({
+      target: schema.answerCache.cacheKey,
+      set: {
+        question: entry.question,
+        answerText: entry.answerText,
+        responseData: entry.responseData,
+        hitCount: 0,
+        lastHitAt: null,
+        createdAt: new Date(),
+      },
+    })
+    .returning();
+  return result;
+}
+
+export async function recordAnswerCacheHit(id: string): Promise<void> {
+  await db
+    .update(schema.answerCache)
+    .set({
+      hitCount: sql`${schema.answerCache.hitCount} + 1`,
+      lastHitAt: new Date(),
+    })
+    .where(eq(schema.answerCache.id, id));
+}
@@ -2,7 +2,7 @@
  * Chat sessions and messages storage operations
  */
 
-import { db, schema, eq, desc, or } from "./db";
+import { db, schema, eq, desc, or, and, sql, isNull, isNotNull } from "./db";
 import type { 
   ChatSession, 
   InsertChatSession, 
@@ -12,6 +12,10 @@ import type {
   SituationContext,
   SessionSource,
 } from "@shared/schema";
+import type { ChatSessionListResult } from "@shared/chatSessions";
+import { MAX_PINNED_SESSION_SOURCES } from "@shared/sessionSources";
+
+const SNIPPET_RADIUS = 60;
 
 // ============================================================
 // CHAT SESSIONS
@@ -22,32 +26,121 @@ export async function createChatSession(session: InsertChatSession): Promise<Cha
   return result;
 }
 
-export async function getChatSessions(actor?: ActorIdentifier): Promise<ChatSession[]> {
-  if (!actor) {
-    return [];
-  }
-  
+function actorSessionCondition(actor: ActorIdentifier) {
   const conditions = [];
-  
+
   if (actor.type === 'user' && actor.userId) {
     conditions.push(eq(schema.chatSessions.userId, actor.userId));
   }
-  
+
   if (actor.anonId) {
     conditions.push(eq(schema.chatSessions.anonId, actor.anonId));
   }
-  
+
   if (conditions.length === 0) {
-    return [];
+    return undefined;
   }
-  
-  const whereClause = conditions.length === 1 ? conditions[0] : or(...conditions);
-  
-  return await db
-    .select()
+
+  return conditions.length === 1 ? conditions[0] : or(...conditions);
+}
+
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * Text around the first case-insensitive occurrence of `search`.
+ */
+function buildMatchSnippet(content: string, search: string): string {
+  const idx = content.toLowerCase().indexOf(search.toLowerCase());
+  if (idx < 0) return content.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, idx - SNIPPET_RADIUS);
+  const end = Math.min(content.length, idx + search.length + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${content.slice(start, end).replace(/\s+/g, " ").trim()}${end < content.length ? "…" : ""}`;
+}
+
+/**
+ * One page of the actor's sessions, most recently active first. Deleted
+ * sessions are never listed. Without a search the list holds either the
+ * active or the archived sessions; a search covers both and matches titles
+ * and message content.
+ */
+export async function getChatSessionsPage(
+  actor: ActorIdentifier | undefined,
+  params: { page: number; pageSize: number; archived?: boolean; search?: string }
+): Promise<ChatSessionListResult> {
+  const { page, pageSize } = params;
+  const search = params.search?.trim() || "";
+  const empty: ChatSessionListResult = { items: [], total: 0, page, pageSize, totalPages: 1 };
+
+  const actorCondition = actor ? actorSessionCondition(actor) : undefined;
+  if (!actorCondition) {
+    return empty;
+  }
+
+  const pattern = `%${escapeLikePattern(search)}%`;
+  const contentMatch = sql`EXISTS (
+    SELECT 1 FROM ${schema.chatMessages}
+    WHERE ${schema.chatMessages.sessionId} = ${schema.chatSessions.id}
+      AND ${schema.chatMessages.content} ILIKE ${pattern}
+  )`;
+
+  const conditions = [actorCondition, isNull(schema.chatSessions.deletedAt)];
+  if (search) {
+    conditions.push(or(sql`${schema.chatSessions.title} ILIKE ${pattern}`, contentMatch)!);
+  } else if (params.archived) {
+    conditions.push(isNotNull(schema.chatSessions.archivedAt));
+  } else {
+    conditions.push(isNull(schema.chatSessions.archivedAt));
+  }
+  const whereClause = and(...conditions);
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(schema.chatSessions)
+    .where(whereClause);
+
+  const rows = await db
+    .select({
+      session: schema.chatSessions,
+      matchedContent: search
+        ? sql<string | null>`(
+            SELECT ${schema.chatMessages.content} FROM ${schema.chatMessages}
+            WHERE ${schema.chatMessages.sessionId} = ${schema.chatSessions.id}
+              AND ${schema.chatMessages.content} ILIKE ${pattern}
+            ORDER BY ${schema.chatMessages.createdAt}
+            LIMIT 1
+          )`
+        : sql<string | null>`NULL`,
+    })
     .from(schema.chatSessions)
     .where(whereClause)
-    .orderBy(desc(schema.chatSessions.updatedAt));
+    .orderBy(desc(schema.chatSessions.updatedAt))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize);
+
+  const total = Number(count) || 0;
+
+  return {
+    items: rows.map(({ session, matchedContent }) => {
+      const titleMatches = session.title.toLowerCase().includes(search.toLowerCase());
+      return {
+        id: session.id,
+        title: session.title,
+        townPreference: session.townPreference,
+        archivedAt: session.archivedAt?.toISOString() || null,
+        createdAt: session.createdAt.toISOString(),
+        updatedAt: session.updatedAt.toISOString(),
+        ...(search && !titleMatches && matchedContent
+          ? { matchSnippet: buildMatchSnippet(matchedContent, search) }
+          : {}),
+      };
+    }),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+  };
 }
 
 export async function getChatSessionById(id: string): Promise<ChatSession | undefined> {
@@ -65,6 +158,42 @@ export async function updateChatSession(id: string, data: Partial<InsertChatSess
     .where(eq(schema.chatSessions.id, id));
 }
 
+/**
+ * User rename. Marks the title as the user's so auto titles leave it alone.
+ */
+export async function renameChatSession(id: string, title: string): Promise<void> {
+  const now = new Date();
+  await db
+    .update(schema.chatSessions)
+    .set({ title, titleEditedAt: now, updatedAt: now })
+    .where(eq(schema.chatSessions.id, id));
+}
+
+/**
+ * Generated title, applied only while the user has not renamed the session.
+ * Does not touch updatedAt so titling doesn't reorder the sidebar.
+ */
+export async function setAutoSessionTitle(id: string, title: string): Promise<void> {
+  await db
+    .update(schema.chatSessions)
+    .set({ title })
+    .where(and(eq(schema.chatSessions.id, id), isNull(schema.chatSessions.titleEditedAt)));
+}
+
+export async function setChatSessionArchived(id: string, archived: boolean): Promise<void> {
+  await db
+    .update(schema.chatSessions)
+    .set({ archivedAt: archived ? new Date() : null })
+    .where(eq(schema.chatSessions.id, id));
+}
+
+export async function softDeleteChatSession(id: string): Promise<void> {
+  await db
+    .update(schema.chatSessions)
+    .set({ deletedAt: new Date() })
+    .where(and(eq(schema.chatSessions.id, id), isNull(schema.chatSessions.deletedAt)));
+}
+
 export async function getAllChatSessions(): Promise<ChatSession[]> {
   return await db
     .select()
@@ -76,18 +205,37 @@ export async function getAllChatSessions(): Promise<ChatSession[]> {
 // CHAT MESSAGES
 // ============================================================
 
-export async function createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+/**
+ * With `activeOnlyIfAt`, the new message becomes the active branch leaf only
+ * while that message still is, e.g. a late answer to a queued question when
+ * the user has since moved to another branch or kept chatting.
+ */
+export async function createChatMessage(
+  message: InsertChatMessage,
+  options: { activeOnlyIfAt?: string } = {}
+): Promise<ChatMessage> {
   const [result] = await db.insert(schema.chatMessages).values(message).returning();
   
-  // Update session's updatedAt timestamp
+  // Update session's updatedAt timestamp; the newest message is the active branch leaf
+  const activeMessageId = options.activeOnlyIfAt
+    ? sql`CASE WHEN ${schema.chatSessions.activeMessageId} = ${options.activeOnlyIfAt} THEN ${result.id} ELSE ${schema.chatSessions.activeMessageId} END`
+    : result.id;
   await db
     .update(schema.chatSessions)
-    .set({ updatedAt: new Date() })
+    .set({ updatedAt: new Date(), activeMessageId })
     .where(eq(schema.chatSessions.id, message.sessionId));
   
   return result;
 }
 
+export async function getChatMessageById(id: string): Promise<ChatMessage | undefined> {
+  const [result] = await db
+    .select()
+    .from(schema.chatMessages)
+    .where(eq(schema.chatMessages.id, id));
+  return result;
+}
+
 export async function getMessagesBySessionId(sessionId: string): Promise<ChatMessage[]> {
   return await db
     .select()
@@ -96,6 +244,24 @@ export async function getMessagesBySessionId(sessionId: string): Promise<ChatMes
     .orderBy(schema.chatMessages.createdAt);
 }
 
+export async function setMessageSituationContext(messageId: string, context: SituationContext | null): Promise<void> {
+  await db
+    .update(schema.chatMessages)
+    .set({ situationContext: context })
+    .where(eq(schema.chatMessages.id, messageId));
+}
+
+// ============================================================
+// BRANCHES (regenerate / edit-and-resend)
+// ============================================================
+
+export async function setSessionActiveMessage(sessionId: string, messageId: string): Promise<void> {
+  await db
+    .update(schema.chatSessions)
+    .set({ activeMessageId: messageId })
+    .where(eq(schema.chatSessions.id, sessionId));
+}
+
 // ============================================================
 // SITUATION CONTEXT (topic continuity)
 // ============================================================
@@ -122,20 +288,124 @@ export async function getSessionSituationContext(sessionId: string): Promise<Sit
 // SESSION SOURCES (ephemeral user-provided content)
 // ============================================================
 
+// A proposal claim left by a request that died before recording its job
+const PROPOSAL_CLAIM_TTL_MS = 10 * 60 * 1000;
+
+export class SessionSourcePinLimitError extends Error {
+  constructor() {
+    super(`Up to ${MAX_PINNED_SESSION_SOURCES} sources can be pinned`);
+    this.name = "SessionSourcePinLimitError";
+  }
+}
+
+/**
+ * Read-modify-write of a session's sources under a row lock, so a paste, a
+ * rename and a removal arriving together don't overwrite each other.
+ * `change` returns the new list, or null to leave it as it is.
+ */
+async function changeSessionSources(
+  sessionId: string,
+  change: (sources: SessionSource[]) => SessionSource[] | null,
+  options: { touchSession?: boolean } = {}
+): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    const [row] = await tx
+      .select({ sessionSources: schema.chatSessions.sessionSources })
+      .from(schema.chatSessions)
+      .where(eq(schema.chatSessions.id, sessionId))
+      .for("update");
+    if (!row) return false;
+
+    const updatedSources = change(row.sessionSources || []);
+    if (!updatedSources) return false;
+
+    await tx
+      .update(schema.chatSessions)
+      .set(options.touchSession
+        ? { sessionSources: updatedSources, updatedAt: new Date() }
+        : { sessionSources: updatedSources })
+      .where(eq(schema.chatSessions.id, sessionId));
+    return true;
+  });
+}
+
+/**
+ * Append a source, dropping the oldest unpinned ones beyond `maxSources`.
+ * Pinned sources are never dropped; the newest source is always kept.
+ */
 export async function addSessionSource(sessionId: string, source: SessionSource, maxSources = 5): Promise<void> {
-  const session = await getChatSessionById(sessionId);
-  if (!session) return;
-  
-  const existingSources = session.sessionSources || [];
-  const updatedSources = [...existingSources, source].slice(-maxSources);
-  
-  await db
-    .update(schema.chatSessions)
-    .set({ 
-      sessionSources: updatedSources,
-      updatedAt: new Date(),
-    })
-    .where(eq(schema.chatSessions.id, sessionId));
+  await changeSessionSources(sessionId, (sources) => {
+    const allSources = [...sources, source];
+    const pinnedCount = allSources.filter((s) => s.pinned).length;
+    const unpinnedToKeep = new Set(
+      allSources
+        .filter((s) => !s.pinned)
+        .slice(-Math.max(maxSources - pinnedCount, 1))
+        .map((s) => s.id)
+    );
+    return allSources.filter((s) => s.pinned || unpinnedToKeep.has(s.id));
+  }, { touchSession: true });
+}
+
+export type SessionSourceUpdate = Partial<Pick<SessionSource, "title" | "pinned" | "proposedJobId" | "proposalClaimedAt">>;
+
+/**
+ * Returns the updated source, or null if the session has no such source.
+ * Throws SessionSourcePinLimitError when pinning one more would pass
+ * MAX_PINNED_SESSION_SOURCES. Editing sources leaves the session's
+ * updatedAt alone, so it doesn't jump to the top of the history.
+ */
+export async function updateSessionSource(
+  sessionId: string,
+  sourceId: string,
+  updates: SessionSourceUpdate
+): Promise<SessionSource | null> {
+  let updated: SessionSource | null = null;
+  await changeSessionSources(sessionId, (sources) => {
+    const existing = sources.find((s) => s.id === sourceId);
+    if (!existing) return null;
+    if (updates.pinned && !existing.pinned && sources.filter((s) => s.pinned).length >= MAX_PINNED_SESSION_SOURCES) {
+      throw new SessionSourcePinLimitError();
+    }
+
+    const source: SessionSource = { ...existing, ...updates };
+    updated = source;
+    return sources.map((s) => (s.id === sourceId ? source : s));
+  });
+  return updated;
+}
+
+/**
+ * Mark a source as being proposed for the archive, unless it already has
+ * been or another request is proposing it. The caller creates the ingestion
+ * job, then records it with `proposedJobId` (or clears the claim on failure).
+ */
+export async function claimSessionSourceProposal(
+  sessionId: string,
+  sourceId: string
+): Promise<SessionSource | "not_found" | "already_proposed"> {
+  let outcome: SessionSource | "not_found" | "already_proposed" = "not_found";
+  await changeSessionSources(sessionId, (sources) => {
+    const existing = sources.find((s) => s.id === sourceId);
+    if (!existing) return null;
+    const claimLive = !!existing.proposalClaimedAt
+      && Date.now() - new Date(existing.proposalClaimedAt).getTime() < PROPOSAL_CLAIM_TTL_MS;
+    if (existing.proposedJobId || claimLive) {
+      outcome = "already_proposed";
+      return null;
+    }
+
+    const source: SessionSource = { ...existing, proposalClaimedAt: new Date().toISOString() };
+    outcome = source;
+    return sources.map((s) => (s.id === sourceId ? source : s));
+  });
+  return outcome;
+}
+
+export async function removeSessionSource(sessionId: string, sourceId: string): Promise<boolean> {
+  return await changeSessionSources(sessionId, (sources) =>
+    sources.some((s) => s.id === sourceId) ? sources.filter((s) => s.id !== sourceId) : null
+  );
 }
 
 export async function getSessionSources(sessionId: string): Promise<SessionSource[]> {
@@ -0,0 +1,181 @@
+/**
+ * Local retrieval index storage operations
+ *
+ * Chunks are ranked with Postgres full-text search. The GIN index in
+ * migrations/0004 is built on to_tsvector('english', content), so queries
+ * must use the same expression to hit it.
+ */
+
+import { db, schema, eq, and, or, desc, sql, inArray, ne, gte, lt, isNull } from "./db";
+import type {
+  DocumentChunk,
+  InsertDocumentChunk,
+  DocumentVersionWithBlob,
+  LogicalDocument,
+} from "@shared/schema";
+
+export interface DocumentChunkSearchOptions {
+  tsQuery: string; // raw to_tsquery syntax, already sanitized by the caller
+  town?: string; // omitted: any town except statewide
+  boards?: string[];
+  categories?: string[];
+  /** Keep chunks whose version is dated in [start, end); undated versions always pass */
+  dateRange?: { start: Date; end: Date };
+  limit: number;
+}
+
+export interface DocumentChunkSearchResult {
+  chunk: DocumentChunk;
+  rank: number;
+  canonicalTitle: string;
+  fileSearchDocumentName: string | null;
+  meetingDate: Date | null;
+  year: string | null;
+}
+
+export interface IndexableDocumentVersion extends DocumentVersionWithBlob {
+  logicalDocument: LogicalDocument;
+}
+
+const CHUNK_TSVECTOR = sql`to_tsvector('english', ${schema.documentChunks.content})`;
+
+/**
+ * Version dated inside [start, end): by meeting date when known, otherwise by
+ * year. Versions with neither (statutes, ordinances) pass only when
+ * `includeUndated` is set.
+ */
+function versionDateCondition(dateRange: { start: Date; end: Date }, includeUndated: boolean) {
+  const startYear = dateRange.start.getFullYear();
+  const endYear = new Date(dateRange.end.getTime() - 1).getFullYear();
+  const years: string[] = [];
+  for (let year = startYear; year <= endYear; year++) years.push(String(year));
+
+  return or(
+    and(gte(schema.documentVersions.meetingDate, dateRange.start), lt(schema.documentVersions.meetingDate, dateRange.end)),
+    and(
+      isNull(schema.documentVersions.meetingDate),
+      includeUndated
+        ? or(isNull(schema.documentVersions.year), inArray(schema.documentVersions.year, years))
+        : inArray(schema.documentVersions.year, years)
+    )
+  )!;
+}
+
+// ============================================================
+// DOCUMENT CHUNKS
+// ============================================================
+
+/**
+ * Replace every chunk of a version with a fresh set.
+ */
+export async function replaceDocumentChunks(
+  documentVersionId: string,
+  chunks: InsertDocumentChunk[]
+): Promise<number> {
+  await db
+    .delete(schema.documentChunks)
+    .where(eq(schema.documentChunks.documentVersionId, documentVersionId));
+
+  if (chunks.length === 0) return 0;
+
+  const inserted = await db.insert(schema.documentChunks).values(chunks).returning({ id: schema.documentChunks.id });
+  return inserted.length;
+}
+
+/**
+ * Rank chunks of current versions against a tsquery, restricted to a town
+ * (or to all municipal documents) and optionally to boards / categories.
+ */
+export async function searchDocumentChunks(
+  options: DocumentChunkSearchOptions
+): Promise<DocumentChunkSearchResult[]> {
+  const { tsQuery, town, boards, categories, dateRange, limit } = options;
+  const query = sql`to_tsquery('english', ${tsQuery})`;
+  const rank = sql<number>`ts_rank_cd(${CHUNK_TSVECTOR}, ${query})`;
+
+  const conditions = [
+    sql`${CHUNK_TSVECTOR} @@ ${query}`,
+    town ? eq(schema.documentChunks.town, town) : ne(schema.documentChunks.town, "statewide"),
+    eq(schema.documentVersions.isCurrent, true),
+  ];
+  if (boards && boards.length > 0) {
+    conditions.push(inArray(schema.documentChunks.board, boards));
+  }
+  if (categories && categories.length > 0) {
+    conditions.push(inArray(schema.documentChunks.category, categories));
+  }
+  if (dateRange) {
+    conditions.push(versionDateCondition(dateRange, true));
+  }
+
+  const rows = await db
+    .select({
+      chunk: schema.documentChunks,
+      rank,
+      canonicalTitle: schema.logicalDocuments.canonicalTitle,
+      fileSearchDocumentName: schema.documentVersions.fileSearchDocumentName,
+      meetingDate: schema.documentVersions.meetingDate,
+      year: schema.documentVersions.year,
+    })
+    .from(schema.documentChunks)
+    .innerJoin(schema.documentVersions, eq(schema.documentChunks.documentVersionId, schema.documentVersions.id))
+    .innerJoin(schema.logicalDocuments, eq(schema.documentVersions.documentId, schema.logicalDocuments.id))
+    .where(and(...conditions))
+    .orderBy(desc(rank))
+    .limit(limit);
+
+  return rows.map(row => ({ ...row, rank: Number(row.rank) }));
+}
+
+/**
+ * Current minutes for a town dated inside [start, end). Used to tell the user
+ * when a time-bounded question has no minutes to draw on.
+ */
+export async function countMinutesInRange(options: {
+  town: string;
+  dateRange: { start: Date; end: Date };
+}): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(schema.documentVersions)
+    .innerJoin(schema.logicalDocuments, eq(schema.documentVersions.documentId, schema.logicalDocuments.id))
+    .where(and(
+      eq(schema.logicalDocuments.town, options.town),
+      eq(schema.documentVersions.isMinutes, true),
+      eq(schema.documentVersions.isCurrent, true),
+      versionDateCondition(options.dateRange, false)
+    ));
+  return Number(row?.count || 0);
+}
+
+async function getIndexableVersions(condition: ReturnType<typeof eq>): Promise<IndexableDocumentVersion[]> {
+  const rows = await db
+    .select({
+      version: schema.documentVersions,
+      fileBlob: schema.fileBlobs,
+      logicalDocument: schema.logicalDocuments,
+    })
+    .from(schema.documentVersions)
+    .innerJoin(schema.fileBlobs, eq(schema.documentVersions.fileBlobId, schema.fileBlobs.id))
+    .innerJoin(schema.logicalDocuments, eq(schema.documentVersions.documentId, schema.logicalDocuments.id))
+    .where(condition);
+
+  return rows.map(r => ({
+    ...r.version,
+    fileBlob: r.fileBlob,
+    logicalDocument: r.logicalDocument,
+  }));
+}
+
+export async function getIndexableDocumentVersion(versionId: string): Promise<IndexableDocumentVersion | undefined> {
+  const [result] = await getIndexableVersions(eq(schema.documentVersions.id, versionId));
+  return result;
+}
+
+export async function getIndexableVersionsByFileBlobId(fileBlobId: string): Promise<IndexableDocumentVersion[]> {
+  return getIndexableVersions(eq(schema.documentVersions.fileBlobId, fileBlobId));
+}
+
+export async function getCurrentIndexableVersions(): Promise<IndexableDocumentVersion[]> {
+  return getIndexableVersions(eq(schema.documentVersions.isCurrent, true));
+}
@@ -2,7 +2,7 @@
  * Document storage operations (legacy + v2 pipeline)
  */
 
-import { db, schema, eq, desc, and } from "./db";
+import { db, schema, eq, desc, and, inArray } from "./db";
 import type { 
   Document, 
   InsertDocument,
@@ -206,6 +206,14 @@ export async function getDocumentVersionByFileSearchName(fileSearchDocumentName:
   return result;
 }
 
+export async function getDocumentVersionsByFileSearchNames(fileSearchDocumentNames: string[]): Promise<DocumentVersion[]> {
+  if (fileSearchDocumentNames.length === 0) return [];
+  return db
+    .select()
+    .from(schema.documentVersions)
+    .where(inArray(schema.documentVersions.fileSearchDocumentName, fileSearchDocumentNames));
+}
+
 // ============================================================
 // RECENT MINUTES UPDATES
 // ============================================================
@@ -0,0 +1,157 @@
+/**
+ * End-user answer feedback storage operations
+ */
+
+import { db, schema, eq, and, desc, sql, isNull, isNotNull } from "./db";
+import type {
+  MessageFeedback,
+  InsertMessageFeedback,
+  ActorIdentifier,
+} from "@shared/schema";
+import type {
+  FeedbackRating,
+  FeedbackReasonCode,
+  MessageFeedbackQueueResult,
+} from "@shared/chatFeedback";
+
+const ANSWER_EXCERPT_CHARS = 400;
+
+function actorCondition(actor: ActorIdentifier) {
+  return actor.type === "user" && actor.userId
+    ? eq(schema.messageFeedback.userId, actor.userId)
+    : eq(schema.messageFeedback.anonId, actor.anonId || "");
+}
+
+// ============================================================
+// MESSAGE FEEDBACK
+// ============================================================
+
+export async function getMessageFeedbackForActor(
+  messageId: string,
+  actor: ActorIdentifier
+): Promise<MessageFeedback | undefined> {
+  const [result] = await db
+    .select()
+    .from(schema.messageFeedback)
+    .where(and(eq(schema.messageFeedback.messageId, messageId), actorCondition(actor)));
+  return result;
+}
+
+export async function getSessionFeedbackForActor(
+  sessionId: string,
+  actor: ActorIdentifier
+): Promise<MessageFeedback[]> {
+  return await db
+    .select()
+    .from(schema.messageFeedback)
+    .where(and(eq(schema.messageFeedback.sessionId, sessionId), actorCondition(actor)));
+}
+
+/**
+ * One feedback row per actor per message; resubmitting replaces the rating,
+ * reasons and comment and puts it back in the review queue. The partial
+ * unique indexes on (message, user) and (message, anon) make concurrent
+ * submissions land on the same row.
+ */
+export async function upsertMessageFeedback(feedback: InsertMessageFeedback): Promise<MessageFeedback> {
+  const byUser = feedback.actorType === "user" && !!feedback.userId;
+  const { messageFeedback } = schema;
+
+  const [result] = await db
+    .insert(messageFeedback)
+    .values({ ...feedback, userId: byUser ? feedback.userId : null })
+    .onConflictDoUpdate({
+      target: byUser
+        ? [messageFeedback.messageId, messageFeedback.userId]
+        : [messageFeedback.messageId, messageFeedback.anonId],
+      targetWhere: byUser
+        ? sql`${messageFeedback.userId} IS NOT NULL`
+        : sql`${messageFeedback.userId} IS NULL`,
+      set: {
+        rating: feedback.rating,
+        reasons: feedback.reasons,
+        comment: feedback.comment,
+        reviewedAt: null,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return result;
+}
+
+export async function setMessageFeedbackReviewed(id: string, reviewed: boolean): Promise<void> {
+  await db
+    .update(schema.messageFeedback)
+    .set({ reviewedAt: reviewed ? new Date() : null })
+    .where(eq(schema.messageFeedback.id, id));
+}
+
+export async function getMessageFeedbackQueue(params: {
+  rating?: FeedbackRating;
+  reason?: FeedbackReasonCode;
+  reviewed?: boolean;
+  page: number;
+  pageSize: number;
+}): Promise<MessageFeedbackQueueResult> {
+  const { rating, reason, reviewed, page, pageSize } = params;
+
+  const conditions = [];
+  if (rating) {
+    conditions.push(eq(schema.messageFeedback.rating, rating));
+  }
+  if (reason) {
+    conditions.push(sql`${reason} = ANY(${schema.messageFeedback.reasons})`);
+  }
+  if (reviewed === true) {
+    conditions.push(isNotNull(schema.messageFeedback.reviewedAt));
+  } else if (reviewed === false) {
+    conditions.push(isNull(schema.messageFeedback.reviewedAt));
+  }
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(schema.messageFeedback)
+    .where(whereClause);
+
+  const rows = await db
+    .select({
+      feedback: schema.messageFeedback,
+      answer: schema.chatMessages.content,
+      sessionTitle: schema.chatSessions.title,
+      documentQualityScore: schema.chatAnalytics.documentQualityScore,
+      answerQualityScore: schema.chatAnalytics.answerQualityScore,
+    })
+    .from(schema.messageFeedback)
+    .innerJoin(schema.chatMessages, eq(schema.messageFeedback.messageId, schema.chatMessages.id))
+    .innerJoin(schema.chatSessions, eq(schema.messageFeedback.sessionId, schema.chatSessions.id))
+    .leftJoin(schema.chatAnalytics, eq(schema.messageFeedback.sessionId, schema.chatAnalytics.sessionId))
+    .where(whereClause)
+    .orderBy(desc(schema.messageFeedback.createdAt))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize);
+
+  const total = Number(count) || 0;
+
+  return {
+    items: rows.map(row => ({
+      id: row.feedback.id,
+      messageId: row.feedback.messageId,
+      sessionId: row.feedback.sessionId,
+      sessionTitle: row.sessionTitle,
+      rating: row.feedback.rating as FeedbackRating,
+      reasons: (row.feedback.reasons || []) as FeedbackReasonCode[],
+      comment: row.feedback.comment,
+      actorType: row.feedback.actorType,
+      answerExcerpt: row.answer.slice(0, ANSWER_EXCERPT_CHARS),
+      documentQualityScore: row.documentQualityScore,
+      answerQualityScore: row.answerQualityScore,
+      reviewedAt: row.feedback.reviewedAt?.toISOString() || null,
+      createdAt: row.feedback.createdAt.toISOString(),
+    })),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+  };
+}
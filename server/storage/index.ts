@@ -29,6 +29,30 @@ export * from "./ingestion";
 // Analytics, events, cost logging
 export * from "./analytics";
 
+// End-user answer feedback
+export * from "./feedback";
+
+// Local retrieval index (document chunks)
+export * from "./documentChunks";
+
+// Answer cache and corpus versions
+export * from "./answerCache";
+
+// Shared session snapshots
+export * from "./sessionShares";
+
+// RSA statute corpus
+export * from "./rsaSections";
+
+// Versioned prompt templates
+export * from "./promptTemplates";
+
+// Questions queued for delivery when Gemini capacity returns
+export * from "./queuedQuestions";
+
+// Deep research jobs
+export * from "./researchJobs";
+
 // Temp uploads
 export * from "./tempUploads";
 
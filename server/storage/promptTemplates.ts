@@ -0,0 +1,73 @@
+/**
+ * Prompt template storage operations
+ */
+
+import { db, schema, eq, gt, asc, desc, sql } from "./db";
+import type { PromptTemplate } from "@shared/schema";
+
+export interface NewPromptTemplateVersion {
+  key: string;
+  template: string;
+  notes?: string | null;
+  trafficWeight?: number;
+  createdBy?: string | null;
+}
+
+// ============================================================
+// PROMPT TEMPLATES
+// ============================================================
+
+/**
+ * All stored versions, grouped by key with the newest version first.
+ */
+export async function getPromptTemplates(): Promise<PromptTemplate[]> {
+  return await db
+    .select()
+    .from(schema.promptTemplates)
+    .orderBy(asc(schema.promptTemplates.key), desc(schema.promptTemplates.version));
+}
+
+/**
+ * Versions currently receiving traffic, across all keys.
+ */
+export async function getLivePromptTemplates(): Promise<PromptTemplate[]> {
+  return await db
+    .select()
+    .from(schema.promptTemplates)
+    .where(gt(schema.promptTemplates.trafficWeight, 0));
+}
+
+/**
+ * Save a template as the next version number of its key.
+ */
+export async function createPromptTemplateVersion(input: NewPromptTemplateVersion): Promise<PromptTemplate> {
+  const [{ maxVersion }] = await db
+    .select({ maxVersion: sql<number>`coalesce(max(${schema.promptTemplates.version}), 0)::int` })
+    .from(schema.promptTemplates)
+    .where(eq(schema.promptTemplates.key, input.key));
+
+  const [result] = await db
+    .insert(schema.promptTemplates)
+    .values({
+      key: input.key,
+      version: maxVersion + 1,
+      template: input.template,
+      notes: input.notes ?? null,
+      trafficWeight: input.trafficWeight ?? 0,
+      createdBy: input.createdBy ?? null,
+    })
+    .returning();
+  return result;
+}
+
+export async function updatePromptTemplateWeight(
+  id: string,
+  trafficWeight: number
+): Promise<PromptTemplate | undefined> {
+  const [result] = await db
+    .update(schema.promptTemplates)
+    .set({ trafficWeight, updatedAt: new Date() })
+    .where(eq(schema.promptTemplates.id, id))
+    .returning();
+  return result;
+}
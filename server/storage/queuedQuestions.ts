@@ -0,0 +1,98 @@
+/**
+ * Queued question storage operations
+ */
+
+import { db, schema, eq, and, asc, lt, sql } from "./db";
+import type { QueuedQuestion, InsertQueuedQuestion } from "@shared/schema";
+
+// ============================================================
+// QUEUED QUESTIONS
+// ============================================================
+
+/**
+ * Queue a question for later delivery. Queueing the same placeholder twice
+ * returns the existing entry.
+ */
+export async function createQueuedQuestion(data: InsertQueuedQuestion): Promise<QueuedQuestion> {
+  const [created] = await db
+    .insert(schema.queuedQuestions)
+    .values(data)
+    .onConflictDoNothing({ target: schema.queuedQuestions.placeholderMessageId })
+    .returning();
+  if (created) return created;
+
+  const [existing] = await db
+    .select()
+    .from(schema.queuedQuestions)
+    .where(eq(schema.queuedQuestions.placeholderMessageId, data.placeholderMessageId));
+  return existing;
+}
+
+export async function getQueuedQuestionsBySession(sessionId: string): Promise<QueuedQuestion[]> {
+  return await db
+    .select()
+    .from(schema.queuedQuestions)
+    .where(eq(schema.queuedQuestions.sessionId, sessionId))
+    .orderBy(asc(schema.queuedQuestions.createdAt));
+}
+
+/**
+ * Oldest queued question, marked as being answered.
+ */
+export async function claimNextQueuedQuestion(): Promise<QueuedQuestion | null> {
+  const result = await db.execute(sql`
+    UPDATE queued_questions
+    SET status = 'answering', started_at = NOW(), attempts = attempts + 1
+    WHERE id = (
+      SELECT id FROM queued_questions
+      WHERE status = 'queued'
+      ORDER BY created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `);
+
+  const row = result.rows?.[0] as { id: string } | undefined;
+  if (!row) return null;
+
+  const [claimed] = await db
+    .select()
+    .from(schema.queuedQuestions)
+    .where(eq(schema.queuedQuestions.id, row.id));
+  return claimed ?? null;
+}
+
+export async function markQueuedQuestionDelivered(id: string, answerMessageId: string): Promise<void> {
+  await db
+    .update(schema.queuedQuestions)
+    .set({ status: "delivered", answerMessageId, deliveredAt: new Date(), lastError: null })
+    .where(eq(schema.queuedQuestions.id, id));
+}
+
+/**
+ * Put a question back in the queue after a failed attempt, or mark it failed
+ * once it has used its attempts.
+ */
+export async function releaseQueuedQuestion(id: string, error: string, giveUp: boolean): Promise<void> {
+  await db
+    .update(schema.queuedQuestions)
+    .set({ status: giveUp ? "failed" : "queued", lastError: error })
+    .where(eq(schema.queuedQuestions.id, id));
+}
+
+/**
+ * Requeue questions left 'answering' by a restart mid-answer.
+ */
+export async function recoverStaleQueuedQuestions(thresholdMinutes: number): Promise<number> {
+  const cutoff = new Date(Date.now() - thresholdMinutes * 60 * 1000);
+  const recovered = await db
+    .update(schema.queuedQuestions)
+    .set({ status: "queued" })
+    .where(and(
+      eq(schema.queuedQuestions.status, "answering"),
+      lt(schema.queuedQuestions.startedAt, cutoff)
+    ))
+    .returning({ id: schema.queuedQuestions.id });
+  return recovered.length;
+}
@@ -0,0 +1,152 @@
+/**
+ * Deep research job storage operations
+ */
+
+import { TransactionRollbackError } from "drizzle-orm";
+import { db, schema, eq, and, asc, desc, lt, inArray, isNull, sql } from "./db";
+import type { ResearchJob, InsertResearchJob, InsertChatMessage } from "@shared/schema";
+import type { ResearchProgress } from "@shared/deepResearch";
+
+// ============================================================
+// RESEARCH JOBS
+// ============================================================
+
+/**
+ * Save the question to the conversation and queue a job to answer it, in one
+ * transaction. Returns null, saving nothing, when the session already has a
+ * job queued or running (the partial unique index on session_id).
+ */
+export async function startResearchJob(
+  question: InsertChatMessage,
+  job: Omit<InsertResearchJob, "sessionId" | "questionMessageId">
+): Promise<ResearchJob | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      const [questionMessage] = await tx.insert(schema.chatMessages).values(question).returning();
+      await tx
+        .update(schema.chatSessions)
+        .set({ updatedAt: new Date(), activeMessageId: questionMessage.id })
+        .where(eq(schema.chatSessions.id, question.sessionId));
+
+      const [created] = await tx
+        .insert(schema.researchJobs)
+        .values({ ...job, sessionId: question.sessionId, questionMessageId: questionMessage.id })
+        .onConflictDoNothing({
+          target: schema.researchJobs.sessionId,
+          where: sql`${schema.researchJobs.status} IN ('queued', 'running')`,
+        })
+        .returning();
+      if (!created) {
+        tx.rollback();
+      }
+      return created;
+    });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) return null;
+    throw error;
+  }
+}
+
+export async function getResearchJobsBySession(sessionId: string): Promise<ResearchJob[]> {
+  return await db
+    .select()
+    .from(schema.researchJobs)
+    .where(eq(schema.researchJobs.sessionId, sessionId))
+    .orderBy(asc(schema.researchJobs.createdAt));
+}
+
+/**
+ * Finished jobs the user has not yet been told about, newest first.
+ */
+export async function getUnnotifiedResearchJobs(userId: string): Promise<ResearchJob[]> {
+  return await db
+    .select()
+    .from(schema.researchJobs)
+    .where(and(
+      eq(schema.researchJobs.userId, userId),
+      inArray(schema.researchJobs.status, ["completed", "failed"]),
+      isNull(schema.researchJobs.notifiedAt)
+    ))
+    .orderBy(desc(schema.researchJobs.completedAt));
+}
+
+export async function markResearchJobsNotified(userId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await db
+    .update(schema.researchJobs)
+    .set({ notifiedAt: new Date() })
+    .where(and(
+      eq(schema.researchJobs.userId, userId),
+      inArray(schema.researchJobs.id, ids)
+    ));
+}
+
+/**
+ * Oldest queued job, marked as running.
+ */
+export async function claimNextResearchJob(): Promise<ResearchJob | null> {
+  const result = await db.execute(sql`
+    UPDATE research_jobs
+    SET status = 'running', started_at = NOW(), attempts = attempts + 1
+    WHERE id = (
+      SELECT id FROM research_jobs
+      WHERE status = 'queued'
+      ORDER BY created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `);
+
+  const row = result.rows?.[0] as { id: string } | undefined;
+  if (!row) return null;
+
+  const [claimed] = await db
+    .select()
+    .from(schema.researchJobs)
+    .where(eq(schema.researchJobs.id, row.id));
+  return claimed ?? null;
+}
+
+export async function updateResearchJobProgress(id: string, progress: ResearchProgress): Promise<void> {
+  await db
+    .update(schema.researchJobs)
+    .set({ progress })
+    .where(eq(schema.researchJobs.id, id));
+}
+
+export async function completeResearchJob(id: string, memoMessageId: string): Promise<void> {
+  await db
+    .update(schema.researchJobs)
+    .set({ status: "completed", memoMessageId, completedAt: new Date(), lastError: null })
+    .where(eq(schema.researchJobs.id, id));
+}
+
+/**
+ * Put a job back in the queue after a failed attempt, or mark it failed once
+ * it has used its attempts.
+ */
+export async function releaseResearchJob(id: string, error: string, giveUp: boolean): Promise<void> {
+  await db
+    .update(schema.researchJobs)
+    .set(giveUp
+      ? { status: "failed", lastError: error, completedAt: new Date() }
+      : { status: "queued", lastError: error })
+    .where(eq(schema.researchJobs.id, id));
+}
+
+/**
+ * Requeue jobs left 'running' by a restart mid-research.
+ */
+export async function recoverStaleResearchJobs(thresholdMinutes: number): Promise<number> {
+  const cutoff = new Date(Date.now() - thresholdMinutes * 60 * 1000);
+  const recovered = await db
+    .update(schema.researchJobs)
+    .set({ status: "queued" })
+    .where(and(
+      eq(schema.researchJobs.status, "running"),
+      lt(schema.researchJobs.startedAt, cutoff)
+    ))
+    .returning({ id: schema.researchJobs.id });
+  return recovered.length;
+}
@@ -0,0 +1,93 @@
+/**
+ * RSA statute corpus storage operations
+ */
+
+import { db, schema, eq, desc, inArray, sql } from "./db";
+import type { RsaSection, InsertRsaSection } from "@shared/schema";
+
+const UPSERT_BATCH_SIZE = 200;
+
+export interface RsaChapterSummary {
+  title: string;
+  chapter: string;
+  chapterName: string | null;
+  sectionCount: number;
+  updatedAt: Date;
+}
+
+// ============================================================
+// RSA SECTIONS
+// ============================================================
+
+/**
+ * Insert sections, replacing the text of any already stored under the same
+ * citation. Returns the number of sections written.
+ */
+export async function upsertRsaSections(sections: InsertRsaSection[]): Promise<number> {
+  let written = 0;
+  for (let i = 0; i < sections.length; i += UPSERT_BATCH_SIZE) {
+    const batch = sections.slice(i, i + UPSERT_BATCH_SIZE);
+    const rows = await db
+      .insert(schema.rsaSections)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: schema.rsaSections.citation,
+        set: {
+          title: sql`excluded.title`,
+          titleName: sql`excluded.title_name`,
+          chapterName: sql`excluded.chapter_name`,
+          heading: sql`excluded.heading`,
+          body: sql`excluded.body`,
+          sourceUrl: sql`excluded.source_url`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ id: schema.rsaSections.id });
+    written += rows.length;
+  }
+  return written;
+}
+
+export async function getRsaSectionsByCitations(citations: string[]): Promise<RsaSection[]> {
+  if (citations.length === 0) return [];
+  return db
+    .select()
+    .from(schema.rsaSections)
+    .where(inArray(schema.rsaSections.citation, citations));
+}
+
+/**
+ * The subset of `chapters` with at least one stored section. Section numbers
+ * can only be checked for existence in chapters that were ingested.
+ */
+export async function getIngestedRsaChapters(chapters: string[]): Promise<string[]> {
+  if (chapters.length === 0) return [];
+  const rows = await db
+    .selectDistinct({ chapter: schema.rsaSections.chapter })
+    .from(schema.rsaSections)
+    .where(inArray(schema.rsaSections.chapter, chapters));
+  return rows.map((r) => r.chapter);
+}
+
+export async function getRsaChapterSummaries(): Promise<RsaChapterSummary[]> {
+  const rows = await db
+    .select({
+      title: schema.rsaSections.title,
+      chapter: schema.rsaSections.chapter,
+      chapterName: sql<string | null>`max(${schema.rsaSections.chapterName})`,
+      sectionCount: sql<number>`count(*)::int`,
+      updatedAt: sql<Date>`max(${schema.rsaSections.updatedAt})`,
+    })
+    .from(schema.rsaSections)
+    .groupBy(schema.rsaSections.title, schema.rsaSections.chapter)
+    .orderBy(desc(sql`max(${schema.rsaSections.updatedAt})`));
+  return rows.map((r) => ({ ...r, updatedAt: new Date(r.updatedAt) }));
+}
+
+export async function deleteRsaChapter(chapter: string): Promise<number> {
+  const rows = await db
+    .delete(schema.rsaSections)
+    .where(eq(schema.rsaSections.chapter, chapter))
+    .returning({ id: schema.rsaSections.id });
+  return rows.length;
+}
@@ -0,0 +1,63 @@
+/**
+ * Shared session snapshot storage operations
+ */
+
+import { db, schema, eq, and, desc, isNull, sql } from "./db";
+import type {
+  SessionShare,
+  InsertSessionShare,
+} from "@shared/schema";
+
+// ============================================================
+// SESSION SHARES
+// ============================================================
+
+export async function createSessionShare(share: InsertSessionShare): Promise<SessionShare> {
+  const [result] = await db.insert(schema.sessionShares).values(share).returning();
+  return result;
+}
+
+/**
+ * Share for a token, including revoked ones; callers decide what a revoked
+ * link shows.
+ */
+export async function getSessionShareByToken(token: string): Promise<SessionShare | undefined> {
+  const [result] = await db
+    .select()
+    .from(schema.sessionShares)
+    .where(eq(schema.sessionShares.token, token));
+  return result;
+}
+
+export async function getSessionShareById(id: string): Promise<SessionShare | undefined> {
+  const [result] = await db
+    .select()
+    .from(schema.sessionShares)
+    .where(eq(schema.sessionShares.id, id));
+  return result;
+}
+
+/**
+ * Links of a session that have not been revoked, newest first.
+ */
+export async function getActiveSessionShares(sessionId: string): Promise<SessionShare[]> {
+  return await db
+    .select()
+    .from(schema.sessionShares)
+    .where(and(eq(schema.sessionShares.sessionId, sessionId), isNull(schema.sessionShares.revokedAt)))
+    .orderBy(desc(schema.sessionShares.createdAt));
+}
+
+export async function revokeSessionShare(id: string): Promise<void> {
+  await db
+    .update(schema.sessionShares)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(schema.sessionShares.id, id), isNull(schema.sessionShares.revokedAt)));
+}
+
+export async function recordSessionShareView(id: string): Promise<void> {
+  await db
+    .update(schema.sessionShares)
+    .set({ viewCount: sql`${schema.sessionShares.viewCount} + 1` })
+    .where(eq(schema.sessionShares.id, id));
+}
@@ -34,6 +34,19 @@ export function isQuotaError(error: any): boolean {
   );
 }
 
+/**
+ * 5xx from Gemini (overloaded, internal or unavailable)
+ */
+export function isServerError(error: any): boolean {
+  if (!error) return false;
+
+  const codes = [error?.status, error?.code, error?.error?.code, error?.error?.status];
+  if (codes.some((code) => typeof code === "number" && code >= 500 && code < 600)) {
+    return true;
+  }
+  return codes.some((code) => code === "UNAVAILABLE" || code === "INTERNAL");
+}
+
 export function handleGeminiError(
   error: any,
   context: { requestId?: string; sessionId?: string; stage: string }
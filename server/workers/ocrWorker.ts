@@ -5,6 +5,7 @@ import { promisify } from 'util';
 import { storage } from '../storage';
 import { getOcrConfig } from '../config/ocr';
 import { reindexOcrDocument } from '../gemini-client';
+import { reindexFileBlob } from '../retrieval/localIndex';
 import { blobStorage } from '../services/blobStorage';
 import type { FileBlob, DocumentMetadata } from '@shared/schema';
 
@@ -200,6 +201,8 @@ async function processOcrJob(fileBlob: FileBlob): Promise<void> {
     console.log(`[OCR Worker] Completed ${fileBlob.originalFilename}: ${ocrTextCharCount} chars extracted`);
     
     await reindexAfterOcr(fileBlob.id, ocrText, fileBlob.originalFilename);
+    // Local index re-chunks from the blob, which now prefers the OCR text
+    await reindexFileBlob(fileBlob.id);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[OCR Worker] Failed ${fileBlob.originalFilename}:`, errorMessage);
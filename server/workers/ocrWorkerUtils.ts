@@ -6,8 +6,28 @@ import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
+export interface PdfOcrOptions {
+  /** OCR only the first N pages */
+  maxPages?: number;
+  /** Called after each page is read */
+  onPage?: (page: number, pageCount: number) => void;
+}
+
+/**
+ * Number of pages in a PDF, or null if pdfinfo is unavailable or fails.
+ */
+export async function getPdfPageCount(pdfPath: string): Promise<number | null> {
+  try {
+    const { stdout } = await execAsync(`pdfinfo "${pdfPath}"`);
+    const match = stdout.match(/^Pages:\s+(\d+)/m);
+    return match ? parseInt(match[1], 10) : null;
+  } catch {
+    return null;
+  }
+}
+
 // Minimal version of ocrWorker logic for direct use
-export async function performOcrOnPdf(pdfPath: string): Promise<string> {
+export async function performOcrOnPdf(pdfPath: string, options: PdfOcrOptions = {}): Promise<string> {
   const tmpDir = path.join('/tmp', `ocr-${Date.now()}-${Math.random().toString(36).substring(7)}`);
   
   try {
@@ -15,7 +35,8 @@ export async function performOcrOnPdf(pdfPath: string): Promise<string> {
     
     // Convert to images
     const outPrefix = path.join(tmpDir, 'page');
-    await execAsync(`pdftoppm -png "${pdfPath}" "${outPrefix}"`);
+    const pageRange = options.maxPages ? `-f 1 -l ${options.maxPages} ` : '';
+    await execAsync(`pdftoppm -png ${pageRange}"${pdfPath}" "${outPrefix}"`);
     
     const files = await fs.readdir(tmpDir);
     const imageFiles = files
@@ -34,6 +55,7 @@ export async function performOcrOnPdf(pdfPath: string): Promise<string> {
         await execAsync(`tesseract "${img}" "${base}" -l eng --psm 3`);
         const text = await fs.readFile(`${base}.txt`, 'utf-8');
         texts.push(text);
+        options.onPage?.(texts.length, imageFiles.length);
     }
     
     return texts.join('\n\n--- Page Break ---\n\n');
@@ -45,3 +67,19 @@ export async function performOcrOnPdf(pdfPath: string): Promise<string> {
     } catch (e) {}
   }
 }
+
+// Tesseract reads PNG, JPEG and TIFF directly; multi-page TIFFs come back as one text
+export async function performOcrOnImage(imagePath: string): Promise<string> {
+  const tmpDir = path.join('/tmp', `ocr-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+
+  try {
+    await fs.mkdir(tmpDir, { recursive: true });
+    const base = path.join(tmpDir, 'image');
+    await execAsync(`tesseract "${imagePath}" "${base}" -l eng --psm 3`);
+    return await fs.readFile(`${base}.txt`, 'utf-8');
+  } finally {
+    try {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    } catch (e) {}
+  }
+}
@@ -0,0 +1,112 @@
+import { storage } from '../storage';
+import { answerQueuedQuestion } from '../chatV2/chatV2Route';
+import { getGeminiCircuitState } from '../llm/geminiCircuit';
+import type { QueuedQuestion } from '@shared/schema';
+
+let workerRunning = false;
+let pollInterval: NodeJS.Timeout | null = null;
+let lastRecoveryCheck = 0;
+const RECOVERY_CHECK_INTERVAL_MS = 5 * 60 * 1000; // Check for stale questions every 5 minutes
+const STALE_QUESTION_THRESHOLD_MINUTES = 15; // Answers running for more than 15 min are considered stale
+const MAX_ERROR_ATTEMPTS = 3; // Attempts for questions failing on something other than quota
+const MAX_ATTEMPTS = 50; // Covers several hours of high demand at the default poll interval
+
+/**
+ * Answer one queued question. Returns false when Gemini is still out of
+ * capacity, so the poll waits before trying the next one.
+ */
+async function processQueuedQuestion(queued: QueuedQuestion): Promise<boolean> {
+  console.log(`[Queued Questions] Answering question ${queued.id} (attempt ${queued.attempts})`);
+
+  try {
+    const outcome = await answerQueuedQuestion(queued);
+
+    if (outcome.delivered) {
+      await storage.markQueuedQuestionDelivered(queued.id, outcome.answerMessageId);
+      console.log(`[Queued Questions] Delivered question ${queued.id} as message ${outcome.answerMessageId}`);
+      return true;
+    }
+
+    const quotaExceeded = outcome.status === 503;
+    // The session or placeholder is gone, the question can no longer be
+    // regenerated, or the asker has used up their daily limit
+    const unanswerable = outcome.status === 400 || outcome.status === 404 || outcome.status === 429;
+    const giveUp = unanswerable
+      || queued.attempts >= MAX_ATTEMPTS
+      || (!quotaExceeded && queued.attempts >= MAX_ERROR_ATTEMPTS);
+
+    await storage.releaseQueuedQuestion(queued.id, outcome.error, giveUp);
+    console.warn(`[Queued Questions] Question ${queued.id} not answered (${outcome.status}): ${outcome.error}${giveUp ? ' - giving up' : ''}`);
+    return !quotaExceeded;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.releaseQueuedQuestion(queued.id, message, queued.attempts >= MAX_ERROR_ATTEMPTS);
+    console.error(`[Queued Questions] Error answering question ${queued.id}:`, error);
+    return true;
+  }
+}
+
+export async function startQueuedQuestionWorker(pollIntervalMs: number = 30000): Promise<void> {
+  if (workerRunning) {
+    console.log('[Queued Questions] Worker already running');
+    return;
+  }
+
+  workerRunning = true;
+  console.log(`[Queued Questions] Starting, polling every ${pollIntervalMs}ms`);
+
+  // Recover any questions left mid-answer on startup
+  try {
+    const recovered = await storage.recoverStaleQueuedQuestions(STALE_QUESTION_THRESHOLD_MINUTES);
+    if (recovered > 0) {
+      console.log(`[Queued Questions] Recovered ${recovered} stale questions on startup`);
+    }
+  } catch (error) {
+    console.error('[Queued Questions] Error recovering stale questions on startup:', error);
+  }
+
+  const poll = async () => {
+    if (!workerRunning) return;
+
+    try {
+      const now = Date.now();
+      if (now - lastRecoveryCheck > RECOVERY_CHECK_INTERVAL_MS) {
+        lastRecoveryCheck = now;
+        const recovered = await storage.recoverStaleQueuedQuestions(STALE_QUESTION_THRESHOLD_MINUTES);
+        if (recovered > 0) {
+          console.log(`[Queued Questions] Recovered ${recovered} stale questions`);
+        }
+      }
+
+      // Capacity hasn't returned yet; a half-open circuit lets one question probe it
+      if (getGeminiCircuitState() !== 'open') {
+        const queued = await storage.claimNextQueuedQuestion();
+
+        if (queued) {
+          const capacityAvailable = await processQueuedQuestion(queued);
+          if (capacityAvailable && workerRunning) {
+            setImmediate(poll);
+            return;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[Queued Questions] Error in poll cycle:', error);
+    }
+
+    if (workerRunning) {
+      pollInterval = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  poll();
+}
+
+export function stopQueuedQuestionWorker(): void {
+  workerRunning = false;
+  if (pollInterval) {
+    clearTimeout(pollInterval);
+    pollInterval = null;
+  }
+  console.log('[Queued Questions] Stopped');
+}
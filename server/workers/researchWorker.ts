@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { canUseDeepResearch, runDeepResearch } from '../chatV2/deepResearch';
+import { getBranchPath, getBranchSituationContext } from '../chatV2/conversationBranches';
+import { resolveTownPreference } from '../chatV2/pipelineUtils';
+import { titleSessionFromFirstExchange } from '../chatV2/sessionTitle';
+import { getGeminiCircuitState } from '../llm/geminiCircuit';
+import { isQuotaError } from '../utils/geminiErrors';
+import { hasReachedDailyLimit } from '../middleware/usageLimits';
+import { PipelineQueueError, withBackgroundSlot } from '../services/pipelineExecutor';
+import type { ActorContext } from '../auth/types';
+import type { ChatHistoryMessage, FinalAnswerMeta, PipelineLogContext } from '../chatV2/types';
+import type { ChatSession, ResearchJob } from '@shared/schema';
+
+let workerRunning = false;
+let pollInterval: NodeJS.Timeout | null = null;
+let lastRecoveryCheck = 0;
+const RECOVERY_CHECK_INTERVAL_MS = 5 * 60 * 1000; // Check for stale jobs every 5 minutes
+const STALE_JOB_THRESHOLD_MINUTES = 30; // Research running for more than 30 min is considered stale
+const MAX_ERROR_ATTEMPTS = 3; // Attempts for jobs failing on something other than quota
+const MAX_ATTEMPTS = 20; // Covers a long stretch of high demand at the default poll interval
+
+/**
+ * Why the job can no longer be run, checked at pickup because the
+ * conversation can be deleted, or a subscription lapse or the daily limit
+ * fill, while the job waits.
+ */
+async function researchRefusal(actor: ActorContext, session: ChatSession | undefined): Promise<string | null> {
+  if (!session || session.deletedAt) {
+    return 'The conversation was deleted';
+  }
+  if (!canUseDeepResearch(actor)) {
+    return 'Deep research is no longer available on this account';
+  }
+  if (await hasReachedDailyLimit(actor)) {
+    return 'Daily usage limit reached';
+  }
+  return null;
+}
+
+/**
+ * Research a job's question and deliver the memo as the answer to it.
+ * Returns the memo message id.
+ */
+async function deliverResearchMemo(job: ResearchJob, actor: ActorContext): Promise<string> {
+  const session = await storage.getChatSessionById(job.sessionId);
+  if (!session || session.deletedAt) {
+    throw new Error('Session not found');
+  }
+
+  const messages = await storage.getMessagesBySessionId(job.sessionId);
+  const path = getBranchPath(messages, job.questionMessageId);
+  if (path.length === 0) {
+    throw new Error('Question message not found');
+  }
+  const priorPath = path.slice(0, -1);
+
+  const logContext: PipelineLogContext = { requestId: randomUUID(), sessionId: job.sessionId, actor };
+
+  const sessionHistory: ChatHistoryMessage[] = priorPath.map((m) => ({
+    role: m.role as 'user' | 'assistant',
+    content: m.content,
+  }));
+
+  const townPreference = await resolveTownPreference({ sessionId: job.sessionId, actor });
+
+  const result = await runDeepResearch({
+    question: job.question,
+    sessionHistory,
+    townPreference,
+    situationContext: getBranchSituationContext(path, session.situationContext ?? null),
+    logContext,
+    onProgress: (progress) => storage.updateResearchJobProgress(job.id, progress),
+  });
+
+  const answerMeta: FinalAnswerMeta = {
+    complexity: 'complex',
+    requiresClarification: false,
+    criticScore: { relevance: 1, completeness: 1, clarity: 1, riskOfMisleading: 0 },
+    recordStrength: result.recordStrength,
+  };
+
+  const memoMessage = await storage.createChatMessage({
+    sessionId: job.sessionId,
+    parentId: job.questionMessageId,
+    role: 'assistant',
+    content: result.memoText,
+    citations: JSON.stringify({
+      v2: true,
+      answerMeta,
+      sources: result.sources,
+      suggestedFollowUps: [],
+      notices: [],
+      research: {
+        jobId: job.id,
+        infoNeeds: result.infoNeeds,
+        openGaps: result.openGaps,
+        authorities: result.authorities,
+        passes: result.passes,
+      },
+    }),
+  });
+
+  await titleSessionFromFirstExchange({
+    sessionId: job.sessionId,
+    isFirstExchange: !sessionHistory.some((m) => m.role === 'user'),
+    question: job.question,
+    answerText: result.memoText,
+    logContext,
+  });
+
+  await storage.createEvent({
+    actorType: 'user',
+    userId: job.userId,
+    eventType: 'deep_research_completed',
+    sessionId: job.sessionId,
+    town: townPreference,
+    metadata: {
+      jobId: job.id,
+      memoMessageId: memoMessage.id,
+      infoNeeds: result.infoNeeds.length,
+      openGaps: result.openGaps.length,
+      passes: result.passes,
+      sources: result.sources.length,
+      recordStrength: result.recordStrength.level,
+      durationMs: result.durationMs,
+    },
+  });
+
+  return memoMessage.id;
+}
+
+/**
+ * Run one research job in a background pipeline slot, so it waits behind
+ * interactive chat. Returns false when Gemini or the pipeline is out of
+ * capacity, so the poll waits before trying the next one.
+ */
+async function processResearchJob(job: ResearchJob): Promise<boolean> {
+  console.log(`[Research] Researching job ${job.id} (attempt ${job.attempts})`);
+
+  try {
+    const user = await storage.getUserById(job.userId);
+    const actor: ActorContext = { actorType: 'user', userId: job.userId, user };
+    const session = await storage.getChatSessionById(job.sessionId);
+    const refusal = await researchRefusal(actor, session);
+    if (refusal) {
+      await storage.releaseResearchJob(job.id, refusal, true);
+      console.log(`[Research] Job ${job.id} not run: ${refusal}`);
+      return true;
+    }
+
+    const memoMessageId = await withBackgroundSlot(actor, job.sessionId, () => deliverResearchMemo(job, actor));
+    await storage.completeResearchJob(job.id, memoMessageId);
+    console.log(`[Research] Delivered job ${job.id} as message ${memoMessageId}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const noCapacity = isQuotaError(error) || error instanceof PipelineQueueError;
+    const giveUp = job.attempts >= MAX_ATTEMPTS || (!noCapacity && job.attempts >= MAX_ERROR_ATTEMPTS);
+
+    await storage.releaseResearchJob(job.id, message, giveUp);
+    console.error(`[Research] Job ${job.id} not finished: ${message}${giveUp ? ' - giving up' : ''}`);
+    return !noCapacity;
+  }
+}
+
+export async function startResearchWorker(pollIntervalMs: number = 15000): Promise<void> {
+  if (workerRunning) {
+    console.log('[Research] Worker already running');
+    return;
+  }
+
+  workerRunning = true;
+  console.log(`[Research] Starting, polling every ${pollIntervalMs}ms`);
+
+  // Recover any jobs left mid-research on startup
+  try {
+    const recovered = await storage.recoverStaleResearchJobs(STALE_JOB_THRESHOLD_MINUTES);
+    if (recovered > 0) {
+      console.log(`[Research] Recovered ${recovered} stale jobs on startup`);
+    }
+  } catch (error) {
+    console.error('[Research] Error recovering stale jobs on startup:', error);
+  }
+
+  const poll = async () => {
+    if (!workerRunning) return;
+
+    try {
+      const now = Date.now();
+      if (now - lastRecoveryCheck > RECOVERY_CHECK_INTERVAL_MS) {
+        lastRecoveryCheck = now;
+        const recovered = await storage.recoverStaleResearchJobs(STALE_JOB_THRESHOLD_MINUTES);
+        if (recovered > 0) {
+          console.log(`[Research] Recovered ${recovered} stale jobs`);
+        }
+      }
+
+      // Research makes many calls; leave Gemini alone until the circuit closes
+      if (getGeminiCircuitState() !== 'open') {
+        const job = await storage.claimNextResearchJob();
+
+        if (job) {
+          const capacityAvailable = await processResearchJob(job);
+          if (capacityAvailable && workerRunning) {
+            setImmediate(poll);
+            return;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[Research] Error in poll cycle:', error);
+    }
+
+    if (workerRunning) {
+      pollInterval = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  poll();
+}
+
+export function stopResearchWorker(): void {
+  workerRunning = false;
+  if (pollInterval) {
+    clearTimeout(pollInterval);
+    pollInterval = null;
+  }
+  console.log('[Research] Stopped');
+}
@@ -0,0 +1,28 @@
+export type ClarificationDimension = "town" | "board" | "year";
+
+/**
+ * Constraints chosen in a clarification turn, applied to the retrieval plan
+ * when the original question is answered.
+ */
+export interface ClarificationConstraints {
+  town?: string;
+  board?: string;
+  year?: number;
+}
+
+export interface ClarificationOption {
+  label: string;
+  constraints: ClarificationConstraints;
+}
+
+/**
+ * Stored on an assistant message that asks the user to narrow a question
+ * instead of answering it. The client renders the options as quick replies;
+ * sending one resumes `originalQuestion` with the option's constraints.
+ */
+export interface ClarificationPrompt {
+  dimension: ClarificationDimension;
+  question: string;
+  options: ClarificationOption[];
+  originalQuestion: string;
+}
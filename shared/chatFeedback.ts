@@ -0,0 +1,57 @@
+export type FeedbackRating = "up" | "down";
+
+export const FEEDBACK_REASON_CODES = {
+  WRONG_TOWN: "wrong_town",
+  OUTDATED: "outdated",
+  MISSING_SOURCE: "missing_source",
+  HALLUCINATED_RSA: "hallucinated_rsa",
+} as const;
+
+export type FeedbackReasonCode = typeof FEEDBACK_REASON_CODES[keyof typeof FEEDBACK_REASON_CODES];
+
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReasonCode, string> = {
+  wrong_town: "Wrong town",
+  outdated: "Outdated",
+  missing_source: "Missing source",
+  hallucinated_rsa: "Made-up RSA",
+};
+
+export const FEEDBACK_COMMENT_MAX_CHARS = 2000;
+
+export interface MessageFeedbackInput {
+  rating: FeedbackRating;
+  reasons?: FeedbackReasonCode[];
+  comment?: string;
+}
+
+export function isFeedbackReasonCode(value: unknown): value is FeedbackReasonCode {
+  return typeof value === "string" && (Object.values(FEEDBACK_REASON_CODES) as string[]).includes(value);
+}
+
+/**
+ * Row in the admin feedback queue: the feedback plus the answer it refers to
+ * and the session's critic scores, when the session has been analyzed.
+ */
+export interface MessageFeedbackQueueItem {
+  id: string;
+  messageId: string;
+  sessionId: string;
+  sessionTitle: string;
+  rating: FeedbackRating;
+  reasons: FeedbackReasonCode[];
+  comment: string | null;
+  actorType: string;
+  answerExcerpt: string;
+  documentQualityScore: number | null;
+  answerQualityScore: number | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface MessageFeedbackQueueResult {
+  items: MessageFeedbackQueueItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
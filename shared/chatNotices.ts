@@ -15,8 +15,10 @@ export const NOTICE_CODES = {
   STATEWIDE_SCOPE: "STATEWIDE_SCOPE",
   MIXED_SCOPE: "MIXED_SCOPE",
   NO_DOCS: "NO_DOCS",
+  NO_MINUTES_IN_RANGE: "NO_MINUTES_IN_RANGE",
   INFO_ONLY: "INFO_ONLY",
   ARCHIVE_NOT_CONFIGURED: "ARCHIVE_NOT_CONFIGURED",
   HIGH_DEMAND: "HIGH_DEMAND",
+  DEGRADED_ANSWER: "DEGRADED_ANSWER",
   PROCESSING_ERROR: "PROCESSING_ERROR",
 } as const;
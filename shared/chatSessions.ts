@@ -0,0 +1,32 @@
+export const CHAT_SESSION_PAGE_SIZE = 20;
+
+export const SESSION_TITLE_MAX_CHARS = 120;
+
+/**
+ * Row in the chat sidebar. Search results also carry a snippet of the first
+ * message that matched, when the match was in the conversation rather than
+ * the title.
+ */
+export interface ChatSessionListItem {
+  id: string;
+  title: string;
+  townPreference: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  matchSnippet?: string;
+}
+
+export interface ChatSessionListResult {
+  items: ChatSessionListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/** PATCH /api/chat/sessions/:id */
+export interface ChatSessionUpdateInput {
+  title?: string;
+  archived?: boolean;
+}
@@ -0,0 +1,40 @@
+import type { ChatV2Response, SourceCitation } from "./schema";
+
+export type ChatStreamStage = "attachments" | "plan" | "retrieval" | "synthesis" | "audit" | "followups";
+
+export type ChatStreamStageStatus = "started" | "completed";
+
+/**
+ * Server-Sent Events emitted by the streaming chat endpoint.
+ * The event name on the wire matches `type`; `data` is the JSON-encoded event.
+ */
+export type ChatStreamEvent =
+  | { type: "queue"; position: number }
+  | { type: "stage"; stage: ChatStreamStage; status: ChatStreamStageStatus }
+  | { type: "ocr"; filename: string; page: number; pageCount: number }
+  | { type: "plan"; localQueryCount: number; stateQueryCount: number; legalSalience: number }
+  | { type: "retrieval"; localCount: number; stateCount: number; earlyExit: boolean }
+  | { type: "token"; text: string }
+  | { type: "audit"; flags: string[]; repairRan: boolean }
+  | { type: "sources"; sources: SourceCitation[] }
+  | { type: "followups"; suggestedFollowUps: string[] }
+  | { type: "done"; response: ChatV2Response }
+  | { type: "error"; message: string };
+
+export type ChatStreamEmitter = (event: ChatStreamEvent) => void;
+
+export const CHAT_STREAM_STAGE_LABELS: Record<ChatStreamStage, string> = {
+  attachments: "Reading attachments",
+  plan: "Planning the search",
+  retrieval: "Searching local and state documents",
+  synthesis: "Writing the answer",
+  audit: "Checking citations",
+  followups: "Suggesting follow-ups",
+};
+
+/**
+ * Serialize an event in SSE wire format.
+ */
+export function formatChatStreamEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
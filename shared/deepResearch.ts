@@ -0,0 +1,53 @@
+export type ResearchJobStatus = "queued" | "running" | "completed" | "failed";
+
+export type ResearchStage = "planning" | "searching" | "gap_filling" | "writing";
+
+/**
+ * Where a deep research job has got to, stored on the job as it runs so the
+ * chat can show it.
+ */
+export interface ResearchProgress {
+  stage: ResearchStage;
+  /** Information needs from the research plan */
+  infoNeedsTotal: number;
+  /** Needs searched at least once */
+  infoNeedsSearched: number;
+  /** Retrieval passes run so far, gap-filling included */
+  passes: number;
+  /** Gap-filling round under way, 0 before the first */
+  gapRound: number;
+  /** Distinct documents gathered so far */
+  sourcesFound: number;
+}
+
+export const RESEARCH_STAGE_LABELS: Record<ResearchStage, string> = {
+  planning: "Planning the research",
+  searching: "Searching the record",
+  gap_filling: "Filling gaps",
+  writing: "Writing the memo",
+};
+
+export type AuthorityKind = "statute" | "ordinance" | "minutes" | "other";
+
+/**
+ * One row of a research memo's table of authorities
+ */
+export interface AuthorityEntry {
+  kind: AuthorityKind;
+  /** "RSA 91-A:2", or the document title */
+  citation: string;
+  /** Meeting date for minutes (YYYY-MM-DD) */
+  date?: string;
+  board?: string;
+  town?: string;
+  url?: string;
+  /** Memo markers ("[n]") that cite it */
+  markers: number[];
+}
+
+export const AUTHORITY_KIND_LABELS: Record<AuthorityKind, string> = {
+  statute: "Statutes (RSA)",
+  ordinance: "Ordinances and local rules",
+  minutes: "Meeting minutes",
+  other: "Other documents",
+};
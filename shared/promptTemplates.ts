@@ -0,0 +1,70 @@
+import type { PromptTemplate } from "./schema";
+
+export const PROMPT_KEYS = ["planner", "synthesis", "followups", "chatAnalytics"] as const;
+
+export type PromptKey = (typeof PROMPT_KEYS)[number];
+
+export const PROMPT_KEY_LABELS: Record<PromptKey, string> = {
+  planner: "Planner (system prompt)",
+  synthesis: "Synthesizer (system prompt)",
+  followups: "Follow-up questions (system prompt)",
+  chatAnalytics: "Chat analytics critique",
+};
+
+/**
+ * The {{placeholders}} each prompt is rendered with. Placeholders a template
+ * leaves out are simply not included in the prompt.
+ */
+export const PROMPT_VARIABLES: Record<PromptKey, string[]> = {
+  planner: [],
+  synthesis: [
+    "wordMin",
+    "wordMax",
+    "paragraphsMin",
+    "paragraphsMax",
+    "headingsRule",
+    "bulletsRule",
+    "answerTemplate",
+    "proseHeadingsRule",
+    "stateCitationRule",
+    "tier",
+    "tierInstructions",
+    "repairNote",
+    "situationLine",
+    "topicsLine",
+  ],
+  followups: [],
+  chatAnalytics: ["transcript"],
+};
+
+/** The built-in prompt in code; used when a key has no live versions */
+export const BUILTIN_PROMPT_VERSION = 0;
+
+/** Prompt version used per key while answering one message */
+export type PromptVersionRecord = Partial<Record<PromptKey, number>>;
+
+export function isPromptKey(value: unknown): value is PromptKey {
+  return typeof value === "string" && (PROMPT_KEYS as readonly string[]).includes(value);
+}
+
+export interface PromptKeySummary {
+  key: PromptKey;
+  label: string;
+  variables: string[];
+  builtinTemplate: string;
+  versions: PromptTemplate[];
+}
+
+export interface PromptPreviewRequest {
+  key: PromptKey;
+  template: string;
+  variables?: Record<string, string>;
+}
+
+export interface PromptPreviewResult {
+  text: string;
+  /** Placeholders in the template this prompt never fills in */
+  unknownVariables: string[];
+  /** Placeholders this prompt fills in that the template leaves out */
+  unusedVariables: string[];
+}
@@ -0,0 +1,36 @@
+export type RecordStrengthLevel = "strong" | "partial" | "thin";
+
+/**
+ * How well the documents found support an answer, carried on
+ * `answerMeta.recordStrength`. The chat shows the level next to the answer
+ * with the reasons behind it.
+ */
+export interface AnswerRecordStrength {
+  level: RecordStrengthLevel;
+  /** Synthesis tier the level comes from: A strong, B partial, C thin */
+  tier: "A" | "B" | "C";
+  /** Plain-language reasons, e.g. "3 state documents" */
+  reasons: string[];
+  distinctStateDocs: number;
+  /** Passages retrieved from local documents */
+  localFacts: number;
+  authoritativeStatePresent: boolean;
+}
+
+export const RECORD_STRENGTH_LEVELS: Record<AnswerRecordStrength["tier"], RecordStrengthLevel> = {
+  A: "strong",
+  B: "partial",
+  C: "thin",
+};
+
+export const RECORD_STRENGTH_LABELS: Record<RecordStrengthLevel, string> = {
+  strong: "Strong record",
+  partial: "Partial record",
+  thin: "Thin record",
+};
+
+export const RECORD_STRENGTH_DESCRIPTIONS: Record<RecordStrengthLevel, string> = {
+  strong: "Several relevant documents, including authoritative state sources, support this answer.",
+  partial: "Some relevant documents support this answer, but parts of it may depend on details not in the record.",
+  thin: "Few relevant documents were found, so this answer is general guidance. Check with your town office before relying on it.",
+};
@@ -1,7 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, numeric, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, numeric, unique, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AnswerRecordStrength } from "./recordStrength";
+import type { ResearchProgress } from "./deepResearch";
 
 export const admins = pgTable("admins", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -85,6 +87,20 @@ export const documentVersions = pgTable("document_versions", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// DocumentChunk: Page-aware text chunks of a version, ranked with Postgres
+// full-text search by the local retrieval provider
+export const documentChunks = pgTable("document_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentVersionId: varchar("document_version_id").notNull().references(() => documentVersions.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  pageNumber: integer("page_number"), // 1-based page the chunk starts on
+  content: text("content").notNull(),
+  town: text("town").notNull(), // copied from the logical document for filtering
+  board: text("board"),
+  category: text("category").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // IngestionJob: Tracks the staging and review pipeline
 export const ingestionJobs = pgTable("ingestion_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -152,6 +168,9 @@ export interface SessionSource {
   title?: string;
   text: string;
   createdAt: string;
+  pinned?: boolean; // Never evicted by newer pastes, always offered as context
+  proposedJobId?: string; // Ingestion job created when the user proposed it for the archive
+  proposalClaimedAt?: string; // Set while that job is being created, so it is created once
 }
 
 // Chat Sessions: Updated with user/anon tracking
@@ -163,6 +182,10 @@ export const chatSessions = pgTable("chat_sessions", {
   townPreference: text("town_preference"), // Session-level town preference override
   situationContext: jsonb("situation_context").$type<SituationContext>(), // Current topic/situation for anchoring
   sessionSources: jsonb("session_sources").$type<SessionSource[]>(), // Ephemeral user-provided content
+  activeMessageId: varchar("active_message_id"), // Leaf of the branch the user is currently viewing
+  titleEditedAt: timestamp("title_edited_at"), // Set when the user renames; auto titles never replace a user's title
+  archivedAt: timestamp("archived_at"), // Hidden from the main list, still searchable
+  deletedAt: timestamp("deleted_at"), // Soft delete: hidden everywhere for the owner, kept for analytics
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -170,12 +193,14 @@ export const chatSessions = pgTable("chat_sessions", {
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => chatSessions.id, { onDelete: "cascade" }),
+  parentId: varchar("parent_id").references((): AnyPgColumn => chatMessages.id, { onDelete: "cascade" }), // Previous message on this branch; null for the first turn
   role: text("role").notNull(),
   content: text("content").notNull(),
   citations: text("citations"),
   attachmentFilename: text("attachment_filename"),
   attachmentMimeType: text("attachment_mime_type"),
   attachmentExtractedText: text("attachment_extracted_text"),
+  situationContext: jsonb("situation_context").$type<SituationContext>(), // Situation in effect after this user turn
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -242,6 +267,26 @@ export const chatAnalytics = pgTable("chat_analytics", {
   analyzedAt: timestamp("analyzed_at").defaultNow().notNull(),
 });
 
+// Message Feedback: End-user thumbs up/down on assistant answers
+export const messageFeedback = pgTable("message_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => chatMessages.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => chatSessions.id, { onDelete: "cascade" }),
+  actorType: text("actor_type").notNull(), // 'user' | 'anon'
+  userId: varchar("user_id").references(() => users.id),
+  anonId: varchar("anon_id").references(() => anonymousUsers.id),
+  rating: text("rating").notNull(), // 'up' | 'down'
+  reasons: text("reasons").array().notNull().default(sql`'{}'::text[]`), // FeedbackReasonCode[]
+  comment: text("comment"),
+  reviewedAt: timestamp("reviewed_at"), // Set when an admin clears it from the queue
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // One row per actor per message; upsertMessageFeedback conflicts on these
+  uniqueIndex("message_feedback_user_unique").on(table.messageId, table.userId).where(sql`user_id IS NOT NULL`),
+  uniqueIndex("message_feedback_anon_unique").on(table.messageId, table.anonId).where(sql`user_id IS NULL`),
+]);
+
 // S3 to Gemini File Search Sync: Tracks files synced from S3 to Gemini stores
 export const s3GeminiSync = pgTable("s3_gemini_sync", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -259,6 +304,124 @@ export const s3GeminiSync = pgTable("s3_gemini_sync", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Corpus Versions: Counter per town (plus "statewide") bumped whenever a
+// document in that scope is indexed, superseded or removed
+export const corpusVersions = pgTable("corpus_versions", {
+  scope: text("scope").primaryKey(), // town name or 'statewide'
+  version: integer("version").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Answer Cache: Answers to standalone questions, reused until the corpus
+// version of their towns changes
+export const answerCache = pgTable("answer_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cacheKey: text("cache_key").notNull().unique(), // sha256 of normalized question + town + corpus version
+  normalizedQuestion: text("normalized_question").notNull(),
+  question: text("question").notNull(), // Wording of the question that produced the answer
+  town: text("town"),
+  corpusVersion: text("corpus_version").notNull(), // e.g. 'Conway:12,statewide:3'
+  answerText: text("answer_text").notNull(),
+  responseData: text("response_data").notNull(), // JSON: sources, suggestedFollowUps, notices
+  hitCount: integer("hit_count").notNull().default(0),
+  lastHitAt: timestamp("last_hit_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Session Shares: Read-only snapshots of a session published under an
+// unguessable token. The snapshot is frozen at share time; revoking hides it.
+export const sessionShares = pgTable("session_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: text("token").notNull().unique(), // Random URL-safe token used in /shared/:token
+  sessionId: varchar("session_id").notNull().references(() => chatSessions.id, { onDelete: "cascade" }),
+  actorType: text("actor_type").notNull(), // 'user' | 'anon'
+  userId: varchar("user_id").references(() => users.id),
+  anonId: varchar("anon_id").references(() => anonymousUsers.id),
+  title: text("title").notNull(),
+  town: text("town"),
+  snapshot: text("snapshot").notNull(), // JSON: SharedSessionMessage[]
+  includesAttachmentText: boolean("includes_attachment_text").notNull().default(false),
+  viewCount: integer("view_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// RSA Sections: Canonical statute text, one row per section, so a cited
+// "RSA 91-A:2" resolves to exactly that section instead of a search hit
+export const rsaSections = pgTable("rsa_sections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(), // Roman numeral, e.g. 'VI'
+  titleName: text("title_name"), // e.g. 'Public Officers and Employees'
+  chapter: text("chapter").notNull(), // e.g. '91-A'
+  chapterName: text("chapter_name"), // e.g. 'Access to Governmental Records and Meetings'
+  section: text("section").notNull(), // e.g. '2' or '5-b'
+  citation: text("citation").notNull().unique(), // chapter:section, e.g. '91-A:2'
+  heading: text("heading"), // e.g. 'Meetings Open to Public'
+  body: text("body").notNull(),
+  sourceUrl: text("source_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Prompt Templates: Versioned text for the LLM prompts. Live versions of a
+// key split sessions by traffic weight; a key with none live uses the
+// built-in prompt in code (version 0)
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull(), // 'planner' | 'synthesis' | 'followups' | 'chatAnalytics'
+  version: integer("version").notNull(), // 1, 2, ... per key
+  template: text("template").notNull(), // Prompt text with {{placeholder}} variables
+  notes: text("notes"),
+  trafficWeight: integer("traffic_weight").notNull().default(0), // Relative share of sessions; 0 = not live
+  createdBy: text("created_by"), // Admin email
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("prompt_templates_key_version_unique").on(table.key, table.version),
+]);
+
+// Queued Questions: Chat questions that hit the Gemini quota and that the
+// user asked to have answered later. A worker answers them once capacity
+// returns and delivers the answer into the session.
+export const queuedQuestions = pgTable("queued_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => chatSessions.id, { onDelete: "cascade" }),
+  placeholderMessageId: varchar("placeholder_message_id").notNull().unique().references(() => chatMessages.id, { onDelete: "cascade" }), // The "high demand" answer being replaced
+  actorType: text("actor_type").notNull(), // 'user' | 'anon'
+  userId: varchar("user_id").references(() => users.id),
+  anonId: varchar("anon_id").references(() => anonymousUsers.id),
+  status: text("status").notNull().default("queued"), // 'queued' | 'answering' | 'delivered' | 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  answerMessageId: varchar("answer_message_id"), // Set once delivered
+  startedAt: timestamp("started_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Research Jobs: Deep research questions from paying users and municipal
+// staff. A worker runs several retrieval passes per information need and
+// delivers a memo into the session as the answer to the question.
+export const researchJobs = pgTable("research_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => chatSessions.id, { onDelete: "cascade" }),
+  questionMessageId: varchar("question_message_id").notNull().unique().references(() => chatMessages.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  question: text("question").notNull(),
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'completed' | 'failed'
+  progress: jsonb("progress").$type<ResearchProgress>(),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  memoMessageId: varchar("memo_message_id"), // Set once delivered
+  notifiedAt: timestamp("notified_at"), // When the user was told the job finished
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // At most one memo in progress per conversation; startResearchJob conflicts on it
+  uniqueIndex("research_jobs_active_session_unique").on(table.sessionId).where(sql`status IN ('queued', 'running')`),
+]);
+
 // Document metadata schema for validation
 export const ALLOWED_CATEGORIES = [
   "budget", "zoning", "meeting_minutes", "town_report", "warrant_article",
@@ -321,6 +484,11 @@ export const insertDocumentVersionSchema = createInsertSchema(documentVersions).
   createdAt: true,
 });
 
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertIngestionJobSchema = createInsertSchema(ingestionJobs).omit({
   id: true,
   createdAt: true,
@@ -336,6 +504,7 @@ export const insertChatSessionSchema = createInsertSchema(chatSessions).omit({
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   id: true,
   createdAt: true,
+  situationContext: true,
 });
 
 export const insertAdminSchema = createInsertSchema(admins).omit({
@@ -378,6 +547,49 @@ export const insertChatAnalyticsSchema = createInsertSchema(chatAnalytics).omit(
   analyzedAt: true,
 });
 
+export const insertMessageFeedbackSchema = createInsertSchema(messageFeedback).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAnswerCacheSchema = createInsertSchema(answerCache).omit({
+  id: true,
+  hitCount: true,
+  lastHitAt: true,
+  createdAt: true,
+});
+
+export const insertSessionShareSchema = createInsertSchema(sessionShares).omit({
+  id: true,
+  viewCount: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export const insertRsaSectionSchema = createInsertSchema(rsaSections).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQueuedQuestionSchema = createInsertSchema(queuedQuestions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertResearchJobSchema = createInsertSchema(researchJobs).omit({
+  id: true,
+  progress: true, // Written by the worker as the job runs
+  createdAt: true,
+});
+
 export const insertS3GeminiSyncSchema = createInsertSchema(s3GeminiSync).omit({
   id: true,
   createdAt: true,
@@ -399,6 +611,9 @@ export type InsertLogicalDocument = z.infer<typeof insertLogicalDocumentSchema>;
 export type DocumentVersion = typeof documentVersions.$inferSelect;
 export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
 
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+
 export type IngestionJob = typeof ingestionJobs.$inferSelect;
 export type InsertIngestionJob = z.infer<typeof insertIngestionJobSchema>;
 
@@ -430,6 +645,37 @@ export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type ChatAnalytics = typeof chatAnalytics.$inferSelect;
 export type InsertChatAnalytics = z.infer<typeof insertChatAnalyticsSchema>;
 
+export type MessageFeedback = typeof messageFeedback.$inferSelect;
+export type InsertMessageFeedback = z.infer<typeof insertMessageFeedbackSchema>;
+
+export type CorpusVersion = typeof corpusVersions.$inferSelect;
+
+export type AnswerCacheEntry = typeof answerCache.$inferSelect;
+export type InsertAnswerCacheEntry = z.infer<typeof insertAnswerCacheSchema>;
+
+export type SessionShare = typeof sessionShares.$inferSelect;
+export type InsertSessionShare = z.infer<typeof insertSessionShareSchema>;
+
+export type RsaSection = typeof rsaSections.$inferSelect;
+export type InsertRsaSection = z.infer<typeof insertRsaSectionSchema>;
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+
+export type QueuedQuestion = typeof queuedQuestions.$inferSelect;
+export type InsertQueuedQuestion = z.infer<typeof insertQueuedQuestionSchema>;
+export type QueuedQuestionSummary = Pick<
+  QueuedQuestion,
+  "id" | "placeholderMessageId" | "status" | "answerMessageId" | "createdAt" | "deliveredAt"
+>;
+
+export type ResearchJob = typeof researchJobs.$inferSelect;
+export type InsertResearchJob = z.infer<typeof insertResearchJobSchema>;
+export type ResearchJobSummary = Pick<
+  ResearchJob,
+  "id" | "sessionId" | "questionMessageId" | "question" | "status" | "progress" | "memoMessageId" | "createdAt" | "completedAt"
+>;
+
 export type S3GeminiSync = typeof s3GeminiSync.$inferSelect;
 export type InsertS3GeminiSync = z.infer<typeof insertS3GeminiSyncSchema>;
 
@@ -439,7 +685,7 @@ export type S3SyncStatus = 'pending' | 'synced' | 'failed';
 // Actor types for identity tracking
 export type ActorType = 'user' | 'anon';
 export type UserRole = 'user' | 'admin' | 'municipal_admin';
-export type LlmStage = 'router' | 'retrievalPlanner' | 'synthesis' | 'followups' | 'simpleAnswer' | 'critic' | 'evidenceGate' | 'other';
+export type LlmStage = 'router' | 'retrievalPlanner' | 'synthesis' | 'followups' | 'simpleAnswer' | 'critic' | 'evidenceGate' | 'sessionTitle' | 'other';
 export type LlmProvider = 'google' | 'openai' | 'other';
 
 // Status types for ingestion jobs
@@ -476,13 +722,35 @@ export interface SourceCitation {
   year?: string;
   category?: string;
   url?: string;
+  meetingDate?: string;
+  board?: string;
+  marker?: number;
+  snippet?: string;
+  documentVersionId?: string;
 }
 
+/**
+ * Fork the conversation instead of continuing the active branch: "edit"
+ * replaces a user message with new content, "regenerate" re-answers the
+ * question behind an assistant message. Either way a sibling is created.
+ */
+export interface ChatBranchRequest {
+  mode: "edit" | "regenerate";
+  messageId: string;
+}
+
+/**
+ * Message on the active branch, with the ids of every alternative at the
+ * same position (including itself) in creation order.
+ */
+export type BranchedChatMessage = ChatMessage & { siblingIds: string[] };
+
 export interface ChatV2AnswerMeta {
   complexity: ComplexityLevel;
   requiresClarification: boolean;
   criticScore: CriticScore;
   limitationsNote?: string;
+  recordStrength?: AnswerRecordStrength;
 }
 
 export interface ChatV2Response {
@@ -0,0 +1,39 @@
+import type { SourceCitation } from "./schema";
+import type { ChatNotice } from "./chatNotices";
+
+/**
+ * One message of a shared session, frozen at share time. Attachment text is
+ * only present when the owner opted in when creating the link.
+ */
+export interface SharedSessionMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+  attachmentFilename: string | null;
+  attachmentExtractedText?: string;
+  sources: SourceCitation[];
+  notices: ChatNotice[];
+  missingFacets: string[];
+}
+
+/** Public payload served at /api/shared/:token */
+export interface SharedSessionSnapshot {
+  title: string;
+  town: string | null;
+  sharedAt: string;
+  messages: SharedSessionMessage[];
+}
+
+/** A share link as listed to the session owner */
+export interface SessionShareLink {
+  id: string;
+  token: string;
+  includesAttachmentText: boolean;
+  viewCount: number;
+  createdAt: string;
+}
+
+export interface CreateSessionShareInput {
+  includeAttachmentText?: boolean;
+}
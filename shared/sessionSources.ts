@@ -0,0 +1,26 @@
+import type { SessionSource } from "./schema";
+
+/**
+ * A session source as listed to the session owner. Only a preview of the
+ * text is sent; `charCount` is the length of what the assistant carries.
+ */
+export interface SessionSourceSummary {
+  id: string;
+  type: SessionSource["type"];
+  title: string | null;
+  charCount: number;
+  preview: string;
+  pinned: boolean;
+  proposedJobId: string | null;
+  createdAt: string;
+}
+
+export interface UpdateSessionSourceInput {
+  title?: string;
+  pinned?: boolean;
+}
+
+export const SESSION_SOURCE_TITLE_MAX_CHARS = 120;
+
+/** Pinned sources are never dropped, so the context they add is capped */
+export const MAX_PINNED_SESSION_SOURCES = 3;